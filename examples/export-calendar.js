@@ -0,0 +1,38 @@
+const { Sigaa, SigaaCalendarExporter } = require('sigaa-api');
+const fs = require('fs');
+
+const sigaa = new Sigaa({
+  url: 'https://sigaa.ifsc.edu.br',
+  institution: 'IFSC'
+});
+
+// coloque seu usuário
+const username = '';
+const password = '';
+
+const main = async () => {
+  const account = await sigaa.login(username, password); // login
+
+  const bonds = await account.getActiveBonds();
+  const exporter = new SigaaCalendarExporter();
+
+  //Para cada vínculo
+  for (const bond of bonds) {
+    if (bond.type !== 'student') continue; // O tipo pode ser student ou teacher
+
+    // Aulas semanais, avaliações e prazos das atividades
+    const calendar = await exporter.exportStudentBond(bond, {
+      endDate: new Date(2021, 11, 17) // Último dia das aulas
+    });
+
+    // O arquivo pode ser importado no Google Agenda, Outlook, etc.
+    fs.writeFileSync(`sigaa-${bond.registration}.ics`, calendar);
+  }
+
+  // Encerra a sessão
+  await account.logoff();
+};
+
+main().catch((err) => {
+  if (err) console.log(err);
+});
@@ -2,7 +2,12 @@ const { Sigaa } = require('sigaa-api');
 
 const sigaa = new Sigaa({
   url: 'https://sigaa.ifsc.edu.br',
-  institution: 'IFSC'
+  institution: 'IFSC',
+  // Limita as requisições para o SIGAA não responder com erros, o padrão é sem limite
+  requestLimits: {
+    requestsPerSecond: 4,
+    maxInFlight: 2
+  }
 });
 
 // coloque seu usuário
@@ -60,6 +60,17 @@ const main = async () => {
 
         // A data de termino para envio da tarefa
         console.log('Data de início: ' + homework.endDate);
+
+        // Nota e comentário do professor, pode gerar um erro se a tarefa não foi enviada
+        if (await homework.getFlagHaveGrade()) {
+          try {
+            const correction = await homework.getCorrection();
+            console.log('Nota: ' + correction.grade + '/' + correction.maxGrade);
+            console.log('Comentário: ' + correction.comment);
+          } catch (err) {
+            console.log(err.message);
+          }
+        }
         console.log('');
       }
       console.log('');
@@ -0,0 +1,50 @@
+const { Sigaa } = require('sigaa-api');
+
+const sigaa = new Sigaa({
+  url: 'https://sigaa.ifsc.edu.br',
+  institution: 'IFSC'
+});
+
+// coloque seu usuário
+const username = '';
+const password = '';
+
+const main = async () => {
+  const account = await sigaa.login(username, password); // login
+
+  const bonds = await account.getActiveBonds();
+
+  //Para cada vínculo
+  for (const bond of bonds) {
+    if (bond.type !== 'teacher') continue; // O tipo pode ser student ou teacher
+
+    //Se o tipo do vínculo for teacher, então tem SIAPE e unidade
+    console.log('SIAPE do vínculo: ' + bond.registration);
+    console.log('Unidade do vínculo: ' + bond.department);
+
+    // Se for usado bond.getCourses(true); todas as turmas são retornadas, incluindo turmas de outros semestres
+    const courses = await bond.getCourses();
+
+    // Para cada turma
+    for (const course of courses) {
+      // Nome da turma
+      console.log(' > ' + course.title);
+      // Semestre
+      console.log(course.period);
+
+      // Alunos matriculados na turma
+      const students = await course.getStudents();
+      for (const student of students) {
+        console.log(student.registration + ' - ' + student.name);
+      }
+      console.log(''); // Apenas para separar as linhas
+    }
+  }
+
+  // Encerra a sessão
+  await account.logoff();
+};
+
+main().catch((err) => {
+  if (err) console.log(err);
+});
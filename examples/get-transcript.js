@@ -0,0 +1,51 @@
+const { Sigaa } = require('sigaa-api');
+
+const sigaa = new Sigaa({
+  url: 'https://sigaa.ifsc.edu.br',
+  institution: 'IFSC'
+});
+
+// coloque seu usuário
+const username = '';
+const password = '';
+
+const main = async () => {
+  const account = await sigaa.login(username, password); // login
+
+  const bonds = await account.getActiveBonds();
+
+  //Para cada vínculo
+  for (const bond of bonds) {
+    if (bond.type !== 'student') continue; // O tipo pode ser student ou teacher
+
+    // Histórico do aluno
+    const transcript = await bond.getTranscript();
+
+    console.log('MC: ' + transcript.mc);
+    console.log('IRA: ' + transcript.ira);
+    console.log('Carga horária integralizada: ' + transcript.hoursCompleted);
+    console.log('Carga horária pendente: ' + transcript.hoursPending);
+
+    // Disciplinas cursadas
+    for (const course of transcript.courses) {
+      console.log(
+        course.period + ' ' + course.code + ' - ' + course.name + ': ' + course.statusText
+      );
+      console.log('Nota final: ' + course.grade);
+      console.log('Faltas: ' + course.absences);
+    }
+
+    // Baixa o PDF do histórico e o atestado de matrícula, o caminho deve ser uma pasta existente
+    const transcriptPath = await bond.downloadTranscriptPDF('.');
+    console.log('Histórico salvo em: ' + transcriptPath);
+    const certificatePath = await bond.downloadEnrollmentCertificate('.');
+    console.log('Atestado salvo em: ' + certificatePath);
+  }
+
+  // Encerra a sessão
+  await account.logoff();
+};
+
+main().catch((err) => {
+  if (err) console.log(err);
+});
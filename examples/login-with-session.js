@@ -1,30 +1,43 @@
-const { Sigaa, SigaaCookiesController } = require('sigaa-api');
+const { Sigaa } = require('sigaa-api');
+const fs = require('fs');
 
-const sigaaURL = new URL('https://sigaa.ifsc.edu.br');
+const url = 'https://sigaa.ifsc.edu.br';
 const institution = 'IFSC';
 
-const cookie = "" // coloque seu cookie JSESSIONID
-const JSESSIONID = `JSESSIONID=${cookie}`;
+// coloque seu usuário
+const username = '';
+const password = '';
+
+// O arquivo tem os cookies da sessão, guarde-o em local seguro
+const sessionFile = 'sigaa-session.json';
 
 const main = async () => {
-        const cookiesController = new SigaaCookiesController();
-        cookiesController.storeCookies(sigaaURL.hostname, [JSESSIONID]);
+  let sigaa;
+  let account;
 
-        const sigaa = new Sigaa({
-            url: sigaaURL.href,
-            institution,
-            cookiesController
-        });
+  if (fs.existsSync(sessionFile)) {
+    // Restaura a sessão salva
+    const sessionState = JSON.parse(fs.readFileSync(sessionFile, 'utf8'));
+    sigaa = new Sigaa({ url, institution, sessionState });
+    try {
+      account = await sigaa.resumeSession();
+    } catch (err) {
+      // A sessão expirou
+      account = await sigaa.login(username, password);
+    }
+  } else {
+    sigaa = new Sigaa({ url, institution });
+    account = await sigaa.login(username, password);
+  }
 
-        const http = sigaa.httpFactory.createHttp();
-        const page = await http.get("/sigaa/vinculos.jsf");
-        const account = await sigaa.accountFactory.getAccount(page);
+  console.log('> Nome: ' + (await account.getName()));
+  console.log('> Emails: ' + (await account.getEmails()).join(', '));
+  console.log('> Url foto: ' + (await account.getProfilePictureURL()));
 
-        console.log('> Nome: ' + (await account.getName()));
-        console.log('> Emails: ' + (await account.getEmails()).join(', '));
-        console.log('> Url foto: ' + (await account.getProfilePictureURL()));
-}
+  // Salva a sessão para a próxima execução, sem fazer logoff
+  fs.writeFileSync(sessionFile, JSON.stringify(sigaa.exportSession()));
+};
 
 main().catch((err) => {
-    if (err) console.log(err);
-});
\ No newline at end of file
+  if (err) console.log(err);
+});
@@ -0,0 +1,34 @@
+const { Sigaa } = require('sigaa-api');
+
+// coloque seu usuário
+const username = '';
+const password = '';
+
+// Grava as requisições em ./fixtures, as senhas e os cookies são removidos
+const recorder = new Sigaa({
+  url: 'https://sigaa.ifsc.edu.br',
+  institution: 'IFSC',
+  httpFixtures: { mode: 'record', directory: './fixtures' }
+});
+
+// Responde com as requisições gravadas, sem acesso à rede
+const replay = new Sigaa({
+  url: 'https://sigaa.ifsc.edu.br',
+  institution: 'IFSC',
+  httpFixtures: { mode: 'replay', directory: './fixtures' }
+});
+
+const printName = async (sigaa) => {
+  const account = await sigaa.login(username, password);
+  console.log(await account.getName());
+  sigaa.close();
+};
+
+const main = async () => {
+  await printName(recorder);
+  await printName(replay);
+};
+
+main().catch((err) => {
+  if (err) console.log(err);
+});
@@ -0,0 +1,55 @@
+const { Sigaa } = require('sigaa-api');
+
+const sigaa = new Sigaa({
+  url: 'https://sigaa.ifsc.edu.br',
+  institution: 'IFSC'
+});
+
+// coloque seu usuário
+const username = '';
+const password = '';
+
+const main = async () => {
+  const account = await sigaa.login(username, password); // login
+
+  const bonds = await account.getActiveBonds();
+
+  //Para cada vínculo
+  for (const bond of bonds) {
+    if (bond.type !== 'teacher') continue;
+
+    const courses = await bond.getCourses();
+
+    // Para cada turma
+    for (const course of courses) {
+      console.log(' > ' + course.title);
+
+      // Planilha de notas da turma (Lançar Notas)
+      const gradeSheet = await course.getGradeSheet();
+
+      for (const student of gradeSheet.students) {
+        console.log(student.registration + ' - ' + student.name);
+        for (const gradeGroup of student.grades) {
+          console.log('  ' + gradeGroup.name + ': ' + gradeGroup.value);
+        }
+      }
+
+      // Altera a nota de um aluno, o segundo parâmetro é o código da avaliação
+      // ou o nome da unidade se a unidade não tiver avaliações
+      // gradeSheet.setGrade('123456789', 'P1', 7.5);
+
+      // Salva as notas sem publicar para os alunos
+      // await gradeSheet.save();
+
+      // Ou salva e publica as notas
+      // await gradeSheet.publish();
+    }
+  }
+
+  // Encerra a sessão
+  await account.logoff();
+};
+
+main().catch((err) => {
+  if (err) console.log(err);
+});
@@ -0,0 +1,62 @@
+const { Sigaa } = require('sigaa-api');
+
+const fs = require('fs');
+const { PassThrough } = require('stream');
+
+const sigaa = new Sigaa({
+  url: 'https://sigaa.ifsc.edu.br',
+  institution: 'IFSC'
+});
+
+// coloque seu usuário
+const username = '';
+const password = '';
+
+const main = async () => {
+  const account = await sigaa.login(username, password); // login
+
+  const bonds = await account.getActiveBonds();
+
+  for (const bond of bonds) {
+    if (bond.type !== 'student') continue; // O tipo pode ser student ou teacher
+
+    const courses = await bond.getCourses();
+    for (const course of courses) {
+      const files = await course.getFiles();
+      for (const file of files) {
+        console.log(file.title);
+
+        // Baixa para um arquivo, se o download for interrompido o arquivo .part é retomado na próxima vez
+        const filepath = await file.download('.');
+        console.log('Salvo em: ' + filepath);
+
+        // O downloadVerified também confere o tamanho e retorna o SHA-256
+        const saved = await file.downloadVerified('.');
+        console.log('SHA-256: ' + saved.sha256);
+
+        // Envia para um stream de escrita, por exemplo o upload para outro armazenamento, sem salvar no disco
+        const upload = new PassThrough(); // substitua pelo stream do seu armazenamento
+        upload.resume();
+        const uploaded = await file.downloadVerified(upload);
+        console.log('Tamanho enviado: ' + uploaded.size + ' bytes');
+
+        // Ou abre o arquivo como um stream de leitura
+        const readStream = await file.openReadStream();
+        console.log('Nome do arquivo: ' + readStream.filename);
+        readStream.pipe(fs.createWriteStream('copia-' + readStream.filename));
+        await new Promise((resolve, reject) => {
+          readStream.on('end', resolve);
+          readStream.on('error', reject); // O tamanho é diferente do Content-Length ou a conexão caiu
+        });
+        console.log('SHA-256 da cópia: ' + readStream.getResult().sha256);
+      }
+    }
+  }
+
+  // Encerra a sessão
+  await account.logoff();
+};
+
+main().catch((err) => {
+  if (err) console.log(err);
+});
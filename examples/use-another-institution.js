@@ -12,4 +12,59 @@ const sigaa = new Sigaa({
   institution: 'UFPB' // esta propriedade indica a instituição, o padrão é IFSC, mas pode ser UFPB também
 });
 
+// Ou só com a url, a instituição é detectada pela página de login no primeiro login
+const sigaa = new Sigaa({
+  url: 'https://sigaa.unb.br'
+});
+
 // Se você quiser suporte a outra instituição, você pode testar com o padrão IFSC ou UFPB e abrir um issue com o erro gerado.
+// Se nenhuma instituição for parecida, o login lança SigaaUnsupportedVariantError com as diferenças encontradas.
+// Se mais de uma for igual e a url não indicar qual, o login lança SigaaAmbiguousVariantError, então informe a instituição.
+
+// Ou registrar um perfil para a instituição, partindo de um perfil parecido
+const { institutionRegistry } = require('sigaa-api');
+
+const unb = institutionRegistry.getProfile('UNB');
+institutionRegistry.register({
+  ...unb,
+  institution: 'UFRN',
+  login: {
+    ...unb.login,
+    // textos que só aparecem na página depois de entrar
+    successMarkers: ['Portal do Discente', 'Vínculos']
+  },
+  homepage: {
+    ...unb.homepage,
+    activeBondStatuses: ['ATIVO', 'CURSANDO']
+  },
+  // grade de horários usada para interpretar os horários das turmas
+  timeGrid: {
+    morning: [
+      ['07:00', '07:50'],
+      ['07:50', '08:40'],
+      ['08:55', '09:45'],
+      ['09:45', '10:35'],
+      ['10:50', '11:40'],
+      ['11:40', '12:30']
+    ],
+    afternoon: [
+      ['13:00', '13:50'],
+      ['13:50', '14:40'],
+      ['14:55', '15:45'],
+      ['15:45', '16:35'],
+      ['16:50', '17:40'],
+      ['17:40', '18:30']
+    ],
+    night: [
+      ['18:45', '19:35'],
+      ['19:35', '20:25'],
+      ['20:35', '21:25'],
+      ['21:25', '22:15']
+    ]
+  }
+});
+
+const sigaa = new Sigaa({
+  url: 'https://sigaa.ufrn.br',
+  institution: 'UFRN'
+});
@@ -0,0 +1,56 @@
+const { Sigaa, SigaaWatcher } = require('sigaa-api');
+
+const sigaa = new Sigaa({
+  url: 'https://sigaa.ifsc.edu.br',
+  institution: 'IFSC'
+});
+
+// coloque seu usuário
+const username = '';
+const password = '';
+
+const main = async () => {
+  const account = await sigaa.login(username, password); // login
+
+  // Verifica as notas e notícias a cada 30 minutos e as atividades a cada hora
+  const watcher = new SigaaWatcher(account, {
+    resources: ['grade', 'news', 'activity'],
+    interval: {
+      grade: 30 * 60 * 1000,
+      news: 30 * 60 * 1000,
+      activity: 60 * 60 * 1000
+    },
+    // Faz login novamente se a sessão expirar
+    login: () => sigaa.login(username, password)
+  });
+
+  watcher.on('grade', (change, course) => {
+    console.log(course.title + ': ' + change.grade.name + ' = ' + change.grade.value);
+  });
+
+  watcher.on('news', (change, course) => {
+    if (change.type === 'news-added')
+      console.log(course.title + ' - Nova notícia: ' + change.news.title);
+  });
+
+  watcher.on('activity', (activity) => {
+    console.log('Nova atividade em ' + activity.courseTitle);
+  });
+
+  watcher.on('error', (err) => {
+    console.log(err);
+  });
+
+  // Começa a verificar depois de adicionar os eventos, o evento de erro é obrigatório
+  watcher.start();
+
+  // Encerra depois de um dia
+  setTimeout(async () => {
+    watcher.close();
+    await account.logoff();
+  }, 24 * 60 * 60 * 1000);
+};
+
+main().catch((err) => {
+  if (err) console.log(err);
+});
@@ -4,11 +4,9 @@ import { HTTP } from '@session/sigaa-http';
 import { Page } from '@session/sigaa-page';
 import { Session } from '@session/sigaa-session';
 import { Account } from './sigaa-account';
-import { SigaaAccountIFSC } from './sigaa-account-ifsc';
-import { SigaaAccountUFPB } from './sigaa-account-ufpb';
-import { SigaaAccountUNILAB } from './sigaa-account-unilab';
-import { SigaaAccountUNB } from './sigaa-account-unb';
-import { SigaaAccountInstitutionMap } from '@session/sigaa-institution-controller';
+import { SigaaAccountBeta } from './sigaa-account-beta';
+import { SigaaAccountClassic } from './sigaa-account-classic';
+import { institutionRegistry } from '@session/sigaa-institution-registry';
 
 /**
  * Abstraction to represent the class that instantiates the account.
@@ -39,18 +37,16 @@ export class SigaaAccountFactory implements AccountFactory {
    * @param page home page of account (page after login).
    */
   async getAccount(page: Page): Promise<Account> {
-    const SigaaAccountInstitution: SigaaAccountInstitutionMap = {
-      IFSC: SigaaAccountIFSC,
-      UFPB: SigaaAccountUFPB,
-      UNB: SigaaAccountUNB,
-      UNILAB: SigaaAccountUNILAB
-    };
-    return new SigaaAccountInstitution[this.session.institution](
+    const profile = institutionRegistry.getProfile(this.session.institution);
+    const SigaaAccountLayout =
+      profile.portalLayout === 'beta' ? SigaaAccountBeta : SigaaAccountClassic;
+    return new SigaaAccountLayout(
       page,
       this.http,
       this.parser,
       this.session,
-      this.bondFactory
+      this.bondFactory,
+      profile.homepage
     );
   }
 }
@@ -1,10 +1,8 @@
 import { ProgressCallback } from '@session/sigaa-http';
 import { URL } from 'url';
 import { BondType } from '@bonds/sigaa-bond-factory';
-import { SigaaAccountIFSC } from './sigaa-account-ifsc';
-import { SigaaAccountUFPB } from './sigaa-account-ufpb';
-import { SigaaAccountUNB } from './sigaa-account-unb';
-import { SigaaAccountUNILAB } from './sigaa-account-unilab';
+import { SigaaAccountBeta } from './sigaa-account-beta';
+import { SigaaAccountClassic } from './sigaa-account-classic';
 
 /**
  * Abstraction of account type.
@@ -65,16 +63,12 @@ export interface Account {
    * Change the password of account.
    * @param oldPassword current password.
    * @param newPassword new password.
-   * @throws {errorInvalidCredentials} If current password is not correct.
+   * @throws {SigaaInvalidCredentialsError} If current password is not correct.
    * @throws {errorInsufficientPasswordComplexity} If the new password does not have the complexity requirement.
    */
   changePassword(oldPassword: string, newPassword: string): Promise<void>;
 }
 
-export type SigaaAccountInstitution =
-  | SigaaAccountIFSC
-  | SigaaAccountUFPB
-  | SigaaAccountUNB
-  | SigaaAccountUNILAB;
+export type SigaaAccountInstitution = SigaaAccountClassic | SigaaAccountBeta;
 
 export type CommonSigaaAccount = Account & SigaaAccountInstitution;
@@ -1,6 +1,7 @@
 import { StudentBond } from '@bonds/sigaa-student-bond';
 import { Exam } from '@courseResources/sigaa-exam-student';
 import { CourseStudent } from '@courses/sigaa-course-student';
+import { SigaaParseError } from '../sigaa-errors';
 
 /**
  *
@@ -73,11 +74,11 @@ export class SigaaActivityExam implements ActivityExam {
       (course) => course.title === this.courseTitle
     );
     if (validCourses.length === 0)
-      throw new Error(
+      throw new SigaaParseError(
         'SIGAA: No course with title specified in the found activity.'
       );
     if (validCourses.length > 1)
-      throw new Error(
+      throw new SigaaParseError(
         'SIGAA: It was not possible to identify the course as there is more than one course with the same title specified in the activity.'
       );
     return validCourses[0];
@@ -93,11 +94,11 @@ export class SigaaActivityExam implements ActivityExam {
       (exam) => exam.description === this.examDescription
     );
     if (validExams.length === 0)
-      throw new Error(
+      throw new SigaaParseError(
         'SIGAA: Exam description specified in activity not found.'
       );
     if (validExams.length > 1)
-      throw new Error(
+      throw new SigaaParseError(
         'SIGAA: The exam description specified in the activity corresponds to more than one exam.'
       );
     return validExams[0];
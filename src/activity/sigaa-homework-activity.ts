@@ -2,6 +2,7 @@ import { Homework } from '@attachments/sigaa-homework-student';
 import { StudentBond } from '@bonds/sigaa-student-bond';
 import { CourseStudent } from '@courses/sigaa-course-student';
 import { SigaaForm } from '@session/sigaa-page';
+import { SigaaParseError } from '../sigaa-errors';
 
 /**
  *
@@ -96,7 +97,7 @@ export class SigaaActivityHomework implements ActivityHomework {
     const courses = await this.studentBond.getCourses();
     const course = courses.find((course) => course.id === this.courseId);
     if (!course)
-      throw new Error(
+      throw new SigaaParseError(
         'SIGAA: Cannot find the course referenced by the activity.'
       );
     return course;
@@ -112,7 +113,7 @@ export class SigaaActivityHomework implements ActivityHomework {
       (homework) => homework.id === this.homeworkId
     );
     if (!homework)
-      throw new Error(
+      throw new SigaaParseError(
         'SIGAA: Cannot find the homework referenced by the activity.'
       );
     return homework;
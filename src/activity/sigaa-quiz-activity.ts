@@ -2,6 +2,7 @@ import { Quiz } from '@attachments/sigaa-quiz-student';
 import { StudentBond } from '@bonds/sigaa-student-bond';
 import { CourseStudent } from '@courses/sigaa-course-student';
 import { SigaaForm } from '@session/sigaa-page';
+import { SigaaParseError } from '../sigaa-errors';
 
 /**
  *
@@ -58,7 +59,7 @@ export class SigaaActivityQuiz implements ActivityQuiz {
    */
   get quizId(): string {
     if (!this.activityData.form.postValues)
-      throw new Error('SIGAA: Activity Quiz form without id.');
+      throw new SigaaParseError('SIGAA: Activity Quiz form without id.');
     return this.activityData.form.postValues['id'];
   }
 
@@ -74,7 +75,7 @@ export class SigaaActivityQuiz implements ActivityQuiz {
    */
   get courseId(): string {
     if (!this.activityData.form.postValues['idTurma'])
-      throw new Error('SIGAA: Activity Quiz form without idTurma.');
+      throw new SigaaParseError('SIGAA: Activity Quiz form without idTurma.');
     return this.activityData.form.postValues['idTurma'];
   }
 
@@ -92,7 +93,7 @@ export class SigaaActivityQuiz implements ActivityQuiz {
     const courses = await this.studentBond.getCourses();
     const course = courses.find((course) => course.id === this.courseId);
     if (!course)
-      throw new Error(
+      throw new SigaaParseError(
         'SIGAA: Cannot find the course referenced by the activity.'
       );
     return course;
@@ -106,7 +107,7 @@ export class SigaaActivityQuiz implements ActivityQuiz {
     const quizzes = await course.getQuizzes();
     const quiz = quizzes.find((quiz) => quiz.id === this.quizId);
     if (!quiz)
-      throw new Error(
+      throw new SigaaParseError(
         'SIGAA: Cannot find the quiz referenced by the activity.'
       );
     return quiz;
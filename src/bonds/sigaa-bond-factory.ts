@@ -1,11 +1,18 @@
 import { ActivityFactory } from '@activity/sigaa-activity-factory';
 import { CourseFactory } from '@courses/sigaa-course-student-factory';
 import { Parser } from '@helpers/sigaa-parser';
+import {
+  ScheduleTimeGrid,
+  SigaaScheduleParser
+} from '@helpers/sigaa-schedule-parser';
 import { HTTP } from '@session/sigaa-http';
 import { HTTPFactory } from '@session/sigaa-http-factory';
+import { Session } from '@session/sigaa-session';
+import { institutionRegistry } from '@session/sigaa-institution-registry';
 import { URL } from 'url';
 import { SigaaStudentBond, StudentBond } from './sigaa-student-bond';
 import { SigaaTeacherBond, TeacherBond } from './sigaa-teacher-bond';
+import { SigaaTranscriptParser } from './sigaa-transcript';
 
 /**
  * Union of all bonds (StudentBont and TeacherBond).
@@ -33,8 +40,16 @@ export interface BondFactory {
 
   /**
    * Creates a teacher bond instance.
+   *
+   * @param registration It is the teacher registration code, in IFSC it is called "SIAPE".
+   * @param department It's the name of the teacher department, in IFSC it is called "unidade".
+   * @param bondSwitchUrl If the user has more than one bond, the bond link will be used to change the bond
    */
-  createTeacherBond(): TeacherBond;
+  createTeacherBond(
+    registration: string,
+    department: string,
+    bondSwitchUrl: URL | null
+  ): TeacherBond;
 }
 
 /**
@@ -48,7 +63,9 @@ export class SigaaBondFactory implements BondFactory {
     private httpFactory: HTTPFactory,
     private parser: Parser,
     private courseFactory: CourseFactory,
-    private activityFactory: ActivityFactory
+    private activityFactory: ActivityFactory,
+    private session: Session,
+    private timeGrid?: ScheduleTimeGrid
   ) {}
 
   /**
@@ -69,11 +86,21 @@ export class SigaaBondFactory implements BondFactory {
     } else {
       http = this.httpFactory.createHttp();
     }
+    const profile = institutionRegistry.getProfile(this.session.institution);
+    const transcriptParser = new SigaaTranscriptParser(
+      this.parser,
+      profile.transcript
+    );
+    const scheduleParser = new SigaaScheduleParser(
+      this.timeGrid || profile.timeGrid
+    );
     return new SigaaStudentBond(
       http,
       this.parser,
       this.courseFactory,
       this.activityFactory,
+      transcriptParser,
+      scheduleParser,
       program,
       registration,
       bondSwitchUrl
@@ -82,8 +109,29 @@ export class SigaaBondFactory implements BondFactory {
 
   /**
    * Creates a teacher bond instance.
+   *
+   * @param registration It is the teacher registration code, in IFSC it is called "SIAPE".
+   * @param department It's the name of the teacher department, in IFSC it is called "unidade".
+   * @param bondSwitchUrl If the user has more than one bond, the bond link will be used to change the bond
    */
-  createTeacherBond(): TeacherBond {
-    return new SigaaTeacherBond();
+  createTeacherBond(
+    registration: string,
+    department: string,
+    bondSwitchUrl: URL | null
+  ): TeacherBond {
+    let http: HTTP;
+    if (bondSwitchUrl) {
+      http = this.httpFactory.createHttpWithBond(bondSwitchUrl);
+    } else {
+      http = this.httpFactory.createHttp();
+    }
+    return new SigaaTeacherBond(
+      http,
+      this.parser,
+      this.courseFactory,
+      registration,
+      department,
+      bondSwitchUrl
+    );
   }
 }
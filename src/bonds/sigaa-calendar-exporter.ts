@@ -0,0 +1,411 @@
+import { createHash } from 'crypto';
+import { StudentBond, TimetableEntry } from '@bonds/sigaa-student-bond';
+import { Exam } from '@courseResources/sigaa-exam-student';
+import { Syllabus } from '@courseResources/sigaa-syllabus-student';
+import { CourseStudent } from '@courses/sigaa-course-student';
+import { SigaaError } from '../sigaa-errors';
+
+/**
+ * @category Public
+ */
+export interface CalendarExportOptions {
+  /**
+   * First day of the recurring classes, default is the start of the period:
+   * the first day of the course schedules in the syllabus or,
+   * if the syllabus has no dates, the first day of the semester.
+   */
+  startDate?: Date;
+  /**
+   * Last day of the recurring classes, default is 120 days after startDate.
+   */
+  endDate?: Date;
+  /**
+   * Name of the calendar, default is "SIGAA".
+   */
+  calendarName?: string;
+}
+
+/**
+ * Exports the bond calendar to iCalendar (RFC 5545).
+ * @category Public
+ */
+export interface CalendarExporter {
+  /**
+   * Produces the iCalendar text with the classes of the timetable,
+   * the exams of the courses and the deadlines of the activities.
+   * @param bond student bond
+   * @param options
+   * @returns Promise with the .ics content, lines end with CRLF.
+   */
+  exportStudentBond(
+    bond: StudentBond,
+    options?: CalendarExportOptions
+  ): Promise<string>;
+}
+
+/**
+ * Event of the calendar, times are floating (local time of SIGAA).
+ */
+interface CalendarEvent {
+  /**
+   * Key used to generate the UID, it must not change between exports
+   * and it must be unique in the calendar.
+   */
+  key: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end?: Date;
+  /**
+   * If true, the event uses only the start day.
+   */
+  allDay: boolean;
+  until?: Date;
+  categories: string;
+}
+
+/**
+ * @category Public
+ */
+export class SigaaCalendarExporter implements CalendarExporter {
+  /**
+   * Default duration of the recurring classes, in days.
+   */
+  private defaultDurationDays = 120;
+
+  /**
+   * @inheritdoc
+   */
+  async exportStudentBond(
+    bond: StudentBond,
+    options: CalendarExportOptions = {}
+  ): Promise<string> {
+    const courses = await bond.getCourses();
+    const syllabuses: Syllabus[] = [];
+    for (const course of courses) {
+      syllabuses.push(await course.getSyllabus());
+    }
+
+    const startDate =
+      options.startDate || this.getPeriodStart(courses, syllabuses);
+    const endDate =
+      options.endDate ||
+      new Date(
+        startDate.getFullYear(),
+        startDate.getMonth(),
+        startDate.getDate() + this.defaultDurationDays
+      );
+    if (endDate < startDate)
+      throw new SigaaError('SIGAA: Calendar end date is before start date.');
+
+    const events: CalendarEvent[] = [];
+
+    const timetable = await bond.getTimetable();
+    for (const entry of timetable) {
+      events.push(this.createClassEvent(bond, entry, startDate, endDate));
+    }
+
+    for (const [index, course] of courses.entries()) {
+      const examCalendar = await course.getExamCalendar();
+      const examDays = examCalendar
+        .filter((exam) => exam.date)
+        .map((exam) => this.formatDate(exam.date as Date));
+      // The syllabus evaluations on the days of the exam calendar are the same exams
+      const exams: Exam[] = [
+        ...examCalendar,
+        ...syllabuses[index].evaluations.filter(
+          (exam) => !exam.date || !examDays.includes(this.formatDate(exam.date))
+        )
+      ];
+      for (const exam of exams) {
+        if (!exam.date) continue;
+        events.push(
+          this.createDateEvent({
+            key: `exam|${bond.registration}|${course.id}|${this.formatDate(
+              exam.date
+            )}|${exam.description}`,
+            summary: `${exam.description} - ${course.title}`,
+            date: exam.date,
+            categories: 'EXAM'
+          })
+        );
+      }
+    }
+
+    const activities = await bond.getActivities();
+    for (const activity of activities) {
+      if (activity.type === 'homework') {
+        events.push(
+          this.createDateEvent({
+            key: `homework|${bond.registration}|${activity.courseTitle}|${
+              activity.homeworkTitle
+            }|${this.formatDate(activity.date)}`,
+            summary: `Prazo: ${activity.homeworkTitle} - ${activity.courseTitle}`,
+            date: activity.date,
+            categories: 'DEADLINE'
+          })
+        );
+      } else if (activity.type === 'quiz') {
+        events.push(
+          this.createDateEvent({
+            key: `quiz|${bond.registration}|${activity.courseTitle}|${
+              activity.quizTitle
+            }|${this.formatDate(activity.date)}`,
+            summary: `Prazo: ${activity.quizTitle} - ${activity.courseTitle}`,
+            date: activity.date,
+            categories: 'DEADLINE'
+          })
+        );
+      }
+    }
+
+    return this.formatCalendar(
+      options.calendarName || 'SIGAA',
+      this.removeDuplicatedEvents(events)
+    );
+  }
+
+  /**
+   * Returns the first day of the course schedules in the syllabus,
+   * or the first day of the semester of the courses, like January 1 for 2021.1 and July 1 for 2021.2.
+   */
+  private getPeriodStart(
+    courses: CourseStudent[],
+    syllabuses: Syllabus[]
+  ): Date {
+    const scheduleDates: Date[] = [];
+    for (const syllabus of syllabuses) {
+      for (const day of syllabus.schedule) {
+        if (day.startDate) scheduleDates.push(day.startDate);
+      }
+    }
+    if (scheduleDates.length > 0) {
+      const firstDate = new Date(
+        Math.min(...scheduleDates.map((date) => date.valueOf()))
+      );
+      return new Date(
+        firstDate.getFullYear(),
+        firstDate.getMonth(),
+        firstDate.getDate()
+      );
+    }
+    const periods = courses
+      .map((course) => course.period.match(/^(\d{4})\.(\d)/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(([, year, semester]) => ({
+        year: parseInt(year, 10),
+        semester: parseInt(semester, 10)
+      }))
+      .sort((a, b) => a.year - b.year || a.semester - b.semester);
+    // Without courses there are no classes to anchor
+    if (periods.length === 0) return new Date();
+    const { year, semester } = periods[periods.length - 1];
+    return new Date(year, semester >= 2 ? 6 : 0, 1);
+  }
+
+  /**
+   * Creates the weekly event of the class.
+   */
+  private createClassEvent(
+    bond: StudentBond,
+    entry: TimetableEntry,
+    startDate: Date,
+    endDate: Date
+  ): CalendarEvent {
+    const firstDay = new Date(
+      startDate.getFullYear(),
+      startDate.getMonth(),
+      startDate.getDate() + ((entry.weekday - startDate.getDay() + 7) % 7)
+    );
+    return {
+      key: `class|${bond.registration}|${entry.courseTitle}|${entry.weekday}|${entry.startTime}`,
+      summary: entry.courseTitle,
+      location: entry.classLocal || undefined,
+      start: this.setTime(firstDay, entry.startTime),
+      end: this.setTime(firstDay, entry.endTime),
+      allDay: false,
+      until: new Date(
+        endDate.getFullYear(),
+        endDate.getMonth(),
+        endDate.getDate(),
+        23,
+        59,
+        59
+      ),
+      categories: 'CLASS'
+    };
+  }
+
+  /**
+   * Creates an one-off event. Dates without time become all day events.
+   */
+  private createDateEvent(options: {
+    key: string;
+    summary: string;
+    date: Date;
+    categories: string;
+  }): CalendarEvent {
+    const { date } = options;
+    const allDay =
+      date.getHours() === 0 &&
+      date.getMinutes() === 0 &&
+      date.getSeconds() === 0;
+    return {
+      key: options.key,
+      summary: options.summary,
+      start: date,
+      end: allDay ? undefined : date,
+      allDay,
+      categories: options.categories
+    };
+  }
+
+  /**
+   * The UID must be unique in the calendar (RFC 5545 section 3.8.4.7),
+   * the same exam can be listed twice in the exam calendar.
+   */
+  private removeDuplicatedEvents(events: CalendarEvent[]): CalendarEvent[] {
+    const keys: string[] = [];
+    return events.filter((event) => {
+      if (keys.includes(event.key)) return false;
+      keys.push(event.key);
+      return true;
+    });
+  }
+
+  /**
+   * Returns a copy of the date with the time, like "07:30".
+   */
+  private setTime(date: Date, time: string): Date {
+    const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10));
+    return new Date(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      hours,
+      minutes
+    );
+  }
+
+  private pad(value: number): string {
+    return value.toString().padStart(2, '0');
+  }
+
+  /**
+   * Formats the date like 20210315.
+   */
+  private formatDate(date: Date): string {
+    return (
+      date.getFullYear().toString() +
+      this.pad(date.getMonth() + 1) +
+      this.pad(date.getDate())
+    );
+  }
+
+  /**
+   * Formats the floating date time like 20210315T073000.
+   */
+  private formatDateTime(date: Date): string {
+    return (
+      this.formatDate(date) +
+      'T' +
+      this.pad(date.getHours()) +
+      this.pad(date.getMinutes()) +
+      this.pad(date.getSeconds())
+    );
+  }
+
+  /**
+   * Formats the UTC date time like 20210315T103000Z.
+   */
+  private formatUTCDateTime(date: Date): string {
+    return date
+      .toISOString()
+      .replace(/\.\d{3}/, '')
+      .replace(/[-:]/g, '');
+  }
+
+  /**
+   * Escapes the TEXT value (RFC 5545 section 3.3.11).
+   */
+  private escapeText(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Folds the line in lines of at most 75 octets (RFC 5545 section 3.1).
+   */
+  private foldLine(line: string): string {
+    const lines: string[] = [];
+    let currentLine = '';
+    let currentLength = 0;
+    for (const char of line) {
+      const charLength = Buffer.byteLength(char);
+      const maxLength = lines.length === 0 ? 75 : 74;
+      if (currentLength + charLength > maxLength) {
+        lines.push(currentLine);
+        currentLine = '';
+        currentLength = 0;
+      }
+      currentLine += char;
+      currentLength += charLength;
+    }
+    lines.push(currentLine);
+    return lines.join('\r\n ');
+  }
+
+  private createUID(key: string): string {
+    return createHash('sha1').update(key).digest('hex') + '@sigaa-api';
+  }
+
+  private formatEvent(event: CalendarEvent, timestamp: Date): string[] {
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${this.createUID(event.key)}`,
+      `DTSTAMP:${this.formatUTCDateTime(timestamp)}`
+    ];
+    if (event.allDay) {
+      const nextDay = new Date(
+        event.start.getFullYear(),
+        event.start.getMonth(),
+        event.start.getDate() + 1
+      );
+      lines.push(`DTSTART;VALUE=DATE:${this.formatDate(event.start)}`);
+      lines.push(`DTEND;VALUE=DATE:${this.formatDate(nextDay)}`);
+    } else {
+      lines.push(`DTSTART:${this.formatDateTime(event.start)}`);
+      lines.push(`DTEND:${this.formatDateTime(event.end || event.start)}`);
+    }
+    if (event.until)
+      lines.push(`RRULE:FREQ=WEEKLY;UNTIL=${this.formatDateTime(event.until)}`);
+    lines.push(`SUMMARY:${this.escapeText(event.summary)}`);
+    if (event.description)
+      lines.push(`DESCRIPTION:${this.escapeText(event.description)}`);
+    if (event.location)
+      lines.push(`LOCATION:${this.escapeText(event.location)}`);
+    lines.push(`CATEGORIES:${event.categories}`);
+    lines.push('END:VEVENT');
+    return lines;
+  }
+
+  private formatCalendar(name: string, events: CalendarEvent[]): string {
+    const timestamp = new Date();
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//sigaa-api//Calendar Exporter//PT',
+      'CALSCALE:GREGORIAN',
+      `X-WR-CALNAME:${this.escapeText(name)}`
+    ];
+    for (const event of events) {
+      lines.push(...this.formatEvent(event, timestamp));
+    }
+    lines.push('END:VCALENDAR');
+    return lines.map((line) => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+}
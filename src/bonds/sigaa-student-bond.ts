@@ -1,6 +1,6 @@
 import { CourseFactory } from '@courses/sigaa-course-student-factory';
 import { Parser } from '@helpers/sigaa-parser';
-import { HTTP } from '@session/sigaa-http';
+import { HTTP, ProgressCallback } from '@session/sigaa-http';
 import { URL } from 'url';
 import {
   CourseStudent,
@@ -9,6 +9,10 @@ import {
 import { Homework } from '@attachments/sigaa-homework-student';
 import { Exam } from '@courseResources/sigaa-exam-student';
 import { Activity, ActivityFactory } from '@activity/sigaa-activity-factory';
+import { Page, SigaaForm } from '@session/sigaa-page';
+import { Transcript, TranscriptParser } from './sigaa-transcript';
+import { ScheduleParser, ScheduleSlot } from '@helpers/sigaa-schedule-parser';
+import { SigaaParseError } from '../sigaa-errors';
 
 /**
  * Abstraction to represent a student bond.
@@ -36,7 +40,50 @@ export interface StudentBond {
   getActivities(): Promise<Activity[]>;
 
   getCurrentPeriod(): Promise<string>;
+
+  /**
+   * Get the academic transcript, in IFSC it is called "Histórico".
+   * @returns Promise with the courses of all periods and the summary figures.
+   */
+  getTranscript(): Promise<Transcript>;
+
+  /**
+   * Get the weekly timetable of the current courses.
+   * @returns Promise with the classes sorted by weekday and start time.
+   */
+  getTimetable(): Promise<TimetableEntry[]>;
+
+  /**
+   * Download the transcript PDF, in IFSC it is called "Histórico".
+   * @param destpath path to save file
+   * @param callback callback to view download progress
+   * @returns Promise with the path where the file was saved.
+   */
+  downloadTranscriptPDF(
+    destpath: string,
+    callback?: ProgressCallback
+  ): Promise<string>;
+
+  /**
+   * Download the enrollment certificate PDF, in IFSC it is called "Atestado de matrícula".
+   * @param destpath path to save file
+   * @param callback callback to view download progress
+   * @returns Promise with the path where the file was saved.
+   */
+  downloadEnrollmentCertificate(
+    destpath: string,
+    callback?: ProgressCallback
+  ): Promise<string>;
+}
+/**
+ * Class of the weekly timetable.
+ * @category Public
+ */
+export interface TimetableEntry extends ScheduleSlot {
+  courseTitle: string;
+  classLocal: string;
 }
+
 export interface ActivityTypeHomework {
   type: 'homework';
   course: CourseStudent;
@@ -64,6 +111,8 @@ export class SigaaStudentBond implements StudentBond {
     private parser: Parser,
     private courseFactory: CourseFactory,
     private activityFactory: ActivityFactory,
+    private transcriptParser: TranscriptParser,
+    private scheduleParser: ScheduleParser,
     readonly program: string,
     readonly registration: string,
     readonly bondSwitchUrl: URL | null
@@ -112,18 +161,30 @@ export class SigaaStudentBond implements StudentBond {
     }
 
     if (tableColumnIndexs.title == null) {
-      throw new Error(
-        'SIGAA: Invalid courses table, could not find the column with class titles.'
+      throw new SigaaParseError(
+        'SIGAA: Invalid courses table, could not find the column with class titles.',
+        {
+          url: frontPage.url,
+          selector: '#turmas-portal table:nth-child(3) thead'
+        }
       );
     }
     if (tableColumnIndexs.classLocal == null) {
-      throw new Error(
-        'SIGAA: Invalid courses table, could not find the column with class local.'
+      throw new SigaaParseError(
+        'SIGAA: Invalid courses table, could not find the column with class local.',
+        {
+          url: frontPage.url,
+          selector: '#turmas-portal table:nth-child(3) thead'
+        }
       );
     }
     if (tableColumnIndexs.schedule == null) {
-      throw new Error(
-        'SIGAA: Invalid courses table, could not find the column with class schedules.'
+      throw new SigaaParseError(
+        'SIGAA: Invalid courses table, could not find the column with class schedules.',
+        {
+          url: frontPage.url,
+          selector: '#turmas-portal table:nth-child(3) thead'
+        }
       );
     }
 
@@ -230,18 +291,21 @@ export class SigaaStudentBond implements StudentBond {
     }
 
     if (tableColumnIndexs.button == null) {
-      throw new Error(
-        'SIGAA: Invalid courses table, could not find the column with class buttons.'
+      throw new SigaaParseError(
+        'SIGAA: Invalid courses table, could not find the column with class buttons.',
+        { url: coursesPage.url, selector: '.listagem thead' }
       );
     }
     if (tableColumnIndexs.title == null) {
-      throw new Error(
-        'SIGAA: Invalid courses table, could not find the column with class titles.'
+      throw new SigaaParseError(
+        'SIGAA: Invalid courses table, could not find the column with class titles.',
+        { url: coursesPage.url, selector: '.listagem thead' }
       );
     }
     if (tableColumnIndexs.schedule == null) {
-      throw new Error(
-        'SIGAA: Invalid courses table, could not find the column with class schedules.'
+      throw new SigaaParseError(
+        'SIGAA: Invalid courses table, could not find the column with class schedules.',
+        { url: coursesPage.url, selector: '.listagem thead' }
       );
     }
 
@@ -270,7 +334,10 @@ export class SigaaStudentBond implements StudentBond {
         const buttonOnClickCode = buttonCoursePage.attr('onclick');
 
         if (!buttonOnClickCode)
-          throw new Error('SIGAA: Courses table without course button.');
+          throw new SigaaParseError(
+            'SIGAA: Courses table without course button.',
+            { url: coursesPage.url }
+          );
 
         const form = coursesPage.parseJSFCLJS(buttonOnClickCode);
 
@@ -289,7 +356,10 @@ export class SigaaStudentBond implements StudentBond {
 
         const id = form.postValues['idTurma'];
 
-        if (!id) throw new Error('SIGAA: Course ID not found.');
+        if (!id)
+          throw new SigaaParseError('SIGAA: Course ID not found.', {
+            url: coursesPage.url
+          });
         const courseData: CourseStudentData = {
           title,
           code,
@@ -330,8 +400,9 @@ export class SigaaStudentBond implements StudentBond {
         .split('\n');
 
       if (infoTextLines.length !== 2)
-        throw new Error(
-          'SIGAA: The description of the activity does not correspond to what was expected.'
+        throw new SigaaParseError(
+          'SIGAA: The description of the activity does not correspond to what was expected.',
+          { url: frontPage.url }
         );
 
       const courseTitle = infoTextLines[0];
@@ -342,7 +413,10 @@ export class SigaaStudentBond implements StudentBond {
           .eq(2)
           .find('small a[onclick]')
           .attr('onclick');
-        if (!JSFCLJS) throw new Error('SIGAA: Activity without link.');
+        if (!JSFCLJS)
+          throw new SigaaParseError('SIGAA: Activity without link.', {
+            url: frontPage.url
+          });
         const form = frontPage.parseJSFCLJS(JSFCLJS);
 
         if (type === 'Questionário') {
@@ -400,4 +474,136 @@ export class SigaaStudentBond implements StudentBond {
     this._currentPeriod = period;
     return period;
   }
+
+  /**
+   * Parse the form of a student portal menu item, the menu uses the JSCook action.
+   * @param page student portal page.
+   * @param menuAction EL expression of the menu item, like "#{ portalDiscente.historico }".
+   */
+  private parsePortalMenuForm(page: Page, menuAction: string): SigaaForm {
+    const escapedAction = menuAction.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const actionMatch = page.bodyDecoded.match(
+      new RegExp(`'([^']*?${escapedAction})'`)
+    );
+    if (!actionMatch)
+      throw new SigaaParseError('SIGAA: Student portal menu item not found.', {
+        url: page.url
+      });
+
+    const formElement = page.$('form[id$="form_menu_discente"]');
+    const action = formElement.attr('action');
+    if (!action)
+      throw new SigaaParseError(
+        'SIGAA: Student portal menu form without action.',
+        { url: page.url, selector: 'form[id$="form_menu_discente"]' }
+      );
+
+    const postValues: Record<string, string> = {};
+    formElement.find('input[name]').each((_, element) => {
+      const name = page.$(element).attr('name');
+      if (name) postValues[name] = page.$(element).val();
+    });
+    postValues['jscook_action'] = actionMatch[1];
+    return {
+      action: new URL(action, page.url.href),
+      postValues
+    };
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async getTranscript(): Promise<Transcript> {
+    const frontPage = await this.http.get(
+      '/sigaa/portais/discente/discente.jsf'
+    );
+    const summary = this.transcriptParser.parseSummary(frontPage);
+    const form = this.parsePortalMenuForm(
+      frontPage,
+      this.transcriptParser.gradesMenuAction
+    );
+    const gradesPage = await this.http.followAllRedirect(
+      await this.http.post(form.action.href, form.postValues)
+    );
+    return {
+      ...summary,
+      courses: this.transcriptParser.parseCourses(gradesPage)
+    };
+  }
+
+  /**
+   * Download the file generated by a student portal menu item.
+   * @param menuAction EL expression of the menu item.
+   * @param destpath path to save file
+   * @param callback callback to view download progress
+   */
+  private async downloadPortalMenuFile(
+    menuAction: string,
+    destpath: string,
+    callback?: ProgressCallback
+  ): Promise<string> {
+    const frontPage = await this.http.get(
+      '/sigaa/portais/discente/discente.jsf',
+      { noCache: true }
+    );
+    const form = this.parsePortalMenuForm(frontPage, menuAction);
+    const { path } = await this.http.downloadFileByPost(
+      form.action.href,
+      form.postValues,
+      destpath,
+      callback
+    );
+    return path;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  downloadTranscriptPDF(
+    destpath: string,
+    callback?: ProgressCallback
+  ): Promise<string> {
+    return this.downloadPortalMenuFile(
+      '#{ portalDiscente.historico }',
+      destpath,
+      callback
+    );
+  }
+
+  /**
+   * @inheritdoc
+   */
+  downloadEnrollmentCertificate(
+    destpath: string,
+    callback?: ProgressCallback
+  ): Promise<string> {
+    return this.downloadPortalMenuFile(
+      '#{ portalDiscente.atestadoMatricula }',
+      destpath,
+      callback
+    );
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async getTimetable(): Promise<TimetableEntry[]> {
+    const coursesLocal = await this.getCoursesLocal();
+    const timetable: TimetableEntry[] = [];
+    for (const courseLocal of coursesLocal) {
+      const scheduleSlots = this.scheduleParser.parseSchedule(
+        courseLocal.schedule
+      );
+      for (const scheduleSlot of scheduleSlots) {
+        timetable.push({
+          ...scheduleSlot,
+          courseTitle: courseLocal.title,
+          classLocal: courseLocal.classLocal
+        });
+      }
+    }
+    return timetable.sort(
+      (a, b) => a.weekday - b.weekday || a.startTime.localeCompare(b.startTime)
+    );
+  }
 }
@@ -1,17 +1,211 @@
+import { CourseFactory } from '@courses/sigaa-course-student-factory';
+import { Parser } from '@helpers/sigaa-parser';
+import { HTTP } from '@session/sigaa-http';
+import { URL } from 'url';
+import {
+  CourseTeacher,
+  CourseTeacherData
+} from '@courses/sigaa-course-teacher';
+import { SigaaParseError } from '../sigaa-errors';
+
 /**
  * Abstraction to represent teacher bond.
- * @TODO
  * @category Public
  **/
 export interface TeacherBond {
   readonly type: 'teacher';
+  /**
+   * It is the teacher registration code, in IFSC it is called "SIAPE".
+   */
+  readonly registration: string;
+  /**
+   * It's the name of the teacher department, in IFSC it is called "unidade".
+   */
+  readonly department: string;
+  /**
+   * Get courses taught by the teacher, in IFSC it is called "Turmas Virtuais".
+   * @param allPeriods if true, all courses will be returned; otherwise, only current courses.
+   * @returns Promise with array of courses.
+   */
+  getCourses(allPeriods?: boolean): Promise<CourseTeacher[]>;
+
+  getCurrentPeriod(): Promise<string>;
 }
 
 /**
  * Class to represent teacher bond. In IFSC it is called "Vínculo de professor".
- * @TODO
  * @category Internal
  */
 export class SigaaTeacherBond implements TeacherBond {
+  constructor(
+    private http: HTTP,
+    private parser: Parser,
+    private courseFactory: CourseFactory,
+    readonly registration: string,
+    readonly department: string,
+    readonly bondSwitchUrl: URL | null
+  ) {}
+
   readonly type = 'teacher';
+  private _currentPeriod?: string;
+
+  /**
+   * Get courses taught by the teacher, in IFSC it is called "Turmas Virtuais".
+   * @param allPeriods if true, all courses will be returned; otherwise, only latest courses.
+   * @returns Promise with array of courses.
+   */
+  async getCourses(allPeriods = false): Promise<CourseTeacher[]> {
+    const coursesPage = await this.http.get(
+      '/sigaa/portais/docente/turmas.jsf'
+    );
+
+    const table = coursesPage.$('.listagem');
+    if (table.length === 0) return [];
+    const listCourses: CourseTeacher[] = [];
+    const rows = table.find('tbody > tr').toArray();
+
+    /*
+       Same as in the student bond, the table can be in any order,
+       so the newest period must be searched in the whole table.
+    */
+    let periodFilter: null | string = null;
+    if (!allPeriods) {
+      for (const row of rows) {
+        const cellElements = coursesPage.$(row).find('td');
+        if (cellElements.eq(0).hasClass('periodo')) {
+          const currentPeriod = this.parser.removeTagsHtml(
+            cellElements.eq(0).html()
+          );
+          if (
+            periodFilter == null ||
+            [currentPeriod, periodFilter].sort()[1] == currentPeriod
+          ) {
+            periodFilter = currentPeriod;
+          }
+        }
+      }
+    }
+
+    const tableColumnIndexs: Record<string, null | number> = {
+      title: null,
+      schedule: null,
+      numberOfStudents: null,
+      button: null
+    };
+
+    let tableHeaderCellElements = table.find('thead > tr td').toArray();
+    if (!tableHeaderCellElements.length)
+      tableHeaderCellElements = table.find('thead > tr th').toArray();
+
+    for (let column = 0; column < tableHeaderCellElements.length; column++) {
+      const cellContent = this.parser.removeTagsHtml(
+        coursesPage.$(tableHeaderCellElements[column]).html()
+      );
+      switch (cellContent) {
+        case 'Disciplina':
+        case 'Componente Curricular':
+          tableColumnIndexs.title = column;
+          break;
+        case 'Horário':
+          tableColumnIndexs.schedule = column;
+          break;
+        case 'Alunos':
+        case 'Matriculados':
+          tableColumnIndexs.numberOfStudents = column;
+          break;
+        case '':
+          tableColumnIndexs.button = column;
+          break;
+      }
+    }
+
+    if (tableColumnIndexs.button == null) {
+      throw new SigaaParseError(
+        'SIGAA: Invalid courses table, could not find the column with class buttons.',
+        { url: coursesPage.url, selector: '.listagem thead' }
+      );
+    }
+    if (tableColumnIndexs.title == null) {
+      throw new SigaaParseError(
+        'SIGAA: Invalid courses table, could not find the column with class titles.',
+        { url: coursesPage.url, selector: '.listagem thead' }
+      );
+    }
+    if (tableColumnIndexs.schedule == null) {
+      throw new SigaaParseError(
+        'SIGAA: Invalid courses table, could not find the column with class schedules.',
+        { url: coursesPage.url, selector: '.listagem thead' }
+      );
+    }
+
+    let period;
+
+    for (const row of rows) {
+      const cellElements = coursesPage.$(row).find('td');
+      if (cellElements.eq(0).hasClass('periodo')) {
+        period = this.parser.removeTagsHtml(cellElements.html());
+      } else if (period && (!periodFilter || periodFilter == period)) {
+        const fullname = this.parser.removeTagsHtml(
+          cellElements.eq(tableColumnIndexs.title).html()
+        );
+
+        const [code, ...titleSlices] = fullname.split(' - ');
+        const title = titleSlices.join(' - ');
+
+        const buttonOnClickCode = cellElements
+          .eq(tableColumnIndexs.button)
+          .find('a[onclick]')
+          .attr('onclick');
+
+        if (!buttonOnClickCode)
+          throw new SigaaParseError(
+            'SIGAA: Courses table without course button.',
+            { url: coursesPage.url }
+          );
+
+        const form = coursesPage.parseJSFCLJS(buttonOnClickCode);
+
+        let numberOfStudents = 0;
+        if (tableColumnIndexs.numberOfStudents !== null) {
+          numberOfStudents = Number(
+            this.parser.removeTagsHtml(
+              cellElements.eq(tableColumnIndexs.numberOfStudents).html()
+            )
+          );
+        }
+
+        const schedule = this.parser.removeTagsHtml(
+          cellElements.eq(tableColumnIndexs.schedule).html()
+        );
+
+        const id = form.postValues['idTurma'];
+
+        if (!id)
+          throw new SigaaParseError('SIGAA: Course ID not found.', {
+            url: coursesPage.url
+          });
+        const courseData: CourseTeacherData = {
+          title,
+          code,
+          schedule,
+          numberOfStudents,
+          period,
+          id,
+          form
+        };
+        listCourses.push(this.courseFactory.createCourseTeacher(courseData));
+      }
+    }
+    return listCourses;
+  }
+
+  async getCurrentPeriod(): Promise<string> {
+    if (this._currentPeriod) return this._currentPeriod;
+    const frontPage = await this.http.get('/sigaa/portais/docente/docente.jsf');
+    const period = frontPage
+      .$('#info-usuario > p.periodo-atual > strong')
+      .text();
+    this._currentPeriod = period;
+    return period;
+  }
 }
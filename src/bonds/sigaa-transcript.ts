@@ -0,0 +1,249 @@
+import { Parser } from '@helpers/sigaa-parser';
+import { Page } from '@session/sigaa-page';
+import { InstitutionTranscriptProfile } from '@session/sigaa-institution-registry';
+import { SigaaParseError } from '../sigaa-errors';
+
+/**
+ * Status of the course in the transcript.
+ * - approved: "aprovado";
+ * - failed: "reprovado";
+ * - locked: "trancado";
+ * - exempted: "dispensado";
+ * - enrolled: "matriculado";
+ * - other: any other status.
+ * @category Public
+ */
+export type TranscriptCourseStatus =
+  | 'approved'
+  | 'failed'
+  | 'locked'
+  | 'exempted'
+  | 'enrolled'
+  | 'other';
+
+/**
+ * Course in the transcript.
+ * @category Public
+ */
+export interface TranscriptCourse {
+  period: string;
+  code: string;
+  name: string;
+  /**
+   * Workload in hours, undefined if SIGAA does not show it.
+   */
+  workload?: number;
+  /**
+   * Final grade, undefined if the course does not have grade.
+   */
+  grade?: number;
+  absences?: number;
+  status: TranscriptCourseStatus;
+  /**
+   * Status as shown by SIGAA, like "APROVADO".
+   */
+  statusText: string;
+}
+
+/**
+ * Summary figures of the transcript.
+ * @category Public
+ */
+export interface TranscriptSummary {
+  /**
+   * "Média de Conclusão".
+   */
+  mc?: number;
+  /**
+   * "Índice de Rendimento Acadêmico", in UFPB it is called "CRA".
+   */
+  ira?: number;
+  hoursCompleted?: number;
+  hoursPending?: number;
+}
+
+/**
+ * Academic transcript, in IFSC it is called "Histórico".
+ * @category Public
+ */
+export interface Transcript extends TranscriptSummary {
+  courses: TranscriptCourse[];
+}
+
+/**
+ * Parses the transcript pages, there is one implementation per institution.
+ * @category Internal
+ */
+export interface TranscriptParser {
+  /**
+   * EL expression of the student portal menu item with the grades of all periods.
+   */
+  readonly gradesMenuAction: string;
+
+  /**
+   * Parse the summary figures of the student portal page.
+   * @param page student portal page.
+   */
+  parseSummary(page: Page): TranscriptSummary;
+
+  /**
+   * Parse the courses of the grades report page.
+   * @param page page of gradesMenuAction.
+   */
+  parseCourses(page: Page): TranscriptCourse[];
+}
+
+/**
+ * Transcript parser, the labels are in the institution profile.
+ * @category Internal
+ */
+export class SigaaTranscriptParser implements TranscriptParser {
+  constructor(protected parser: Parser, profile: InstitutionTranscriptProfile) {
+    this.gradesMenuAction = profile.gradesMenuAction;
+    this.summaryLabels = profile.summaryLabels;
+  }
+
+  readonly gradesMenuAction: string;
+
+  /**
+   * Labels of each summary figure in the student portal page.
+   */
+  protected readonly summaryLabels: Record<keyof TranscriptSummary, RegExp>;
+
+  /**
+   * Parse a number like "8,5" or "1.200 h".
+   * @param text
+   */
+  protected parseNumber(text: string): number | undefined {
+    const numberMatch = text.match(/\d[\d.]*(,\d+)?/);
+    if (!numberMatch) return undefined;
+    const numberString =
+      numberMatch[0].includes(',') || /^\d{1,3}(\.\d{3})+$/.test(numberMatch[0])
+        ? numberMatch[0].replace(/\./g, '').replace(',', '.')
+        : numberMatch[0];
+    const value = parseFloat(numberString);
+    return isNaN(value) ? undefined : value;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  parseSummary(page: Page): TranscriptSummary {
+    const summary: TranscriptSummary = {};
+    const rows = page.$('#agenda-docente tr').toArray();
+    const labels = Object.keys(
+      this.summaryLabels
+    ) as (keyof TranscriptSummary)[];
+    for (const row of rows) {
+      const cells = page.$(row).children('td');
+      if (cells.length < 2) continue;
+      const label = this.parser.removeTagsHtml(cells.eq(0).html());
+      const value = this.parser.removeTagsHtml(cells.eq(1).html());
+      for (const key of labels) {
+        if (summary[key] === undefined && this.summaryLabels[key].test(label))
+          summary[key] = this.parseNumber(value);
+      }
+    }
+    return summary;
+  }
+
+  /**
+   * Converts the SIGAA status to TranscriptCourseStatus.
+   * @param statusText
+   */
+  protected parseStatus(statusText: string): TranscriptCourseStatus {
+    const status = statusText.toUpperCase();
+    if (/^APR/.test(status)) return 'approved';
+    if (/^REP/.test(status)) return 'failed';
+    if (/^TRANC/.test(status)) return 'locked';
+    if (/^(DISP|CUMPR|INCORP)/.test(status)) return 'exempted';
+    if (/^MATR/.test(status)) return 'enrolled';
+    return 'other';
+  }
+
+  /**
+   * @inheritdoc
+   */
+  parseCourses(page: Page): TranscriptCourse[] {
+    const courses: TranscriptCourse[] = [];
+    const tables = page.$('table.tabelaRelatorio').toArray();
+    for (const table of tables) {
+      const period = this.parser.removeTagsHtml(
+        page.$(table).find('caption').html()
+      );
+      const tableColumnIndexs: Record<string, null | number> = {
+        code: null,
+        name: null,
+        workload: null,
+        grade: null,
+        absences: null,
+        status: null
+      };
+      const headerCells = page.$(table).find('thead tr').first().children();
+      headerCells.each((column, cell) => {
+        const cellContent = this.parser.removeTagsHtml(page.$(cell).html());
+        switch (cellContent) {
+          case 'Código':
+            tableColumnIndexs.code = column;
+            break;
+          case 'Disciplina':
+          case 'Componente Curricular':
+            tableColumnIndexs.name = column;
+            break;
+          case 'CH':
+          case 'C.H.':
+            tableColumnIndexs.workload = column;
+            break;
+          case 'Resultado':
+          case 'Média':
+            tableColumnIndexs.grade = column;
+            break;
+          case 'Faltas':
+            tableColumnIndexs.absences = column;
+            break;
+          case 'Sit.':
+          case 'Situação':
+            tableColumnIndexs.status = column;
+            break;
+        }
+      });
+      if (tableColumnIndexs.name === null || tableColumnIndexs.status === null)
+        throw new SigaaParseError(
+          'SIGAA: Invalid transcript table, could not find the columns.',
+          { url: page.url }
+        );
+
+      const rows = page.$(table).find('tbody > tr').toArray();
+      for (const row of rows) {
+        const cells = page.$(row).children('td');
+        const getCell = (column: number | null): string =>
+          column === null
+            ? ''
+            : this.parser.removeTagsHtml(cells.eq(column).html());
+
+        let code = getCell(tableColumnIndexs.code);
+        let name = getCell(tableColumnIndexs.name);
+        if (!code) {
+          const [nameCode, ...nameSlices] = name.split(' - ');
+          if (nameSlices.length > 0) {
+            code = nameCode;
+            name = nameSlices.join(' - ');
+          }
+        }
+        if (!name) continue;
+        const statusText = getCell(tableColumnIndexs.status);
+        courses.push({
+          period,
+          code,
+          name,
+          workload: this.parseNumber(getCell(tableColumnIndexs.workload)),
+          grade: this.parseNumber(getCell(tableColumnIndexs.grade)),
+          absences: this.parseNumber(getCell(tableColumnIndexs.absences)),
+          status: this.parseStatus(statusText),
+          statusText
+        });
+      }
+    }
+    return courses;
+  }
+}
@@ -1,7 +1,9 @@
 import { URL } from 'url';
+import { FormData, fileFromPath } from 'formdata-node';
 import { FileData } from '@resources/sigaa-file';
+import { Parser } from '@helpers/sigaa-parser';
 import { HTTP } from '@session/sigaa-http';
-import { SigaaForm } from '@session/sigaa-page';
+import { SigaaForm, Page } from '@session/sigaa-page';
 import { File } from '@resources/sigaa-file';
 import { CourseResourcesFactory } from '@courses/sigaa-course-resources-factory';
 
@@ -11,6 +13,11 @@ import {
   UpdatableResourceCallback
 } from '@resources/updatable-resource';
 import { UpdatableResourceData } from '@resources/sigaa-resource-manager';
+import {
+  SigaaError,
+  SigaaParseError,
+  SigaaPermissionError
+} from '../../../sigaa-errors';
 
 /**
  * @category Internal
@@ -27,6 +34,58 @@ export interface HomeworkData extends UpdatableResourceData {
   formViewHomeworkSubmitted?: SigaaForm;
 }
 
+/**
+ * @category Public
+ */
+export interface HomeworkSubmitOptions {
+  /**
+   * Paths of the files to send.
+   */
+  files?: string[];
+  /**
+   * Text of the answer.
+   */
+  text?: string;
+}
+
+/**
+ * Homework already sent.
+ * @category Public
+ */
+export interface HomeworkSubmission {
+  date?: Date;
+  files: File[];
+  text?: string;
+}
+
+/**
+ * Correction of the homework made by the teacher.
+ * @category Public
+ */
+export interface HomeworkCorrection {
+  grade?: number;
+  maxGrade?: number;
+  /**
+   * Teacher comment.
+   */
+  comment?: string;
+  /**
+   * File sent by the teacher with the correction.
+   */
+  correctionFile?: File;
+}
+
+/**
+ * Thrown when the homework is sent out of the deadline, in IFSC it is called "fora do prazo".
+ * @category Public
+ */
+export class SigaaHomeworkDeadlineError extends SigaaError {
+  constructor(message = 'SIGAA: Homework is out of the deadline.') {
+    super(message);
+    this.name = 'SigaaHomeworkDeadlineError';
+  }
+}
+
 /**
  * @category Internal
  */
@@ -43,6 +102,22 @@ export interface Homework extends UpdatableResource<HomeworkData> {
    * Get attachment file.
    */
   getAttachmentFile(): Promise<File>;
+
+  /**
+   * Send the homework, in group homework it is sent for the whole group.
+   * @throws {SigaaHomeworkDeadlineError} If the homework is out of the deadline.
+   */
+  submit(options: HomeworkSubmitOptions): Promise<void>;
+
+  /**
+   * Get the homework already sent.
+   */
+  getSubmission(): Promise<HomeworkSubmission>;
+
+  /**
+   * Get the grade and the teacher comment of the homework.
+   */
+  getCorrection(): Promise<HomeworkCorrection>;
 }
 
 /**
@@ -67,6 +142,7 @@ export class SigaaHomework
 
   constructor(
     private http: HTTP,
+    private parser: Parser,
     private courseResourcesFactory: CourseResourcesFactory,
     options: HomeworkData,
     updater: UpdatableResourceCallback
@@ -106,7 +182,9 @@ export class SigaaHomework
     }
     this.checkIfItWasClosed();
     if (this._haveGrade === undefined)
-      throw new Error('SIGAA: Homework have grade could not be loaded.');
+      throw new SigaaParseError(
+        'SIGAA: Homework have grade could not be loaded.'
+      );
 
     return this._haveGrade;
   }
@@ -118,7 +196,9 @@ export class SigaaHomework
     this.checkIfItWasClosed();
 
     if (this._isGroupHomework === undefined)
-      throw new Error('SIGAA: Homework group flag could not be loaded.');
+      throw new SigaaParseError(
+        'SIGAA: Homework group flag could not be loaded.'
+      );
 
     return this._isGroupHomework;
   }
@@ -129,7 +209,9 @@ export class SigaaHomework
     }
     this.checkIfItWasClosed();
     if (!this._description)
-      throw new Error('SIGAA: Homework description could not be loaded.');
+      throw new SigaaParseError(
+        'SIGAA: Homework description could not be loaded.'
+      );
     return this._description;
   }
 
@@ -153,39 +235,254 @@ export class SigaaHomework
     )
       await this.updateInstance();
     if (!this._formSendHomework)
-      throw new Error('SIGAA: Homework has been submitted.');
+      throw new SigaaError('SIGAA: Homework has been submitted.');
     const page = await this.http.post(
       this._formSendHomework.action.href,
       this._formSendHomework.postValues
     );
 
     const path = page.$('ul.form > li > div > a').attr('href');
-    if (!path) throw new Error('SIGAA: Homework has no file.');
+    if (!path) throw new SigaaError('SIGAA: Homework has no file.');
+    const file = this.parseFileData(path, page);
+
+    if (!this._file) {
+      this._file = this.courseResourcesFactory.createFileFromFileData(
+        file,
+        this.http,
+        async () => {
+          throw new SigaaParseError('SIGAA: Invalid file in Homework.', {
+            url: page.url
+          });
+        }
+      );
+    } else {
+      this._file.update(file);
+    }
+    return this._file;
+  }
+
+  /**
+   * Parse the file data from file link.
+   * @param path file link href.
+   * @param page page with the link.
+   */
+  private parseFileData(path: string, page: Page): FileData {
     const url = new URL(path, page.url);
     const fileKey = url.searchParams.get('key');
     const fileId = url.searchParams.get('idArquivo');
     if (fileId == null || fileKey == null)
-      throw new Error('SIGAA: File URL is invalid.');
+      throw new SigaaError('SIGAA: File URL is invalid.');
 
-    const file: FileData = {
+    return {
       title: '',
       description: '',
       key: fileKey,
       id: fileId,
       instanceIndentifier: fileId
     };
+  }
 
-    if (!this._file) {
-      this._file = this.courseResourcesFactory.createFileFromFileData(
-        file,
-        this.http,
-        async () => {
-          throw new Error('SIGAA: Invalid file in Homework.');
+  /**
+   * @inheritdoc
+   */
+  async submit(options: HomeworkSubmitOptions): Promise<void> {
+    const files = options.files || [];
+    if (files.length === 0 && !options.text)
+      throw new SigaaError('SIGAA: Homework submission cannot be empty.');
+    if (this._formSendHomework === undefined) await this.updateInstance();
+    this.checkIfItWasClosed();
+    if (this.endDate.valueOf() < Date.now())
+      throw new SigaaHomeworkDeadlineError();
+    if (!this._formSendHomework)
+      throw new SigaaError('SIGAA: Homework has been submitted.');
+
+    const page = await this.http.post(
+      this._formSendHomework.action.href,
+      this._formSendHomework.postValues
+    );
+    this.checkIfIsOutOfDeadline(page);
+    if (page.bodyDecoded.includes('não pertence a nenhum grupo'))
+      throw new SigaaPermissionError(
+        'SIGAA: The student is not in a homework group.'
+      );
+
+    const formElement = page.$('form[enctype="multipart/form-data"]');
+    const action = formElement.attr('action');
+    if (!action)
+      throw new SigaaParseError(
+        'SIGAA: Homework send page has form without action.',
+        { url: page.url, selector: 'form[enctype="multipart/form-data"]' }
+      );
+    const actionURL = new URL(action, page.url.href);
+
+    const inputHiddens = formElement.find('input[type="hidden"]').toArray();
+    const fileInputs = formElement.find('input[type="file"]').toArray();
+    const textarea = formElement.find('textarea[name]');
+    const submitButton = formElement
+      .find('input[type="submit"]')
+      .toArray()
+      .find((button) => /Enviar/i.test(page.$(button).val()));
+    if (inputHiddens.length === 0 || !submitButton)
+      throw new SigaaParseError(
+        'SIGAA: Homework send page format is different than expected.',
+        { url: page.url }
+      );
+    if (files.length > fileInputs.length)
+      throw new SigaaError(
+        `SIGAA: Homework accepts at most ${fileInputs.length} file(s).`
+      );
+    if (options.text && textarea.length !== 1)
+      throw new SigaaError('SIGAA: Homework does not accept text answer.');
+
+    const formData = new FormData();
+    for (const input of inputHiddens) {
+      const name = page.$(input).attr('name');
+      if (name) formData.set(name, page.$(input).val());
+    }
+    for (let i = 0; i < files.length; i++) {
+      const name = page.$(fileInputs[i]).attr('name');
+      if (!name)
+        throw new SigaaParseError(
+          'SIGAA: Homework send page has input file without name.',
+          { url: page.url }
+        );
+      formData.set(name, await fileFromPath(files[i]));
+    }
+    if (options.text) {
+      const name = textarea.attr('name');
+      if (name) formData.set(name, options.text);
+    }
+    const submitName = page.$(submitButton).attr('name');
+    if (!submitName)
+      throw new SigaaParseError(
+        'SIGAA: Homework send page has submit button without name.',
+        { url: page.url }
+      );
+    formData.set(submitName, page.$(submitButton).val());
+
+    const responsePage = await this.http.postMultipart(
+      actionURL.href,
+      formData
+    );
+    this.checkIfIsOutOfDeadline(responsePage);
+    if (!responsePage.bodyDecoded.includes('Operação realizada com sucesso!')) {
+      throw new SigaaParseError(
+        'SIGAA: Unexpected response homework send page.',
+        { url: page.url }
+      );
+    }
+    this._formSendHomework = undefined;
+    this._formViewHomeworkSubmitted = undefined;
+  }
+
+  /**
+   * Throws if the page says that the homework is out of the deadline.
+   * @param page
+   */
+  private checkIfIsOutOfDeadline(page: Page): void {
+    if (/fora do prazo|prazo .*encerrado/i.test(page.bodyDecoded))
+      throw new SigaaHomeworkDeadlineError();
+  }
+
+  /**
+   * Load the page of the homework already sent.
+   */
+  private async getSubmissionPage(): Promise<Page> {
+    if (this._formViewHomeworkSubmitted === undefined)
+      await this.updateInstance();
+    this.checkIfItWasClosed();
+    if (!this._formViewHomeworkSubmitted)
+      throw new SigaaError('SIGAA: Homework has not been submitted.');
+    return this.http.post(
+      this._formViewHomeworkSubmitted.action.href,
+      this._formViewHomeworkSubmitted.postValues
+    );
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async getSubmission(): Promise<HomeworkSubmission> {
+    const page = await this.getSubmissionPage();
+    const submission: HomeworkSubmission = { files: [] };
+    const items = page.$('ul.form > li').toArray();
+    for (const item of items) {
+      const label = this.parser.removeTagsHtml(
+        page.$(item).find('label').html()
+      );
+      const valueElement = page.$(item).find('div, span').first();
+      if (/^Data/.test(label)) {
+        const dateString = this.parser.removeTagsHtml(valueElement.html());
+        submission.date = this.parser.parseDates(dateString, 1)[0];
+      } else if (/^Arquivo/.test(label) && !/Corre[çc][ãa]o/i.test(label)) {
+        const links = page.$(item).find('a[href]').toArray();
+        for (const link of links) {
+          submission.files.push(this.createFileFromLink(link, page));
         }
+      } else if (/^(Resposta|Texto)/.test(label)) {
+        submission.text = this.parser.removeTagsHtml(valueElement.html());
+      }
+    }
+    return submission;
+  }
+
+  /**
+   * Create file instance from file link.
+   * @param link anchor element.
+   * @param page page with the link.
+   */
+  private createFileFromLink(link: cheerio.Element, page: Page): File {
+    const path = page.$(link).attr('href');
+    if (!path)
+      throw new SigaaParseError('SIGAA: File link without href.', {
+        url: page.url
+      });
+    const fileData = this.parseFileData(path, page);
+    fileData.title = this.parser.removeTagsHtml(page.$(link).html());
+    return this.courseResourcesFactory.createFileFromFileData(
+      fileData,
+      this.http,
+      async () => {
+        throw new SigaaParseError('SIGAA: Invalid file in Homework.', {
+          url: page.url
+        });
+      }
+    );
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async getCorrection(): Promise<HomeworkCorrection> {
+    if (!(await this.getFlagHaveGrade()))
+      throw new SigaaError('SIGAA: Homework does not have grade.');
+    const page = await this.getSubmissionPage();
+    const correction: HomeworkCorrection = {};
+    const items = page.$('ul.form > li').toArray();
+    for (const item of items) {
+      const label = this.parser.removeTagsHtml(
+        page.$(item).find('label').html()
       );
-    } else {
-      this._file.update(file);
+      const valueElement = page.$(item).find('div, span').first();
+      const value = this.parser.removeTagsHtml(valueElement.html());
+      if (/^Nota M[áa]xima/i.test(label)) {
+        const maxGrade = parseFloat(value.replace(',', '.'));
+        if (!isNaN(maxGrade)) correction.maxGrade = maxGrade;
+      } else if (/^Nota/.test(label)) {
+        const [grade, maxGrade] = value
+          .split('/')
+          .map((gradeString) => parseFloat(gradeString.replace(',', '.')));
+        if (!isNaN(grade)) correction.grade = grade;
+        if (maxGrade !== undefined && !isNaN(maxGrade))
+          correction.maxGrade = maxGrade;
+      } else if (/^Coment[áa]rio/.test(label)) {
+        correction.comment = value || undefined;
+      } else if (/Corre[çc][ãa]o/i.test(label)) {
+        const link = page.$(item).find('a[href]').toArray()[0];
+        if (link)
+          correction.correctionFile = this.createFileFromLink(link, page);
+      }
     }
-    return this._file;
+    return correction;
   }
 }
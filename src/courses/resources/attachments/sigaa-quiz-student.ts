@@ -1,3 +1,5 @@
+import { URL } from 'url';
+import { Parser } from '@helpers/sigaa-parser';
 import { UpdatableResourceData } from '@resources/sigaa-resource-manager';
 import {
   AbstractUpdatableResource,
@@ -5,7 +7,12 @@ import {
   UpdatableResourceCallback
 } from '@resources/updatable-resource';
 import { HTTP } from '@session/sigaa-http';
-import { SigaaForm } from '@session/sigaa-page';
+import { SigaaForm, Page } from '@session/sigaa-page';
+import {
+  SigaaError,
+  SigaaNetworkError,
+  SigaaParseError
+} from '../../../sigaa-errors';
 
 /**
  * @category Internal
@@ -19,6 +26,110 @@ export interface QuizData extends UpdatableResourceData {
   formViewAnswersSubmitted?: SigaaForm;
 }
 
+/**
+ * @category Public
+ */
+export type QuizQuestionType =
+  | 'multiple-choice'
+  | 'single-choice'
+  | 'true-false'
+  | 'essay'
+  | 'numeric';
+
+/**
+ * @category Public
+ */
+export interface QuizQuestionOption {
+  id: string;
+  text: string;
+}
+
+/**
+ * @category Public
+ */
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  statement: string;
+  /**
+   * Options of choice questions, empty in essay and numeric questions.
+   */
+  options: QuizQuestionOption[];
+}
+
+/**
+ * Answer of a question:
+ * - multiple-choice: array of option ids;
+ * - single-choice: option id;
+ * - true-false: boolean;
+ * - essay: text;
+ * - numeric: number.
+ * @category Public
+ */
+export type QuizAnswer = string[] | string | boolean | number;
+
+/**
+ * Answers indexed by question id.
+ * @category Public
+ */
+export type QuizAnswers = Record<string, QuizAnswer>;
+
+/**
+ * @category Public
+ */
+export interface QuizAnsweredQuestion extends QuizQuestion {
+  answer?: QuizAnswer;
+  score?: number;
+  maxScore?: number;
+}
+
+/**
+ * Answers submitted and the scores.
+ * @category Public
+ */
+export interface QuizSubmission {
+  questions: QuizAnsweredQuestion[];
+  score?: number;
+  maxScore?: number;
+}
+
+/**
+ * Thrown when the quiz is answered out of the time window.
+ * @category Public
+ */
+export class SigaaQuizClosedError extends SigaaError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SigaaQuizClosedError';
+  }
+}
+
+/**
+ * Thrown when the submitted answers cannot be read,
+ * because the deadline to read them closed or no answers were sent yet.
+ * The message is errorDeadlineToReadClosed or errorQuizYetNoSendAnswers of the quiz.
+ * @category Public
+ */
+export class SigaaQuizAnswersUnavailableError extends SigaaError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SigaaQuizAnswersUnavailableError';
+  }
+}
+
+/**
+ * Thrown when there are no attempts left.
+ * @category Public
+ */
+export class SigaaQuizAttemptsExceededError extends SigaaError {
+  constructor(readonly attempts: number, readonly maxAttempts: number) {
+    super(
+      `SIGAA: Quiz attempts exceeded (${attempts} of ${maxAttempts} attempts).`
+    );
+    this.name = 'SigaaQuizAttemptsExceededError';
+  }
+}
+
 /**
  * @category Public
  */
@@ -28,11 +139,54 @@ export interface Quiz extends UpdatableResource<QuizData> {
   readonly endDate: Date;
   readonly startDate: Date;
   readonly id: string;
+
+  /**
+   * Number of attempts made, undefined until the quiz page is loaded.
+   */
+  readonly attempts?: number;
+
+  /**
+   * Max number of attempts, undefined if unknown or unlimited.
+   */
+  readonly maxAttempts?: number;
+
+  /**
+   * Get the questions of the quiz.
+   * @throws {SigaaQuizClosedError} If the quiz is out of the time window.
+   * @throws {SigaaQuizAttemptsExceededError} If there are no attempts left.
+   */
+  getQuestions(): Promise<QuizQuestion[]>;
+
+  /**
+   * Save the answers without sending the attempt.
+   * @throws {SigaaQuizClosedError} If the quiz is out of the time window.
+   * @throws {SigaaQuizAttemptsExceededError} If there are no attempts left.
+   */
+  saveDraft(answers: QuizAnswers): Promise<void>;
+
+  /**
+   * Send the answers, it uses one attempt.
+   * @throws {SigaaQuizClosedError} If the quiz is out of the time window.
+   * @throws {SigaaQuizAttemptsExceededError} If there are no attempts left.
+   */
+  submit(answers: QuizAnswers): Promise<void>;
+
   /**
-   * TODO
-   * @param retry
+   * Get the answers submitted with the scores.
+   * @throws {SigaaQuizAnswersUnavailableError} If the deadline to read the answers closed or no answers were sent.
    */
-  getAnswersSubmitted(): Promise<void>;
+  getAnswersSubmitted(): Promise<QuizSubmission>;
+}
+
+/**
+ * Input of a question in the quiz form.
+ */
+interface QuizQuestionInput {
+  question: QuizQuestion;
+  /**
+   * Input name of each option id, or the input name of the question.
+   */
+  inputNames: Record<string, string>;
 }
 
 /**
@@ -51,9 +205,18 @@ export class SigaaQuiz extends AbstractUpdatableResource implements Quiz {
   private _endDate!: Date;
   private _title!: string;
   private _id!: string;
+  private _attempts?: number;
+  private _maxAttempts?: number;
+
+  /**
+   * Last quiz page with the answer form.
+   */
+  private answerPage?: Page;
+  private questionInputs: QuizQuestionInput[] = [];
 
   constructor(
     private http: HTTP,
+    private parser: Parser,
     options: QuizData,
     updater: UpdatableResourceCallback
   ) {
@@ -92,14 +255,422 @@ export class SigaaQuiz extends AbstractUpdatableResource implements Quiz {
     return this._startDate;
   }
 
+  get attempts(): number | undefined {
+    this.checkIfItWasClosed();
+    return this._attempts;
+  }
+
+  get maxAttempts(): number | undefined {
+    this.checkIfItWasClosed();
+    return this._maxAttempts;
+  }
+
+  /**
+   * Throws if the quiz can not be answered now, without sending requests.
+   */
+  private checkIfCanAnswer(): void {
+    this.checkIfItWasClosed();
+    const now = Date.now();
+    if (now < this._startDate.valueOf())
+      throw new SigaaQuizClosedError('SIGAA: Quiz has not started yet.');
+    if (now > this._endDate.valueOf())
+      throw new SigaaQuizClosedError('SIGAA: Quiz deadline has passed.');
+    if (
+      this._attempts !== undefined &&
+      this._maxAttempts !== undefined &&
+      this._attempts >= this._maxAttempts
+    )
+      throw new SigaaQuizAttemptsExceededError(
+        this._attempts,
+        this._maxAttempts
+      );
+  }
+
   /**
-   * TODO
-   * @param retry
+   * Load the page with the answer form.
+   * @param reloadForm if it fails, the form is updated from the course and the page is loaded again, because the form can be stale.
    */
-  async getAnswersSubmitted(retry = true): Promise<void> {
+  private async loadAnswerPage(reloadForm = true): Promise<Page> {
+    try {
+      if (this._formSendAnswers === undefined)
+        throw new SigaaParseError('SIGAA: Quiz form is undefined.');
+      const page = await this.http.post(
+        this._formSendAnswers.action.href,
+        this._formSendAnswers.postValues,
+        { noCache: true }
+      );
+      if (page.statusCode !== 200)
+        throw new SigaaParseError('SIGAA: Quiz page status code unexpected.', {
+          url: page.url
+        });
+      this.parseAnswerPage(page);
+      return page;
+    } catch (err) {
+      if (
+        err instanceof SigaaQuizClosedError ||
+        err instanceof SigaaQuizAttemptsExceededError
+      )
+        throw err;
+      if (reloadForm && !(err instanceof SigaaNetworkError)) {
+        await this.updateInstance();
+        return this.loadAnswerPage(false);
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Parse the number of attempts, like "Tentativas: 1 de 3".
+   * @param page
+   */
+  private parseAttempts(page: Page): void {
+    const text = this.parser.removeTagsHtml(page.$('body').html());
+    const attemptsMatch = text.match(
+      /Tentativas?[^:\n]*:\s*(\d+)\s*(?:de|\/)\s*(\d+)/i
+    );
+    if (attemptsMatch) {
+      this._attempts = parseInt(attemptsMatch[1], 10);
+      this._maxAttempts = parseInt(attemptsMatch[2], 10);
+    }
+  }
+
+  /**
+   * Parse the questions of the answer form.
+   * @param page
+   */
+  private parseAnswerPage(page: Page): void {
+    this.parseAttempts(page);
+    if (
+      /não possui mais tentativas|número máximo de tentativas/i.test(
+        page.bodyDecoded
+      )
+    )
+      throw new SigaaQuizAttemptsExceededError(
+        this._attempts ?? this._maxAttempts ?? 0,
+        this._maxAttempts ?? 0
+      );
+    if (/prazo .*(encerrado|expirado)|fora do prazo/i.test(page.bodyDecoded))
+      throw new SigaaQuizClosedError('SIGAA: Quiz deadline has passed.');
+
+    this.questionInputs = this.parseQuestions(page).map(
+      ({ question, inputNames }) => ({ question, inputNames })
+    );
+    this.answerPage = page;
+  }
+
+  /**
+   * Parse the questions of a quiz page.
+   * @param page
+   */
+  private parseQuestions(
+    page: Page
+  ): (QuizQuestionInput & { element: cheerio.Element })[] {
+    const questionElements = page.$('.questao').toArray();
+    if (questionElements.length === 0)
+      throw new SigaaParseError('SIGAA: Quiz page without questions.', {
+        url: page.url,
+        selector: '.questao'
+      });
+
+    return questionElements.map((questionElement, index) => {
+      const element = page.$(questionElement);
+      const statement = this.parser.removeTagsHtml(
+        element.find('.enunciado').html() || element.find('p').first().html()
+      );
+      const inputNames: Record<string, string> = {};
+      const options: QuizQuestionOption[] = [];
+
+      const textarea = element.find('textarea[name]');
+      const textInput = element.find('input[type="text"][name]');
+      const checkboxes = element.find('input[type="checkbox"][name]');
+      const radios = element.find('input[type="radio"][name]');
+
+      const getOptionText = (input: cheerio.Element): string => {
+        const inputId = page.$(input).attr('id');
+        const label = inputId
+          ? element.find(`label[for="${inputId}"]`)
+          : page.$(input).parent().find('label');
+        return this.parser.removeTagsHtml(
+          label.length > 0 ? label.html() : page.$(input).parent().html()
+        );
+      };
+
+      let type: QuizQuestionType;
+      let id: string;
+      if (checkboxes.length > 0) {
+        type = 'multiple-choice';
+        id = checkboxes.first().attr('name') || index.toString();
+        for (const checkbox of checkboxes.toArray()) {
+          const optionId =
+            page.$(checkbox).attr('value') || options.length.toString();
+          inputNames[optionId] = page.$(checkbox).attr('name') as string;
+          options.push({ id: optionId, text: getOptionText(checkbox) });
+        }
+      } else if (radios.length > 0) {
+        id = radios.first().attr('name') as string;
+        for (const radio of radios.toArray()) {
+          const optionId = page.$(radio).val();
+          inputNames[optionId] = id;
+          options.push({ id: optionId, text: getOptionText(radio) });
+        }
+        const optionTexts = options.map((option) => option.text).sort();
+        type =
+          optionTexts.length === 2 &&
+          optionTexts[0] === 'Falso' &&
+          optionTexts[1] === 'Verdadeiro'
+            ? 'true-false'
+            : 'single-choice';
+      } else if (textarea.length > 0) {
+        type = 'essay';
+        id = textarea.attr('name') as string;
+        inputNames[id] = id;
+      } else if (textInput.length > 0) {
+        type = 'numeric';
+        id = textInput.attr('name') as string;
+        inputNames[id] = id;
+      } else {
+        throw new SigaaParseError(
+          'SIGAA: Quiz question without answer input.',
+          { url: page.url }
+        );
+      }
+
+      return {
+        question: { id, type, statement, options },
+        inputNames,
+        element: questionElement
+      };
+    });
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async getQuestions(): Promise<QuizQuestion[]> {
+    this.checkIfCanAnswer();
+    await this.loadAnswerPage();
+    return this.questionInputs.map(({ question }) => question);
+  }
+
+  /**
+   * Convert the answers to post values.
+   * @param answers
+   */
+  private encodeAnswers(
+    answers: QuizAnswers
+  ): Record<string, string | string[]> {
+    const postValues: Record<string, string | string[]> = {};
+    for (const questionId of Object.keys(answers)) {
+      const questionInput = this.questionInputs.find(
+        ({ question }) => question.id === questionId
+      );
+      if (!questionInput)
+        throw new SigaaError(`SIGAA: Quiz question not found: ${questionId}.`);
+      const { question, inputNames } = questionInput;
+      const answer = answers[questionId];
+      const invalidAnswerError = new SigaaError(
+        `SIGAA: Invalid answer to the ${question.type} question ${questionId}.`
+      );
+      switch (question.type) {
+        case 'multiple-choice': {
+          if (!Array.isArray(answer)) throw invalidAnswerError;
+          // The options of a checkbox group share the input name
+          for (const optionId of answer) {
+            const inputName = inputNames[optionId];
+            if (!inputName) throw invalidAnswerError;
+            const values = postValues[inputName];
+            postValues[inputName] = Array.isArray(values)
+              ? [...values, optionId]
+              : [optionId];
+          }
+          break;
+        }
+        case 'single-choice': {
+          if (typeof answer !== 'string' || !inputNames[answer])
+            throw invalidAnswerError;
+          postValues[inputNames[answer]] = answer;
+          break;
+        }
+        case 'true-false': {
+          if (typeof answer !== 'boolean') throw invalidAnswerError;
+          const option = question.options.find(
+            (option) => option.text === (answer ? 'Verdadeiro' : 'Falso')
+          );
+          if (!option) throw invalidAnswerError;
+          postValues[inputNames[option.id]] = option.id;
+          break;
+        }
+        case 'essay': {
+          if (typeof answer !== 'string') throw invalidAnswerError;
+          postValues[question.id] = answer;
+          break;
+        }
+        case 'numeric': {
+          if (typeof answer !== 'number' || isNaN(answer))
+            throw invalidAnswerError;
+          postValues[question.id] = answer.toString().replace('.', ',');
+          break;
+        }
+      }
+    }
+    return postValues;
+  }
+
+  /**
+   * Send the answer form with the button that matches the label.
+   * @param answers
+   * @param buttonLabel
+   */
+  private async sendAnswers(
+    answers: QuizAnswers,
+    buttonLabel: RegExp
+  ): Promise<Page> {
+    this.checkIfCanAnswer();
+    const page = this.answerPage || (await this.loadAnswerPage());
+    const answerValues = this.encodeAnswers(answers);
+
+    const formElement = page.$('.questao').first().closest('form');
+    const action = formElement.attr('action');
+    if (!action)
+      throw new SigaaParseError('SIGAA: Quiz page has form without action.', {
+        url: page.url,
+        selector: '.questao'
+      });
+    const actionURL = new URL(action, page.url.href);
+
+    const postValues: Record<string, string> = {};
+    const inputHiddens = formElement.find('input[type="hidden"]').toArray();
+    for (const input of inputHiddens) {
+      const name = page.$(input).attr('name');
+      if (name) postValues[name] = page.$(input).val();
+    }
+    const submitButton = formElement
+      .find('input[type="submit"], input[type="button"]')
+      .toArray()
+      .find((button) => buttonLabel.test(page.$(button).val()));
+    const submitName = submitButton && page.$(submitButton).attr('name');
+    if (!submitButton || !submitName)
+      throw new SigaaParseError(
+        'SIGAA: Quiz page without the expected button.',
+        { url: page.url }
+      );
+    postValues[submitName] = page.$(submitButton).val();
+
+    const responsePage = await this.http.post(actionURL.href, {
+      ...postValues,
+      ...answerValues
+    });
+    this.answerPage = undefined;
+    const errors = responsePage
+      .$('.erros li')
+      .toArray()
+      .map((element) =>
+        this.parser.removeTagsHtml(responsePage.$(element).html())
+      )
+      .filter((message) => message);
+    if (errors.length > 0) {
+      if (errors.some((error) => /prazo/i.test(error)))
+        throw new SigaaQuizClosedError('SIGAA: ' + errors.join(' '));
+      throw new SigaaError('SIGAA: Quiz answers rejected: ' + errors.join(' '));
+    }
+    return responsePage;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async saveDraft(answers: QuizAnswers): Promise<void> {
+    const page = await this.sendAnswers(answers, /Salvar/i);
+    if (page.$('.questao').length > 0) this.parseAnswerPage(page);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async submit(answers: QuizAnswers): Promise<void> {
+    await this.sendAnswers(answers, /Enviar|Finalizar/i);
+    if (this._attempts !== undefined) this._attempts++;
+  }
+
+  /**
+   * Parse score like "1,5 / 2,0".
+   * @param text
+   */
+  private parseScore(text: string): { score?: number; maxScore?: number } {
+    const scoreMatch = text.match(/(\d+(?:[,.]\d+)?)\s*\/\s*(\d+(?:[,.]\d+)?)/);
+    if (!scoreMatch) return {};
+    return {
+      score: parseFloat(scoreMatch[1].replace(',', '.')),
+      maxScore: parseFloat(scoreMatch[2].replace(',', '.'))
+    };
+  }
+
+  /**
+   * Parse the answers submitted page.
+   * @param page
+   */
+  private parseAnswersSubmittedPage(page: Page): QuizSubmission {
+    const questions = this.parseQuestions(page).map(
+      ({ question, element }): QuizAnsweredQuestion => {
+        const questionElement = page.$(element);
+        const answeredQuestion: QuizAnsweredQuestion = {
+          ...question,
+          ...this.parseScore(
+            this.parser.removeTagsHtml(
+              questionElement.find('.nota, .pontuacao').html()
+            )
+          )
+        };
+        const checked = questionElement
+          .find('input[checked]')
+          .toArray()
+          .map((input) => page.$(input).attr('value') || '');
+        switch (question.type) {
+          case 'multiple-choice':
+            answeredQuestion.answer = checked;
+            break;
+          case 'single-choice':
+            if (checked.length > 0) answeredQuestion.answer = checked[0];
+            break;
+          case 'true-false': {
+            const option = question.options.find(
+              (option) => option.id === checked[0]
+            );
+            if (option) answeredQuestion.answer = option.text === 'Verdadeiro';
+            break;
+          }
+          case 'essay':
+            answeredQuestion.answer = this.parser.removeTagsHtml(
+              questionElement.find('textarea').html()
+            );
+            break;
+          case 'numeric': {
+            const value = parseFloat(
+              questionElement.find('input[type="text"]').val().replace(',', '.')
+            );
+            if (!isNaN(value)) answeredQuestion.answer = value;
+            break;
+          }
+        }
+        return answeredQuestion;
+      }
+    );
+    return {
+      questions,
+      ...this.parseScore(
+        this.parser.removeTagsHtml(page.$('.notaFinal, .nota-final').html())
+      )
+    };
+  }
+
+  /**
+   * @inheritdoc
+   * @param reloadForm if it fails, the form is updated from the course and the page is loaded again, because the form can be stale.
+   */
+  async getAnswersSubmitted(reloadForm = true): Promise<QuizSubmission> {
     try {
       if (this._formViewAnswersSubmitted === undefined)
-        throw new Error('SIGAA: Quiz form is undefined.');
+        throw new SigaaParseError('SIGAA: Quiz form is undefined.');
 
       const page = await this.http.post(
         this._formViewAnswersSubmitted.action.href,
@@ -113,29 +684,31 @@ export class SigaaQuiz extends AbstractUpdatableResource implements Quiz {
               'Acabou o prazo para visualizar as respostas.'
             )
           )
-            throw new Error(this.errorDeadlineToReadClosed);
+            throw new SigaaQuizAnswersUnavailableError(
+              this.errorDeadlineToReadClosed
+            );
           if (
             page.bodyDecoded.includes(
               'Você ainda não enviou respostas para este questionário'
             )
           )
-            throw new Error(this.errorQuizYetNoSendAnswers);
-          break;
+            throw new SigaaQuizAnswersUnavailableError(
+              this.errorQuizYetNoSendAnswers
+            );
+          return this.parseAnswersSubmittedPage(page);
         case 302:
-          throw new Error('SIGAA: Quiz expired.');
+          throw new SigaaError('SIGAA: Quiz expired.');
         default:
-          throw new Error('SIGAA: Quiz page status code unexpected.');
+          throw new SigaaParseError(
+            'SIGAA: Quiz page status code unexpected.',
+            { url: page.url }
+          );
       }
     } catch (err) {
-      if (
-        err.message === this.errorDeadlineToReadClosed ||
-        err.message === this.errorQuizYetNoSendAnswers
-      ) {
-        throw err;
-      }
-      if (retry) {
+      if (err instanceof SigaaQuizAnswersUnavailableError) throw err;
+      if (reloadForm && !(err instanceof SigaaNetworkError)) {
         await this.updateInstance();
-        this.getAnswersSubmitted(false);
+        return this.getAnswersSubmitted(false);
       } else {
         throw err;
       }
@@ -1,10 +1,19 @@
+import { URL } from 'url';
+import { Parser } from '@helpers/sigaa-parser';
 import { UpdatableResourceData } from '@resources/sigaa-resource-manager';
 import {
   AbstractUpdatableResource,
   UpdatableResource,
   UpdatableResourceCallback
 } from '@resources/updatable-resource';
-import { SigaaForm } from '@session/sigaa-page';
+import { HTTP } from '@session/sigaa-http';
+import { SigaaForm, Page } from '@session/sigaa-page';
+import {
+  SigaaError,
+  SigaaNetworkError,
+  SigaaParseError,
+  SigaaPermissionError
+} from '../../../sigaa-errors';
 
 /**
  * @category Internal
@@ -15,6 +24,51 @@ export interface SurveyData extends UpdatableResourceData {
   form: SigaaForm;
 }
 
+/**
+ * @category Public
+ */
+export interface SurveyOption {
+  id: string;
+  text: string;
+}
+
+/**
+ * @category Public
+ */
+export interface SurveyQuestion {
+  id: string;
+  statement: string;
+  /**
+   * If true, more than one option can be voted.
+   */
+  allowMultiple: boolean;
+  options: SurveyOption[];
+}
+
+/**
+ * Votes of an option.
+ * @category Public
+ */
+export interface SurveyOptionResult {
+  text: string;
+  votes?: number;
+  percentage?: number;
+}
+
+/**
+ * @category Public
+ */
+export interface SurveyResult {
+  statement: string;
+  options: SurveyOptionResult[];
+}
+
+/**
+ * Options ids voted indexed by question id.
+ * @category Public
+ */
+export type SurveyVotes = Record<string, string | string[]>;
+
 /**
  * @category Public
  */
@@ -22,6 +76,31 @@ export interface Survey extends UpdatableResource<SurveyData> {
   readonly type: 'survey';
   readonly id: string;
   readonly title: string;
+
+  /**
+   * Get the questions and options of the survey.
+   */
+  getQuestions(): Promise<SurveyQuestion[]>;
+
+  /**
+   * Vote in the survey.
+   * @param votes option id (or array of option ids) indexed by question id.
+   */
+  vote(votes: SurveyVotes): Promise<void>;
+
+  /**
+   * Get the survey results.
+   * @returns Promise with the results or null if SIGAA does not show the results.
+   */
+  getResults(): Promise<SurveyResult[] | null>;
+}
+
+/**
+ * Input names of each option id.
+ */
+interface SurveyQuestionInput {
+  question: SurveyQuestion;
+  inputNames: Record<string, string>;
 }
 
 /**
@@ -33,7 +112,12 @@ export class SigaaSurvey extends AbstractUpdatableResource implements Survey {
   private _title!: string;
   private _form!: SigaaForm;
 
-  constructor(options: SurveyData, updater: UpdatableResourceCallback) {
+  constructor(
+    private http: HTTP,
+    private parser: Parser,
+    options: SurveyData,
+    updater: UpdatableResourceCallback
+  ) {
     super(options.instanceIndentifier, updater);
     this.update(options);
   }
@@ -53,4 +137,215 @@ export class SigaaSurvey extends AbstractUpdatableResource implements Survey {
     this.checkIfItWasClosed();
     return this._form.postValues.id;
   }
+
+  /**
+   * Load the survey page using the same form of the course page.
+   * @param reloadForm if it fails, the form is updated from the course and the page is loaded again, because the form can be stale.
+   */
+  private async loadSurveyPage(reloadForm = true): Promise<Page> {
+    this.checkIfItWasClosed();
+    try {
+      const page = await this.http.post(
+        this._form.action.href,
+        this._form.postValues,
+        { noCache: true }
+      );
+      if (page.statusCode !== 200)
+        throw new SigaaParseError(
+          'SIGAA: Survey page status code unexpected.',
+          { url: page.url }
+        );
+      return page;
+    } catch (err) {
+      if (reloadForm && !(err instanceof SigaaNetworkError)) {
+        await this.updateInstance();
+        return this.loadSurveyPage(false);
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Parse the questions of the vote form.
+   * @param page
+   */
+  private parseQuestions(page: Page): SurveyQuestionInput[] {
+    const questionInputs: SurveyQuestionInput[] = [];
+    const inputs = page
+      .$('input[type="radio"][name], input[type="checkbox"][name]')
+      .toArray();
+    for (const input of inputs) {
+      const inputElement = page.$(input);
+      const name = inputElement.attr('name') as string;
+      const allowMultiple = inputElement.attr('type') === 'checkbox';
+      const container = inputElement.closest('table, fieldset, ul');
+      const questionId = allowMultiple
+        ? container.find('input[type="checkbox"][name]').first().attr('name') ||
+          name
+        : name;
+
+      let questionInput = questionInputs.find(
+        ({ question }) => question.id === questionId
+      );
+      if (!questionInput) {
+        const statementElement = container
+          .prevAll('.pergunta, h4, legend, p')
+          .first();
+        const statement =
+          this.parser.removeTagsHtml(
+            container.find('caption, legend, .pergunta').first().html()
+          ) || this.parser.removeTagsHtml(statementElement.html());
+        questionInput = {
+          question: { id: questionId, statement, allowMultiple, options: [] },
+          inputNames: {}
+        };
+        questionInputs.push(questionInput);
+      }
+
+      const optionId =
+        inputElement.attr('value') ||
+        questionInput.question.options.length.toString();
+      const inputId = inputElement.attr('id');
+      const label = inputId ? page.$(`label[for="${inputId}"]`) : undefined;
+      const text = this.parser.removeTagsHtml(
+        label && label.length > 0 ? label.html() : inputElement.parent().html()
+      );
+      questionInput.inputNames[optionId] = name;
+      questionInput.question.options.push({ id: optionId, text });
+    }
+    return questionInputs;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async getQuestions(): Promise<SurveyQuestion[]> {
+    const page = await this.loadSurveyPage();
+    const questionInputs = this.parseQuestions(page);
+    if (questionInputs.length === 0)
+      throw new SigaaPermissionError(
+        'SIGAA: Survey is closed or has already been voted.'
+      );
+    return questionInputs.map(({ question }) => question);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async vote(votes: SurveyVotes): Promise<void> {
+    const page = await this.loadSurveyPage();
+    const questionInputs = this.parseQuestions(page);
+    if (questionInputs.length === 0)
+      throw new SigaaPermissionError(
+        'SIGAA: Survey is closed or has already been voted.'
+      );
+
+    const voteValues: Record<string, string | string[]> = {};
+    for (const questionId of Object.keys(votes)) {
+      const questionInput = questionInputs.find(
+        ({ question }) => question.id === questionId
+      );
+      if (!questionInput)
+        throw new SigaaError(
+          `SIGAA: Survey question not found: ${questionId}.`
+        );
+      const vote = votes[questionId];
+      const optionIds = Array.isArray(vote) ? vote : [vote];
+      if (optionIds.length > 1 && !questionInput.question.allowMultiple)
+        throw new SigaaError('SIGAA: Survey question allows only one option.');
+      for (const optionId of optionIds) {
+        const inputName = questionInput.inputNames[optionId];
+        if (!inputName)
+          throw new SigaaError(`SIGAA: Survey option not found: ${optionId}.`);
+        if (questionInput.question.allowMultiple) {
+          // Each checked checkbox is sent with the same name
+          const values = voteValues[inputName];
+          voteValues[inputName] = Array.isArray(values)
+            ? [...values, optionId]
+            : [optionId];
+        } else {
+          voteValues[inputName] = optionId;
+        }
+      }
+    }
+
+    const firstInput = page
+      .$('input[type="radio"][name], input[type="checkbox"][name]')
+      .first();
+    const formElement = firstInput.closest('form');
+    const action = formElement.attr('action');
+    if (!action)
+      throw new SigaaParseError('SIGAA: Survey page has form without action.', {
+        url: page.url
+      });
+    const actionURL = new URL(action, page.url.href);
+
+    const postValues: Record<string, string> = {};
+    const inputHiddens = formElement.find('input[type="hidden"]').toArray();
+    for (const input of inputHiddens) {
+      const name = page.$(input).attr('name');
+      if (name) postValues[name] = page.$(input).val();
+    }
+    const submitButton = formElement
+      .find('input[type="submit"]')
+      .toArray()
+      .find((button) => /Votar/i.test(page.$(button).val()));
+    const submitName = submitButton && page.$(submitButton).attr('name');
+    if (!submitButton || !submitName)
+      throw new SigaaParseError('SIGAA: Survey page without vote button.', {
+        url: page.url
+      });
+    postValues[submitName] = page.$(submitButton).val();
+
+    const responsePage = await this.http.post(actionURL.href, {
+      ...postValues,
+      ...voteValues
+    });
+    const errors = responsePage
+      .$('.erros li')
+      .toArray()
+      .map((element) =>
+        this.parser.removeTagsHtml(responsePage.$(element).html())
+      )
+      .filter((message) => message);
+    if (errors.length > 0)
+      throw new SigaaError('SIGAA: Survey vote rejected: ' + errors.join(' '));
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async getResults(): Promise<SurveyResult[] | null> {
+    const page = await this.loadSurveyPage();
+    const tables = page.$('table.resultado, table.listagem, table.listing');
+    if (tables.length === 0) return null;
+    const results: SurveyResult[] = [];
+    for (const table of tables.toArray()) {
+      const statement = this.parser.removeTagsHtml(
+        page.$(table).find('caption').html()
+      );
+      const options: SurveyOptionResult[] = [];
+      const rows = page.$(table).find('tbody > tr').toArray();
+      for (const row of rows) {
+        const cells = page.$(row).children('td');
+        if (cells.length < 2) continue;
+        const text = this.parser.removeTagsHtml(cells.first().html());
+        const optionResult: SurveyOptionResult = { text };
+        for (const cell of cells.slice(1).toArray()) {
+          const value = this.parser.removeTagsHtml(page.$(cell).html());
+          const percentageMatch = value.match(/(\d+(?:[,.]\d+)?)\s*%/);
+          if (percentageMatch) {
+            optionResult.percentage = parseFloat(
+              percentageMatch[1].replace(',', '.')
+            );
+          } else if (/^\d+$/.test(value)) {
+            optionResult.votes = parseInt(value, 10);
+          }
+        }
+        options.push(optionResult);
+      }
+      if (options.length > 0) results.push({ statement, options });
+    }
+    return results.length > 0 ? results : null;
+  }
 }
@@ -8,6 +8,11 @@ import {
   UpdatableResource,
   UpdatableResourceCallback
 } from '@resources/updatable-resource';
+import {
+  SigaaError,
+  SigaaNetworkError,
+  SigaaParseError
+} from '../../../sigaa-errors';
 
 /**
  * @category Internal
@@ -79,7 +84,11 @@ export class SigaaWebContent
     return this._content;
   }
 
-  private async loadWebContentPage(retry = true): Promise<void> {
+  /**
+   * Loads the web content page.
+   * @param reloadForm if it fails, the form is updated from the course and the page is loaded again, because the form can be stale.
+   */
+  private async loadWebContentPage(reloadForm = true): Promise<void> {
     this.checkIfItWasClosed();
     try {
       const page = await this.http.post(
@@ -114,12 +123,15 @@ export class SigaaWebContent
           }
         }
       } else if (page.statusCode === 302) {
-        throw new Error('SIGAA: Webcontent expired.');
+        throw new SigaaError('SIGAA: Webcontent expired.');
       } else {
-        throw new Error('SIGAA: Unexpected webcontent page status code.');
+        throw new SigaaParseError(
+          'SIGAA: Unexpected webcontent page status code.',
+          { url: page.url }
+        );
       }
     } catch (err) {
-      if (retry) {
+      if (reloadForm && !(err instanceof SigaaNetworkError)) {
         await this.updateInstance();
         return this.loadWebContentPage(false);
       } else {
@@ -10,7 +10,16 @@ import {
 import { HTTP } from '@session/sigaa-http';
 import { SigaaForm, Page } from '@session/sigaa-page';
 import { CourseResourcesFactory } from '@courses/sigaa-course-resources-factory';
-import { UpdatableResourceData } from '@resources/sigaa-resource-manager';
+import {
+  ResourceManager,
+  UpdatableResourceData
+} from '@resources/sigaa-resource-manager';
+import { ForumTopic, ForumTopicData } from './sigaa-forum-topic-student';
+import {
+  SigaaError,
+  SigaaNetworkError,
+  SigaaParseError
+} from '../../../sigaa-errors';
 
 /**
  * Object that contains basic information about the class forum.
@@ -83,6 +92,11 @@ export interface CourseForum extends UpdatableResource<ForumData> {
     notify: boolean
   ): Promise<void>;
 
+  /**
+   * Get the topics of the forum.
+   */
+  getTopics(): Promise<ForumTopic[]>;
+
   /**
    * Post author
    */
@@ -175,6 +189,11 @@ export class SigaaCourseForum
    */
   private _creationDate?: Date;
 
+  /**
+   * Topics of the forum.
+   */
+  private topics: ResourceManager<ForumTopic, ForumTopicData>;
+
   constructor(
     private http: HTTP,
     private parser: Parser,
@@ -183,6 +202,15 @@ export class SigaaCourseForum
     updater: UpdatableResourceCallback
   ) {
     super(forumOptions.instanceIndentifier, updater);
+    this.topics = new ResourceManager((options) =>
+      this.courseResourcesFactory.createForumTopicFromForumTopicData(
+        options,
+        this.http,
+        async () => {
+          await this.getTopics();
+        }
+      )
+    );
     this.update(forumOptions);
   }
 
@@ -204,9 +232,9 @@ export class SigaaCourseForum
 
   /**
    * Loads the forum page.
-   * @param retry
+   * @param reloadForm if it fails, the form is updated from the course and the page is loaded again, because the form can be stale.
    */
-  private async getForumPage(retry = true): Promise<void> {
+  private async getForumPage(reloadForm = true): Promise<void> {
     try {
       const page = await this.http.post(
         this._form.action.href,
@@ -215,8 +243,9 @@ export class SigaaCourseForum
 
       this.parseForumTable(page);
       this.parseSubmitPageForm(page);
+      this.parseTopicsTable(page);
     } catch (err) {
-      if (retry) {
+      if (reloadForm && !(err instanceof SigaaNetworkError)) {
         await this.updateInstance();
         return this.getForumPage(false);
       } else {
@@ -232,7 +261,10 @@ export class SigaaCourseForum
     const formElement = page.$('form#form');
     const action = formElement.attr('action');
     if (!action)
-      throw new Error('SIGAA: Forum submit page has form without action.');
+      throw new SigaaParseError(
+        'SIGAA: Forum submit page has form without action.',
+        { url: page.url, selector: 'form#form' }
+      );
     const actionURL = new URL(action, page.url.href);
     const postValues: Record<string, string> = {};
     formElement
@@ -255,7 +287,10 @@ export class SigaaCourseForum
   private parseForumTable(page: Page): void {
     const tableElement = page.$('table.formAva > tbody');
     if (tableElement.length === 0)
-      throw new Error('SIGAA: Unexpected forum page without table element.');
+      throw new SigaaParseError(
+        'SIGAA: Unexpected forum page without table element.',
+        { url: page.url, selector: 'table.formAva > tbody' }
+      );
 
     const rows = tableElement.find('tr').toArray();
     for (const row of rows) {
@@ -282,7 +317,10 @@ export class SigaaCourseForum
             const title = this.parser.removeTagsHtml(linkElement.html());
             const onClick = linkElement.attr('onclick');
             if (!onClick)
-              throw new Error('SIGAA: Invalid file format at forum page.');
+              throw new SigaaParseError(
+                'SIGAA: Invalid file format at forum page.',
+                { url: page.url }
+              );
             const form = page.parseJSFCLJS(onClick);
             const fileObj: FileData = {
               title,
@@ -335,6 +373,113 @@ export class SigaaCourseForum
     }
   }
 
+  /**
+   * Parse the topics table of forum page.
+   * @param page
+   */
+  private parseTopicsTable(page: Page): void {
+    const tableElement = page.$('table.listing');
+    if (tableElement.length === 0) {
+      this.topics.keepOnly([]);
+      return;
+    }
+
+    const tableColumnIndexs: Record<string, null | number> = {
+      title: null,
+      author: null,
+      numOfReplies: null,
+      date: null
+    };
+    const headerCellElements = tableElement.find('thead tr th').toArray();
+    for (let column = 0; column < headerCellElements.length; column++) {
+      const cellContent = this.parser.removeTagsHtml(
+        page.$(headerCellElements[column]).html()
+      );
+      switch (cellContent) {
+        case 'Título':
+        case 'Tópico':
+          tableColumnIndexs.title = column;
+          break;
+        case 'Autor':
+        case 'Autor(a)':
+          tableColumnIndexs.author = column;
+          break;
+        case 'Respostas':
+          tableColumnIndexs.numOfReplies = column;
+          break;
+        case 'Última Mensagem':
+        case 'Data':
+          tableColumnIndexs.date = column;
+          break;
+      }
+    }
+    if (tableColumnIndexs.title === null)
+      throw new SigaaParseError(
+        'SIGAA: Invalid topics table, could not find the column with titles.',
+        { url: page.url }
+      );
+
+    const usedTopicsIds = [];
+    const rows = tableElement.find('tbody > tr').toArray();
+    for (const row of rows) {
+      const cellElements = page.$(row).children('td');
+      const titleElement = cellElements
+        .eq(tableColumnIndexs.title)
+        .find('a[onclick]');
+      const onClick = titleElement.attr('onclick');
+      if (!onClick)
+        throw new SigaaParseError(
+          'SIGAA: Forum topic title without onclick event.',
+          { url: page.url }
+        );
+      const form = page.parseJSFCLJS(onClick);
+      const title = this.parser.removeTagsHtml(titleElement.html());
+      const author =
+        tableColumnIndexs.author !== null
+          ? this.parser.removeTagsHtml(
+              cellElements.eq(tableColumnIndexs.author).html()
+            )
+          : '';
+      const numOfReplies =
+        tableColumnIndexs.numOfReplies !== null
+          ? parseInt(
+              this.parser.removeTagsHtml(
+                cellElements.eq(tableColumnIndexs.numOfReplies).html()
+              ),
+              10
+            ) || 0
+          : 0;
+      let date;
+      if (tableColumnIndexs.date !== null) {
+        try {
+          date = this.parser.parseDates(
+            this.parser.removeTagsHtml(
+              cellElements.eq(tableColumnIndexs.date).html()
+            ),
+            1
+          )[0];
+          // eslint-disable-next-line no-empty
+        } catch (err) {}
+      }
+      const id = form.postValues.id;
+      if (!id)
+        throw new SigaaParseError('SIGAA: Forum topic id not found.', {
+          url: page.url
+        });
+      this.topics.upsert({
+        id,
+        title,
+        author,
+        date,
+        numOfReplies,
+        form,
+        instanceIndentifier: id
+      });
+      usedTopicsIds.push(id);
+    }
+    this.topics.keepOnly(usedTopicsIds);
+  }
+
   private async loadForumPage() {
     if (!this._fullForumPromise) {
       this._fullForumPromise = this.getForumPage();
@@ -359,7 +504,7 @@ export class SigaaCourseForum
       await this.loadForumPage();
     }
     if (!this._forumType)
-      throw new Error('SIGAA: Forum type could not be loaded.');
+      throw new SigaaParseError('SIGAA: Forum type could not be loaded.');
     return this._forumType;
   }
 
@@ -369,7 +514,9 @@ export class SigaaCourseForum
       await this.loadForumPage();
     }
     if (!this._description)
-      throw new Error('SIGAA: Forum description could not be loaded.');
+      throw new SigaaParseError(
+        'SIGAA: Forum description could not be loaded.'
+      );
     return this._description;
   }
 
@@ -382,7 +529,7 @@ export class SigaaCourseForum
       await this.loadForumPage();
     }
     if (!this._author)
-      throw new Error('SIGAA: Forum author could not be loaded.');
+      throw new SigaaParseError('SIGAA: Forum author could not be loaded.');
     return this._author;
   }
 
@@ -395,7 +542,9 @@ export class SigaaCourseForum
       await this.loadForumPage();
     }
     if (!this._flagMonitorReading)
-      throw new Error('SIGAA: Forum monitor reading flag could not be loaded.');
+      throw new SigaaParseError(
+        'SIGAA: Forum monitor reading flag could not be loaded.'
+      );
     return this._flagMonitorReading;
   }
 
@@ -408,7 +557,9 @@ export class SigaaCourseForum
       await this.loadForumPage();
     }
     if (!this._creationDate)
-      throw new Error('SIGAA: Forum creation date could not be loaded.');
+      throw new SigaaParseError(
+        'SIGAA: Forum creation date could not be loaded.'
+      );
     return this._creationDate;
   }
 
@@ -432,7 +583,9 @@ export class SigaaCourseForum
       await this.updateInstance();
     }
     if (!this._numOfTopics)
-      throw new Error('SIGAA: Forum number of topics could not be loaded.');
+      throw new SigaaParseError(
+        'SIGAA: Forum number of topics could not be loaded.'
+      );
     return this._numOfTopics;
   }
 
@@ -455,16 +608,16 @@ export class SigaaCourseForum
     notify: boolean
   ): Promise<void> {
     if (!title) {
-      throw new Error('SIGAA: Title topic forum cannot be empty.');
+      throw new SigaaError('SIGAA: Title topic forum cannot be empty.');
     }
     if (!body) {
-      throw new Error('SIGAA: Title body forum cannot be empty.');
+      throw new SigaaError('SIGAA: Title body forum cannot be empty.');
     }
     if (!this._submitTopicPageForm) {
       await this.loadForumPage();
     }
     if (!this._submitTopicPageForm)
-      throw new Error('SIGAA: Could not get the forum form.');
+      throw new SigaaParseError('SIGAA: Could not get the forum form.');
     const page = await this.http.post(
       this._submitTopicPageForm.action.href,
       this._submitTopicPageForm.postValues
@@ -473,7 +626,10 @@ export class SigaaCourseForum
     const formElement = page.$('form#form');
     const action = formElement.attr('action');
     if (!action)
-      throw new Error('SIGAA: Forum post page has form without action.');
+      throw new SigaaParseError(
+        'SIGAA: Forum post page has form without action.',
+        { url: page.url, selector: 'form#form' }
+      );
     const actionURl = new URL(action, page.url.href);
 
     const inputHiddens = formElement
@@ -488,8 +644,9 @@ export class SigaaCourseForum
       notifyCheckbox.length !== 1 ||
       fileInput.length !== 1
     )
-      throw new Error(
-        'SIGAA: Forum post page format is different than expected.'
+      throw new SigaaParseError(
+        'SIGAA: Forum post page format is different than expected.',
+        { url: page.url }
       );
 
     const formData = new FormData();
@@ -500,14 +657,18 @@ export class SigaaCourseForum
     if (file) {
       const name = fileInput.attr('name');
       if (!name)
-        throw new Error('SIGAA: Forum post page has input file without name.');
+        throw new SigaaParseError(
+          'SIGAA: Forum post page has input file without name.',
+          { url: page.url }
+        );
       formData.set(name, file);
     }
     if (notify) {
       const name = notifyCheckbox.attr('name');
       if (!name)
-        throw new Error(
-          'SIGAA: Forum post page has notify checkbox without name.'
+        throw new SigaaParseError(
+          'SIGAA: Forum post page has notify checkbox without name.',
+          { url: page.url }
         );
       formData.set(name, 'on');
     }
@@ -515,7 +676,10 @@ export class SigaaCourseForum
     formData.set('form:mensagem', body);
     const sumbitName = page.$(submitButton).attr('name');
     if (!sumbitName)
-      throw new Error('SIGAA: Forum post page has submit button without name.');
+      throw new SigaaParseError(
+        'SIGAA: Forum post page has submit button without name.',
+        { url: page.url }
+      );
 
     formData.set(sumbitName, page.$(submitButton).val());
     const responsePage = await this.http.postMultipart(
@@ -523,17 +687,18 @@ export class SigaaCourseForum
       formData
     );
     if (!responsePage.bodyDecoded.includes('Operação realizada com sucesso!')) {
-      throw new Error('SIGAA: Unexpected response forum post page.');
+      throw new SigaaParseError('SIGAA: Unexpected response forum post page.', {
+        url: page.url
+      });
     }
   }
 
-  *getTopics(): Generator<Promise<boolean>, void, void> {
-    let stillHaveTopics = true;
-    while (stillHaveTopics) {
-      yield (async (): Promise<boolean> => {
-        stillHaveTopics = false;
-        return true;
-      })();
-    }
+  /**
+   * @inheritdoc
+   */
+  async getTopics(): Promise<ForumTopic[]> {
+    this.checkIfItWasClosed();
+    await this.loadForumPage();
+    return this.topics.instances;
   }
 }
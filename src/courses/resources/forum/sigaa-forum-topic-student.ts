@@ -0,0 +1,399 @@
+import { URL } from 'url';
+import { FormData, fileFromPath } from 'formdata-node';
+import { Parser } from '@helpers/sigaa-parser';
+import { File, FileData } from '@resources/sigaa-file';
+import {
+  AbstractUpdatableResource,
+  UpdatableResource,
+  UpdatableResourceCallback
+} from '@resources/updatable-resource';
+import { HTTP } from '@session/sigaa-http';
+import { SigaaForm, Page } from '@session/sigaa-page';
+import { CourseResourcesFactory } from '@courses/sigaa-course-resources-factory';
+import { UpdatableResourceData } from '@resources/sigaa-resource-manager';
+import {
+  SigaaError,
+  SigaaNetworkError,
+  SigaaParseError
+} from '../../../sigaa-errors';
+
+/**
+ * Object that contains basic information about the forum topic.
+ * @category Internal
+ */
+export interface ForumTopicData extends UpdatableResourceData {
+  /**
+   * Id of the topic. This is unique
+   */
+  id: string;
+
+  title: string;
+
+  /**
+   * Topic creator.
+   */
+  author: string;
+
+  /**
+   * Date of the topic or of the last post.
+   */
+  date?: Date;
+
+  numOfReplies: number;
+
+  /**
+   * Form with parameters and url to load the topic page.
+   */
+  form: SigaaForm;
+}
+
+/**
+ * Message of the topic.
+ * @category Public
+ */
+export interface ForumPost {
+  author: string;
+  date?: Date;
+  body: string;
+  files: File[];
+}
+
+/**
+ * One page of the topic posts.
+ * @category Public
+ */
+export interface ForumPostPage {
+  posts: ForumPost[];
+  /**
+   * Page number, starting in 1.
+   */
+  pageNumber: number;
+  numOfPages: number;
+}
+
+/**
+ * @category Public
+ */
+export interface ForumTopic extends UpdatableResource<ForumTopicData> {
+  readonly type: 'forum-topic';
+  readonly id: string;
+  readonly title: string;
+  readonly author: string;
+  readonly date?: Date;
+  readonly numOfReplies: number;
+
+  /**
+   * Get the first message of the topic.
+   */
+  getFirstMessage(): Promise<ForumPost>;
+
+  /**
+   * Get one page of the topic posts.
+   * @param pageNumber page number, starting in 1.
+   */
+  getPosts(pageNumber?: number): Promise<ForumPostPage>;
+
+  /**
+   * Reply the topic.
+   * @param body body of the reply
+   * @param file path of the file attachment
+   */
+  reply(body: string, file?: string): Promise<void>;
+}
+
+/**
+ * @category Internal
+ */
+export class SigaaForumTopic
+  extends AbstractUpdatableResource
+  implements ForumTopic
+{
+  readonly type = 'forum-topic';
+
+  private _id!: string;
+  private _title!: string;
+  private _author!: string;
+  private _date?: Date;
+  private _numOfReplies!: number;
+  private _form!: SigaaForm;
+
+  constructor(
+    private http: HTTP,
+    private parser: Parser,
+    private courseResourcesFactory: CourseResourcesFactory,
+    options: ForumTopicData,
+    updater: UpdatableResourceCallback
+  ) {
+    super(options.instanceIndentifier, updater);
+    this.update(options);
+  }
+
+  update(options: ForumTopicData): void {
+    this._id = options.id;
+    this._title = options.title;
+    this._author = options.author;
+    this._date = options.date;
+    this._numOfReplies = options.numOfReplies;
+    this._form = options.form;
+    this.isClosed = false;
+  }
+
+  get id(): string {
+    this.checkIfItWasClosed();
+    return this._id;
+  }
+
+  get title(): string {
+    this.checkIfItWasClosed();
+    return this._title;
+  }
+
+  get author(): string {
+    this.checkIfItWasClosed();
+    return this._author;
+  }
+
+  get date(): Date | undefined {
+    this.checkIfItWasClosed();
+    return this._date;
+  }
+
+  get numOfReplies(): number {
+    this.checkIfItWasClosed();
+    return this._numOfReplies;
+  }
+
+  /**
+   * Loads the topic page.
+   * @param reloadForm if it fails, the form is updated from the course and the page is loaded again, because the form can be stale.
+   */
+  private async getTopicPage(reloadForm = true): Promise<Page> {
+    this.checkIfItWasClosed();
+    try {
+      const page = await this.http.post(
+        this._form.action.href,
+        this._form.postValues
+      );
+      if (page.statusCode !== 200)
+        throw new SigaaParseError(
+          'SIGAA: Unexpected forum topic page status code.',
+          { url: page.url }
+        );
+      return page;
+    } catch (err) {
+      if (reloadForm && !(err instanceof SigaaNetworkError)) {
+        await this.updateInstance();
+        return this.getTopicPage(false);
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Parse the page number, like "Página 1 de 3".
+   * @param page
+   */
+  private parsePagination(page: Page): {
+    pageNumber: number;
+    numOfPages: number;
+  } {
+    const text = this.parser.removeTagsHtml(page.$('.paginacao').html());
+    const pageMatch = text.match(/P[áa]gina\s*(\d+)\s*de\s*(\d+)/i);
+    if (!pageMatch) return { pageNumber: 1, numOfPages: 1 };
+    return {
+      pageNumber: parseInt(pageMatch[1], 10),
+      numOfPages: parseInt(pageMatch[2], 10)
+    };
+  }
+
+  /**
+   * Parse the posts of the topic page.
+   * @param page
+   */
+  private parsePosts(page: Page): ForumPost[] {
+    const postElements = page.$('.mensagem').toArray();
+    return postElements.map((postElement) => {
+      const element = page.$(postElement);
+      const author = this.parser.removeTagsHtml(element.find('.autor').html());
+      const dateString = this.parser.removeTagsHtml(
+        element.find('.data').html()
+      );
+      let date;
+      try {
+        date = this.parser.parseDates(dateString, 1)[0];
+        // eslint-disable-next-line no-empty
+      } catch (err) {}
+      const body = this.parser.removeTagsHtml(element.find('.conteudo').html());
+      const files = element
+        .find('.anexo a[onclick]')
+        .toArray()
+        .map((linkElement) => {
+          const title = this.parser.removeTagsHtml(page.$(linkElement).html());
+          const onClick = page.$(linkElement).attr('onclick');
+          if (!onClick)
+            throw new SigaaParseError(
+              'SIGAA: Invalid file format at forum topic page.',
+              { url: page.url }
+            );
+          const form = page.parseJSFCLJS(onClick);
+          const fileData: FileData = {
+            title,
+            description: '',
+            form,
+            id: form.postValues.id,
+            instanceIndentifier: form.postValues.id
+          };
+          return this.courseResourcesFactory.createFileFromFileData(
+            fileData,
+            this.http,
+            async () => {
+              throw new SigaaParseError('SIGAA: Invalid file in forum topic.', {
+                url: page.url
+              });
+            }
+          );
+        });
+      return { author, date, body, files };
+    });
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async getPosts(pageNumber = 1): Promise<ForumPostPage> {
+    let page = await this.getTopicPage();
+    let pagination = this.parsePagination(page);
+    if (pageNumber < 1 || pageNumber > pagination.numOfPages)
+      throw new SigaaParseError(
+        'SIGAA: Forum topic page number out of range.',
+        { url: page.url }
+      );
+
+    if (pagination.pageNumber !== pageNumber) {
+      const pageLink = page
+        .$('.paginacao a[onclick]')
+        .toArray()
+        .find(
+          (linkElement) =>
+            this.parser.removeTagsHtml(page.$(linkElement).html()) ===
+            pageNumber.toString()
+        );
+      const onClick = pageLink && page.$(pageLink).attr('onclick');
+      if (!onClick)
+        throw new SigaaParseError('SIGAA: Forum topic page link not found.', {
+          url: page.url
+        });
+      const form = page.parseJSFCLJS(onClick);
+      page = await this.http.post(form.action.href, form.postValues);
+      pagination = this.parsePagination(page);
+    }
+
+    return {
+      posts: this.parsePosts(page),
+      ...pagination
+    };
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async getFirstMessage(): Promise<ForumPost> {
+    const { posts } = await this.getPosts(1);
+    if (posts.length === 0)
+      throw new SigaaParseError('SIGAA: Forum topic without messages.');
+    return posts[0];
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async reply(body: string, file?: string): Promise<void> {
+    if (!body) {
+      throw new SigaaError('SIGAA: Reply body cannot be empty.');
+    }
+    let page = await this.getTopicPage();
+    if (page.$('form textarea').length === 0) {
+      const replyButton = page
+        .$('a[onclick]')
+        .toArray()
+        .find((linkElement) =>
+          /Responder/i.test(
+            this.parser.removeTagsHtml(page.$(linkElement).html())
+          )
+        );
+      const onClick = replyButton && page.$(replyButton).attr('onclick');
+      if (!onClick)
+        throw new SigaaParseError(
+          'SIGAA: Forum topic page without reply button.',
+          { url: page.url }
+        );
+      const form = page.parseJSFCLJS(onClick);
+      page = await this.http.post(form.action.href, form.postValues);
+    }
+
+    const formElement = page.$('form textarea').first().closest('form');
+    const action = formElement.attr('action');
+    if (!action)
+      throw new SigaaParseError(
+        'SIGAA: Forum reply page has form without action.',
+        { url: page.url, selector: 'form textarea' }
+      );
+    const actionURL = new URL(action, page.url.href);
+
+    const inputHiddens = formElement.find('input[type="hidden"]').toArray();
+    const textarea = formElement.find('textarea[name]');
+    const fileInput = formElement.find('input[type="file"]');
+    const submitButton = formElement
+      .find('input[type="submit"]')
+      .toArray()
+      .find((button) =>
+        /Responder|Cadastrar|Enviar/i.test(page.$(button).val())
+      );
+    if (inputHiddens.length === 0 || textarea.length !== 1 || !submitButton)
+      throw new SigaaParseError(
+        'SIGAA: Forum reply page format is different than expected.',
+        { url: page.url }
+      );
+
+    const formData = new FormData();
+    for (const input of inputHiddens) {
+      const name = page.$(input).attr('name');
+      if (name) formData.set(name, page.$(input).val());
+    }
+    const textareaName = textarea.attr('name');
+    if (!textareaName)
+      throw new SigaaParseError(
+        'SIGAA: Forum reply page has textarea without name.',
+        { url: page.url }
+      );
+    formData.set(textareaName, body);
+    if (file) {
+      const name = fileInput.attr('name');
+      if (!name)
+        throw new SigaaParseError(
+          'SIGAA: Forum reply page has input file without name.',
+          { url: page.url }
+        );
+      formData.set(name, await fileFromPath(file));
+    }
+    const submitName = page.$(submitButton).attr('name');
+    if (!submitName)
+      throw new SigaaParseError(
+        'SIGAA: Forum reply page has submit button without name.',
+        { url: page.url }
+      );
+    formData.set(submitName, page.$(submitButton).val());
+
+    const responsePage = await this.http.postMultipart(
+      actionURL.href,
+      formData
+    );
+    if (!responsePage.bodyDecoded.includes('Operação realizada com sucesso!')) {
+      throw new SigaaParseError(
+        'SIGAA: Unexpected response forum reply page.',
+        { url: page.url }
+      );
+    }
+    this._numOfReplies++;
+  }
+}
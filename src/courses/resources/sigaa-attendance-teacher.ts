@@ -0,0 +1,302 @@
+import { URL } from 'url';
+import { Parser } from '@helpers/sigaa-parser';
+import { HTTP } from '@session/sigaa-http';
+import { Page } from '@session/sigaa-page';
+import { SigaaError, SigaaParseError } from '../../sigaa-errors';
+
+/**
+ * Absences of one student in a class date.
+ * @category Public
+ */
+export interface AttendanceStudent {
+  /**
+   * Student registration code, in IFSC it is called "matrícula".
+   */
+  registration: string;
+  name: string;
+  numOfAbsences: number;
+}
+
+/**
+ * Attendance sheet of a class date, in IFSC it is called "Lançar Frequência".
+ * @category Public
+ */
+export interface AttendanceSheet {
+  readonly date: Date;
+
+  /**
+   * Students with the current number of absences.
+   */
+  readonly students: AttendanceStudent[];
+
+  /**
+   * Max number of absences in this date, it is the number of classes of the date.
+   */
+  readonly maxAbsences: number;
+
+  /**
+   * Change the number of absences of a student, the change is only sent with save().
+   * @param registration student registration.
+   * @param numOfAbsences number of absences, between 0 and maxAbsences.
+   */
+  setAbsences(registration: string, numOfAbsences: number): void;
+
+  /**
+   * Submit the attendance sheet.
+   * @throws {SigaaAttendanceSubmitError} If SIGAA rejects the attendance.
+   */
+  save(): Promise<void>;
+}
+
+/**
+ * Thrown when SIGAA rejects the submitted attendance.
+ * @category Public
+ */
+export class SigaaAttendanceSubmitError extends SigaaError {
+  constructor(readonly messages: string[]) {
+    super('SIGAA: Attendance rejected: ' + messages.join(' '));
+    this.name = 'SigaaAttendanceSubmitError';
+  }
+}
+
+/**
+ * Absence input of a student.
+ */
+interface AbsenceInput {
+  inputName: string;
+  student: AttendanceStudent;
+}
+
+/**
+ * @category Internal
+ */
+export class SigaaAttendanceSheet implements AttendanceSheet {
+  private _students: AttendanceStudent[] = [];
+  private _maxAbsences = 0;
+
+  /**
+   * Absence inputs indexed by student registration.
+   */
+  private inputs = new Map<string, AbsenceInput>();
+
+  private page!: Page;
+
+  constructor(
+    private http: HTTP,
+    private parser: Parser,
+    page: Page,
+    readonly date: Date
+  ) {
+    this.parsePage(page);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  get students(): AttendanceStudent[] {
+    return this._students;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  get maxAbsences(): number {
+    return this._maxAbsences;
+  }
+
+  /**
+   * Returns the table of the page with the absence inputs.
+   * @param page
+   */
+  private findAttendanceTable(page: Page): cheerio.Cheerio {
+    return page
+      .$('table.listagem, table.listing')
+      .filter(
+        (_, table) =>
+          page.$(table).find('select, input[type="text"]').length > 0
+      )
+      .first();
+  }
+
+  /**
+   * Parse the attendance sheet page.
+   * @param page
+   */
+  private parsePage(page: Page): void {
+    const table = this.findAttendanceTable(page);
+    if (table.length === 0)
+      throw new SigaaParseError('SIGAA: Invalid attendance sheet page.', {
+        url: page.url
+      });
+
+    const headerCells = table.find('thead tr th, thead tr td');
+    let registrationColumn: number | undefined;
+    let nameColumn: number | undefined;
+    let absencesColumn: number | undefined;
+    headerCells.each((column, cell) => {
+      const cellContent = this.parser.removeTagsHtml(page.$(cell).html());
+      switch (cellContent) {
+        case 'Matrícula':
+          registrationColumn = column;
+          break;
+        case 'Nome':
+        case 'Discente':
+          nameColumn = column;
+          break;
+        case 'Faltas':
+        case 'Frequência':
+          absencesColumn = column;
+          break;
+      }
+    });
+    if (
+      registrationColumn === undefined ||
+      nameColumn === undefined ||
+      absencesColumn === undefined
+    )
+      throw new SigaaParseError(
+        'SIGAA: Invalid attendance sheet table, could not find the columns.',
+        { url: page.url }
+      );
+
+    this._students = [];
+    this._maxAbsences = 0;
+    this.inputs.clear();
+
+    const rows = table.find('tbody > tr').toArray();
+    for (const row of rows) {
+      const cells = page.$(row).children('td');
+      const registration = this.parser.removeTagsHtml(
+        cells.eq(registrationColumn).html()
+      );
+      if (!registration) continue;
+      const name = this.parser.removeTagsHtml(cells.eq(nameColumn).html());
+      const absencesCell = cells.eq(absencesColumn);
+
+      let numOfAbsences: number;
+      const select = absencesCell.find('select[name]');
+      const input = absencesCell.find('input[type="text"][name]');
+      let inputName: string | undefined;
+      if (select.length > 0) {
+        inputName = select.attr('name');
+        const options = select
+          .find('option')
+          .toArray()
+          .map((option) => parseInt(page.$(option).attr('value') || '', 10))
+          .filter((value) => !isNaN(value));
+        this._maxAbsences = Math.max(this._maxAbsences, ...options);
+        numOfAbsences = parseInt(
+          select.find('option[selected]').attr('value') || '0',
+          10
+        );
+      } else if (input.length > 0) {
+        inputName = input.attr('name');
+        numOfAbsences = parseInt(input.val() || '0', 10);
+      } else {
+        numOfAbsences = parseInt(
+          this.parser.removeTagsHtml(absencesCell.html()) || '0',
+          10
+        );
+      }
+
+      const student: AttendanceStudent = {
+        registration,
+        name,
+        numOfAbsences: isNaN(numOfAbsences) ? 0 : numOfAbsences
+      };
+      this._students.push(student);
+      if (inputName) this.inputs.set(registration, { inputName, student });
+    }
+
+    if (this._maxAbsences === 0) {
+      const numberOfClassesInput = page.$('input[name$="numeroAulas"]');
+      const numberOfClasses = parseInt(numberOfClassesInput.val() || '', 10);
+      if (!isNaN(numberOfClasses)) this._maxAbsences = numberOfClasses;
+    }
+    this.page = page;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  setAbsences(registration: string, numOfAbsences: number): void {
+    const input = this.inputs.get(registration);
+    if (!input)
+      throw new SigaaError('SIGAA: Student not found in the attendance sheet.');
+    if (
+      !Number.isInteger(numOfAbsences) ||
+      numOfAbsences < 0 ||
+      (this._maxAbsences > 0 && numOfAbsences > this._maxAbsences)
+    )
+      throw new SigaaError(
+        `SIGAA: Invalid number of absences, it must be between 0 and ${this._maxAbsences}.`
+      );
+    input.student.numOfAbsences = numOfAbsences;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async save(): Promise<void> {
+    const page = this.page;
+    const formElement = this.findAttendanceTable(page).closest('form');
+    const action = formElement.attr('action');
+    if (!action)
+      throw new SigaaParseError(
+        'SIGAA: Attendance sheet page has form without action.',
+        { url: page.url }
+      );
+    const actionURL = new URL(action, page.url.href);
+
+    const postValues: Record<string, string> = {};
+    const inputs = formElement
+      .find("input[name]:not([type='submit']):not([type='button'])")
+      .toArray();
+    for (const input of inputs) {
+      const name = page.$(input).attr('name');
+      const type = page.$(input).attr('type');
+      if (!name) continue;
+      if (
+        (type === 'checkbox' || type === 'radio') &&
+        page.$(input).attr('checked') === undefined
+      )
+        continue;
+      postValues[name] = page.$(input).val();
+    }
+    const selects = formElement.find('select[name]').toArray();
+    for (const select of selects) {
+      const name = page.$(select).attr('name');
+      if (name)
+        postValues[name] =
+          page.$(select).find('option[selected]').attr('value') || '';
+    }
+    for (const { inputName, student } of this.inputs.values()) {
+      postValues[inputName] = student.numOfAbsences.toString();
+    }
+
+    const submitButton = formElement
+      .find("input[type='submit']")
+      .toArray()
+      .find((button) => /Salvar|Cadastrar|Gravar/i.test(page.$(button).val()));
+    const submitName = submitButton && page.$(submitButton).attr('name');
+    if (!submitButton || !submitName)
+      throw new SigaaParseError(
+        'SIGAA: Attendance sheet page without submit button.',
+        { url: page.url }
+      );
+    postValues[submitName] = page.$(submitButton).val();
+
+    const responsePage = await this.http.post(actionURL.href, postValues);
+    const finalPage = await this.http.followAllRedirect(responsePage);
+
+    const errors = finalPage
+      .$('.erros li')
+      .toArray()
+      .map((element) => this.parser.removeTagsHtml(finalPage.$(element).html()))
+      .filter((message) => message);
+    if (errors.length > 0) throw new SigaaAttendanceSubmitError(errors);
+    // SIGAA may return to the course page instead of the attendance sheet
+    if (this.findAttendanceTable(finalPage).length > 0)
+      this.parsePage(finalPage);
+  }
+}
@@ -0,0 +1,495 @@
+import { URL } from 'url';
+import { Parser } from '@helpers/sigaa-parser';
+import { HTTP } from '@session/sigaa-http';
+import { Page } from '@session/sigaa-page';
+import {
+  GradeGroup,
+  SubGradeArithmeticAverage,
+  SubGradeSumOfGrades,
+  SubGradeWeightedAverage
+} from './sigaa-grades-student';
+import { SigaaError, SigaaParseError } from '../../sigaa-errors';
+
+/**
+ * Grades of one student in the grade sheet.
+ * @category Public
+ */
+export interface GradeSheetStudent {
+  /**
+   * Student registration code, in IFSC it is called "matrícula".
+   */
+  registration: string;
+  name: string;
+  grades: GradeGroup[];
+}
+
+/**
+ * Grade sheet of a course, in IFSC it is called "Lançar notas".
+ * @category Public
+ */
+export interface GradeSheet {
+  /**
+   * Students with current grades.
+   */
+  readonly students: GradeSheetStudent[];
+
+  /**
+   * Change the value of a grade, the change is only sent with save() or publish().
+   * @param registration student registration.
+   * @param gradeCode code of the sub grade, or name of the grade group if the group has only the average.
+   * @param value new value, undefined to erase the grade.
+   * @throws {SigaaGradeValueError} If the value is negative or above the max value.
+   */
+  setGrade(registration: string, gradeCode: string, value?: number): void;
+
+  /**
+   * Save the grades without publishing them to the students, in IFSC it is called "Salvar".
+   * @throws {SigaaGradeSheetClosedError} If the grade entry period is closed.
+   * @throws {SigaaGradeSheetSubmitError} If SIGAA rejects the grades.
+   */
+  save(): Promise<void>;
+
+  /**
+   * Save and publish the grades to the students, in IFSC it is called "Publicar".
+   * @throws {SigaaGradeSheetClosedError} If the grade entry period is closed.
+   * @throws {SigaaGradeSheetSubmitError} If SIGAA rejects the grades.
+   */
+  publish(): Promise<void>;
+}
+
+/**
+ * Thrown when a grade value is not accepted.
+ * @category Public
+ */
+export class SigaaGradeValueError extends SigaaError {
+  constructor(
+    message: string,
+    readonly registration: string,
+    readonly gradeCode: string,
+    readonly value?: number
+  ) {
+    super(message);
+    this.name = 'SigaaGradeValueError';
+  }
+}
+
+/**
+ * Thrown when the grade entry period of the course is closed.
+ * @category Public
+ */
+export class SigaaGradeSheetClosedError extends SigaaError {
+  constructor(message = 'SIGAA: The grade entry period is closed.') {
+    super(message);
+    this.name = 'SigaaGradeSheetClosedError';
+  }
+}
+
+/**
+ * Thrown when SIGAA rejects the submitted grades.
+ * @category Public
+ */
+export class SigaaGradeSheetSubmitError extends SigaaError {
+  constructor(readonly messages: string[]) {
+    super('SIGAA: Grades rejected: ' + messages.join(' '));
+    this.name = 'SigaaGradeSheetSubmitError';
+  }
+}
+
+/**
+ * Where a grade is in the table.
+ */
+interface GradeColumn {
+  column: number;
+  group: GradeGroup;
+  /**
+   * Undefined if it is the average of the group.
+   */
+  code?: string;
+  maxValue: number;
+}
+
+/**
+ * Grade input of a student.
+ */
+interface GradeInput {
+  inputName: string;
+  column: GradeColumn;
+  target: { value?: number };
+}
+
+/**
+ * SIGAA grades scale, except sum of grades.
+ */
+const defaultMaxValue = 10;
+
+/**
+ * @category Internal
+ */
+export class SigaaGradeSheet implements GradeSheet {
+  private _students: GradeSheetStudent[] = [];
+
+  /**
+   * Grade inputs of each student, indexed by registration.
+   */
+  private inputs = new Map<string, GradeInput[]>();
+
+  /**
+   * Values changed with setGrade(), indexed by input name.
+   */
+  private changedValues: Record<string, string> = {};
+
+  private page!: Page;
+
+  constructor(private http: HTTP, private parser: Parser, page: Page) {
+    this.parsePage(page);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  get students(): GradeSheetStudent[] {
+    return this._students;
+  }
+
+  /**
+   * Throws if the page says that the grade entry is closed.
+   * @param page
+   */
+  private checkIfIsClosed(page: Page): void {
+    const closedMessages = [
+      'Turma já consolidada',
+      'prazo para lançamento de notas',
+      'período de lançamento de notas'
+    ];
+    const body = page.bodyDecoded;
+    if (closedMessages.some((message) => body.includes(message)))
+      throw new SigaaGradeSheetClosedError();
+  }
+
+  /**
+   * Parse the grade sheet page.
+   * @param page
+   */
+  private parsePage(page: Page): void {
+    this.checkIfIsClosed(page);
+    const table = page.$('table.tabelaRelatorio');
+    if (table.length < 1)
+      throw new SigaaParseError(
+        'SIGAA: Received empty table on grade sheet page.',
+        { url: page.url, selector: 'table.tabelaRelatorio' }
+      );
+
+    const theadElements = table
+      .find('thead tr')
+      .toArray()
+      .map((theadTr) => page.$(theadTr).find('th'));
+    if (theadElements.length === 0)
+      throw new SigaaParseError('SIGAA: Grade sheet table without header.', {
+        url: page.url
+      });
+
+    const getPositionByCellColSpan = (
+      ths: cheerio.Cheerio,
+      cell: cheerio.Element
+    ) => {
+      let i = 0;
+      for (const th of ths.toArray()) {
+        if (cell === th) {
+          return i;
+        }
+        i += parseInt(page.$(th).attr('colspan') || '1', 10);
+      }
+      throw new SigaaParseError('SIGAA: Invalid grade sheet table.', {
+        url: page.url
+      });
+    };
+
+    let registrationColumn: number | undefined;
+    let nameColumn: number | undefined;
+    const ignoredColumnNames = ['', 'Sit.', 'Faltas'];
+
+    const groups: GradeGroup[] = [];
+    const columns: GradeColumn[] = [];
+
+    for (let i = 0; i < theadElements[0].length; i++) {
+      const gradeGroupName = this.parser.removeTagsHtml(
+        theadElements[0].eq(i).html()
+      );
+      const index = getPositionByCellColSpan(
+        theadElements[0],
+        theadElements[0][i]
+      );
+      if (gradeGroupName === 'Matrícula') {
+        registrationColumn = index;
+        continue;
+      }
+      if (gradeGroupName === 'Nome') {
+        nameColumn = index;
+        continue;
+      }
+      if (ignoredColumnNames.includes(gradeGroupName)) continue;
+
+      const theadElementColspan = parseInt(
+        theadElements[0].eq(i).attr('colspan') || '1',
+        10
+      );
+      const gradeType = page.$(`#tipoUnid${i}`).val();
+      if (
+        theadElementColspan == 1 ||
+        !['P', 'A', 'S'].includes(gradeType) ||
+        !theadElements[1]
+      ) {
+        const group: GradeGroup = {
+          name: gradeGroupName,
+          type: 'only-average'
+        };
+        groups.push(group);
+        columns.push({
+          column: index,
+          group,
+          maxValue: defaultMaxValue
+        });
+        continue;
+      }
+
+      const subGrades: (
+        | SubGradeSumOfGrades
+        | SubGradeWeightedAverage
+        | SubGradeArithmeticAverage
+      )[] = [];
+      let group: GradeGroup;
+      switch (gradeType) {
+        case 'P':
+          group = {
+            name: gradeGroupName,
+            type: 'weighted-average',
+            grades: subGrades as SubGradeWeightedAverage[]
+          };
+          break;
+        case 'S':
+          group = {
+            name: gradeGroupName,
+            type: 'sum-of-grades',
+            grades: subGrades as SubGradeSumOfGrades[]
+          };
+          break;
+        default:
+          group = {
+            name: gradeGroupName,
+            type: 'arithmetic-average',
+            grades: subGrades
+          };
+      }
+      groups.push(group);
+
+      for (let j = index; j < index + theadElementColspan; j++) {
+        const fullId = theadElements[1].eq(j).attr('id');
+        if (!fullId)
+          throw new SigaaParseError('SIGAA: Grade without id.', {
+            url: page.url
+          });
+        const gradeId = fullId.slice(5);
+
+        if (gradeId === '') {
+          columns.push({ column: j, group, maxValue: defaultMaxValue });
+          continue;
+        }
+        const name = page.$(`input#denAval_${gradeId}`).val();
+        const code = page.$(`input#abrevAval_${gradeId}`).val();
+        let maxValue = defaultMaxValue;
+        if (group.type === 'sum-of-grades') {
+          maxValue = parseFloat(page.$(`input#notaAval_${gradeId}`).val());
+          subGrades.push({ name, code, maxValue });
+        } else if (group.type === 'weighted-average') {
+          const weight = parseFloat(page.$(`input#pesoAval_${gradeId}`).val());
+          subGrades.push({ name, code, weight });
+        } else {
+          subGrades.push({ name, code });
+        }
+        columns.push({ column: j, group, code, maxValue });
+      }
+    }
+
+    if (registrationColumn === undefined || nameColumn === undefined)
+      throw new SigaaParseError(
+        'SIGAA: Invalid grade sheet table, could not find the student columns.',
+        { url: page.url }
+      );
+
+    this._students = [];
+    this.inputs.clear();
+    this.changedValues = {};
+
+    const rows = table.find('tbody > tr').toArray();
+    for (const row of rows) {
+      const cells = page.$(row).children('td');
+      const registration = this.parser.removeTagsHtml(
+        cells.eq(registrationColumn).html()
+      );
+      if (!registration) continue;
+      const name = this.parser.removeTagsHtml(cells.eq(nameColumn).html());
+
+      const grades = groups.map((group) =>
+        group.type === 'only-average'
+          ? { ...group }
+          : ({
+              ...group,
+              grades: group.grades.map((subGrade) => ({ ...subGrade }))
+            } as GradeGroup)
+      );
+
+      const studentInputs: GradeInput[] = [];
+      for (const column of columns) {
+        const group = grades[groups.indexOf(column.group)];
+        let target: { value?: number } = group;
+        if (column.code !== undefined && group.type !== 'only-average') {
+          const subGrade = (group.grades as SubGradeArithmeticAverage[]).find(
+            (subGrade) => subGrade.code === column.code
+          );
+          if (!subGrade) throw new SigaaError('SIGAA: Grade not found.');
+          target = subGrade;
+        }
+
+        const cell = cells.eq(column.column);
+        const inputElement = cell.find('input[type="text"]');
+        const valueString =
+          inputElement.length > 0
+            ? inputElement.val()
+            : this.parser.removeTagsHtml(cell.html());
+        const value = parseFloat((valueString || '').replace(/,/g, '.'));
+        target.value = isNaN(value) ? undefined : value;
+
+        const inputName = inputElement.attr('name');
+        if (inputName) {
+          studentInputs.push({ inputName, column, target });
+        }
+      }
+      this.inputs.set(registration, studentInputs);
+      this._students.push({ registration, name, grades });
+    }
+    this.page = page;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  setGrade(registration: string, gradeCode: string, value?: number): void {
+    const studentInputs = this.inputs.get(registration);
+    if (!studentInputs)
+      throw new SigaaError('SIGAA: Student not found in the grade sheet.');
+
+    const input = studentInputs.find(
+      (input) =>
+        input.column.code === gradeCode ||
+        (input.column.code === undefined &&
+          input.column.group.name === gradeCode)
+    );
+    if (!input)
+      throw new SigaaGradeValueError(
+        'SIGAA: This grade can not be changed.',
+        registration,
+        gradeCode,
+        value
+      );
+
+    if (value !== undefined) {
+      if (isNaN(value) || value < 0)
+        throw new SigaaGradeValueError(
+          'SIGAA: Invalid grade value.',
+          registration,
+          gradeCode,
+          value
+        );
+      if (value > input.column.maxValue)
+        throw new SigaaGradeValueError(
+          `SIGAA: Grade value is above the max value (${input.column.maxValue}).`,
+          registration,
+          gradeCode,
+          value
+        );
+    }
+
+    input.target.value = value;
+    this.changedValues[input.inputName] =
+      value === undefined ? '' : value.toString().replace('.', ',');
+  }
+
+  /**
+   * @inheritdoc
+   */
+  save(): Promise<void> {
+    return this.submit(/Salvar/i);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  publish(): Promise<void> {
+    return this.submit(/Publicar/i);
+  }
+
+  /**
+   * Submit the grade sheet form with the button that matches the label.
+   * @param buttonLabel
+   */
+  private async submit(buttonLabel: RegExp): Promise<void> {
+    const page = this.page;
+    const formElement = page.$('table.tabelaRelatorio').closest('form');
+    const action = formElement.attr('action');
+    if (!action)
+      throw new SigaaParseError(
+        'SIGAA: Grade sheet page has form without action.',
+        { url: page.url, selector: 'table.tabelaRelatorio' }
+      );
+    const actionURL = new URL(action, page.url.href);
+
+    const postValues: Record<string, string> = {};
+    formElement
+      .find("input[name]:not([type='submit']):not([type='button'])")
+      .each((_, element) => {
+        const name = page.$(element).attr('name');
+        const type = page.$(element).attr('type');
+        if (!name) return;
+        if (
+          (type === 'checkbox' || type === 'radio') &&
+          !page.$(element).attr('checked')
+        )
+          return;
+        postValues[name] = page.$(element).val();
+      });
+
+    const submitButton = formElement
+      .find("input[type='submit']")
+      .toArray()
+      .find((button) => buttonLabel.test(page.$(button).val()));
+    const submitName = submitButton && page.$(submitButton).attr('name');
+    if (!submitButton || !submitName)
+      throw new SigaaGradeSheetClosedError(
+        'SIGAA: Grade sheet page without submit button, the grade entry may be closed.'
+      );
+    postValues[submitName] = page.$(submitButton).val();
+
+    const responsePage = await this.http.post(actionURL.href, {
+      ...postValues,
+      ...this.changedValues
+    });
+    const finalPage = await this.http.followAllRedirect(responsePage);
+
+    const errors = finalPage
+      .$('.erros li')
+      .toArray()
+      .map((element) => this.parser.removeTagsHtml(finalPage.$(element).html()))
+      .filter((message) => message);
+    if (errors.length > 0) {
+      if (errors.some((error) => /prazo|período|consolidad/i.test(error)))
+        throw new SigaaGradeSheetClosedError('SIGAA: ' + errors.join(' '));
+      throw new SigaaGradeSheetSubmitError(errors);
+    }
+
+    if (finalPage.$('table.tabelaRelatorio').length > 0) {
+      this.parsePage(finalPage);
+    } else {
+      this.changedValues = {};
+    }
+  }
+}
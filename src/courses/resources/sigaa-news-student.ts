@@ -7,6 +7,7 @@ import {
 } from '@resources/updatable-resource';
 import { HTTP } from '@session/sigaa-http';
 import { SigaaForm } from '@session/sigaa-page';
+import { SigaaNetworkError, SigaaParseError } from '../../sigaa-errors';
 
 /**
  * @category Internal
@@ -77,18 +78,27 @@ export class SigaaNews extends AbstractUpdatableResource implements News {
     return this._date as Date;
   }
 
-  private async getFullNews(retry = true): Promise<void> {
+  /**
+   * Loads the news page.
+   * @param reloadForm if it fails, the form is updated from the course and the page is loaded again, because the form can be stale.
+   */
+  private async getFullNews(reloadForm = true): Promise<void> {
     try {
       const page = await this.http.post(
         this._form.action.href,
         this._form.postValues
       );
       if (page.statusCode !== 200) {
-        throw new Error('SIGAA: Invalid status code at news page.');
+        throw new SigaaParseError('SIGAA: Invalid status code at news page.', {
+          url: page.url
+        });
       }
       const newsElement = page.$('ul.form');
       if (newsElement.length === 0) {
-        throw new Error('SIGAA: Invalid news page.');
+        throw new SigaaParseError('SIGAA: Invalid news page.', {
+          url: page.url,
+          selector: 'ul.form'
+        });
       }
       const els = newsElement.find('span');
       const dateString = this.parser.removeTagsHtml(els.eq(1).html());
@@ -97,7 +107,7 @@ export class SigaaNews extends AbstractUpdatableResource implements News {
         newsElement.find('div').html()
       );
     } catch (err) {
-      if (retry) {
+      if (reloadForm && !(err instanceof SigaaNetworkError)) {
         await this.updateInstance();
         return this.getFullNews(false);
       } else {
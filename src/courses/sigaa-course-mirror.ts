@@ -0,0 +1,477 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { StudentBond } from '@bonds/sigaa-student-bond';
+import { File } from '@resources/sigaa-file';
+import { ProgressCallback } from '@session/sigaa-http';
+import { CourseStudent } from './sigaa-course-student';
+import { SigaaError } from '../sigaa-errors';
+
+/**
+ * Where the file was found in the course.
+ * - lesson: attachment of a lesson;
+ * - files: list of files of the course;
+ * - forum: file of a forum or attachment of a forum topic post;
+ * - homework: file of a homework of a lesson.
+ * @category Public
+ */
+export type CourseMirrorSource = 'lesson' | 'files' | 'forum' | 'homework';
+
+/**
+ * Downloaded file in the manifest.
+ * @category Public
+ */
+export interface CourseMirrorEntry {
+  id: string;
+  key?: string;
+  title?: string;
+  courseId: string;
+  courseTitle: string;
+  period: string;
+  source: CourseMirrorSource;
+  /**
+   * Path of the file, relative to the mirror folder.
+   */
+  path: string;
+  /**
+   * Size of the file in bytes.
+   */
+  size: number;
+  /**
+   * SHA-256 of the file content, in hexadecimal.
+   */
+  sha256: string;
+  /**
+   * Date of the download, ISO string.
+   */
+  downloadedAt: string;
+}
+
+/**
+ * Saved as manifest.json in the mirror folder, it is used to skip the files already downloaded.
+ * @category Public
+ */
+export interface CourseMirrorManifest {
+  /**
+   * Date of the last mirror, ISO string.
+   */
+  date: string;
+  files: CourseMirrorEntry[];
+}
+
+/**
+ * File that could not be downloaded, or list of the course that could not be loaded.
+ * @category Public
+ */
+export interface CourseMirrorError {
+  /**
+   * Id of the file, undefined if the error is in the list of the source.
+   */
+  id?: string;
+  title?: string;
+  courseId: string;
+  source?: CourseMirrorSource;
+  error: Error;
+}
+
+/**
+ * @category Public
+ */
+export interface CourseMirrorOptions {
+  /**
+   * Number of files downloaded at the same time, the requests are still limited by the request limits.
+   * Default is 2.
+   */
+  concurrency?: number;
+  /**
+   * Mirror the courses of all periods, only used if a bond is informed.
+   * Default is false.
+   */
+  allPeriods?: boolean;
+  /**
+   * Called when each file is downloaded, skipped or fails.
+   * The first argument is the number of files and the second is the number of finished files.
+   */
+  callback?: ProgressCallback;
+}
+
+/**
+ * @category Public
+ */
+export interface CourseMirrorResult {
+  manifest: CourseMirrorManifest;
+  /**
+   * Number of files downloaded in this mirror.
+   */
+  downloaded: number;
+  /**
+   * Number of files skipped because they are in the manifest.
+   */
+  skipped: number;
+  errors: CourseMirrorError[];
+}
+
+/**
+ * Downloads the course materials into a period/course/lesson tree.
+ * @category Public
+ */
+export interface CourseMirror {
+  /**
+   * Downloads every file of the lessons, the course files, the forums and the homework.
+   * The files of the manifest of a previous mirror in the same folder are skipped.
+   * @param source bond or courses to mirror
+   * @param destpath mirror folder, it is created if it does not exist
+   * @param options
+   */
+  mirror(
+    source: StudentBond | CourseStudent[],
+    destpath: string,
+    options?: CourseMirrorOptions
+  ): Promise<CourseMirrorResult>;
+}
+
+/**
+ * @category Internal
+ */
+interface CourseMirrorItem {
+  file: File;
+  course: CourseStudent;
+  source: CourseMirrorSource;
+  /**
+   * Folder of the file, relative to the mirror folder.
+   */
+  directory: string;
+}
+
+/**
+ * @category Public
+ */
+export class SigaaCourseMirror implements CourseMirror {
+  /**
+   * Name of the manifest file in the mirror folder.
+   */
+  readonly manifestName = 'manifest.json';
+
+  /**
+   * Folder of the course files that are not in a lesson.
+   */
+  readonly filesDirectoryName = 'Arquivos';
+
+  /**
+   * Folder of the forum files.
+   */
+  readonly forumsDirectoryName = 'Fóruns';
+
+  /**
+   * Folder where each file is downloaded before it is moved to its folder,
+   * the .part files of interrupted downloads are kept in it.
+   */
+  readonly stagingDirectoryName = '.downloading';
+
+  /**
+   * @inheritdoc
+   */
+  async mirror(
+    source: StudentBond | CourseStudent[],
+    destpath: string,
+    options: CourseMirrorOptions = {}
+  ): Promise<CourseMirrorResult> {
+    const concurrency = options.concurrency ?? 2;
+    if (concurrency < 1)
+      throw new SigaaError('SIGAA: The mirror concurrency must be at least 1.');
+    const courses = Array.isArray(source)
+      ? source
+      : await source.getCourses(options.allPeriods);
+
+    await fs.promises.mkdir(destpath, { recursive: true });
+    const entries = await this.readManifest(destpath);
+    const usedPaths = new Map<string, string>();
+    for (const [key, entry] of entries) {
+      usedPaths.set(entry.path.toLowerCase(), key);
+    }
+
+    const result: CourseMirrorResult = {
+      manifest: { date: new Date().toISOString(), files: [] },
+      downloaded: 0,
+      skipped: 0,
+      errors: []
+    };
+
+    const items: CourseMirrorItem[] = [];
+    const itemKeys = new Set<string>();
+    for (const course of courses) {
+      for (const item of await this.getCourseItems(course, result.errors)) {
+        const itemKey = this.getFileKey(item.file);
+        if (itemKeys.has(itemKey)) continue;
+        itemKeys.add(itemKey);
+        items.push(item);
+      }
+    }
+    let finished = 0;
+    let nextItem = 0;
+    const worker = async () => {
+      while (nextItem < items.length) {
+        const item = items[nextItem++];
+        try {
+          const entry = entries.get(this.getFileKey(item.file));
+          if (entry && (await this.fileExists(path.join(destpath, entry.path))))
+            result.skipped++;
+          else {
+            entries.set(
+              this.getFileKey(item.file),
+              await this.downloadItem(item, destpath, usedPaths)
+            );
+            result.downloaded++;
+          }
+        } catch (err) {
+          result.errors.push({
+            id: item.file.id,
+            title: item.file.title,
+            courseId: item.course.id,
+            source: item.source,
+            error: err
+          });
+        }
+        finished++;
+        if (options.callback) options.callback(items.length, finished);
+      }
+    };
+    try {
+      await Promise.all(
+        Array.from({ length: Math.min(concurrency, items.length) }, worker)
+      );
+    } finally {
+      result.manifest.files = [...entries.values()];
+      await fs.promises.writeFile(
+        path.join(destpath, this.manifestName),
+        JSON.stringify(result.manifest, null, 2)
+      );
+      // It is only removed if there are no interrupted downloads
+      await fs.promises
+        .rmdir(path.join(destpath, this.stagingDirectoryName))
+        .catch(() => undefined);
+    }
+    return result;
+  }
+
+  /**
+   * Returns the files of the course with the folder of each one.
+   * If a list can not be loaded, the error is added to errors and the other lists are still loaded.
+   * @param course
+   * @param errors
+   */
+  private async getCourseItems(
+    course: CourseStudent,
+    errors: CourseMirrorError[]
+  ): Promise<CourseMirrorItem[]> {
+    const courseDirectory = path.join(
+      this.sanitizeName(course.period),
+      this.sanitizeName(course.title)
+    );
+    const items: CourseMirrorItem[] = [];
+    const collect = async (
+      source: CourseMirrorSource,
+      collector: () => Promise<void>
+    ) => {
+      try {
+        await collector();
+      } catch (err) {
+        errors.push({ courseId: course.id, source, error: err });
+      }
+    };
+
+    await collect('lesson', async () => {
+      for (const lesson of await course.getLessons()) {
+        const directory = path.join(
+          courseDirectory,
+          this.sanitizeName(lesson.title)
+        );
+        for (const attachment of lesson.attachments) {
+          if (attachment.type === 'file') {
+            items.push({
+              file: attachment,
+              course,
+              source: 'lesson',
+              directory
+            });
+          } else if (attachment.type === 'homework') {
+            try {
+              const file = await attachment.getAttachmentFile();
+              items.push({ file, course, source: 'homework', directory });
+            } catch (err) {
+              // The homework has no file or it has been submitted
+              if (!(err instanceof SigaaError)) throw err;
+            }
+          }
+        }
+      }
+    });
+
+    await collect('files', async () => {
+      for (const file of await course.getFiles()) {
+        items.push({
+          file,
+          course,
+          source: 'files',
+          directory: path.join(courseDirectory, this.filesDirectoryName)
+        });
+      }
+    });
+
+    await collect('forum', async () => {
+      for (const forum of await course.getForums()) {
+        const forumDirectory = path.join(
+          courseDirectory,
+          this.forumsDirectoryName,
+          this.sanitizeName(forum.title)
+        );
+        const file = await forum.getFile();
+        if (file)
+          items.push({
+            file,
+            course,
+            source: 'forum',
+            directory: forumDirectory
+          });
+
+        for (const topic of await forum.getTopics()) {
+          const directory = path.join(
+            forumDirectory,
+            this.sanitizeName(topic.title)
+          );
+          let numOfPages = 1;
+          for (let pageNumber = 1; pageNumber <= numOfPages; pageNumber++) {
+            const postPage = await topic.getPosts(pageNumber);
+            numOfPages = postPage.numOfPages;
+            for (const post of postPage.posts) {
+              for (const file of post.files) {
+                items.push({ file, course, source: 'forum', directory });
+              }
+            }
+          }
+        }
+      }
+    });
+    return items;
+  }
+
+  /**
+   * Downloads the file into its own staging folder, moves it to its folder and returns the manifest entry.
+   * @param item
+   * @param destpath mirror folder
+   * @param usedPaths file key of each path in the mirror, in lower case
+   */
+  private async downloadItem(
+    item: CourseMirrorItem,
+    destpath: string,
+    usedPaths: Map<string, string>
+  ): Promise<CourseMirrorEntry> {
+    const stagingDirectory = path.join(
+      destpath,
+      this.stagingDirectoryName,
+      this.sanitizeName(this.getFileKey(item.file))
+    );
+    await fs.promises.mkdir(stagingDirectory, { recursive: true });
+    const {
+      path: stagedPath,
+      size,
+      sha256
+    } = await item.file.downloadVerified(stagingDirectory);
+
+    const relativePath = this.reservePath(
+      item,
+      path.basename(stagedPath),
+      usedPaths
+    );
+    const filepath = path.join(destpath, relativePath);
+    await fs.promises.mkdir(path.dirname(filepath), { recursive: true });
+    await fs.promises.rename(stagedPath, filepath);
+    await fs.promises.rm(stagingDirectory, { recursive: true, force: true });
+    return {
+      id: item.file.id,
+      key: item.file.key,
+      title: item.file.title,
+      courseId: item.course.id,
+      courseTitle: item.course.title,
+      period: item.course.period,
+      source: item.source,
+      path: relativePath,
+      size,
+      sha256,
+      downloadedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Reads the entries of the manifest of a previous mirror.
+   * @param destpath mirror folder
+   * @returns Entries by file id and key, empty if there is no manifest.
+   */
+  private async readManifest(
+    destpath: string
+  ): Promise<Map<string, CourseMirrorEntry>> {
+    const entries = new Map<string, CourseMirrorEntry>();
+    let content: string;
+    try {
+      content = await fs.promises.readFile(
+        path.join(destpath, this.manifestName),
+        'utf8'
+      );
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return entries;
+      throw err;
+    }
+    const manifest: CourseMirrorManifest = JSON.parse(content);
+    for (const entry of manifest.files) {
+      entries.set(this.getFileKey(entry), entry);
+    }
+    return entries;
+  }
+
+  /**
+   * Returns the path of the file relative to the mirror folder,
+   * the file id is added to the name if another file of the mirror has the same path.
+   * @param item
+   * @param filename name of the downloaded file
+   * @param usedPaths file key of each path in the mirror, in lower case
+   */
+  private reservePath(
+    item: CourseMirrorItem,
+    filename: string,
+    usedPaths: Map<string, string>
+  ): string {
+    const itemKey = this.getFileKey(item.file);
+    let relativePath = path.join(item.directory, filename);
+    const owner = usedPaths.get(relativePath.toLowerCase());
+    if (owner !== undefined && owner !== itemKey)
+      relativePath = path.join(item.directory, `${item.file.id} - ${filename}`);
+    usedPaths.set(relativePath.toLowerCase(), itemKey);
+    return relativePath;
+  }
+
+  private getFileKey(file: { id: string; key?: string }): string {
+    return `${file.id}:${file.key ?? ''}`;
+  }
+
+  private async fileExists(filepath: string): Promise<boolean> {
+    try {
+      await fs.promises.access(filepath);
+      return true;
+    } catch (err) {
+      return false;
+    }
+  }
+
+  /**
+   * Removes the characters that are not allowed in folder names.
+   * @param name
+   */
+  private sanitizeName(name: string): string {
+    return (
+      name
+        .replace(/[\\/:*?"<>|]/g, '-')
+        .replace(/\s+/g, ' ')
+        .replace(/[. ]+$/, '')
+        .trim() || '_'
+    );
+  }
+}
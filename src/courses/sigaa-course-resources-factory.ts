@@ -23,6 +23,11 @@ import {
   ForumData,
   SigaaCourseForum
 } from '@courseResources/forum/sigaa-course-forum-student';
+import {
+  ForumTopic,
+  ForumTopicData,
+  SigaaForumTopic
+} from '@courseResources/forum/sigaa-forum-topic-student';
 
 import {
   Homework,
@@ -71,6 +76,12 @@ export interface CourseResourcesFactory {
     updateCallback: UpdatableResourceCallback
   ): CourseForum;
 
+  createForumTopicFromForumTopicData(
+    options: ForumTopicData,
+    http: HTTP,
+    updateCallback: UpdatableResourceCallback
+  ): ForumTopic;
+
   createNewsFromNewsData(
     newsOptions: NewsData,
     http: HTTP,
@@ -103,7 +114,7 @@ export class SigaaCourseResourcesFactory implements CourseResourcesFactory {
     http: HTTP,
     updateCallback: UpdatableResourceCallback
   ): SigaaHomework {
-    return new SigaaHomework(http, this, options, updateCallback);
+    return new SigaaHomework(http, this.parser, this, options, updateCallback);
   }
 
   @sharedReturn()
@@ -147,6 +158,21 @@ export class SigaaCourseResourcesFactory implements CourseResourcesFactory {
     );
   }
 
+  @sharedReturn()
+  createForumTopicFromForumTopicData(
+    options: ForumTopicData,
+    http: HTTP,
+    updateCallback: UpdatableResourceCallback
+  ): SigaaForumTopic {
+    return new SigaaForumTopic(
+      http,
+      this.parser,
+      this,
+      options,
+      updateCallback
+    );
+  }
+
   @sharedReturn()
   createNewsFromNewsData(
     options: NewsData,
@@ -162,7 +188,7 @@ export class SigaaCourseResourcesFactory implements CourseResourcesFactory {
     http: HTTP,
     updateCallback: UpdatableResourceCallback
   ): SigaaQuiz {
-    return new SigaaQuiz(http, options, updateCallback);
+    return new SigaaQuiz(http, this.parser, options, updateCallback);
   }
 
   @sharedReturn()
@@ -171,6 +197,6 @@ export class SigaaCourseResourcesFactory implements CourseResourcesFactory {
     http: HTTP,
     updateCallback: UpdatableResourceCallback
   ): SigaaSurvey {
-    return new SigaaSurvey(options, updateCallback);
+    return new SigaaSurvey(http, this.parser, options, updateCallback);
   }
 }
@@ -0,0 +1,399 @@
+import { CourseStudent } from './sigaa-course-student';
+import { SigaaError } from '../sigaa-errors';
+
+/**
+ * Dates are ISO strings, so the snapshot can be saved with JSON.stringify.
+ * @category Public
+ */
+export interface LessonSnapshot {
+  id: string;
+  title: string;
+  contentText: string;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * @category Public
+ */
+export interface NewsSnapshot {
+  id: string;
+  title: string;
+  date?: string;
+  /**
+   * Undefined if the snapshot was taken with newsContent false.
+   */
+  content?: string;
+}
+
+/**
+ * @category Public
+ */
+export interface FileSnapshot {
+  id: string;
+  title?: string;
+  description?: string;
+}
+
+/**
+ * Grade or sub grade of the course.
+ * @category Public
+ */
+export interface GradeSnapshot {
+  /**
+   * Name of the grade group, with the sub grade code if it is a sub grade.
+   * E.g. "Unidade 1" or "Unidade 1 - 1.1".
+   */
+  id: string;
+  name: string;
+  value?: number;
+}
+
+/**
+ * @category Public
+ */
+export interface HomeworkSnapshot {
+  id: string;
+  title: string;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Serializable state of the course content.
+ * The lists that were not included in the snapshot are undefined.
+ * @category Public
+ */
+export interface CourseSnapshot {
+  courseId: string;
+  courseTitle: string;
+  /**
+   * Date of the snapshot, ISO string.
+   */
+  date: string;
+  lessons?: LessonSnapshot[];
+  news?: NewsSnapshot[];
+  files?: FileSnapshot[];
+  grades?: GradeSnapshot[];
+  homework?: HomeworkSnapshot[];
+}
+
+/**
+ * @category Public
+ */
+export type CourseSnapshotList =
+  | 'lessons'
+  | 'news'
+  | 'files'
+  | 'grades'
+  | 'homework';
+
+/**
+ * @category Public
+ */
+export interface CourseSnapshotOptions {
+  /**
+   * Lists loaded in the snapshot, default is all.
+   */
+  include?: CourseSnapshotList[];
+  /**
+   * Load the content and the date of each news, it is needed to detect edited news.
+   * One request is made for each news.
+   * Default is true.
+   */
+  newsContent?: boolean;
+}
+
+/**
+ * @category Public
+ */
+export type CourseChange =
+  | { type: 'lesson-added'; courseId: string; lesson: LessonSnapshot }
+  | {
+      type: 'lesson-edited';
+      courseId: string;
+      previous: LessonSnapshot;
+      lesson: LessonSnapshot;
+    }
+  | { type: 'lesson-removed'; courseId: string; lesson: LessonSnapshot }
+  | { type: 'news-added'; courseId: string; news: NewsSnapshot }
+  | {
+      type: 'news-edited';
+      courseId: string;
+      previous: NewsSnapshot;
+      news: NewsSnapshot;
+    }
+  | { type: 'news-removed'; courseId: string; news: NewsSnapshot }
+  | { type: 'file-added'; courseId: string; file: FileSnapshot }
+  | { type: 'file-removed'; courseId: string; file: FileSnapshot }
+  | { type: 'grade-posted'; courseId: string; grade: GradeSnapshot }
+  | {
+      type: 'grade-changed';
+      courseId: string;
+      previous: GradeSnapshot;
+      grade: GradeSnapshot;
+    }
+  | { type: 'homework-added'; courseId: string; homework: HomeworkSnapshot }
+  | {
+      type: 'homework-deadline-changed';
+      courseId: string;
+      previous: HomeworkSnapshot;
+      homework: HomeworkSnapshot;
+    }
+  | { type: 'homework-removed'; courseId: string; homework: HomeworkSnapshot };
+
+/**
+ * @category Public
+ */
+export type CourseChangeType = CourseChange['type'];
+
+/**
+ * Takes snapshots of the course and compares them.
+ * @category Public
+ */
+export interface CourseSnapshotter {
+  /**
+   * Loads the course content and returns the snapshot.
+   * @param course
+   * @param options
+   */
+  takeSnapshot(
+    course: CourseStudent,
+    options?: CourseSnapshotOptions
+  ): Promise<CourseSnapshot>;
+
+  /**
+   * Compares two snapshots of the same course.
+   * @param previous older snapshot
+   * @param current newer snapshot
+   * @returns Changes from previous to current, lists missing in one of the snapshots are not compared.
+   */
+  diff(previous: CourseSnapshot, current: CourseSnapshot): CourseChange[];
+}
+
+/**
+ * @category Public
+ */
+export class SigaaCourseSnapshotter implements CourseSnapshotter {
+  /**
+   * @inheritdoc
+   */
+  async takeSnapshot(
+    course: CourseStudent,
+    options: CourseSnapshotOptions = {}
+  ): Promise<CourseSnapshot> {
+    const newsContent = options.newsContent !== false;
+    const include = options.include || [
+      'lessons',
+      'news',
+      'files',
+      'grades',
+      'homework'
+    ];
+    const snapshot: CourseSnapshot = {
+      courseId: course.id,
+      courseTitle: course.title,
+      date: new Date().toISOString()
+    };
+
+    if (include.includes('lessons')) {
+      snapshot.lessons = (await course.getLessons()).map((lesson) => ({
+        id: lesson.id,
+        title: lesson.title,
+        contentText: lesson.contentText,
+        startDate: lesson.startDate.toISOString(),
+        endDate: lesson.endDate.toISOString()
+      }));
+    }
+
+    if (include.includes('news')) {
+      const news: NewsSnapshot[] = [];
+      for (const newsItem of await course.getNews()) {
+        const newsSnapshot: NewsSnapshot = {
+          id: newsItem._instanceIndentifier,
+          title: newsItem.title
+        };
+        if (newsContent) {
+          newsSnapshot.content = await newsItem.getContent();
+          newsSnapshot.date = (await newsItem.getDate()).toISOString();
+        }
+        news.push(newsSnapshot);
+      }
+      snapshot.news = news;
+    }
+
+    if (include.includes('files')) {
+      snapshot.files = (await course.getFiles()).map((file) => ({
+        id: file._instanceIndentifier,
+        title: file.title,
+        description: file.description
+      }));
+    }
+
+    if (include.includes('grades')) {
+      const grades: GradeSnapshot[] = [];
+      for (const gradeGroup of await course.getGrades()) {
+        if (gradeGroup.type !== 'only-average') {
+          for (const subGrade of gradeGroup.grades) {
+            grades.push({
+              id: `${gradeGroup.name} - ${subGrade.code}`,
+              name: subGrade.name,
+              value: subGrade.value
+            });
+          }
+        }
+        grades.push({
+          id: gradeGroup.name,
+          name: gradeGroup.name,
+          value: gradeGroup.value
+        });
+      }
+      snapshot.grades = grades;
+    }
+
+    if (include.includes('homework')) {
+      snapshot.homework = (await course.getHomeworks()).map((homeworkItem) => ({
+        id: homeworkItem.id || homeworkItem.title,
+        title: homeworkItem.title,
+        startDate: homeworkItem.startDate.toISOString(),
+        endDate: homeworkItem.endDate.toISOString()
+      }));
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Compares two lists of items with id.
+   * If one of the lists is undefined, nothing is compared.
+   * @param previousItems
+   * @param currentItems
+   */
+  private diffLists<T extends { id: string }>(
+    previousItems?: T[],
+    currentItems?: T[]
+  ): {
+    added: T[];
+    removed: T[];
+    kept: { previous: T; current: T }[];
+  } {
+    if (!previousItems || !currentItems)
+      return { added: [], removed: [], kept: [] };
+    const added: T[] = [];
+    const kept: { previous: T; current: T }[] = [];
+    for (const current of currentItems) {
+      const previous = previousItems.find((item) => item.id === current.id);
+      if (previous) kept.push({ previous, current });
+      else added.push(current);
+    }
+    const removed = previousItems.filter(
+      (previous) => !currentItems.some((item) => item.id === previous.id)
+    );
+    return { added, removed, kept };
+  }
+
+  /**
+   * @inheritdoc
+   */
+  diff(previous: CourseSnapshot, current: CourseSnapshot): CourseChange[] {
+    if (previous.courseId !== current.courseId)
+      throw new SigaaError('SIGAA: Snapshots of different courses.');
+    const courseId = current.courseId;
+    const changes: CourseChange[] = [];
+
+    const lessons = this.diffLists(previous.lessons, current.lessons);
+    for (const lesson of lessons.added)
+      changes.push({ type: 'lesson-added', courseId, lesson });
+    for (const { previous: previousLesson, current: lesson } of lessons.kept) {
+      if (
+        previousLesson.title !== lesson.title ||
+        previousLesson.contentText !== lesson.contentText ||
+        previousLesson.startDate !== lesson.startDate ||
+        previousLesson.endDate !== lesson.endDate
+      )
+        changes.push({
+          type: 'lesson-edited',
+          courseId,
+          previous: previousLesson,
+          lesson
+        });
+    }
+    for (const lesson of lessons.removed)
+      changes.push({ type: 'lesson-removed', courseId, lesson });
+
+    const news = this.diffLists(previous.news, current.news);
+    for (const newsItem of news.added)
+      changes.push({ type: 'news-added', courseId, news: newsItem });
+    for (const { previous: previousNews, current: newsItem } of news.kept) {
+      // The content is only compared if both snapshots have it
+      const contentChanged =
+        previousNews.content !== undefined &&
+        newsItem.content !== undefined &&
+        previousNews.content !== newsItem.content;
+      if (previousNews.title !== newsItem.title || contentChanged)
+        changes.push({
+          type: 'news-edited',
+          courseId,
+          previous: previousNews,
+          news: newsItem
+        });
+    }
+    for (const newsItem of news.removed)
+      changes.push({ type: 'news-removed', courseId, news: newsItem });
+
+    const files = this.diffLists(previous.files, current.files);
+    for (const file of files.added)
+      changes.push({ type: 'file-added', courseId, file });
+    for (const file of files.removed)
+      changes.push({ type: 'file-removed', courseId, file });
+
+    const grades = this.diffLists(previous.grades, current.grades);
+    for (const grade of grades.added) {
+      if (grade.value !== undefined)
+        changes.push({ type: 'grade-posted', courseId, grade });
+    }
+    for (const { previous: previousGrade, current: grade } of grades.kept) {
+      if (previousGrade.value === grade.value) continue;
+      if (previousGrade.value === undefined)
+        changes.push({ type: 'grade-posted', courseId, grade });
+      else
+        changes.push({
+          type: 'grade-changed',
+          courseId,
+          previous: previousGrade,
+          grade
+        });
+    }
+
+    const homework = this.diffLists(previous.homework, current.homework);
+    for (const homeworkItem of homework.added)
+      changes.push({
+        type: 'homework-added',
+        courseId,
+        homework: homeworkItem
+      });
+    for (const {
+      previous: previousHomework,
+      current: homeworkItem
+    } of homework.kept) {
+      if (
+        previousHomework.startDate !== homeworkItem.startDate ||
+        previousHomework.endDate !== homeworkItem.endDate
+      )
+        changes.push({
+          type: 'homework-deadline-changed',
+          courseId,
+          previous: previousHomework,
+          homework: homeworkItem
+        });
+    }
+    for (const homeworkItem of homework.removed)
+      changes.push({
+        type: 'homework-removed',
+        courseId,
+        homework: homeworkItem
+      });
+
+    return changes;
+  }
+}
@@ -8,14 +8,20 @@ import {
   SigaaCourseStudent,
   CourseStudentData
 } from './sigaa-course-student';
+import {
+  CourseTeacher,
+  CourseTeacherData,
+  SigaaCourseTeacher
+} from './sigaa-course-teacher';
 import { LessonParserFactory } from './sigaa-lesson-parser-factory';
 
 /**
- * Abstraction to represent the class that instantiates the CourseStudent.
+ * Abstraction to represent the class that instantiates the CourseStudent and the CourseTeacher.
  * @category Internal
  */
 export interface CourseFactory {
   createCourseStudent(courseData: CourseStudentData): CourseStudent;
+  createCourseTeacher(courseData: CourseTeacherData): CourseTeacher;
 }
 
 /**
@@ -40,4 +46,9 @@ export class SigaaCourseFactory implements CourseFactory {
       this.lessonParserFactory
     );
   }
+
+  @sharedReturn()
+  createCourseTeacher(courseData: CourseTeacherData): SigaaCourseTeacher {
+    return new SigaaCourseTeacher(courseData, this.http, this.parser);
+  }
 }
@@ -3,15 +3,15 @@ import { NewsData, News } from '@courseResources/sigaa-news-student';
 import { Parser } from '@helpers/sigaa-parser';
 import { File } from '@resources/sigaa-file';
 import { HTTP } from '@session/sigaa-http';
-import { URL } from 'url';
 import { SigaaForm, Page } from '@session/sigaa-page';
 import { QuizData, Quiz } from '@attachments/sigaa-quiz-student';
 import { HomeworkData, Homework } from '@attachments/sigaa-homework-student';
-import { SigaaSurvey } from '@attachments/sigaa-survey-student';
+import { Survey, SurveyData } from '@attachments/sigaa-survey-student';
 import { CourseResourcesManagerFactory } from './sigaa-course-resources-manager-factory';
 import { Exam } from '@courseResources/sigaa-exam-student';
 import { Syllabus } from '@courseResources/sigaa-syllabus-student';
 import { LessonParserFactory } from './sigaa-lesson-parser-factory';
+import { ResourceManagerChanges } from '@resources/sigaa-resource-manager';
 
 import {
   GradeGroup,
@@ -34,11 +34,16 @@ import {
   AbsenceList
 } from '@courseResources/sigaa-absence-list-student';
 
+import { MemberList } from '@courseResources/sigaa-member-list-student';
 import {
-  MemberList,
-  Student,
-  Teacher
-} from '@courseResources/sigaa-member-list-student';
+  MemberListParser,
+  SigaaMemberListParser
+} from './sigaa-member-list-parser';
+import {
+  SigaaError,
+  SigaaNetworkError,
+  SigaaParseError
+} from '../sigaa-errors';
 
 /**
  * @category Internal
@@ -54,6 +59,20 @@ export interface CourseStudentData {
   form: SigaaForm;
 }
 
+/**
+ * Resource list of the course.
+ * @category Public
+ */
+export type CourseResourceType =
+  | 'lessons'
+  | 'files'
+  | 'homework'
+  | 'forums'
+  | 'quizzes'
+  | 'survey'
+  | 'webContents'
+  | 'news';
+
 /**
  * Course in the student's view.
  * @category Public
@@ -143,9 +162,9 @@ export interface CourseStudent {
   getWebContents(): Promise<WebContent[]>;
 
   /**
-   * To do
+   * Returns the course surveys (Enquetes).
    */
-  getSurveys(): Promise<SigaaSurvey[]>;
+  getSurveys(): Promise<Survey[]>;
 
   /**
    * Returns yours homework.
@@ -166,6 +185,14 @@ export interface CourseStudent {
    * Get Syllabus (Plano de ensino).
    */
   getSyllabus(): Promise<Syllabus>;
+
+  /**
+   * Identifiers of the resources that appeared and disappeared
+   * in the last time the resource list was loaded.
+   * E.g. getResourceChanges('news') after getNews().
+   * @param resourceType
+   */
+  getResourceChanges(resourceType: CourseResourceType): ResourceManagerChanges;
 }
 
 /**
@@ -215,6 +242,8 @@ export class SigaaCourseStudent implements CourseStudent {
 
   private lessonParser;
 
+  private memberListParser: MemberListParser;
+
   currentPageCache?: Page;
 
   constructor(
@@ -238,6 +267,7 @@ export class SigaaCourseStudent implements CourseStudent {
       this
     );
     this.lessonParser = lessonParserFactory.createLessonParser(this.resources);
+    this.memberListParser = new SigaaMemberListParser(this.parser);
   }
 
   /**
@@ -254,11 +284,16 @@ export class SigaaCourseStudent implements CourseStudent {
   private async requestCoursePageUsingId() {
     const page = await this.http.get('/sigaa/portais/discente/turmas.jsf');
     if (page.statusCode !== 200)
-      throw new Error('SIGAA: Unexpected courses page status code.');
+      throw new SigaaParseError('SIGAA: Unexpected courses page status code.', {
+        url: page.url
+      });
 
     const table = page.$('.listagem');
     if (table.length === 0) {
-      throw new Error('SIGAA: Unexpected courses page format.');
+      throw new SigaaParseError('SIGAA: Unexpected courses page format.', {
+        url: page.url,
+        selector: '.listagem'
+      });
     }
     const rows = table.find('tbody > tr').toArray();
     const foundCourse = rows.some((row) => {
@@ -269,7 +304,10 @@ export class SigaaCourseStudent implements CourseStudent {
         .find('a[onclick]')
         .attr('onclick');
       if (!buttonOnClick)
-        throw new Error('SIGAA: Unexpected row format at courses page.');
+        throw new SigaaParseError(
+          'SIGAA: Unexpected row format at courses page.',
+          { url: page.url }
+        );
       const form = page.parseJSFCLJS(buttonOnClick);
       if (form.postValues.idTurma === this.form.postValues.idTurma) {
         this.form = form;
@@ -277,7 +315,7 @@ export class SigaaCourseStudent implements CourseStudent {
       }
     });
     if (!foundCourse) {
-      throw new Error('SIGAA: Not found course with id:' + this.id);
+      throw new SigaaError('SIGAA: Not found course with id:' + this.id);
     }
     return this.requestCoursePageUsingForm();
   }
@@ -298,11 +336,16 @@ export class SigaaCourseStudent implements CourseStudent {
     );
     if (page.statusCode === 200) {
       if (page.bodyDecoded.includes('Comportamento Inesperado!')) {
-        throw new Error('SIGAA: Unexpected behavior on the course page.');
+        throw new SigaaParseError(
+          'SIGAA: Unexpected behavior on the course page.',
+          { url: page.url }
+        );
       }
       return page;
     } else {
-      throw new Error('SIGAA: Unexpected course page status code.');
+      throw new SigaaParseError('SIGAA: Unexpected course page status code.', {
+        url: page.url
+      });
     }
   }
 
@@ -319,7 +362,9 @@ export class SigaaCourseStudent implements CourseStudent {
 
   private verifyIfCoursePageIsValid(page: Page, buttonLabel: string): void {
     if (page.statusCode !== 200)
-      throw new Error('SIGAA: Invalid course page status code.');
+      throw new SigaaParseError('SIGAA: Invalid course page status code.', {
+        url: page.url
+      });
 
     let pageCourseCode: string | undefined;
 
@@ -340,26 +385,29 @@ export class SigaaCourseStudent implements CourseStudent {
     }
 
     if (pageCourseCode !== this.code) {
-      throw new Error(
-        'SIGAA: Using the old page caused the change to the last accessed course instead of the requested course.'
+      throw new SigaaParseError(
+        'SIGAA: Using the old page caused the change to the last accessed course instead of the requested course.',
+        { url: page.url }
       );
     }
   }
 
   /**
-   * Receive the name of the side tab and load the tab page
+   * Receive the name of the side tab and load the tab page.
+   * If the tab page is not of this course, the course page is loaded again without the cache,
+   * because the form of the cached page can be stale. The network errors are retried by the http session.
    * @param buttonLabel
-   * @param retry
+   * @param useCache if false, the course page is not read from the cache.
    */
   private async getCourseSubMenu(
     buttonLabel: string,
-    retry = true
+    useCache = true
   ): Promise<Page> {
     if (buttonLabel === this.currentCoursePage) {
       if (this.currentPageCache) return this.currentPageCache;
     }
 
-    const page = await this.requestCoursePage(retry);
+    const page = await this.requestCoursePage(useCache);
 
     const buttonElement = page
       .$('div.itemMenu')
@@ -370,13 +418,16 @@ export class SigaaCourseStudent implements CourseStudent {
       );
 
     if (!buttonElement) {
-      throw new Error('SIGAA: Course sub menu button not found.');
+      throw new SigaaParseError('SIGAA: Course sub menu button not found.', {
+        url: page.url
+      });
     }
 
     const buttonOnClick = page.$(buttonElement).parent().attr('onclick');
     if (!buttonOnClick)
-      throw new Error(
-        'SIGAA: Course sub menu button does not have the onclick event.'
+      throw new SigaaParseError(
+        'SIGAA: Course sub menu button does not have the onclick event.',
+        { url: page.url }
       );
 
     const form = page.parseJSFCLJS(buttonOnClick);
@@ -393,7 +444,7 @@ export class SigaaCourseStudent implements CourseStudent {
       this.currentCoursePage = buttonLabel;
       return pageResponse;
     } catch (err) {
-      if (retry) {
+      if (useCache && !(err instanceof SigaaNetworkError)) {
         this.currentPageCache = undefined;
         this.currentCoursePage = 'Principal';
         return this.getCourseSubMenu(buttonLabel, false);
@@ -420,7 +471,9 @@ export class SigaaCourseStudent implements CourseStudent {
         );
       });
     if (!titleElement) {
-      throw new Error('SIGAA: Course sidebar card not found.');
+      throw new SigaaParseError('SIGAA: Course sidebar card not found.', {
+        url: page.url
+      });
     } else {
       return page.$(titleElement).parent().parent();
     }
@@ -464,7 +517,8 @@ export class SigaaCourseStudent implements CourseStudent {
         .attr('onclick');
     }
 
-    if (!onclick) throw new Error('SIGAA: Cannot find the lesson list toogle.');
+    if (!onclick)
+      throw new SigaaParseError('SIGAA: Cannot find the lesson list toogle.');
 
     const form = pageLessonsOne.parseJSFCLJS(onclick);
     const pageLessonsTwo = await this.http.post(
@@ -486,7 +540,9 @@ export class SigaaCourseStudent implements CourseStudent {
       pageLessonsPaged = pageLessonsTwo;
       pageLessonsList = pageLessonsOne;
     } else
-      throw new Error('SIGAA: Lesson page types other than expected types.');
+      throw new SigaaParseError(
+        'SIGAA: Lesson page types other than expected types.'
+      );
 
     this.lessonParser.parseLessonPages(pageLessonsList, pageLessonsPaged);
     return this.resources.lessons.instances;
@@ -509,8 +565,9 @@ export class SigaaCourseStudent implements CourseStudent {
         const buttonElement = cells.eq(3).find('a[onclick]');
         const buttonOnclick = buttonElement.attr('onclick');
         if (!buttonOnclick)
-          throw new Error(
-            'SIGAA: Button in the file table does not have the onclick event.'
+          throw new SigaaParseError(
+            'SIGAA: Button in the file table does not have the onclick event.',
+            { url: page.url }
           );
 
         const form = page.parseJSFCLJS(buttonOnclick);
@@ -558,7 +615,10 @@ export class SigaaCourseStudent implements CourseStudent {
         )[0];
         const titleOnClick = titleElement.attr('onclick');
         if (!titleOnClick)
-          throw new Error('SIGAA: Forum title does not have onclick event.');
+          throw new SigaaParseError(
+            'SIGAA: Forum title does not have onclick event.',
+            { url: page.url }
+          );
 
         const form = page.parseJSFCLJS(titleOnClick);
         const id = forumsIdIndex;
@@ -598,8 +658,9 @@ export class SigaaCourseStudent implements CourseStudent {
         const buttonElement = cell.eq(2).children().first();
         const buttonOnClick = buttonElement.attr('onclick');
         if (!buttonOnClick)
-          throw new Error(
-            'SIGAA: News onclick button does not have onclick event.'
+          throw new SigaaParseError(
+            'SIGAA: News onclick button does not have onclick event.',
+            { url: page.url }
           );
 
         const form = page.parseJSFCLJS(buttonOnClick);
@@ -695,7 +756,9 @@ export class SigaaCourseStudent implements CourseStudent {
     )
       totalAbsences = totalGivenClasses - totalAttendance;
     if (typeof maxAbsences !== 'number' || typeof totalAbsences !== 'number')
-      throw new Error('SIGAA: Invalid absence page format.');
+      throw new SigaaParseError('SIGAA: Invalid absence page format.', {
+        url: page.url
+      });
 
     return {
       list: absences,
@@ -769,8 +832,9 @@ export class SigaaCourseStudent implements CourseStudent {
       if (buttonSendAnswersElement.length > 0) {
         const buttonOnclick = buttonSendAnswersElement.attr('onclick');
         if (!buttonOnclick)
-          throw new Error(
-            'SIGAA: quiz button onclick does not have onclick event.'
+          throw new SigaaParseError(
+            'SIGAA: quiz button onclick does not have onclick event.',
+            { url: page.url }
           );
         formSendAnswers = page.parseJSFCLJS(buttonOnclick);
       }
@@ -779,8 +843,9 @@ export class SigaaCourseStudent implements CourseStudent {
       if (buttonViewAnswersSubmittedElement.length > 0) {
         const buttonOnclick = buttonViewAnswersSubmittedElement.attr('onclick');
         if (!buttonOnclick)
-          throw new Error(
-            'SIGAA: quiz button onclick does not have onclick event.'
+          throw new SigaaParseError(
+            'SIGAA: quiz button onclick does not have onclick event.',
+            { url: page.url }
           );
         formViewAnswersSubmitted = page.parseJSFCLJS(buttonOnclick);
       }
@@ -796,7 +861,7 @@ export class SigaaCourseStudent implements CourseStudent {
         if (quiz) {
           id = quiz.id;
         } else {
-          throw new Error('SIGAA: Not found quiz by title.');
+          throw new SigaaError('SIGAA: Not found quiz by title.');
         }
       } else {
         id = form.postValues.id;
@@ -841,8 +906,9 @@ export class SigaaCourseStudent implements CourseStudent {
           .attr('onclick');
 
         if (!buttonOnclick)
-          throw new Error(
-            'SIGAA: Webcontent has button without onclick event.'
+          throw new SigaaParseError(
+            'SIGAA: Webcontent has button without onclick event.',
+            { url: page.url }
           );
 
         const form = page.parseJSFCLJS(buttonOnclick);
@@ -865,9 +931,37 @@ export class SigaaCourseStudent implements CourseStudent {
   /**
    * @inheritdoc
    */
-  async getSurveys(): Promise<SigaaSurvey[]> {
-    // TODO
-    throw new Error('SIGAA: getSurveys not implemented.');
+  async getSurveys(): Promise<Survey[]> {
+    const page = await this.getCourseSubMenu('Enquetes');
+
+    const table = page.$('.listing');
+    const usedSurveysIds = [];
+    if (table.length === 0) return [];
+    const rows = table.find('tr[class]').toArray();
+    for (const row of rows) {
+      const cells = page.$(row).children();
+      const title = this.parser.removeTagsHtml(cells.first().html());
+      const buttonElement = page.$(row).find('a[onclick]').first();
+      const buttonOnClick = buttonElement.attr('onclick');
+      if (!buttonOnClick)
+        throw new SigaaParseError(
+          'SIGAA: Survey button does not have onclick event.',
+          { url: page.url }
+        );
+
+      const form = page.parseJSFCLJS(buttonOnClick);
+      const id = form.postValues.id;
+      const surveyOptions: SurveyData = {
+        title,
+        form,
+        id,
+        instanceIndentifier: id
+      };
+      this.resources.survey.upsert(surveyOptions);
+      usedSurveysIds.push(id);
+    }
+    this.resources.survey.keepOnly(usedSurveysIds);
+    return this.resources.survey.instances;
   }
 
   /**
@@ -904,8 +998,9 @@ export class SigaaCourseStudent implements CourseStudent {
         if (buttonSendHomeworkElement.length !== 0) {
           const onClick = buttonSendHomeworkElement.attr('onclick');
           if (!onClick)
-            throw new Error(
-              'SIGAA: Button send homework without onclick event.'
+            throw new SigaaParseError(
+              'SIGAA: Button send homework without onclick event.',
+              { url: page.url }
             );
           formSendHomework = page.parseJSFCLJS(onClick);
         }
@@ -916,8 +1011,9 @@ export class SigaaCourseStudent implements CourseStudent {
         if (buttonViewHomeworkSubmittedElement.length !== 0) {
           const onClick = buttonViewHomeworkSubmittedElement.attr('onclick');
           if (!onClick)
-            throw new Error(
-              'SIGAA: Button view homework without onclick event.'
+            throw new SigaaParseError(
+              'SIGAA: Button view homework without onclick event.',
+              { url: page.url }
             );
           formViewHomeworkSubmitted = page.parseJSFCLJS(onClick);
         }
@@ -934,8 +1030,9 @@ export class SigaaCourseStudent implements CourseStudent {
           );
 
           if (homeworkList.length > 1) {
-            throw new Error(
-              'SIGAA: There is more than one homework with same title and without id.'
+            throw new SigaaParseError(
+              'SIGAA: There is more than one homework with same title and without id.',
+              { url: page.url }
             );
           } else if (homeworkList.length == 1) {
             id = homeworkList[0]._instanceIndentifier;
@@ -976,189 +1073,19 @@ export class SigaaCourseStudent implements CourseStudent {
    */
   async getMembers(): Promise<MemberList> {
     const page = await this.getCourseSubMenu('Participantes');
-
-    const tables = page.$('table.participantes').toArray();
-    const tablesNames = page.$('fieldset').toArray();
-    if (tables.length !== tablesNames.length) {
-      throw new Error('SIGAA: Unexpected page members format.');
-    }
-    let tableTeacher;
-    let tableStudent;
-    tablesNames.forEach((value, index) => {
-      const label = this.parser.removeTagsHtml(page.$(value).html());
-      if (label.includes('Professores')) tableTeacher = tables[index];
-      else if (label.includes('Alunos')) tableStudent = tables[index];
-    });
-    const teachers: Teacher[] = [];
-    if (tableTeacher) {
-      const teacherElements = page.$(tableTeacher).find('tr').toArray();
-      for (const teacherElement of teacherElements) {
-        let department;
-        let formation;
-        let username;
-        let email;
-        const informationsString =
-          page.$(teacherElement).find('td[valign]').html() || '';
-        const informations = informationsString.split('<br>').slice(1, -1);
-        for (const information of informations) {
-          const label = this.parser.removeTagsHtml(
-            (information.match(/^[\s\S]*?(?=:[\s]*?<em>)/g) || [])[0]
-          );
-          const informationContent = this.parser.removeTagsHtml(
-            (information.match(/(?=<em>)[\s\S]*?(?=<\/em>)/g) || [])[0]
-          );
-          switch (label) {
-            case 'Departamento':
-              department = informationContent;
-              break;
-            case 'Formação':
-              formation = informationContent;
-              break;
-            case 'Usuário':
-              username = informationContent;
-              break;
-            case 'E-mail':
-            case 'E-Mail':
-              email = informationContent;
-              break;
-            default:
-              console.log(
-                'WARNING:Teacher information label not recognized:' + label
-              );
-          }
-        }
-        const name = this.parser.removeTagsHtml(
-          page.$(teacherElement).find('strong > a').html()
-        );
-        if (!username || !email)
-          throw new Error('SIGAA: Invalid teacher format at member page.');
-        const teacher: Teacher = {
-          name,
-          username,
-          department,
-          formation,
-          email
-        };
-        const photoHREF = page.$(teacherElement).find('img').attr('src');
-        if (!photoHREF)
-          throw new Error(
-            'SIGAA: teacher profile picture without src at member page.'
-          );
-
-        const photoURL = new URL(photoHREF, page.url.href);
-        if (!photoURL.href.includes('no_picture.png')) {
-          teacher.photoURL = photoURL;
-        }
-
-        teachers.push(teacher);
-      }
-    }
-
-    const students: Student[] = [];
-    if (tableStudent) {
-      const rows = page.$(tableStudent).find('tr').toArray();
-      for (const row of rows) {
-        const numberOfColumn = page.$(row).find('td[valign]').length;
-        for (let column = 0; column < numberOfColumn; column++) {
-          const informationsString =
-            page.$(row).find('td[valign]').eq(column).html() || '';
-          const informations = informationsString.split('<br>').slice(1);
-          let registration;
-          let username;
-          let program;
-          let registrationDate;
-          let email;
-          for (const information of informations) {
-            const label = this.parser.removeTagsHtml(
-              (information.match(/^[\s\S]*?(?=:[\s]*?<em>)/g) || [])[0]
-            );
-            const informationContent = this.parser.removeTagsHtml(
-              (information.match(/(?=<em>)[\s\S]*?(?=<\/em>)/g) || [])[0]
-            );
-            switch (label) {
-              case 'Matrícula': {
-                registration = informationContent;
-                break;
-              }
-              case 'Usuário': {
-                username = informationContent;
-                break;
-              }
-              case 'Curso': {
-                program = informationContent;
-                break;
-              }
-              case 'Data Matrícula': {
-                const informationDateSplited = informationContent.split('-');
-                const year = parseInt(informationDateSplited[2], 10);
-                const month = parseInt(informationDateSplited[1], 10) - 1;
-                const day = parseInt(informationDateSplited[0], 10);
-                registrationDate = new Date(year, month, day);
-                break;
-              }
-              case 'E-mail':
-              case 'E-Mail': {
-                email = informationContent;
-                break;
-              }
-              default: {
-                console.log(
-                  'WARNING:Student information label not recognized:' + label
-                );
-              }
-            }
-          }
-
-          if (!username || !email || !registration || !program)
-            throw new Error('SIGAA: Invalid student format at member page.');
-
-          const name = this.parser.removeTagsHtml(
-            page.$(row).find('strong').eq(column).html()
-          );
-
-          const student: Student = {
-            name,
-            username,
-            program,
-            registration,
-            registrationDate,
-            email
-          };
-
-          const photoHREF = page
-            .$(row)
-            .find('td[width="47"] img')
-            .eq(column)
-            .attr('src');
-          if (!photoHREF)
-            throw new Error(
-              'SIGAA: student profile picture without src at member page.'
-            );
-
-          const photoURL = new URL(photoHREF, page.url.href);
-          if (!photoURL.href.includes('no_picture.png')) {
-            student.photoURL = photoURL;
-          }
-
-          students.push(student);
-        }
-      }
-    }
-
-    return {
-      teachers,
-      students
-    };
+    return this.memberListParser.parseMemberListPage(page);
   }
 
   /**
    * @inheritdoc
+   * @param useCache if false, the course page is not read from the cache.
+   * If the grades page can not be parsed, it is loaded again without the cache.
    */
-  async getGrades(retry = true): Promise<GradeGroup[]> {
+  async getGrades(useCache = true): Promise<GradeGroup[]> {
     try {
       const grades: GradeGroup[] = [];
 
-      const page = await this.getCourseSubMenu('Ver Notas', retry);
+      const page = await this.getCourseSubMenu('Ver Notas', useCache);
       if (page.bodyDecoded.includes('Ainda não foram lançadas notas.'))
         return grades;
 
@@ -1173,19 +1100,27 @@ export class SigaaCourseStudent implements CourseStudent {
           }
           i += parseInt(page.$(tr).attr('colspan') || '1', 10);
         }
-        throw new Error('SIGAA: Invalid grade table.');
+        throw new SigaaParseError('SIGAA: Invalid grade table.', {
+          url: page.url
+        });
       };
 
       const removeCellsWithName = ['', 'Matrícula', 'Nome', 'Sit.', 'Faltas'];
 
       const table = page.$('table.tabelaRelatorio');
       if (table.length < 1)
-        throw new Error('SIGAA: Received empty table on grade page.');
+        throw new SigaaParseError(
+          'SIGAA: Received empty table on grade page.',
+          { url: page.url, selector: 'table.tabelaRelatorio' }
+        );
 
       const theadTrs = page.$('thead tr').toArray();
       const valueCells = page.$(table).find('tbody tr').children();
       if (valueCells.length === 0) {
-        throw new Error('SIGAA: Page grades without grades.');
+        throw new SigaaParseError('SIGAA: Page grades without grades.', {
+          url: page.url,
+          selector: 'table.tabelaRelatorio tbody tr'
+        });
       }
 
       const theadElements: cheerio.Cheerio[] = [];
@@ -1246,7 +1181,10 @@ export class SigaaCourseStudent implements CourseStudent {
 
           for (let j = index; j < index + theadElementColspan; j++) {
             const fullId = theadElements[1].eq(j).attr('id');
-            if (!fullId) throw new Error('SIGAA: Grade without id.');
+            if (!fullId)
+              throw new SigaaParseError('SIGAA: Grade without id.', {
+                url: page.url
+              });
             const gradeId = fullId.slice(5);
 
             if (gradeId !== '') {
@@ -1300,7 +1238,9 @@ export class SigaaCourseStudent implements CourseStudent {
                 gradesWeighted.length > 0 &&
                 gradesArithmetic.length > 0
               ) {
-                throw new Error('SIGAA: Invalid grade type.');
+                throw new SigaaParseError('SIGAA: Invalid grade type.', {
+                  url: page.url
+                });
               }
               if (type === 'sum-of-grades') {
                 grades.push({
@@ -1330,7 +1270,7 @@ export class SigaaCourseStudent implements CourseStudent {
       }
       return grades;
     } catch (error) {
-      if (retry) {
+      if (useCache && !(error instanceof SigaaNetworkError)) {
         return this.getGrades(false);
       } else {
         throw error;
@@ -1376,7 +1316,9 @@ export class SigaaCourseStudent implements CourseStudent {
             } else if (rowField === 'Horário de atendimento:') {
               response.attendanceSchedule = body;
             } else {
-              throw new Error('SIGAA: Label not found.');
+              throw new SigaaParseError('SIGAA: Label not found.', {
+                url: page.url
+              });
             }
           }
           break;
@@ -1489,4 +1431,11 @@ export class SigaaCourseStudent implements CourseStudent {
     }
     return response;
   }
+
+  /**
+   * @inheritdoc
+   */
+  getResourceChanges(resourceType: CourseResourceType): ResourceManagerChanges {
+    return this.resources[resourceType].lastChanges;
+  }
 }
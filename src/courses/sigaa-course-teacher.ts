@@ -0,0 +1,472 @@
+import { Parser } from '@helpers/sigaa-parser';
+import { HTTP } from '@session/sigaa-http';
+import { SigaaForm, Page } from '@session/sigaa-page';
+import {
+  MemberList,
+  Student
+} from '@courseResources/sigaa-member-list-student';
+import {
+  MemberListParser,
+  SigaaMemberListParser
+} from './sigaa-member-list-parser';
+import {
+  GradeSheet,
+  SigaaGradeSheet
+} from '@courseResources/sigaa-grade-sheet-teacher';
+import {
+  AttendanceSheet,
+  SigaaAttendanceSheet
+} from '@courseResources/sigaa-attendance-teacher';
+import {
+  SigaaError,
+  SigaaNetworkError,
+  SigaaParseError
+} from '../sigaa-errors';
+
+/**
+ * @category Internal
+ */
+export interface CourseTeacherData {
+  id: string;
+  title: string;
+  code: string;
+  numberOfStudents: number;
+  period: string;
+  schedule: string;
+  form: SigaaForm;
+}
+
+/**
+ * Course in the teacher's view.
+ * @category Public
+ **/
+export interface CourseTeacher {
+  /**
+   * Single string indicating the course.
+   *
+   * String única indicando o curso.
+   */
+  readonly id: string;
+
+  /**
+   * Course title (Nome da turma).
+   */
+  readonly title: string;
+
+  /**
+   * Course name abbreviation.
+   *
+   * Código (abreviação) da turma.
+   */
+  readonly code: string;
+
+  /**
+   * Course Schedule.
+   *
+   * Horário das aulas.
+   */
+  readonly schedule: string;
+
+  /**
+   * Number of students enrolled in the course.
+   */
+  readonly numberOfStudents: number;
+
+  /**
+   * Course Semester.
+   */
+  readonly period: string;
+
+  /**
+   * Get members object, teachers and students of the course.
+   */
+  getMembers(): Promise<MemberList>;
+
+  /**
+   * Get the students enrolled in the course.
+   */
+  getStudents(): Promise<Student[]>;
+
+  /**
+   * Get the grade sheet to enter and publish the students grades.
+   * In IFSC it is called "Lançar Notas".
+   * @throws {SigaaGradeSheetClosedError} If the grade entry period is closed.
+   */
+  getGradeSheet(): Promise<GradeSheet>;
+
+  /**
+   * Get the class dates of the course that have attendance in the attendance page (Lançar Frequência).
+   * If the syllabus schedule (Cronograma de Aulas) has dates, only the days of the syllabus schedule
+   * on the weekdays of the course schedule are returned.
+   * Each date can be used in getAttendanceSheet().
+   */
+  getClassDates(): Promise<Date[]>;
+
+  /**
+   * Get the attendance sheet of a class date.
+   * In IFSC it is called "Lançar Frequência".
+   * @param date class date, one of getClassDates().
+   */
+  getAttendanceSheet(date: Date): Promise<AttendanceSheet>;
+}
+
+/**
+ * Course in the teacher's view.
+ *
+ * @category Internal
+ **/
+export class SigaaCourseTeacher implements CourseTeacher {
+  /**
+   * @inheritdoc
+   */
+  readonly title;
+
+  /**
+   * @inheritdoc
+   */
+  readonly code;
+
+  /**
+   * @inheritdoc
+   */
+  readonly numberOfStudents;
+
+  /**
+   * @inheritdoc
+   */
+  readonly schedule;
+
+  /**
+   * @inheritdoc
+   */
+  readonly id;
+
+  /**
+   * @inheritdoc
+   */
+  readonly period;
+
+  private form;
+
+  private memberListParser: MemberListParser;
+
+  constructor(
+    courseData: CourseTeacherData,
+    private http: HTTP,
+    private parser: Parser
+  ) {
+    this.id = courseData.id;
+    this.title = courseData.title;
+    this.code = courseData.code;
+    this.numberOfStudents = courseData.numberOfStudents;
+    this.period = courseData.period;
+    this.schedule = courseData.schedule;
+    this.form = courseData.form;
+    this.memberListParser = new SigaaMemberListParser(this.parser);
+  }
+
+  /**
+   * Request the course page using the course ID,
+   * it is slower than requestCoursePageUsingForm,
+   * but works if the form is invalid.
+   * @returns Response page.
+   */
+  private async requestCoursePageUsingId(): Promise<Page> {
+    const page = await this.http.get('/sigaa/portais/docente/turmas.jsf');
+    if (page.statusCode !== 200)
+      throw new SigaaParseError('SIGAA: Unexpected courses page status code.', {
+        url: page.url
+      });
+
+    const table = page.$('.listagem');
+    if (table.length === 0) {
+      throw new SigaaParseError('SIGAA: Unexpected courses page format.', {
+        url: page.url,
+        selector: '.listagem'
+      });
+    }
+    const buttons = table.find('tbody > tr td a[onclick]').toArray();
+    const foundCourse = buttons.some((button) => {
+      const buttonOnClick = page.$(button).attr('onclick');
+      if (!buttonOnClick || !buttonOnClick.includes('idTurma')) return false;
+      const form = page.parseJSFCLJS(buttonOnClick);
+      if (form.postValues.idTurma === this.form.postValues.idTurma) {
+        this.form = form;
+        return true;
+      }
+      return false;
+    });
+    if (!foundCourse) {
+      throw new SigaaError('SIGAA: Not found course with id:' + this.id);
+    }
+    return this.requestCoursePageUsingForm();
+  }
+
+  /**
+   * Request the course page using the course POST Form,
+   * it is faster than requestCoursePageUsingId,
+   * but don`t works if the form is invalid or expired.
+   */
+  private async requestCoursePageUsingForm(useCache = true): Promise<Page> {
+    const page = await this.http.post(
+      this.form.action.href,
+      this.form.postValues,
+      {
+        shareSameRequest: true,
+        noCache: !useCache
+      }
+    );
+    if (page.statusCode === 200) {
+      if (page.bodyDecoded.includes('Comportamento Inesperado!')) {
+        throw new SigaaParseError(
+          'SIGAA: Unexpected behavior on the course page.',
+          { url: page.url }
+        );
+      }
+      return page;
+    } else {
+      throw new SigaaParseError('SIGAA: Unexpected course page status code.', {
+        url: page.url
+      });
+    }
+  }
+
+  /**
+   * Request the course page using requestCoursePageUsingForm,
+   * fallback to requestCoursePageUsingId.
+   * @returns Response page.
+   */
+  private async requestCoursePage(useCache = true): Promise<Page> {
+    return this.requestCoursePageUsingForm(useCache).catch(() =>
+      this.requestCoursePageUsingId()
+    );
+  }
+
+  /**
+   * Check that the page belongs to this course, SIGAA keeps only one
+   * course open per session.
+   * @param page
+   */
+  private verifyIfCoursePageIsValid(page: Page): void {
+    if (page.statusCode !== 200)
+      throw new SigaaParseError('SIGAA: Invalid course page status code.', {
+        url: page.url
+      });
+
+    const pageCourseCode = this.parser
+      .removeTagsHtml(page.$('#linkCodigoTurma').html())
+      .replace(/ -$/, '');
+
+    if (pageCourseCode !== this.code) {
+      throw new SigaaParseError(
+        'SIGAA: Using the old page caused the change to the last accessed course instead of the requested course.',
+        { url: page.url }
+      );
+    }
+  }
+
+  /**
+   * Receive the name of the side menu button and load the page.
+   * If the menu page is not of this course, the course page is loaded again without the cache,
+   * because the form of the cached page can be stale. The network errors are retried by the http session.
+   * @param buttonLabel
+   * @param useCache if false, the course page is not read from the cache.
+   */
+  private async getCourseSubMenu(
+    buttonLabel: string,
+    useCache = true
+  ): Promise<Page> {
+    const page = await this.requestCoursePage(useCache);
+
+    const buttonElement = page
+      .$('div.itemMenu')
+      .toArray()
+      .find(
+        (buttonEl) =>
+          this.parser.removeTagsHtml(page.$(buttonEl).html()) === buttonLabel
+      );
+
+    if (!buttonElement) {
+      throw new SigaaParseError('SIGAA: Course sub menu button not found.', {
+        url: page.url
+      });
+    }
+
+    const buttonOnClick = page.$(buttonElement).parent().attr('onclick');
+    if (!buttonOnClick)
+      throw new SigaaParseError(
+        'SIGAA: Course sub menu button does not have the onclick event.',
+        { url: page.url }
+      );
+
+    const form = page.parseJSFCLJS(buttonOnClick);
+    try {
+      const pageResponse = await this.http.post(
+        form.action.href,
+        form.postValues
+      );
+      this.verifyIfCoursePageIsValid(pageResponse);
+      return pageResponse;
+    } catch (err) {
+      if (useCache && !(err instanceof SigaaNetworkError)) {
+        return this.getCourseSubMenu(buttonLabel, false);
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async getMembers(): Promise<MemberList> {
+    const page = await this.getCourseSubMenu('Participantes');
+    return this.memberListParser.parseMemberListPage(page);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async getStudents(): Promise<Student[]> {
+    const members = await this.getMembers();
+    return members.students;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async getGradeSheet(): Promise<GradeSheet> {
+    const page = await this.getCourseSubMenu('Lançar Notas');
+    return new SigaaGradeSheet(this.http, this.parser, page);
+  }
+
+  /**
+   * Load the attendance page and parse the form of each class date.
+   */
+  private async getClassDateForms(): Promise<
+    { date: Date; form: SigaaForm }[]
+  > {
+    const page = await this.getCourseSubMenu('Lançar Frequência');
+    const dateForms: { date: Date; form: SigaaForm }[] = [];
+    const elements = page.$('[onclick]').toArray();
+    for (const element of elements) {
+      const onclick = page.$(element).attr('onclick');
+      if (!onclick || !onclick.includes('jsfcljs')) continue;
+      const text = [
+        this.parser.removeTagsHtml(page.$(element).html()),
+        page.$(element).attr('title') || ''
+      ].join(' ');
+      if (!/\d{2}\/\d{2}\/\d{4}/.test(text)) continue;
+      const date = this.parser.parseDates(text, 1)[0];
+      if (
+        dateForms.some((dateForm) => dateForm.date.valueOf() === date.valueOf())
+      )
+        continue;
+      dateForms.push({ date, form: page.parseJSFCLJS(onclick) });
+    }
+    return dateForms.sort((a, b) => a.date.valueOf() - b.date.valueOf());
+  }
+
+  /**
+   * Weekdays of the course schedule, like Date.getDay(), "24M12" is monday and wednesday.
+   */
+  private getScheduleWeekdays(): number[] {
+    const weekdays = new Set<number>();
+    const codes = this.schedule.match(/\b[1-7]+[MTN][1-7]+\b/g) || [];
+    for (const code of codes) {
+      const weekdayNumbers = (code.match(/^[1-7]+/) as RegExpMatchArray)[0];
+      for (const weekdayNumber of weekdayNumbers.split('')) {
+        // In SIGAA, 2 is monday, and in Date.getDay() 1 is monday
+        weekdays.add(parseInt(weekdayNumber, 10) - 1);
+      }
+    }
+    return [...weekdays];
+  }
+
+  /**
+   * Load the syllabus page and parse the start and end date of each row of "Cronograma de Aulas".
+   */
+  private async getSyllabusDateRanges(): Promise<
+    { startDate: Date; endDate: Date }[]
+  > {
+    const page = await this.getCourseSubMenu('Plano de Curso');
+    const table = page
+      .$('table.listagem')
+      .toArray()
+      .find(
+        (table) =>
+          this.parser.removeTagsHtml(page.$(table).find('caption').html()) ===
+          'Cronograma de Aulas'
+      );
+    if (!table) return [];
+    const dateRanges: { startDate: Date; endDate: Date }[] = [];
+    const rows = page.$(table).children('tbody').children('tr').toArray();
+    for (const row of rows) {
+      const [startDate, endDate] = [0, 1].map((column) => {
+        const text = this.parser.removeTagsHtml(
+          page.$(row).children('td').eq(column).html()
+        );
+        return /\d{2}\/\d{2}\/\d{4}/.test(text)
+          ? this.parser.parseDates(text, 1)[0]
+          : undefined;
+      });
+      if (!startDate) continue;
+      dateRanges.push({ startDate, endDate: endDate || startDate });
+    }
+    return dateRanges;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async getClassDates(): Promise<Date[]> {
+    const weekdays = this.getScheduleWeekdays();
+    const dateRanges = weekdays.length
+      ? await this.getSyllabusDateRanges()
+      : [];
+    const attendanceDates = (await this.getClassDateForms()).map(
+      (dateForm) => dateForm.date
+    );
+    if (dateRanges.length === 0) return attendanceDates;
+    const syllabusDays = new Set<string>();
+    for (const { startDate, endDate } of dateRanges) {
+      const date = new Date(
+        startDate.getFullYear(),
+        startDate.getMonth(),
+        startDate.getDate()
+      );
+      for (; date <= endDate; date.setDate(date.getDate() + 1)) {
+        if (weekdays.includes(date.getDay()))
+          syllabusDays.add(date.toDateString());
+      }
+    }
+    // Only the dates with attendance form can be opened by getAttendanceSheet()
+    return attendanceDates.filter((date) =>
+      syllabusDays.has(date.toDateString())
+    );
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async getAttendanceSheet(date: Date): Promise<AttendanceSheet> {
+    const dateForms = await this.getClassDateForms();
+    const dateForm = dateForms.find(
+      (dateForm) => dateForm.date.toDateString() === date.toDateString()
+    );
+    if (!dateForm)
+      throw new SigaaError(
+        'SIGAA: The course does not have class on this date.'
+      );
+    const page = await this.http.post(
+      dateForm.form.action.href,
+      dateForm.form.postValues
+    );
+    this.verifyIfCoursePageIsValid(page);
+    return new SigaaAttendanceSheet(
+      this.http,
+      this.parser,
+      page,
+      dateForm.date
+    );
+  }
+}
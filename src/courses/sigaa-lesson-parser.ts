@@ -10,6 +10,7 @@ import { Homework } from '@attachments/sigaa-homework-student';
 
 import { CourseResourcesManager } from '@courses/sigaa-course-resources-manager';
 import { UpdatableResourceData } from '@resources/sigaa-resource-manager';
+import { SigaaParseError } from '../sigaa-errors';
 
 /**
  * @category Internal
@@ -76,7 +77,10 @@ export class SigaaLessonParser implements LessonParser {
     for (let index = 0; index < lessonOptionElements.length; index++) {
       const optionElement = page.$(lessonOptionElements[index]);
       const lessonId = optionElement.attr('value');
-      if (!lessonId) throw new Error('SIGAA: cannot find the lesson id.');
+      if (!lessonId)
+        throw new SigaaParseError('SIGAA: cannot find the lesson id.', {
+          url: page.url
+        });
 
       const titleFull = this.parser.removeTagsHtml(optionElement.html());
 
@@ -155,8 +159,9 @@ export class SigaaLessonParser implements LessonParser {
       lessonIdWithReference.title != title
     )
       console.error(
-        new Error(
-          'SIGAA: The result of the lesson list parser is different than expected because the title or date does not match.'
+        new SigaaParseError(
+          'SIGAA: The result of the lesson list parser is different than expected because the title or date does not match.',
+          { url: page.url }
         )
       );
 
@@ -165,7 +170,10 @@ export class SigaaLessonParser implements LessonParser {
     const id = lessonIdWithReference.id;
 
     const lessonHTML = lessonContentElement.html();
-    if (!lessonHTML) throw new Error('SIGAA: Lesson without content.');
+    if (!lessonHTML)
+      throw new SigaaParseError('SIGAA: Lesson without content.', {
+        url: page.url
+      });
 
     const lessonContent = this.parser.removeTagsHtml(
       lessonHTML.replace(/<div([\S\s]*?)div>/gm, '')
@@ -318,7 +326,10 @@ export class SigaaLessonParser implements LessonParser {
       titleOnClick = titleElement.attr('onclick');
     }
     if (!titleOnClick)
-      throw new Error('SIGAA: Attachment title without onclick event.');
+      throw new SigaaParseError(
+        'SIGAA: Attachment title without onclick event.',
+        { url: page.url }
+      );
     const form = page.parseJSFCLJS(titleOnClick);
     const id = form.postValues.id;
     const descriptionElement = page
@@ -347,7 +358,9 @@ export class SigaaLessonParser implements LessonParser {
     const title = this.parser.removeTagsHtml(titleElement.html());
     const titleOnClick = titleElement.attr('onclick');
     if (!titleOnClick)
-      throw new Error('SIGAA: Survey title without onclick event.');
+      throw new SigaaParseError('SIGAA: Survey title without onclick event.', {
+        url: page.url
+      });
     const form = page.parseJSFCLJS(titleOnClick);
     const surveyOptions = {
       title,
@@ -370,7 +383,10 @@ export class SigaaLessonParser implements LessonParser {
     const titleElement = page.$(attachmentElement).find('span > a');
     const titleOnClick = titleElement.attr('onclick');
     if (!titleOnClick)
-      throw new Error('SIGAA: Homework title without onclick event.');
+      throw new SigaaParseError(
+        'SIGAA: Homework title without onclick event.',
+        { url: page.url }
+      );
     const form = page.parseJSFCLJS(titleOnClick);
     const id = form.postValues.id;
     const title = this.parser.removeTagsHtml(titleElement.html());
@@ -425,7 +441,10 @@ export class SigaaLessonParser implements LessonParser {
       if (!srcIframe) {
         srcIframe = page.$(attachmentElement).find('embed').attr('src');
       }
-      if (!srcIframe) throw new Error('SIGAA: Video iframe without url.');
+      if (!srcIframe)
+        throw new SigaaParseError('SIGAA: Video iframe without url.', {
+          url: page.url
+        });
       src = srcIframe;
     }
 
@@ -451,7 +470,10 @@ export class SigaaLessonParser implements LessonParser {
     const titleElement = page.$(attachmentElement).find('span[id] > a');
     const title = this.parser.removeTagsHtml(titleElement.html());
     const href = titleElement.attr('href');
-    if (!href) throw new Error('SIGAA: Link attachment does not have href.');
+    if (!href)
+      throw new SigaaParseError('SIGAA: Link attachment does not have href.', {
+        url: page.url
+      });
 
     const descriptionElement = page
       .$(attachmentElement)
@@ -479,7 +501,10 @@ export class SigaaLessonParser implements LessonParser {
     const onClick = titleElement.attr('onclick');
 
     if (!onClick)
-      throw new Error('SIGAA: Quiz attachment without onclick event.');
+      throw new SigaaParseError(
+        'SIGAA: Quiz attachment without onclick event.',
+        { url: page.url }
+      );
 
     const form = page.parseJSFCLJS(onClick);
     const id = form.postValues.id;
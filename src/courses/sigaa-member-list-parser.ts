@@ -0,0 +1,216 @@
+import { URL } from 'url';
+import { Parser } from '@helpers/sigaa-parser';
+import { Page } from '@session/sigaa-page';
+import {
+  MemberList,
+  Student,
+  Teacher
+} from '@courseResources/sigaa-member-list-student';
+import { SigaaParseError } from '../sigaa-errors';
+
+/**
+ * @category Internal
+ */
+export interface MemberListParser {
+  /**
+   * Parse the course members page (Participantes).
+   * @param page Members page of course.
+   */
+  parseMemberListPage(page: Page): MemberList;
+}
+
+/**
+ * Parse the course members page, it is the same in the student's and in the teacher's view.
+ * @category Internal
+ */
+export class SigaaMemberListParser implements MemberListParser {
+  constructor(private parser: Parser) {}
+
+  /**
+   * @inheritdoc
+   */
+  parseMemberListPage(page: Page): MemberList {
+    const tables = page.$('table.participantes').toArray();
+    const tablesNames = page.$('fieldset').toArray();
+    if (tables.length !== tablesNames.length) {
+      throw new SigaaParseError('SIGAA: Unexpected page members format.', {
+        url: page.url
+      });
+    }
+    let tableTeacher;
+    let tableStudent;
+    tablesNames.forEach((value, index) => {
+      const label = this.parser.removeTagsHtml(page.$(value).html());
+      if (label.includes('Professores')) tableTeacher = tables[index];
+      else if (label.includes('Alunos')) tableStudent = tables[index];
+    });
+    const teachers: Teacher[] = [];
+    if (tableTeacher) {
+      const teacherElements = page.$(tableTeacher).find('tr').toArray();
+      for (const teacherElement of teacherElements) {
+        let department;
+        let formation;
+        let username;
+        let email;
+        const informationsString =
+          page.$(teacherElement).find('td[valign]').html() || '';
+        const informations = informationsString.split('<br>').slice(1, -1);
+        for (const information of informations) {
+          const label = this.parser.removeTagsHtml(
+            (information.match(/^[\s\S]*?(?=:[\s]*?<em>)/g) || [])[0]
+          );
+          const informationContent = this.parser.removeTagsHtml(
+            (information.match(/(?=<em>)[\s\S]*?(?=<\/em>)/g) || [])[0]
+          );
+          switch (label) {
+            case 'Departamento':
+              department = informationContent;
+              break;
+            case 'Formação':
+              formation = informationContent;
+              break;
+            case 'Usuário':
+              username = informationContent;
+              break;
+            case 'E-mail':
+            case 'E-Mail':
+              email = informationContent;
+              break;
+            default:
+              console.log(
+                'WARNING:Teacher information label not recognized:' + label
+              );
+          }
+        }
+        const name = this.parser.removeTagsHtml(
+          page.$(teacherElement).find('strong > a').html()
+        );
+        if (!username || !email)
+          throw new SigaaParseError(
+            'SIGAA: Invalid teacher format at member page.',
+            { url: page.url }
+          );
+        const teacher: Teacher = {
+          name,
+          username,
+          department,
+          formation,
+          email
+        };
+        const photoHREF = page.$(teacherElement).find('img').attr('src');
+        if (!photoHREF)
+          throw new SigaaParseError(
+            'SIGAA: teacher profile picture without src at member page.',
+            { url: page.url }
+          );
+
+        const photoURL = new URL(photoHREF, page.url.href);
+        if (!photoURL.href.includes('no_picture.png')) {
+          teacher.photoURL = photoURL;
+        }
+
+        teachers.push(teacher);
+      }
+    }
+
+    const students: Student[] = [];
+    if (tableStudent) {
+      const rows = page.$(tableStudent).find('tr').toArray();
+      for (const row of rows) {
+        const numberOfColumn = page.$(row).find('td[valign]').length;
+        for (let column = 0; column < numberOfColumn; column++) {
+          const informationsString =
+            page.$(row).find('td[valign]').eq(column).html() || '';
+          const informations = informationsString.split('<br>').slice(1);
+          let registration;
+          let username;
+          let program;
+          let registrationDate;
+          let email;
+          for (const information of informations) {
+            const label = this.parser.removeTagsHtml(
+              (information.match(/^[\s\S]*?(?=:[\s]*?<em>)/g) || [])[0]
+            );
+            const informationContent = this.parser.removeTagsHtml(
+              (information.match(/(?=<em>)[\s\S]*?(?=<\/em>)/g) || [])[0]
+            );
+            switch (label) {
+              case 'Matrícula': {
+                registration = informationContent;
+                break;
+              }
+              case 'Usuário': {
+                username = informationContent;
+                break;
+              }
+              case 'Curso': {
+                program = informationContent;
+                break;
+              }
+              case 'Data Matrícula': {
+                const informationDateSplited = informationContent.split('-');
+                const year = parseInt(informationDateSplited[2], 10);
+                const month = parseInt(informationDateSplited[1], 10) - 1;
+                const day = parseInt(informationDateSplited[0], 10);
+                registrationDate = new Date(year, month, day);
+                break;
+              }
+              case 'E-mail':
+              case 'E-Mail': {
+                email = informationContent;
+                break;
+              }
+              default: {
+                console.log(
+                  'WARNING:Student information label not recognized:' + label
+                );
+              }
+            }
+          }
+
+          if (!username || !email || !registration || !program)
+            throw new SigaaParseError(
+              'SIGAA: Invalid student format at member page.',
+              { url: page.url }
+            );
+
+          const name = this.parser.removeTagsHtml(
+            page.$(row).find('strong').eq(column).html()
+          );
+
+          const student: Student = {
+            name,
+            username,
+            program,
+            registration,
+            registrationDate,
+            email
+          };
+
+          const photoHREF = page
+            .$(row)
+            .find('td[width="47"] img')
+            .eq(column)
+            .attr('src');
+          if (!photoHREF)
+            throw new SigaaParseError(
+              'SIGAA: student profile picture without src at member page.',
+              { url: page.url }
+            );
+
+          const photoURL = new URL(photoHREF, page.url.href);
+          if (!photoURL.href.includes('no_picture.png')) {
+            student.photoURL = photoURL;
+          }
+
+          students.push(student);
+        }
+      }
+    }
+
+    return {
+      teachers,
+      students
+    };
+  }
+}
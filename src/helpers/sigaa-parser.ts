@@ -1,4 +1,5 @@
 import { decode as htmlEntitiesDecode } from 'he';
+import { SigaaParseError } from '../sigaa-errors';
 
 /**
  * Text sanitizer and date parser.
@@ -64,10 +65,11 @@ export class SigaaParser implements Parser {
       const date = new Date(
         `${dateYear}-${month}-${day}T${hour}:${minutes}:${seconds}.000`
       );
-      if (isNaN(date.valueOf())) throw new Error('SIGAA: Invalid date.');
+      if (isNaN(date.valueOf()))
+        throw new SigaaParseError('SIGAA: Invalid date.');
       return date;
     }
-    throw new Error('SIGAA: Invalid date string.');
+    throw new SigaaParseError('SIGAA: Invalid date string.');
   }
 
   /**
@@ -111,7 +113,9 @@ export class SigaaParser implements Parser {
       }
     }
     if (numberOfDates != dates.length)
-      throw new Error('SIGAA: Number of dates is different than expected.');
+      throw new SigaaParseError(
+        'SIGAA: Number of dates is different than expected.'
+      );
 
     return dates;
   }
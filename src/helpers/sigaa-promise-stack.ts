@@ -13,6 +13,10 @@ export interface FunctionPromise<T> {
  */
 export interface PromiseItemStack<K, T> {
   key: K;
+  /**
+   * Items with greater priority are executed first, default is 0.
+   */
+  priority?: number;
   promiseFunction?(): Promise<void>;
   promise?: Promise<T>;
 }
@@ -27,9 +31,14 @@ export interface PromiseStack<K, T> {
    * The function is not called the moment it is added to the stack, but when it is your turn on the stack
    * @param promiseFunction function to generate the promise
    * @param key Key of promise array, to identify a function.
+   * @param priority Functions with greater priority are executed first, default is 0.
    * @returns A promise that resolves with the function's response.
    */
-  addPromise(key: K, promiseFunction: FunctionPromise<T>): Promise<T>;
+  addPromise(
+    key: K,
+    promiseFunction: FunctionPromise<T>,
+    priority?: number
+  ): Promise<T>;
 
   /**
    * Get promises objects.
@@ -90,17 +99,29 @@ export class SigaaPromiseStack<K, T> implements PromiseStack<K, T> {
     }
   }
 
+  /**
+   * Removes from the stack the next item to execute, the one with the greatest priority,
+   * if there are more than one, the order is used.
+   */
+  private takeNextPromise(): PromiseItemStack<K, T> | undefined {
+    const maxPriority = Math.max(
+      ...this.storedPromises.map((item) => item.priority ?? 0)
+    );
+    const indexes = this.storedPromises
+      .map((item, index) => ((item.priority ?? 0) === maxPriority ? index : -1))
+      .filter((index) => index !== -1);
+    const index =
+      this.order === 'normal' ? indexes[0] : indexes[indexes.length - 1];
+    return this.storedPromises.splice(index, 1)[0];
+  }
+
   /**
    * Loop to execute the entire promise stack
    */
   private async promiseExecutor(): Promise<void> {
     if (!this.promiseRunning) {
       while (this.storedPromises.length > 0) {
-        if (this.order === 'normal') {
-          this.promiseRunning = this.storedPromises.shift();
-        } else if (this.order === 'reverse') {
-          this.promiseRunning = this.storedPromises.pop();
-        }
+        this.promiseRunning = this.takeNextPromise();
         try {
           if (this.promiseRunning?.promiseFunction) {
             await this.promiseRunning.promiseFunction();
@@ -115,8 +136,12 @@ export class SigaaPromiseStack<K, T> implements PromiseStack<K, T> {
   /**
    * @inheritdoc
    */
-  public addPromise(key: K, promiseFunction: FunctionPromise<T>): Promise<T> {
-    const promiseObject: PromiseItemStack<K, T> = { key };
+  public addPromise(
+    key: K,
+    promiseFunction: FunctionPromise<T>,
+    priority = 0
+  ): Promise<T> {
+    const promiseObject: PromiseItemStack<K, T> = { key, priority };
     const promise = new Promise<T>((resolve, reject) => {
       promiseObject.promiseFunction = () => {
         return promiseFunction().then(resolve, reject);
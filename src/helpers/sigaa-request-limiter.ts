@@ -0,0 +1,166 @@
+import {
+  getRequestPriorityValue,
+  RequestPriority
+} from './sigaa-request-priority';
+import { SigaaError, SigaaSessionClosedError } from '../sigaa-errors';
+
+/**
+ * @category Public
+ */
+export interface RequestLimitOptions {
+  /**
+   * Max average of requests per second, default is no limit.
+   */
+  requestsPerSecond?: number;
+  /**
+   * Max requests made at once after an idle period (size of the token bucket).
+   * Default is requestsPerSecond rounded up.
+   */
+  burst?: number;
+  /**
+   * Max requests running at the same time, default is no limit.
+   */
+  maxInFlight?: number;
+}
+
+/**
+ * Limits the requests of one domain.
+ * @category Internal
+ */
+export interface RequestLimiter {
+  /**
+   * Waits a free slot, the slots are given to the highest priority first.
+   * @param priority
+   * @returns Function to release the slot, it must be called when the request ends.
+   */
+  acquire(priority?: RequestPriority): Promise<() => void>;
+
+  /**
+   * Removes the waiting requests, they are never started.
+   * Their acquire() is rejected with SigaaSessionClosedError.
+   */
+  close(): void;
+}
+
+/**
+ * Request waiting a slot.
+ */
+interface LimiterQueueItem {
+  priority: number;
+  resolve(release: () => void): void;
+  reject(err: Error): void;
+}
+
+/**
+ * Token bucket rate limiter with max in flight.
+ * @category Internal
+ */
+export class SigaaRequestLimiter implements RequestLimiter {
+  private requestsPerSecond = Infinity;
+  private burst = Infinity;
+  private maxInFlight = Infinity;
+  private tokens = Infinity;
+  private lastRefill = Date.now();
+  private inFlight = 0;
+  private queue: LimiterQueueItem[] = [];
+  private timer?: NodeJS.Timeout;
+
+  constructor(options: RequestLimitOptions = {}) {
+    this.setLimits(options);
+  }
+
+  /**
+   * Changes the limits, the requests already running count for the new max in flight.
+   * @param options
+   */
+  setLimits(options: RequestLimitOptions): void {
+    const requestsPerSecond = options.requestsPerSecond ?? Infinity;
+    const burst = options.burst ?? Math.ceil(requestsPerSecond);
+    const maxInFlight = options.maxInFlight ?? Infinity;
+    if (requestsPerSecond <= 0 || burst < 1 || maxInFlight < 1)
+      throw new SigaaError('SIGAA: Invalid request limits.');
+    this.refillTokens();
+    this.requestsPerSecond = requestsPerSecond;
+    this.burst = burst;
+    this.maxInFlight = maxInFlight;
+    this.tokens = Math.min(this.tokens, burst);
+    this.lastRefill = Date.now();
+    this.processQueue();
+  }
+
+  /**
+   * @inheritdoc
+   */
+  acquire(priority: RequestPriority = 'normal'): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      const item = {
+        priority: getRequestPriorityValue(priority),
+        resolve,
+        reject
+      };
+      // Keeps the queue sorted by priority, in order of arrival
+      const index = this.queue.findIndex(
+        (queueItem) => queueItem.priority < item.priority
+      );
+      if (index === -1) this.queue.push(item);
+      else this.queue.splice(index, 0, item);
+      this.processQueue();
+    });
+  }
+
+  private refillTokens(): void {
+    if (this.requestsPerSecond === Infinity) return;
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.burst,
+      this.tokens + ((now - this.lastRefill) * this.requestsPerSecond) / 1000
+    );
+    this.lastRefill = now;
+  }
+
+  /**
+   * Starts the requests while there are tokens and free slots,
+   * if it runs out of tokens, it is called again when the next token is available.
+   */
+  private processQueue(): void {
+    this.refillTokens();
+    while (
+      this.queue.length > 0 &&
+      this.inFlight < this.maxInFlight &&
+      this.tokens >= 1
+    ) {
+      const item = this.queue.shift() as LimiterQueueItem;
+      this.tokens--;
+      this.inFlight++;
+      let isReleased = false;
+      item.resolve(() => {
+        if (isReleased) return;
+        isReleased = true;
+        this.inFlight--;
+        this.processQueue();
+      });
+    }
+    if (
+      this.queue.length > 0 &&
+      this.inFlight < this.maxInFlight &&
+      !this.timer
+    ) {
+      const delay = ((1 - this.tokens) * 1000) / this.requestsPerSecond;
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.processQueue();
+      }, delay);
+    }
+  }
+
+  /**
+   * @inheritdoc
+   */
+  close(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    const queue = this.queue;
+    this.queue = [];
+    for (const item of queue) item.reject(new SigaaSessionClosedError());
+  }
+}
@@ -0,0 +1,44 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Priority of the requests, high priority requests are made first.
+ * Use low for background work, like polling, so the interactive calls are not delayed.
+ * @category Public
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+const priorityStorage = new AsyncLocalStorage<RequestPriority>();
+
+/**
+ * Runs the function, all requests made by it, including the asynchronous ones, use the priority.
+ * @param priority
+ * @param callback
+ * @category Public
+ */
+export function runWithRequestPriority<T>(
+  priority: RequestPriority,
+  callback: () => T
+): T {
+  return priorityStorage.run(priority, callback);
+}
+
+/**
+ * Returns the priority of the current runWithRequestPriority call, or normal.
+ * @category Internal
+ */
+export function getCurrentRequestPriority(): RequestPriority {
+  return priorityStorage.getStore() || 'normal';
+}
+
+/**
+ * Numeric value of the priority, greater is first.
+ * @category Internal
+ */
+export function getRequestPriorityValue(priority: RequestPriority): number {
+  const values: Record<RequestPriority, number> = {
+    high: 2,
+    normal: 1,
+    low: 0
+  };
+  return values[priority];
+}
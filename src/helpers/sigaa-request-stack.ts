@@ -1,4 +1,9 @@
 import { PromiseStack, SigaaPromiseStack } from './sigaa-promise-stack';
+import {
+  RequestLimiter,
+  RequestLimitOptions,
+  SigaaRequestLimiter
+} from './sigaa-request-limiter';
 
 /**
  * Requisition stack list.
@@ -34,6 +39,12 @@ export interface RequestStackController<K, T> {
    */
   getStacksByDomain(domain: string): RequestStacks<K, T>;
 
+  /**
+   * Returns the limiter of the domain, the requests of all stacks of the domain share it.
+   * @param domain domain
+   */
+  getLimiterByDomain(domain: string): RequestLimiter;
+
   /**
    * flush all stacks.
    */
@@ -46,6 +57,13 @@ export interface RequestStackController<K, T> {
 export class SigaaRequestStack<K, T> implements RequestStackController<K, T> {
   private _stacks: Record<string, RequestStacks<K, T>> = {};
 
+  private _limiters: Record<string, SigaaRequestLimiter> = {};
+
+  /**
+   * @param limits limits of the requests of each domain, default is no limit.
+   */
+  constructor(private limits: RequestLimitOptions = {}) {}
+
   private createStacks(domain: string): RequestStacks<K, T> {
     const newRequestStacks = {
       noCookie: new SigaaPromiseStack<K, T>('reverse'),
@@ -63,6 +81,26 @@ export class SigaaRequestStack<K, T> implements RequestStackController<K, T> {
     return this._stacks[domain] || this.createStacks(domain);
   }
 
+  /**
+   * @inheritdoc
+   */
+  getLimiterByDomain(domain: string): RequestLimiter {
+    if (!this._limiters[domain])
+      this._limiters[domain] = new SigaaRequestLimiter(this.limits);
+    return this._limiters[domain];
+  }
+
+  /**
+   * Changes the limits of all domains, like when the institution is detected after the stack is created.
+   * @param limits
+   */
+  setLimits(limits: RequestLimitOptions): void {
+    this.limits = limits;
+    for (const limiter of Object.values(this._limiters)) {
+      limiter.setLimits(limits);
+    }
+  }
+
   /**
    * @inheritdoc
    */
@@ -73,5 +111,9 @@ export class SigaaRequestStack<K, T> implements RequestStackController<K, T> {
       this.getStacksByDomain(domain).post.flush();
     }
     this._stacks = {};
+    for (const limiter of Object.values(this._limiters)) {
+      limiter.close();
+    }
+    this._limiters = {};
   }
 }
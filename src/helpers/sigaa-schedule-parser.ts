@@ -0,0 +1,215 @@
+import { InstitutionMap } from '@session/sigaa-institution-controller';
+import { SigaaParseError } from '../sigaa-errors';
+
+/**
+ * Shift of the class, in SIGAA codes they are M, T and N.
+ * @category Public
+ */
+export type ScheduleShift = 'morning' | 'afternoon' | 'night';
+
+/**
+ * Start and end time of each slot of the shift, like ['07:00', '07:50'].
+ * The first item is the slot 1.
+ * @category Public
+ */
+export type ScheduleTimeGrid = Record<ScheduleShift, [string, string][]>;
+
+/**
+ * Continuous block of classes in one weekday.
+ * @category Public
+ */
+export interface ScheduleSlot {
+  /**
+   * Day of the week, 0 is sunday and 6 is saturday, like Date.getDay().
+   */
+  weekday: number;
+  shift: ScheduleShift;
+  /**
+   * Slot numbers of the block, like [1, 2] for "M12".
+   */
+  slots: number[];
+  /**
+   * Start time, like "07:00".
+   */
+  startTime: string;
+  /**
+   * End time, like "08:40".
+   */
+  endTime: string;
+}
+
+/**
+ * @category Internal
+ */
+export interface ScheduleParser {
+  /**
+   * Parse the SIGAA schedule code, like "24M12 6T34".
+   * @param schedule schedule code.
+   * @returns Slots sorted by weekday and start time.
+   */
+  parseSchedule(schedule: string): ScheduleSlot[];
+}
+
+/**
+ * Default time grid of each institution.
+ * @category Public
+ */
+export const scheduleTimeGrids: InstitutionMap<ScheduleTimeGrid> = {
+  IFSC: {
+    morning: [
+      ['07:30', '08:25'],
+      ['08:25', '09:20'],
+      ['09:40', '10:35'],
+      ['10:35', '11:30'],
+      ['11:30', '12:25']
+    ],
+    afternoon: [
+      ['13:30', '14:25'],
+      ['14:25', '15:20'],
+      ['15:40', '16:35'],
+      ['16:35', '17:30'],
+      ['17:30', '18:25']
+    ],
+    night: [
+      ['18:30', '19:25'],
+      ['19:25', '20:20'],
+      ['20:30', '21:25'],
+      ['21:25', '22:20']
+    ]
+  },
+  UFPB: {
+    morning: [
+      ['07:00', '08:00'],
+      ['08:00', '09:00'],
+      ['09:00', '10:00'],
+      ['10:00', '11:00'],
+      ['11:00', '12:00'],
+      ['12:00', '13:00']
+    ],
+    afternoon: [
+      ['13:00', '14:00'],
+      ['14:00', '15:00'],
+      ['15:00', '16:00'],
+      ['16:00', '17:00'],
+      ['17:00', '18:00'],
+      ['18:00', '19:00']
+    ],
+    night: [
+      ['19:00', '19:50'],
+      ['19:50', '20:40'],
+      ['20:40', '21:30'],
+      ['21:30', '22:20']
+    ]
+  },
+  UNB: {
+    morning: [
+      ['08:00', '08:55'],
+      ['08:55', '09:50'],
+      ['10:00', '10:55'],
+      ['10:55', '11:50'],
+      ['12:00', '12:55']
+    ],
+    afternoon: [
+      ['12:55', '13:50'],
+      ['14:00', '14:55'],
+      ['14:55', '15:50'],
+      ['16:00', '16:55'],
+      ['16:55', '17:50'],
+      ['18:00', '18:55']
+    ],
+    night: [
+      ['19:00', '19:50'],
+      ['19:50', '20:40'],
+      ['20:50', '21:40'],
+      ['21:40', '22:30']
+    ]
+  },
+  UNILAB: {
+    morning: [
+      ['07:00', '07:50'],
+      ['07:50', '08:40'],
+      ['08:55', '09:45'],
+      ['09:45', '10:35'],
+      ['10:50', '11:40'],
+      ['11:40', '12:30']
+    ],
+    afternoon: [
+      ['13:00', '13:50'],
+      ['13:50', '14:40'],
+      ['14:55', '15:45'],
+      ['15:45', '16:35'],
+      ['16:50', '17:40'],
+      ['17:40', '18:30']
+    ],
+    night: [
+      ['18:45', '19:35'],
+      ['19:35', '20:25'],
+      ['20:35', '21:25'],
+      ['21:25', '22:15']
+    ]
+  }
+};
+
+/**
+ * @category Internal
+ */
+export class SigaaScheduleParser implements ScheduleParser {
+  constructor(private timeGrid: ScheduleTimeGrid) {}
+
+  private shiftLetters: Record<string, ScheduleShift> = {
+    M: 'morning',
+    T: 'afternoon',
+    N: 'night'
+  };
+
+  /**
+   * @inheritdoc
+   */
+  parseSchedule(schedule: string): ScheduleSlot[] {
+    const scheduleSlots: ScheduleSlot[] = [];
+    const codes = schedule.match(/\b[1-7]+[MTN][1-7]+\b/g) || [];
+    for (const code of codes) {
+      const [, weekdays, shiftLetter, slotNumbers] = code.match(
+        /^([1-7]+)([MTN])([1-7]+)$/
+      ) as RegExpMatchArray;
+      const shift = this.shiftLetters[shiftLetter];
+      const slots = slotNumbers
+        .split('')
+        .map((slot) => parseInt(slot, 10))
+        .sort((a, b) => a - b);
+
+      // Splits non-consecutive slots, like "M13", in two blocks
+      const blocks: number[][] = [];
+      for (const slot of slots) {
+        const lastBlock = blocks[blocks.length - 1];
+        if (lastBlock && lastBlock[lastBlock.length - 1] === slot - 1) {
+          lastBlock.push(slot);
+        } else {
+          blocks.push([slot]);
+        }
+      }
+
+      for (const weekdayNumber of weekdays.split('')) {
+        for (const block of blocks) {
+          const firstSlot = this.timeGrid[shift][block[0] - 1];
+          const lastSlot = this.timeGrid[shift][block[block.length - 1] - 1];
+          if (!firstSlot || !lastSlot)
+            throw new SigaaParseError(
+              `SIGAA: Schedule slot out of the time grid: ${code}.`
+            );
+          scheduleSlots.push({
+            // In SIGAA, 2 is monday, and in Date.getDay() 1 is monday
+            weekday: parseInt(weekdayNumber, 10) - 1,
+            shift,
+            slots: block,
+            startTime: firstSlot[0],
+            endTime: lastSlot[1]
+          });
+        }
+      }
+    }
+    return scheduleSlots.sort(
+      (a, b) => a.weekday - b.weekday || a.startTime.localeCompare(b.startTime)
+    );
+  }
+}
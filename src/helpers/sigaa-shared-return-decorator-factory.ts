@@ -1,3 +1,4 @@
+import { SigaaError } from '../sigaa-errors';
 /* eslint-disable @typescript-eslint/no-unused-vars */
 
 /**
@@ -9,15 +10,22 @@
 export function sharedReturn() {
   return function (
     target: any,
-    propertyKey: string,
-    descriptor: PropertyDescriptor
+    propertyKey?: string,
+    descriptor?: PropertyDescriptor
   ): void {
-    if (target.kind !== 'method')
-      throw new Error('SIGAA: SharedReturn is only supported on methods.');
+    // The babel decorators receive the element descriptor,
+    // the TypeScript decorators (used by ts-jest) receive the property descriptor
+    const methodDescriptor: PropertyDescriptor | undefined = descriptor
+      ? descriptor
+      : target.kind === 'method'
+      ? target.descriptor
+      : undefined;
+    if (!methodDescriptor || typeof methodDescriptor.value !== 'function')
+      throw new SigaaError('SIGAA: SharedReturn is only supported on methods.');
 
-    const originalMethod = target.descriptor.value; // save a reference to the original method
-    const store = '__sharedReturn' + target.key;
-    target.descriptor.value = function (...args: any[]): any {
+    const originalMethod = methodDescriptor.value; // save a reference to the original method
+    const store = '__sharedReturn' + (propertyKey || target.key);
+    methodDescriptor.value = function (this: any, ...args: any[]): any {
       if (!this[store]) {
         this[store] = new Map<string, WeakRef<any>>();
       }
@@ -1,4 +1,9 @@
 import { HTTP, ProgressCallback } from '@session/sigaa-http';
+import {
+  DownloadResult,
+  DownloadStream,
+  FileDownloadResult
+} from '@session/sigaa-download-stream';
 import { SigaaForm } from '@session/sigaa-page';
 import { UpdatableResourceData } from './sigaa-resource-manager';
 import {
@@ -6,6 +11,7 @@ import {
   UpdatableResource,
   UpdatableResourceCallback
 } from './updatable-resource';
+import { SigaaError, SigaaNetworkError } from '../sigaa-errors';
 
 /**
  * @category Internal
@@ -37,6 +43,10 @@ export type FileData = FileDataForm | FileDataKey;
  */
 export interface File extends UpdatableResource<FileData> {
   readonly type: 'file';
+  /**
+   * File id in SIGAA, with the key it identifies the file.
+   */
+  readonly id: string;
   /**
    * Label in SIGAA.
    */
@@ -51,11 +61,40 @@ export interface File extends UpdatableResource<FileData> {
   readonly description?: string;
   /**
    * Download the file
-   * @param destpath path to save file
+   * @param destpath path to save file, an interrupted download is resumed from its .part file
    * @param callback callback to view download progress
    * @retuns Promise with the path where the file was saved.
    */
   download(destpath: string, callback?: ProgressCallback): Promise<string>;
+
+  /**
+   * Download the file like download, the size is checked against the Content-Length.
+   * @param destpath path to save file
+   * @param callback callback to view download progress
+   * @retuns Promise with the path where the file was saved, its size and SHA-256.
+   */
+  downloadVerified(
+    destpath: string,
+    callback?: ProgressCallback
+  ): Promise<FileDownloadResult>;
+
+  /**
+   * Download the file into a writable stream, like an upload to another storage.
+   * The stream is ended when the download ends.
+   * @param destination stream to write the file
+   * @param callback callback to view download progress
+   * @retuns Promise with the size and SHA-256 of the file.
+   */
+  downloadVerified(
+    destination: NodeJS.WritableStream,
+    callback?: ProgressCallback
+  ): Promise<DownloadResult>;
+
+  /**
+   * Opens the file as a readable stream, without saving it.
+   * The stream emits an error if the size is different from the Content-Length.
+   */
+  openReadStream(): Promise<DownloadStream>;
 }
 
 /**
@@ -104,7 +143,7 @@ export class SigaaFile extends AbstractUpdatableResource implements File {
       this._id = (options as FileDataKey).id;
       this._key = (options as FileDataKey).key;
     } else {
-      throw new Error('SIGAA: Invalid FileData.');
+      throw new SigaaError('SIGAA: Invalid FileData.');
     }
     this.isClosed = false;
   }
@@ -131,9 +170,38 @@ export class SigaaFile extends AbstractUpdatableResource implements File {
 
   async download(
     basepath: string,
-    callback?: ProgressCallback,
-    retry = true
+    callback?: ProgressCallback
   ): Promise<string> {
+    const { path } = await this.saveFile(basepath, callback);
+    return path;
+  }
+
+  downloadVerified(
+    destpath: string,
+    callback?: ProgressCallback
+  ): Promise<FileDownloadResult>;
+  downloadVerified(
+    destination: NodeJS.WritableStream,
+    callback?: ProgressCallback
+  ): Promise<DownloadResult>;
+  async downloadVerified(
+    destination: string | NodeJS.WritableStream,
+    callback?: ProgressCallback
+  ): Promise<DownloadResult> {
+    if (typeof destination !== 'string')
+      return this.writeToStream(destination, callback);
+    return this.saveFile(destination, callback);
+  }
+
+  /**
+   * Saves the file with the HTTP download, the failed requests are retried by the http session.
+   * @param reloadForm if the download by the form fails, the form is updated and the download is made again, because the form can be stale.
+   */
+  private async saveFile(
+    basepath: string,
+    callback?: ProgressCallback,
+    reloadForm = true
+  ): Promise<FileDownloadResult> {
     this.checkIfItWasClosed();
     if (this.form) {
       return this.http
@@ -144,22 +212,63 @@ export class SigaaFile extends AbstractUpdatableResource implements File {
           callback
         )
         .catch(async (err) => {
+          if (!reloadForm || err instanceof SigaaNetworkError) throw err;
           this.form = undefined;
           await this.updateInstance();
-          if (retry) return this.download(basepath, callback, false);
-          else throw err;
+          return this.saveFile(basepath, callback, false);
         });
     } else if (this.key != null) {
       const fileDownloadPath = `/sigaa/verFoto?idArquivo=${this.id}&key=${this.key}`;
+      return this.http.downloadFileByGet(fileDownloadPath, basepath, callback);
+    }
+    throw new SigaaError(
+      'SIGAA: Could not download the file because the key is missing.'
+    );
+  }
+
+  /**
+   * @inheritdoc
+   * @param reloadForm if the download by the form fails, the form is updated and the download is made again, because the form can be stale.
+   */
+  async openReadStream(reloadForm = true): Promise<DownloadStream> {
+    this.checkIfItWasClosed();
+    if (this.form) {
       return this.http
-        .downloadFileByGet(fileDownloadPath, basepath, callback)
-        .catch((err) => {
-          if (retry) return this.download(basepath, callback, false);
-          else throw err;
+        .openFileByPost(this.form.action.href, this.form.postValues)
+        .catch(async (err) => {
+          if (!reloadForm || err instanceof SigaaNetworkError) throw err;
+          this.form = undefined;
+          await this.updateInstance();
+          return this.openReadStream(false);
         });
+    } else if (this.key != null) {
+      const fileDownloadPath = `/sigaa/verFoto?idArquivo=${this.id}&key=${this.key}`;
+      return this.http.openFileByGet(fileDownloadPath);
     }
-    throw new Error(
+    throw new SigaaError(
       'SIGAA: Could not download the file because the key is missing.'
     );
   }
+
+  /**
+   * Pipes the file to the stream, it is not retried because part of the file may have been written.
+   */
+  private async writeToStream(
+    destination: NodeJS.WritableStream,
+    callback?: ProgressCallback
+  ): Promise<DownloadResult> {
+    const downloadStream = await this.openReadStream();
+    if (callback) {
+      downloadStream.on('data', () => {
+        callback(downloadStream.size);
+      });
+    }
+    await new Promise((resolve, reject) => {
+      destination.on('finish', resolve);
+      destination.on('error', reject);
+      downloadStream.on('error', reject);
+      downloadStream.pipe(destination);
+    });
+    return downloadStream.getResult();
+  }
 }
@@ -7,6 +7,21 @@ export interface UpdatableResourceData {
   instanceIndentifier: string;
 }
 
+/**
+ * Instances that appeared and disappeared in the last keepOnly call.
+ * @category Public
+ */
+export interface ResourceManagerChanges {
+  /**
+   * Identifiers of the instances created since the previous keepOnly call and kept.
+   */
+  added: string[];
+  /**
+   * Identifiers of the instances closed by keepOnly.
+   */
+  removed: string[];
+}
+
 /**
  * @category Internal
  */
@@ -21,26 +36,49 @@ export class ResourceManager<
    */
   private _instances: T[] = [];
 
+  /**
+   * Identifiers of the instances created by upsert since the last keepOnly call.
+   */
+  private createdIds: string[] = [];
+
+  private _lastChanges: ResourceManagerChanges = { added: [], removed: [] };
+
   /**
    * Closes and removes the instance if not in idsToKeep.
    * @param idsToKeep array with ids to keep E.g. ["1234", "4321"]
    */
   keepOnly(idsToKeep: string[]): T[] {
+    const removed: string[] = [];
     this._instances = this._instances.filter((instance) => {
+      const id = instance._instanceIndentifier;
       try {
-        if (idsToKeep.includes(instance._instanceIndentifier)) {
+        if (idsToKeep.includes(id)) {
           return true;
         } else {
           instance.close();
+          removed.push(id);
           return false;
         }
       } catch (err) {
+        removed.push(id);
         return false;
       }
     });
+    this._lastChanges = {
+      added: this.createdIds.filter((id) => idsToKeep.includes(id)),
+      removed
+    };
+    this.createdIds = [];
     return this._instances;
   }
 
+  /**
+   * Instances added and removed in the last keepOnly call.
+   */
+  get lastChanges(): ResourceManagerChanges {
+    return this._lastChanges;
+  }
+
   /**
    * @inheritdoc
    */
@@ -67,6 +105,7 @@ export class ResourceManager<
     if (!instance) {
       const newInstance = this.instanceConstructor(options);
       this._instances.push(newInstance);
+      this.createdIds.push(id);
       return newInstance;
     } else {
       instance.update(options);
@@ -1,3 +1,4 @@
+import { SigaaError } from '../sigaa-errors';
 /**
  * @category Internal
  */
@@ -24,13 +25,14 @@ export abstract class AbstractUpdatableResource {
   ) {}
 
   protected async updateInstance(): Promise<void> {
-    if (!this.updater) throw new Error('SIGAA: Resource updater not exists.');
+    if (!this.updater)
+      throw new SigaaError('SIGAA: Resource updater not exists.');
     await this.updater();
   }
 
   protected checkIfItWasClosed(): void {
     if (this.isClosed) {
-      throw new Error('SIGAA: This instance has already been closed.');
+      throw new SigaaError('SIGAA: This instance has already been closed.');
     }
   }
 
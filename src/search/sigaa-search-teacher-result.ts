@@ -1,5 +1,6 @@
 import { Parser } from '@helpers/sigaa-parser';
 import { HTTP, ProgressCallback } from '@session/sigaa-http';
+import { SigaaParseError } from '../sigaa-errors';
 
 /**
  * @category Internal
@@ -87,17 +88,20 @@ export class SigaaSearchTeacherResult implements TeacherResult {
     return this._photoURL;
   }
 
-  downloadProfilePicture(
+  async downloadProfilePicture(
     basepath: string,
     callback: ProgressCallback
   ): Promise<string> {
     if (!this.profilePictureURL)
-      throw new Error("SIGAA: This teacher doesn't have profile picture");
-    return this.http.downloadFileByGet(
+      throw new SigaaParseError(
+        "SIGAA: This teacher doesn't have profile picture"
+      );
+    const { path } = await this.http.downloadFileByGet(
       this.profilePictureURL.href,
       basepath,
       callback
     );
+    return path;
   }
 
   get department(): string {
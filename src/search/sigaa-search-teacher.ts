@@ -5,6 +5,7 @@ import {
   TeacherResult,
   SigaaSearchTeacherResult
 } from './sigaa-search-teacher-result';
+import { SigaaParseError } from '../sigaa-errors';
 
 /**
  * @category Public
@@ -59,7 +60,10 @@ export class SigaaSearchTeacher {
     const formElement = page.$('form[name="form"]');
     const action = formElement.attr('action');
     if (!action)
-      throw new Error('SIGAA: Form with action at teacher search page.');
+      throw new SigaaParseError(
+        'SIGAA: Form with action at teacher search page.',
+        { url: page.url, selector: 'form[name="form"]' }
+      );
 
     const url = new URL(action, page.url);
 
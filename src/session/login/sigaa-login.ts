@@ -1,4 +1,18 @@
-import { Page } from '@session/sigaa-page';
+import { LoginStatus } from '../../sigaa-types';
+import { URL } from 'url';
+import { HTTP } from '../sigaa-http';
+import { Session } from '../sigaa-session';
+import { Page, SigaaForm } from '@session/sigaa-page';
+import {
+  InstitutionLoginProfile,
+  institutionRegistry
+} from '@session/sigaa-institution-registry';
+import {
+  SigaaError,
+  SigaaInvalidCredentialsError,
+  SigaaNetworkError,
+  SigaaParseError
+} from '../../sigaa-errors';
 
 /**
  * Abstraction representing class that logs in.
@@ -14,3 +28,138 @@ export interface Login {
    */
   login(username: string, password: string): Promise<Page>;
 }
+
+/**
+ * Responsible for logging in, the form and the markers are in the institution profile.
+ * @category Internal
+ */
+export class SigaaLogin implements Login {
+  constructor(protected http: HTTP, protected session: Session) {}
+
+  /**
+   * Message of the error thrown when the credentials are invalid.
+   * @deprecated Check if the error is an instance of SigaaInvalidCredentialsError.
+   */
+  readonly errorInvalidCredentials = 'SIGAA: Invalid credentials.';
+
+  /**
+   * Login profile of the session institution, it is read on each use because the institution can be detected later.
+   */
+  protected get profile(): InstitutionLoginProfile {
+    return institutionRegistry.getProfile(this.session.institution).login;
+  }
+
+  protected parseLoginForm(page: Page): SigaaForm {
+    const formElement = page.$(this.profile.formSelector);
+
+    const actionUrl = formElement.attr('action');
+    if (!actionUrl)
+      throw new SigaaParseError('SIGAA: No action form on login page.', {
+        url: page.url,
+        selector: this.profile.formSelector
+      });
+
+    const action = new URL(actionUrl, page.url.href);
+
+    const postValues: Record<string, string> = {};
+
+    formElement.find('input').each((index, element) => {
+      const name = page.$(element).attr('name');
+      if (name) postValues[name] = page.$(element).val();
+    });
+
+    return { action, postValues };
+  }
+
+  /**
+   * Current login form.
+   */
+  protected form?: SigaaForm;
+
+  /**
+   * Retuns HTML form
+   */
+  async getLoginForm(): Promise<SigaaForm> {
+    if (this.form) {
+      return this.form;
+    } else {
+      const page = await this.http.get(this.profile.path);
+      return this.parseLoginForm(page);
+    }
+  }
+
+  /**
+   * Start a session on desktop
+   * @param username
+   * @param password
+   */
+  protected async desktopLogin(
+    username: string,
+    password: string
+  ): Promise<Page> {
+    const { action, postValues } = await this.getLoginForm();
+
+    postValues[this.profile.usernameField] = username;
+    postValues[this.profile.passwordField] = password;
+    const page = await this.http.post(action.href, postValues);
+    return await this.parseDesktopLoginResult(page);
+  }
+
+  /**
+   * Start a session on Sigaa, return login reponse page
+   * @param username
+   * @param password
+   * @param reloadForm if the login fails, the login page is loaded again and the login is made once more, because the form can be stale.
+   */
+  async login(
+    username: string,
+    password: string,
+    reloadForm = true
+  ): Promise<Page> {
+    if (this.session.loginStatus === LoginStatus.Authenticated)
+      throw new SigaaError('SIGAA: This session already has a user logged in.');
+    try {
+      const page = await this.desktopLogin(username, password);
+      return this.http.followAllRedirect(page);
+    } catch (error) {
+      if (
+        !reloadForm ||
+        error instanceof SigaaInvalidCredentialsError ||
+        error instanceof SigaaNetworkError
+      ) {
+        throw error;
+      } else {
+        this.form = undefined;
+        return this.login(username, password, false);
+      }
+    }
+  }
+
+  protected async parseDesktopLoginResult(page: Page): Promise<Page> {
+    const accountPage = await this.http.followAllRedirect(page);
+    const { loginPageMarker, invalidCredentialsMarker, successMarkers } =
+      this.profile;
+    if (accountPage.bodyDecoded.includes(loginPageMarker)) {
+      if (accountPage.bodyDecoded.includes(invalidCredentialsMarker)) {
+        this.form = await this.parseLoginForm(accountPage);
+        throw new SigaaInvalidCredentialsError();
+      } else {
+        throw new SigaaParseError(
+          'SIGAA: Invalid response after login attempt.',
+          { url: page.url }
+        );
+      }
+    } else if (
+      successMarkers &&
+      !successMarkers.some((marker) => accountPage.bodyDecoded.includes(marker))
+    ) {
+      throw new SigaaParseError(
+        'SIGAA: Invalid response after login attempt.',
+        { url: accountPage.url }
+      );
+    } else {
+      this.session.loginStatus = LoginStatus.Authenticated;
+      return accountPage;
+    }
+  }
+}
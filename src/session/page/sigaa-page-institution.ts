@@ -0,0 +1,110 @@
+import {
+  CommonPage,
+  SigaaForm,
+  CommonSigaaPage,
+  SigaaPageConstructor
+} from '@session/sigaa-page';
+import { JSFCLJSStyle } from '@session/sigaa-institution-registry';
+import { URL } from 'url';
+import { SigaaParseError } from '../../sigaa-errors';
+
+/**
+ * @category Internal
+ */
+export interface InstitutionPage extends CommonPage {
+  /**
+   * Format of the JSFCLJS function used by parseJSFCLJS.
+   */
+  readonly jsfcljsStyle: JSFCLJSStyle;
+
+  /**
+   * Extracts the javascript function JSFCLJS from the page,
+   * this function on the page redirects the user to another
+   * page using the POST method, often this function is in
+   * the onclick attribute in some element.
+   * @param javaScriptCode
+   * @returns Object with URL action and POST values equivalent to function
+   */
+  parseJSFCLJS(javaScriptCode: string): SigaaForm;
+}
+
+/**
+ * Response page of sigaa, the JSFCLJS format is in the institution profile.
+ * @category Internal
+ */
+export class SigaaInstitutionPage extends CommonSigaaPage {
+  constructor(
+    options: SigaaPageConstructor,
+    readonly jsfcljsStyle: JSFCLJSStyle = 'legacy'
+  ) {
+    super(options);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  parseJSFCLJS(javaScriptCode: string): SigaaForm {
+    if (!javaScriptCode.includes('getElementById'))
+      throw new SigaaParseError('SIGAA: Form not found.', { url: this.url });
+
+    const formQuery = javaScriptCode.match(
+      /document\.getElementById\('(\w+)'\)/
+    );
+    if (!formQuery)
+      throw new SigaaParseError('SIGAA: Form without id.', { url: this.url });
+
+    const formEl = this.$(`#${formQuery[1]}`);
+    if (!formEl) {
+      throw new SigaaParseError('SIGAA: Form not found.', {
+        url: this.url,
+        selector: `#${formQuery[1]}`
+      });
+    }
+
+    const formAction = formEl.attr('action');
+    if (formAction === undefined)
+      throw new SigaaParseError('SIGAA: Form without action.', {
+        url: this.url,
+        selector: `#${formQuery[1]}`
+      });
+
+    const action = new URL(formAction, this.url);
+    const postValues: Record<string, string> = {};
+
+    formEl.find("input:not([type='submit'])").each((_, element) => {
+      const name = this.$(element).attr('name');
+      const value = this.$(element).val();
+      if (name !== undefined) {
+        postValues[name] = value;
+      }
+    });
+    return {
+      action,
+      postValues: {
+        ...postValues,
+        ...JSON.parse(this.parseJSFCLJSPostValues(javaScriptCode))
+      }
+    };
+  }
+
+  /**
+   * Returns the JSON with the post values of the JSFCLJS function.
+   * @param javaScriptCode
+   */
+  private parseJSFCLJSPostValues(javaScriptCode: string): string {
+    if (this.jsfcljsStyle === 'jsfcljs') {
+      const formPostValues = javaScriptCode.match(
+        /jsfcljs\s*\(\s*document\.getElementById\s*\(\s*'[^']+'\s*\)\s*,\s*({[^}]+})\s*,\s*'([^']*)'\s*\)/
+      );
+      if (!formPostValues)
+        throw new SigaaParseError('SIGAA: Form without post values.', {
+          url: this.url
+        });
+      return formPostValues[1].replace(/'/gm, '"');
+    }
+    return `{${javaScriptCode
+      .replace(/if([\S\s]*?),{|},([\S\s]*?)false/gm, '')
+      .replace(/"/gm, '\\"')
+      .replace(/'/gm, '"')}}`;
+  }
+}
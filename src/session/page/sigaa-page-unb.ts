@@ -1,78 +1,23 @@
+import { SigaaPageConstructor } from '@session/sigaa-page';
+import { institutionRegistry } from '@session/sigaa-institution-registry';
 import {
-  CommonPage,
-  SigaaForm,
-  CommonSigaaPage,
-  SigaaPageConstructor
-} from '@session/sigaa-page';
-import { URL } from 'url';
+  InstitutionPage,
+  SigaaInstitutionPage
+} from './sigaa-page-institution';
 
 /**
+ * @deprecated Use InstitutionPage.
  * @category Internal
  */
-export interface UNBPage extends CommonPage {
-  /**
-   * Extracts the javascript function JSFCLJS from the page,
-   * this function on the page redirects the user to another
-   * page using the POST method, often this function is in
-   * the onclick attribute in some element.
-   * @param javaScriptCode
-   * @returns Object with URL action and POST values equivalent to function
-   */
-  parseJSFCLJS(javaScriptCode: string): SigaaForm;
-}
+export type UNBPage = InstitutionPage;
 
 /**
- * Response page of sigaa.
+ * Response page of sigaa of UNB.
+ * @deprecated Use SigaaInstitutionPage, the JSFCLJS format of each institution is in institutionRegistry.
  * @category Internal
  */
-export class SigaaPageUNB extends CommonSigaaPage {
+export class SigaaPageUNB extends SigaaInstitutionPage {
   constructor(options: SigaaPageConstructor) {
-    super(options);
-  }
-
-  /**
-   * @inheritdoc
-   */
-  parseJSFCLJS(javaScriptCode: string): SigaaForm {
-    if (!javaScriptCode.includes('getElementById'))
-      throw new Error('SIGAA: Form not found.');
-
-    const formQuery = javaScriptCode.match(
-      /document\.getElementById\('(\w+)'\)/
-    );
-    if (!formQuery) throw new Error('SIGAA: Form without id.');
-
-    const formEl = this.$(`#${formQuery[1]}`);
-    if (!formEl) {
-      throw new Error('SIGAA: Form not found.');
-    }
-
-    const formAction = formEl.attr('action');
-    if (formAction === undefined)
-      throw new Error('SIGAA: Form without action.');
-
-    const action = new URL(formAction, this.url);
-    const postValues: Record<string, string> = {};
-
-    formEl.find("input:not([type='submit'])").each((_, element) => {
-      const name = this.$(element).attr('name');
-      const value = this.$(element).val();
-      if (name !== undefined) {
-        postValues[name] = value;
-      }
-    });
-
-    const formPostValues = javaScriptCode.match(
-      /jsfcljs\s*\(\s*document\.getElementById\s*\(\s*'[^']+'\s*\)\s*,\s*({[^}]+})\s*,\s*'([^']*)'\s*\)/
-    );
-    if (!formPostValues) throw new Error('SIGAA: Form without post values.');
-    const formPostValuesString = formPostValues[1].replace(/'/gm, '"');
-    return {
-      action,
-      postValues: {
-        ...postValues,
-        ...JSON.parse(formPostValuesString)
-      }
-    };
+    super(options, institutionRegistry.getProfile('UNB').jsfcljsStyle);
   }
 }
@@ -4,6 +4,18 @@
  */
 export interface BondController {
   currentBond: URL | null;
+
+  /**
+   * Switch urls of all bonds used in the session.
+   * If not implemented, the exported session has no bonds.
+   */
+  readonly bondSwitchUrls?: URL[];
+
+  /**
+   * Stores the switch url of the bond.
+   * @param bondSwitchUrl
+   */
+  addBondSwitchUrl?(bondSwitchUrl: URL): void;
 }
 
 /**
@@ -13,10 +25,24 @@ export interface BondController {
 export class SigaaBondController implements BondController {
   private _currentBond: URL | null = null;
 
+  private _bondSwitchUrls: URL[] = [];
+
   set currentBond(value: URL | null) {
     this._currentBond = value;
   }
   get currentBond(): URL | null {
     return this._currentBond;
   }
+
+  get bondSwitchUrls(): URL[] {
+    return this._bondSwitchUrls;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  addBondSwitchUrl(bondSwitchUrl: URL): void {
+    if (!this._bondSwitchUrls.some((url) => url.href === bondSwitchUrl.href))
+      this._bondSwitchUrls.push(bondSwitchUrl);
+  }
 }
@@ -22,6 +22,19 @@ export interface CookiesController {
    * flush all cookies
    */
   clearCookies(): void;
+
+  /**
+   * Returns the cookies that have not expired, to save the session.
+   * Only required by Sigaa.exportSession().
+   */
+  exportCookies?(): SerializedCookie[];
+
+  /**
+   * Store the cookies returned by exportCookies, expired cookies are ignored.
+   * Only required by the sessionState option of Sigaa.
+   * @param cookies
+   */
+  importCookies?(cookies: SerializedCookie[]): void;
 }
 
 interface Cookie {
@@ -33,6 +46,22 @@ interface Cookie {
   domainFlag?: string;
 }
 
+/**
+ * Cookie that can be saved with JSON.stringify.
+ * @category Internal
+ */
+export interface SerializedCookie {
+  name: string;
+  value: string;
+  path?: string;
+  /**
+   * ISO string of the expiry date, undefined if it is a session cookie.
+   */
+  expires?: string;
+  domain: string;
+  domainFlag?: string;
+}
+
 /**
  * Store cookies.
  * @category Internal
@@ -136,5 +165,36 @@ export class SigaaCookiesController implements CookiesController {
     this.cookies = [];
   }
 
+  /**
+   * @inheritdoc
+   */
+  exportCookies(): SerializedCookie[] {
+    const dateNow = Date.now();
+    return this.cookies
+      .filter(
+        (cookie) => !cookie.expires || cookie.expires.valueOf() >= dateNow
+      )
+      .map((cookie) => ({
+        ...cookie,
+        expires: cookie.expires ? cookie.expires.toISOString() : undefined
+      }));
+  }
+
+  /**
+   * @inheritdoc
+   */
+  importCookies(cookies: SerializedCookie[]): void {
+    const dateNow = Date.now();
+    const importedCookies: Cookie[] = cookies
+      .map((cookie) => ({
+        ...cookie,
+        expires: cookie.expires ? new Date(cookie.expires) : undefined
+      }))
+      .filter(
+        (cookie) => !cookie.expires || cookie.expires.valueOf() >= dateNow
+      );
+    this.cookies = [...importedCookies, ...this.cookies];
+  }
+
   private cookies: Cookie[] = [];
 }
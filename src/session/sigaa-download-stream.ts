@@ -0,0 +1,133 @@
+import * as fs from 'fs';
+import * as stream from 'stream';
+import { createHash, Hash } from 'crypto';
+import { SigaaError, SigaaNetworkError } from '../sigaa-errors';
+
+/**
+ * @category Public
+ */
+export interface DownloadResult {
+  /**
+   * Size of the file in bytes.
+   */
+  size: number;
+  /**
+   * SHA-256 of the file content, in hexadecimal.
+   */
+  sha256: string;
+}
+
+/**
+ * @category Public
+ */
+export interface FileDownloadResult extends DownloadResult {
+  /**
+   * Path where the file was saved.
+   */
+  path: string;
+}
+
+/**
+ * Readable stream of the file content, it emits an error if the size is different from the Content-Length.
+ * @category Public
+ */
+export interface DownloadStream extends NodeJS.ReadableStream {
+  /**
+   * File name in the Content-Disposition header.
+   */
+  readonly filename?: string;
+  /**
+   * Size in the Content-Length header, undefined if the server did not send it.
+   */
+  readonly expectedSize?: number;
+  /**
+   * Number of bytes read so far.
+   */
+  readonly size: number;
+  /**
+   * Returns the size and the SHA-256 of the file.
+   * @throws {SigaaError} If the stream has not ended yet.
+   */
+  getResult(): DownloadResult;
+}
+
+/**
+ * @category Internal
+ */
+export interface DownloadStreamOptions {
+  filename?: string;
+  expectedSize?: number;
+}
+
+/**
+ * Pass-through stream that computes the SHA-256 and validates the size of the download.
+ * @category Internal
+ */
+export class SigaaDownloadStream
+  extends stream.Transform
+  implements DownloadStream
+{
+  readonly filename?: string;
+  readonly expectedSize?: number;
+
+  private hash: Hash = createHash('sha256');
+  private _size = 0;
+  private sha256?: string;
+
+  constructor(options: DownloadStreamOptions = {}) {
+    super();
+    this.filename = options.filename;
+    this.expectedSize = options.expectedSize;
+  }
+
+  get size(): number {
+    return this._size;
+  }
+
+  /**
+   * Adds the content of a partial download to the hash and the size,
+   * it must be called before any data is written.
+   * @param filepath partial file
+   */
+  async hashPartialFile(filepath: string): Promise<void> {
+    for await (const chunk of fs.createReadStream(filepath)) {
+      this.hash.update(chunk);
+      this._size += chunk.length;
+    }
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getResult(): DownloadResult {
+    if (this.sha256 === undefined)
+      throw new SigaaError('SIGAA: The download has not ended yet.');
+    return { size: this._size, sha256: this.sha256 };
+  }
+
+  _transform(
+    chunk: Buffer | string,
+    encoding: BufferEncoding,
+    callback: stream.TransformCallback
+  ): void {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    this.hash.update(buffer);
+    this._size += buffer.length;
+    callback(null, buffer);
+  }
+
+  _flush(callback: stream.TransformCallback): void {
+    if (this.expectedSize !== undefined && this._size !== this.expectedSize) {
+      callback(
+        new SigaaNetworkError(
+          new Error(
+            `Download received ${this._size} bytes, but the Content-Length is ${this.expectedSize} bytes.`
+          )
+        )
+      );
+      return;
+    }
+    this.sha256 = this.hash.digest('hex');
+    callback();
+  }
+}
@@ -42,6 +42,7 @@ export class SigaaHTTPFactory implements HTTPFactory {
    * @inheritdoc
    */
   createHttpWithBond(bondSwitchUrl: URL): HTTP {
+    this.bondController.addBondSwitchUrl?.(bondSwitchUrl);
     return new SigaaHTTPWithBond(
       new SigaaHTTP(this.httpSession),
       this.bondController,
@@ -0,0 +1,372 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse } from 'querystring';
+import { Readable } from 'stream';
+import { URL } from 'url';
+import { IncomingHttpHeaders } from 'http';
+import { HTTPMethod } from '../sigaa-types';
+import { Request, SigaaHTTPSession } from './sigaa-http-session';
+import { HTTPRequestOptions, HTTPResponse } from './sigaa-http';
+import { InstitutionController } from './sigaa-institution-controller';
+import { Page, SigaaPage } from './sigaa-page';
+import { PageCache } from './sigaa-page-cache';
+import { CookiesController } from './sigaa-cookies-controller';
+import { RequestStackController } from '@helpers/sigaa-request-stack';
+import { RetryPolicy } from './sigaa-retry-policy';
+import { SigaaInstitutionPage } from './page/sigaa-page-institution';
+import { SigaaError } from '../sigaa-errors';
+
+/**
+ * Request and response pair saved by the recorder, the sensitive values are redacted.
+ * @category Public
+ */
+export interface HTTPFixture {
+  /**
+   * Order of the request in the recording, the first is 0.
+   */
+  sequence: number;
+  method: HTTPMethod;
+  url: string;
+  requestHeaders: Record<string, string>;
+  /**
+   * Post values of the request, null if it has no body or the body is not url encoded.
+   */
+  postValues: Record<string, string | string[]> | null;
+  statusCode: number;
+  headers: Record<string, string | string[] | undefined>;
+  /**
+   * Body decoded with the charset of the response, the body of the downloads is in base64.
+   */
+  body: string;
+  /**
+   * If the request is a file download.
+   */
+  download?: boolean;
+}
+
+/**
+ * @category Public
+ */
+export interface HTTPFixturesOptions {
+  /**
+   * Directory of the fixtures, one JSON file for each request.
+   */
+  directory: string;
+  /**
+   * Post values with a name that matches are redacted. Default matches the passwords and the login.
+   */
+  sensitiveFields?: RegExp;
+}
+
+const redactedValue = '[REDACTED]';
+
+const defaultSensitiveFields = /senha|password|passwd|^(user\.)?login$/i;
+
+/**
+ * Post values of the request body, null if the body is not url encoded.
+ */
+function parsePostValues(
+  httpOptions: HTTPRequestOptions,
+  body: string | Buffer | undefined,
+  sensitiveFields: RegExp
+): Record<string, string | string[]> | null {
+  if (
+    typeof body !== 'string' ||
+    httpOptions.headers['Content-Type'] !== 'application/x-www-form-urlencoded'
+  )
+    return null;
+  const postValues: Record<string, string | string[]> = {};
+  const parsedValues = parse(body);
+  for (const name of Object.keys(parsedValues)) {
+    const value = parsedValues[name];
+    if (value === undefined) continue;
+    postValues[name] = sensitiveFields.test(name) ? redactedValue : value;
+  }
+  return postValues;
+}
+
+/**
+ * Reads the whole body of the response.
+ */
+async function readBody(bodyStream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of bodyStream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Key used to find the fixture of the request.
+ * The javax.faces.ViewState changes in each session, so it is ignored.
+ */
+function getFixtureKey(
+  method: HTTPMethod,
+  url: string,
+  postValues: Record<string, string | string[]> | null
+): string {
+  let normalizedValues: [string, string | string[]][] | null = null;
+  if (postValues) {
+    normalizedValues = Object.keys(postValues)
+      .filter((name) => name !== 'javax.faces.ViewState')
+      .sort()
+      .map((name) => [name, postValues[name]]);
+  }
+  return JSON.stringify([method, url, normalizedValues]);
+}
+
+/**
+ * Http session that saves each request and response pair in the fixtures directory.
+ * The cookies and the sensitive post values are redacted.
+ * The downloads are also saved, so the file is held in memory until it is recorded.
+ * @category Public
+ */
+export class SigaaRecorderHTTPSession extends SigaaHTTPSession {
+  private sequence = 0;
+  private sensitiveFields: RegExp;
+
+  /**
+   * Pages already saved, the pages returned by the cache are not saved again.
+   */
+  private recordedPages = new WeakSet<Page>();
+
+  constructor(
+    private fixturesOptions: HTTPFixturesOptions,
+    institutionController: InstitutionController,
+    cookiesController: CookiesController,
+    pageCache: PageCache,
+    requestStack: RequestStackController<Request, Page>,
+    retryPolicy?: RetryPolicy
+  ) {
+    super(
+      institutionController,
+      cookiesController,
+      pageCache,
+      requestStack,
+      retryPolicy
+    );
+    this.sensitiveFields =
+      fixturesOptions.sensitiveFields || defaultSensitiveFields;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async afterSuccessfulRequest(page: SigaaPage): Promise<Page> {
+    if (!this.recordedPages.has(page)) {
+      this.recordedPages.add(page);
+      await this.saveFixture(page.url, page.requestOptions, page.requestBody, {
+        statusCode: page.statusCode,
+        headers: page.headers,
+        body: page.body
+      });
+    }
+    return super.afterSuccessfulRequest(page);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async requestDownload(
+    url: URL,
+    httpOptions: HTTPRequestOptions,
+    body: string | undefined,
+    request: () => Promise<HTTPResponse>
+  ): Promise<HTTPResponse> {
+    const response = await super.requestDownload(
+      url,
+      httpOptions,
+      body,
+      request
+    );
+    const responseBody = await readBody(response.bodyStream);
+    await this.saveFixture(url, httpOptions, body, {
+      statusCode: response.statusCode,
+      headers: response.headers,
+      body: responseBody.toString('base64'),
+      download: true
+    });
+    return { ...response, bodyStream: Readable.from([responseBody]) };
+  }
+
+  private redactSetCookie(
+    setCookie: string | string[] | undefined
+  ): string | string[] | undefined {
+    if (setCookie === undefined) return undefined;
+    const cookies = typeof setCookie === 'string' ? [setCookie] : setCookie;
+    // Keeps the name and the attributes, only the value is redacted
+    return cookies.map((cookie) =>
+      cookie.replace(/^([^=;]+)=[^;]*/, `$1=${redactedValue}`)
+    );
+  }
+
+  private async saveFixture(
+    url: URL,
+    httpOptions: HTTPRequestOptions,
+    requestBody: string | Buffer | undefined,
+    response: Pick<HTTPFixture, 'statusCode' | 'headers' | 'body' | 'download'>
+  ): Promise<void> {
+    const sequence = this.sequence++;
+    const requestHeaders = { ...httpOptions.headers };
+    if (requestHeaders.Cookie) requestHeaders.Cookie = redactedValue;
+    const headers: Record<string, string | string[] | undefined> = {
+      ...response.headers
+    };
+    if (headers['set-cookie'])
+      headers['set-cookie'] = this.redactSetCookie(headers['set-cookie']);
+    const fixture: HTTPFixture = {
+      ...response,
+      sequence,
+      method: httpOptions.method,
+      url: url.href,
+      requestHeaders,
+      postValues: parsePostValues(
+        httpOptions,
+        requestBody,
+        this.sensitiveFields
+      ),
+      headers
+    };
+    const fileName = `${sequence.toString().padStart(5, '0')}-${
+      fixture.method
+    }-${url.pathname.replace(/[^\w.-]+/g, '_')}.json`;
+    await fs.promises.mkdir(this.fixturesOptions.directory, {
+      recursive: true
+    });
+    await fs.promises.writeFile(
+      path.join(this.fixturesOptions.directory, fileName),
+      JSON.stringify(fixture, null, 2)
+    );
+  }
+}
+
+/**
+ * Http session that serves the fixtures saved by SigaaRecorderHTTPSession, without network access.
+ * Requests are matched by method, url and post values, ignoring the javax.faces.ViewState.
+ * If the same request was recorded more than once, the responses are served in the recorded order
+ * and the last one is repeated.
+ * @category Public
+ */
+export class SigaaReplayHTTPSession extends SigaaHTTPSession {
+  private sensitiveFields: RegExp;
+
+  /**
+   * Fixtures indexed by the key, in the recorded order.
+   */
+  private fixtures?: Record<string, HTTPFixture[]>;
+
+  /**
+   * Number of times each key was served.
+   */
+  private servedCount: Record<string, number> = {};
+
+  constructor(
+    private fixturesOptions: HTTPFixturesOptions,
+    institutionController: InstitutionController,
+    cookiesController: CookiesController,
+    pageCache: PageCache,
+    requestStack: RequestStackController<Request, Page>,
+    retryPolicy?: RetryPolicy
+  ) {
+    super(
+      institutionController,
+      cookiesController,
+      pageCache,
+      requestStack,
+      retryPolicy
+    );
+    this.sensitiveFields =
+      fixturesOptions.sensitiveFields || defaultSensitiveFields;
+  }
+
+  private async loadFixtures(): Promise<Record<string, HTTPFixture[]>> {
+    const fileNames = await fs.promises.readdir(this.fixturesOptions.directory);
+    const fixtures: HTTPFixture[] = [];
+    for (const fileName of fileNames) {
+      if (!fileName.endsWith('.json')) continue;
+      fixtures.push(
+        JSON.parse(
+          await fs.promises.readFile(
+            path.join(this.fixturesOptions.directory, fileName),
+            'utf8'
+          )
+        )
+      );
+    }
+    const fixturesByKey: Record<string, HTTPFixture[]> = {};
+    for (const fixture of fixtures.sort((a, b) => a.sequence - b.sequence)) {
+      const key = getFixtureKey(
+        fixture.method,
+        fixture.url,
+        fixture.postValues
+      );
+      if (!fixturesByKey[key]) fixturesByKey[key] = [];
+      fixturesByKey[key].push(fixture);
+    }
+    return fixturesByKey;
+  }
+
+  /**
+   * Returns the next fixture of the request.
+   * @throws {SigaaError} If there is no fixture for the request.
+   */
+  private async getFixture(
+    url: URL,
+    httpOptions: HTTPRequestOptions,
+    requestBody?: string | Buffer
+  ): Promise<HTTPFixture> {
+    if (!this.fixtures) this.fixtures = await this.loadFixtures();
+    const key = getFixtureKey(
+      httpOptions.method,
+      url.href,
+      parsePostValues(httpOptions, requestBody, this.sensitiveFields)
+    );
+    const fixtures = this.fixtures[key];
+    if (!fixtures)
+      throw new SigaaError(
+        `SIGAA: No fixture for the request ${httpOptions.method} ${url.href}.`
+      );
+    const servedCount = this.servedCount[key] || 0;
+    this.servedCount[key] = servedCount + 1;
+    return fixtures[Math.min(servedCount, fixtures.length - 1)];
+  }
+
+  /**
+   * Returns the page of the fixture, no request is made.
+   * @throws {SigaaError} If there is no fixture for the request.
+   */
+  async beforeRequest(
+    url: URL,
+    httpOptions: HTTPRequestOptions,
+    requestBody?: string | Buffer
+  ): Promise<Page> {
+    const fixture = await this.getFixture(url, httpOptions, requestBody);
+    return new SigaaInstitutionPage(
+      {
+        requestOptions: httpOptions,
+        requestBody,
+        url,
+        headers: fixture.headers,
+        statusCode: fixture.statusCode,
+        body: fixture.body
+      },
+      this.institutionController.jsfcljsStyle
+    );
+  }
+  /**
+   * Returns the response of the download fixture, no request is made.
+   * @throws {SigaaError} If there is no fixture for the request.
+   */
+  async requestDownload(
+    url: URL,
+    httpOptions: HTTPRequestOptions,
+    body: string | undefined
+  ): Promise<HTTPResponse> {
+    const fixture = await this.getFixture(url, httpOptions, body);
+    return {
+      bodyStream: Readable.from([
+        Buffer.from(fixture.body, fixture.download ? 'base64' : 'utf8')
+      ]),
+      headers: fixture.headers as IncomingHttpHeaders,
+      statusCode: fixture.statusCode
+    };
+  }
+}
@@ -3,6 +3,7 @@ import { RequestStacks } from '@helpers/sigaa-request-stack';
 import { URL } from 'url';
 import {
   HTTPRequestOptions,
+  HTTPResponse,
   ProgressCallback,
   SigaaRequestOptions
 } from './sigaa-http';
@@ -10,7 +11,26 @@ import { Page, SigaaPage } from './sigaa-page';
 import { PageCache } from './sigaa-page-cache';
 import { CookiesController } from './sigaa-cookies-controller';
 import { RequestStackController } from '../helpers/sigaa-request-stack';
+import {
+  getCurrentRequestPriority,
+  getRequestPriorityValue
+} from '@helpers/sigaa-request-priority';
 import { InstitutionController } from './sigaa-institution-controller';
+import {
+  InstitutionLoginProfile,
+  institutionRegistry
+} from './sigaa-institution-registry';
+import { Reauthenticator } from './sigaa-reauthenticator';
+import {
+  RetryPolicy,
+  SigaaRetryableStatusError,
+  SigaaRetryPolicy
+} from './sigaa-retry-policy';
+import {
+  SigaaError,
+  SigaaSessionExpiredError,
+  SigaaPermissionError
+} from '../sigaa-errors';
 
 /**
  * Manage a http session
@@ -41,6 +61,27 @@ export interface HTTPSession {
     callback?: ProgressCallback
   ): Promise<string>;
 
+  /**
+   * Waits for a slot of the request limits to download a file, the slot is held until the download ends.
+   * @returns Function that releases the slot.
+   */
+  acquireDownloadSlot(): Promise<() => void>;
+
+  /**
+   * Makes the request of the download, each range request of a resumed download is a new call.
+   * The failed attempts are made again according to the retry policy.
+   * @param url
+   * @param httpOptions
+   * @param body
+   * @param request makes the HTTP request
+   */
+  requestDownload(
+    url: URL,
+    httpOptions: HTTPRequestOptions,
+    body: string | undefined,
+    request: () => Promise<HTTPResponse>
+  ): Promise<HTTPResponse>;
+
   /**
    * it is called after a sigaa response, only if successful. Should return a page or throw an error.
    * @param page Sigaa page
@@ -55,11 +96,13 @@ export interface HTTPSession {
    * It is called after a error in request. You must return a page or throw an error.
    * @param page Sigaa page
    * @param options Request Options
+   * @param failedRequest used to make the request again
    */
   afterUnsuccessfulRequest(
     err: Error,
     httpOptions: HTTPRequestOptions,
-    body?: string | Buffer
+    body?: string | Buffer,
+    failedRequest?: FailedRequest
   ): Promise<Page>;
 
   /**
@@ -114,6 +157,26 @@ export interface Request {
   body?: string | Buffer;
 }
 
+/**
+ * Request that failed, it can be made again.
+ * @category Internal
+ */
+export interface FailedRequest {
+  /**
+   * Number of the attempt that failed, the first is 1.
+   */
+  attempt: number;
+  /**
+   * If the request was already made again after a login.
+   */
+  reauthenticated: boolean;
+  /**
+   * Makes the request again with the current cookies.
+   * @param reauthenticated if the session logged in again after the failed attempt
+   */
+  replay(reauthenticated: boolean): Promise<Page>;
+}
+
 /**
  * Interface to join beforeRequest and afterRequest
  * @category Internal
@@ -135,9 +198,25 @@ export class SigaaHTTPSession implements HTTPSession {
     public institutionController: InstitutionController,
     private cookiesController: CookiesController,
     private pageCache: PageCache,
-    private requestStack: RequestStackController<Request, Page>
+    private requestStack: RequestStackController<Request, Page>,
+    private retryPolicy: RetryPolicy = new SigaaRetryPolicy()
   ) {}
 
+  /**
+   * If defined, the session logs in again when it expires and the failed request is replayed.
+   */
+  reauthenticator?: Reauthenticator;
+
+  /**
+   * Login profiles of the institution, or of all registered institutions if it was not detected yet.
+   * An authenticated request redirected to the login page means the session expired.
+   */
+  private get loginProfiles(): InstitutionLoginProfile[] {
+    if (this.institutionController.hasInstitution)
+      return [this.institutionController.profile.login];
+    return institutionRegistry.getProfiles().map((profile) => profile.login);
+  }
+
   /**
    * @inheritdoc
    */
@@ -157,6 +236,68 @@ export class SigaaHTTPSession implements HTTPSession {
     return null;
   }
 
+  /**
+   * @inheritdoc
+   */
+  acquireDownloadSlot(): Promise<() => void> {
+    return this.requestStack
+      .getLimiterByDomain(this.institutionController.url.href)
+      .acquire(getCurrentRequestPriority());
+  }
+
+  /**
+   * @inheritdoc
+   */
+  requestDownload(
+    url: URL,
+    httpOptions: HTTPRequestOptions,
+    body: string | undefined,
+    request: () => Promise<HTTPResponse>
+  ): Promise<HTTPResponse> {
+    return this.requestDownloadAttempt(url, httpOptions, request, 1);
+  }
+
+  private async requestDownloadAttempt(
+    url: URL,
+    httpOptions: HTTPRequestOptions,
+    request: () => Promise<HTTPResponse>,
+    attempt: number
+  ): Promise<HTTPResponse> {
+    let error: Error;
+    try {
+      const response = await request();
+      if (
+        attempt >= this.retryPolicy.maxAttempts ||
+        !this.retryPolicy.isRetryableStatus(
+          response.statusCode,
+          httpOptions.method
+        )
+      )
+        return response;
+      response.bodyStream.resume();
+      error = new SigaaError(
+        `SIGAA: Unexpected status code ${response.statusCode}.`
+      );
+    } catch (err) {
+      if (
+        attempt >= this.retryPolicy.maxAttempts ||
+        !this.retryPolicy.isRetryableError(err, httpOptions.method)
+      )
+        throw err;
+      error = err;
+    }
+    const delay = this.retryPolicy.getDelay(attempt);
+    this.retryPolicy.onRetry({
+      attempt,
+      delay,
+      error,
+      method: httpOptions.method,
+      url: url.href
+    });
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    return this.requestDownloadAttempt(url, httpOptions, request, attempt + 1);
+  }
+
   get requestStacks(): RequestStacks<Request, Page> {
     return this.requestStack.getStacksByDomain(
       this.institutionController.url.href
@@ -178,7 +319,8 @@ export class SigaaHTTPSession implements HTTPSession {
   async afterUnsuccessfulRequest(
     err: Error,
     httpOptions: HTTPRequestOptions,
-    body?: string | Buffer
+    body?: string | Buffer,
+    failedRequest?: FailedRequest
   ): Promise<Page> {
     const requestPromise = this.findAndRemovePromiseRequest({
       httpOptions,
@@ -187,9 +329,107 @@ export class SigaaHTTPSession implements HTTPSession {
     if (requestPromise) {
       requestPromise.reject(err);
     }
+    if (!failedRequest) throw err;
+    // The request stack is released above, so the login requests and the retries are not blocked
+    if (
+      this.reauthenticator &&
+      !failedRequest.reauthenticated &&
+      err instanceof SigaaSessionExpiredError
+    ) {
+      if (this.reauthentication) {
+        await this.reauthentication;
+      } else {
+        const url = this.getRequestURL(httpOptions);
+        const currentCookie = this.cookiesController.getCookieHeader(
+          url.hostname,
+          url.pathname
+        );
+        // If the cookies changed, other request already logged in again
+        if ((currentCookie ?? undefined) === httpOptions.headers.Cookie) {
+          if (!this.reauthenticator.isAuthenticated) throw err;
+          await this.reauthenticate(this.reauthenticator);
+        }
+      }
+      return failedRequest.replay(true);
+    }
+    if (
+      err instanceof Error &&
+      this.retryPolicy.isRetryableError(err, httpOptions.method)
+    ) {
+      if (failedRequest.attempt >= this.retryPolicy.maxAttempts) {
+        if (err instanceof SigaaRetryableStatusError) return err.page;
+        throw err;
+      }
+      const delay = this.retryPolicy.getDelay(failedRequest.attempt);
+      this.retryPolicy.onRetry({
+        attempt: failedRequest.attempt,
+        delay,
+        error: err,
+        method: httpOptions.method,
+        url: this.getRequestURL(httpOptions).href
+      });
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return failedRequest.replay(false);
+    }
     throw err;
   }
 
+  private getRequestURL(httpOptions: HTTPRequestOptions): URL {
+    return new URL(httpOptions.path || '/', `https://${httpOptions.hostname}`);
+  }
+
+  /**
+   * Login that is running, the expired requests wait it before the replay.
+   */
+  private reauthentication?: Promise<void>;
+
+  /**
+   * Clears the expired session and logs in again, concurrent calls share the same login.
+   */
+  private reauthenticate(reauthenticator: Reauthenticator): Promise<void> {
+    if (!this.reauthentication) {
+      this.cookiesController.clearCookies();
+      this.pageCache.clearCachePage();
+      this.reauthentication = reauthenticator.reauthenticate().finally(() => {
+        this.reauthentication = undefined;
+      });
+    }
+    return this.reauthentication;
+  }
+
+  /**
+   * Verifies if the page of an authenticated request is the login page or the session expired page.
+   * Only used with reauthenticator, the requests of logoff and public pages are ignored.
+   */
+  private isSessionExpiredPage(page: Page): boolean {
+    if (!this.reauthenticator?.isAuthenticated) return false;
+    if (!page.requestHeaders.Cookie) return false;
+    const loginProfiles = this.loginProfiles;
+    const loginPagePaths = loginProfiles.map((login) => login.path);
+    const path = page.url.pathname;
+    if (
+      loginPagePaths.includes(path) ||
+      path.startsWith('/sigaa/public/') ||
+      /logoff/i.test(path + page.url.search)
+    )
+      return false;
+    if (page.statusCode === 302) {
+      const location = page.headers.location;
+      if (typeof location !== 'string') return false;
+      const locationPath = new URL(location, page.url.href).pathname;
+      return (
+        loginPagePaths.includes(locationPath) ||
+        locationPath === '/sigaa/expirada.jsp'
+      );
+    }
+    if (page.statusCode === 200) {
+      return loginProfiles.some((login) =>
+        page.bodyDecoded.includes(login.loginPageMarker)
+      );
+    }
+    return false;
+  }
+
   /**
    * @inheritdoc
    */
@@ -211,6 +451,18 @@ export class SigaaHTTPSession implements HTTPSession {
    * @inheritdoc
    */
   async afterSuccessfulRequest(page: SigaaPage): Promise<Page> {
+    if (this.isSessionExpiredPage(page)) throw new SigaaSessionExpiredError();
+    if (page.statusCode === 403)
+      throw new SigaaPermissionError(
+        `SIGAA: Access denied to ${page.url.href}.`
+      );
+    if (
+      this.retryPolicy.isRetryableStatus(
+        page.statusCode,
+        page.requestOptions.method
+      )
+    )
+      throw new SigaaRetryableStatusError(page);
     const requestPromise = this.findAndRemovePromiseRequest({
       body: page.requestBody,
       httpOptions: page.requestOptions
@@ -229,7 +481,7 @@ export class SigaaHTTPSession implements HTTPSession {
         page.requestBody === undefined ||
         typeof page.requestBody === 'string'
       )
-        this.pageCache.storePage(page);
+        await this.pageCache.storePage(page);
     }
 
     if (requestPromise) {
@@ -266,7 +518,7 @@ export class SigaaHTTPSession implements HTTPSession {
     options?: SigaaRequestOptions
   ): Promise<Page | null> {
     if (!options?.noCache) {
-      const page = this.pageCache.getPage(httpOptions, requestBody);
+      const page = await this.pageCache.getPage(httpOptions, requestBody);
       if (page) return page;
     }
 
@@ -293,13 +545,34 @@ export class SigaaHTTPSession implements HTTPSession {
         return runningRequest.promise;
       }
     }
-    await new Promise<void>((awaitResolve) => {
-      stack.addPromise(request, () => {
-        awaitResolve();
-        return new Promise<Page>((resolve, reject) => {
-          this.requestPromises.push({ request, resolve, reject });
-        });
-      });
+    const priority = options?.priority || getCurrentRequestPriority();
+    const limiter = this.requestStack.getLimiterByDomain(
+      this.institutionController.url.href
+    );
+    await new Promise<void>((awaitResolve, awaitReject) => {
+      stack
+        .addPromise(
+          request,
+          async () => {
+            // The limiter rejects the waiting requests when it is closed
+            const release = await limiter.acquire(priority).catch((err) => {
+              awaitReject(err);
+              throw err;
+            });
+            awaitResolve();
+            try {
+              return await new Promise<Page>((resolve, reject) => {
+                this.requestPromises.push({ request, resolve, reject });
+              });
+            } finally {
+              // The slot is released when the request ends
+              release();
+            }
+          },
+          getRequestPriorityValue(priority)
+        )
+        // The error is thrown to the caller of the request, not here
+        .catch(() => null);
     });
 
     return null;
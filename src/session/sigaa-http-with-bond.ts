@@ -4,6 +4,8 @@ import { Page } from './sigaa-page';
 import { HTTP, ProgressCallback, SigaaRequestOptions } from './sigaa-http';
 import { BondController } from './sigaa-bond-controller';
 import { PageCacheWithBond } from './sigaa-page-cache-with-bond';
+import { DownloadStream, FileDownloadResult } from './sigaa-download-stream';
+import { SigaaError } from '../sigaa-errors';
 
 /**
  * Implements sigaa bond in HTTP request class.
@@ -27,7 +29,12 @@ export class SigaaHTTPWithBond implements HTTP {
    * Otherwise, switch bond
    */
   private async verifyIfBondIsCorrect(): Promise<void> {
-    if (this.bondSwitchUrl !== this.bondController.currentBond) {
+    // Compares the href because the current bond can be restored from a saved session
+    const currentBond = this.bondController.currentBond;
+    if (
+      (this.bondSwitchUrl && this.bondSwitchUrl.href) !==
+      (currentBond && currentBond.href)
+    ) {
       return this.switchBond();
     }
   }
@@ -44,7 +51,7 @@ export class SigaaHTTPWithBond implements HTTP {
         noCache: true
       });
       if (finalPage.statusCode !== 200)
-        throw new Error('SIGAA: Could not switch bond.');
+        throw new SigaaError('SIGAA: Could not switch bond.');
       this.bondController.currentBond = this.bondSwitchUrl;
       this.pageCacheWithBond.setCurrentBond(this.bondSwitchUrl);
     }
@@ -67,7 +74,7 @@ export class SigaaHTTPWithBond implements HTTP {
    */
   async post(
     path: string,
-    postValues: Record<string, string>,
+    postValues: Record<string, string | string[]>,
     options?: SigaaRequestOptions
   ): Promise<Page> {
     await this.verifyIfBondIsCorrect();
@@ -86,7 +93,7 @@ export class SigaaHTTPWithBond implements HTTP {
     urlPath: string,
     basepath: string,
     callback?: ProgressCallback
-  ): Promise<string> {
+  ): Promise<FileDownloadResult> {
     await this.verifyIfBondIsCorrect();
     return this.http.downloadFileByGet(urlPath, basepath, callback);
   }
@@ -99,7 +106,7 @@ export class SigaaHTTPWithBond implements HTTP {
     postValues: Record<string, string>,
     basepath: string,
     callback?: ProgressCallback
-  ): Promise<string> {
+  ): Promise<FileDownloadResult> {
     await this.verifyIfBondIsCorrect();
     return this.http.downloadFileByPost(
       urlPath,
@@ -109,6 +116,25 @@ export class SigaaHTTPWithBond implements HTTP {
     );
   }
 
+  /**
+   * @inheritdoc
+   */
+  async openFileByGet(urlPath: string): Promise<DownloadStream> {
+    await this.verifyIfBondIsCorrect();
+    return this.http.openFileByGet(urlPath);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async openFileByPost(
+    urlPath: string,
+    postValues: Record<string, string>
+  ): Promise<DownloadStream> {
+    await this.verifyIfBondIsCorrect();
+    return this.http.openFileByPost(urlPath, postValues);
+  }
+
   /**
    * @inheritdoc
    */
@@ -9,13 +9,20 @@ import { request as HTTPRequest, RequestOptions } from 'https';
 import { createBrotliDecompress, createGunzip, createInflate } from 'zlib';
 import { stringify } from 'querystring';
 import { HTTPMethod } from '../sigaa-types';
+import { RequestPriority } from '@helpers/sigaa-request-priority';
 import { HTTPSession } from './sigaa-http-session';
 import { Page } from './sigaa-page';
-import { SigaaPageInstitutionMap } from './sigaa-institution-controller';
-import { SigaaPageIFSC } from './page/sigaa-page-ifsc';
-import { SigaaPageUFPB } from './page/sigaa-page-ufpb';
-import { SigaaPageUNB } from './page/sigaa-page-unb';
-import { SigaaPageUNILAB } from './page/sigaa-page-unilab';
+import { SigaaInstitutionPage } from './page/sigaa-page-institution';
+import {
+  DownloadStream,
+  FileDownloadResult,
+  SigaaDownloadStream
+} from './sigaa-download-stream';
+import {
+  SigaaError,
+  SigaaParseError,
+  SigaaNetworkError
+} from '../sigaa-errors';
 
 /**
  * @category Public
@@ -32,6 +39,10 @@ export interface SigaaRequestOptions {
   mobile?: boolean;
   noCache?: boolean;
   shareSameRequest?: boolean;
+  /**
+   * Default is the priority of runWithRequestPriority, or normal.
+   */
+  priority?: RequestPriority;
 }
 
 /**
@@ -52,6 +63,30 @@ export interface HTTPResponse {
   statusCode: number;
 }
 
+/**
+ * Saved in the .part.json file next to the .part file of a download.
+ */
+interface PartialDownloadInfo {
+  /**
+   * ETag or Last-Modified of the file, sent in the If-Range header.
+   */
+  validator: string;
+  /**
+   * Size of the whole file, undefined if it is unknown.
+   */
+  totalSize?: number;
+}
+
+/**
+ * .part file of an interrupted download.
+ */
+interface PartialDownload extends PartialDownloadInfo {
+  /**
+   * Number of bytes already saved.
+   */
+  size: number;
+}
+
 /**
  * @category Internal
  * @instance
@@ -71,14 +106,14 @@ export interface HTTP {
   /**
    * Make a POST request
    * @param path The path of request or full URL
-   * @param postValues Post values in format, key as field name, and value as field value.
+   * @param postValues Post values in format, key as field name, and value as field value, an array sends the field once for each value, like a checkbox group.
    * @param [options]
    * @param [options.mobile] Use mobile User-Agent
    * @param [options.noCache] If can retrieve from cache
    */
   post(
     path: string,
-    postValues: Record<string, string>,
+    postValues: Record<string, string | string[]>,
     options?: SigaaRequestOptions
   ): Promise<Page>;
 
@@ -92,7 +127,8 @@ export interface HTTP {
   get(path: string, options?: SigaaRequestOptions): Promise<Page>;
 
   /**
-   * Download a file
+   * Download a file, it is saved in a .part file that is renamed when the download ends.
+   * If the .part file of an interrupted download exists, the download resumes from it when the server supports it.
    * @param urlPath file url
    * @param destpath path to save file
    * @param callback callback to view download progress
@@ -101,10 +137,11 @@ export interface HTTP {
     urlPath: string,
     destpath: string,
     callback?: ProgressCallback
-  ): Promise<string>;
+  ): Promise<FileDownloadResult>;
 
   /**
-   * Download a file
+   * Download a file, it is saved in a .part file that is renamed when the download ends.
+   * If the .part file of an interrupted download exists, the download resumes from it when the server supports it.
    * @param urlPath file url
    * @param basepath path to save file
    * @param callback callback to view download progress
@@ -114,7 +151,22 @@ export interface HTTP {
     postValues: Record<string, string>,
     basepath: string,
     callback?: ProgressCallback
-  ): Promise<string>;
+  ): Promise<FileDownloadResult>;
+
+  /**
+   * Opens a file as a readable stream, without saving it.
+   * @param urlPath file url
+   */
+  openFileByGet(urlPath: string): Promise<DownloadStream>;
+
+  /**
+   * Opens a file as a readable stream, without saving it.
+   * @param urlPath file url
+   */
+  openFileByPost(
+    urlPath: string,
+    postValues: Record<string, string>
+  ): Promise<DownloadStream>;
 
   /**
    * Follow the redirect while the page response redirects to another page
@@ -145,7 +197,7 @@ export class SigaaHTTP implements HTTP {
     urlPath: string,
     basepath: string,
     callback?: ProgressCallback
-  ): Promise<string> {
+  ): Promise<FileDownloadResult> {
     const url = this.httpSession.getURL(urlPath);
     const httpOptions = this.getRequestBasicOptions('GET', url);
     return this.downloadFile(url, basepath, httpOptions, undefined, callback);
@@ -159,12 +211,33 @@ export class SigaaHTTP implements HTTP {
     postValues: Record<string, string>,
     basepath: string,
     callback?: ProgressCallback
-  ): Promise<string> {
+  ): Promise<FileDownloadResult> {
     const url = this.httpSession.getURL(urlPath);
     const { httpOptions, body } = this.encodePostValue(url, postValues);
     return this.downloadFile(url, basepath, httpOptions, body, callback);
   }
 
+  /**
+   * @inheritdoc
+   */
+  openFileByGet(urlPath: string): Promise<DownloadStream> {
+    const url = this.httpSession.getURL(urlPath);
+    const httpOptions = this.getRequestBasicOptions('GET', url);
+    return this.openFile(url, httpOptions);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  openFileByPost(
+    urlPath: string,
+    postValues: Record<string, string>
+  ): Promise<DownloadStream> {
+    const url = this.httpSession.getURL(urlPath);
+    const { httpOptions, body } = this.encodePostValue(url, postValues);
+    return this.openFile(url, httpOptions, body);
+  }
+
   /**
    * @inheritdoc
    */
@@ -174,7 +247,7 @@ export class SigaaHTTP implements HTTP {
     httpOptions: HTTPRequestOptions,
     body?: string,
     callback?: ProgressCallback
-  ): Promise<string> {
+  ): Promise<FileDownloadResult> {
     const sessionHttpOptions = await this.httpSession.afterHTTPOptions(
       url,
       httpOptions
@@ -182,7 +255,7 @@ export class SigaaHTTP implements HTTP {
 
     const fileStats = await fs.promises.lstat(basepath);
     if (!(fileStats.isDirectory() || fileStats.isFile())) {
-      throw new Error('SIGAA: Download basepath not exists.');
+      throw new SigaaError('SIGAA: Download basepath not exists.');
     }
 
     const suspendRequest = await this.httpSession.beforeDownloadRequest(
@@ -192,67 +265,359 @@ export class SigaaHTTP implements HTTP {
       body,
       callback
     );
-    if (suspendRequest) return suspendRequest;
+    if (suspendRequest) return this.hashFile(suspendRequest);
 
-    const { bodyStream, headers, statusCode } = await this.requestHTTP(
-      httpOptions,
-      body
-    );
+    const release = await this.httpSession.acquireDownloadSlot();
+    try {
+      const result = await this.saveDownload(
+        url,
+        basepath,
+        fileStats.isDirectory(),
+        httpOptions,
+        body,
+        callback
+      );
+      const finalPath = await this.httpSession.afterDownloadRequest(
+        url,
+        basepath,
+        sessionHttpOptions,
+        result.path,
+        body,
+        callback
+      );
+      return { ...result, path: finalPath };
+    } finally {
+      release();
+    }
+  }
 
-    if (statusCode === 302) throw new Error('SIGAA: Download expired.');
+  /**
+   * Makes the download request and returns the response body as a stream,
+   * the download slot is held until the stream ends.
+   */
+  private async openFile(
+    url: URL,
+    httpOptions: HTTPRequestOptions,
+    body?: string
+  ): Promise<DownloadStream> {
+    await this.httpSession.afterHTTPOptions(url, httpOptions);
+    const release = await this.httpSession.acquireDownloadSlot();
+    try {
+      const response = await this.requestDownload(url, httpOptions, body, null);
+      this.checkDownloadStatus(url, response, null);
+      const downloadStream = new SigaaDownloadStream({
+        filename: this.getDownloadFilename(response.headers),
+        expectedSize: this.getDownloadExpectedSize(response.headers, 0)
+      });
+      let released = false;
+      const releaseOnce = () => {
+        if (released) return;
+        released = true;
+        release();
+      };
+      downloadStream.on('end', releaseOnce);
+      downloadStream.on('error', releaseOnce);
+      downloadStream.on('close', releaseOnce);
+      response.bodyStream.on('error', (err) => {
+        downloadStream.destroy(new SigaaNetworkError(err));
+      });
+      response.bodyStream.pipe(downloadStream);
+      return downloadStream;
+    } catch (err) {
+      release();
+      throw err;
+    }
+  }
 
-    if (statusCode !== 200)
-      throw new Error('SIGAA: Invalid status code at download file page.');
+  /**
+   * Makes the download request and saves the response body.
+   * The body is written to a .part file, if it exists the download resumes from it using a range request
+   * with If-Range, so a .part file of another version of the file is downloaded again from the start.
+   * @returns Path, size and SHA-256 of the saved file.
+   */
+  private async saveDownload(
+    url: URL,
+    basepath: string,
+    isDirectory: boolean,
+    httpOptions: HTTPRequestOptions,
+    body?: string,
+    callback?: ProgressCallback
+  ): Promise<FileDownloadResult> {
+    let filepath = isDirectory ? undefined : basepath;
+    let partial = filepath ? await this.getPartialDownload(filepath) : null;
+    let response = await this.requestDownload(url, httpOptions, body, partial);
+
+    if (!filepath) {
+      this.checkDownloadStatus(url, response, null);
+      const filename = this.getDownloadFilename(response.headers);
+      if (!filename)
+        throw new SigaaParseError(
+          'SIGAA: Invalid response at download file page.',
+          { url }
+        );
+      filepath = path.join(basepath, filename);
 
-    let filepath: string;
-    if (fileStats.isDirectory()) {
-      if (headers['content-disposition']) {
-        const filename = headers['content-disposition']
-          .replace(/([\S\s]*?)filename="/gm, '')
-          .slice(0, -1);
-        filepath = path.join(basepath, filename);
+      // The file name is only known after the response, request again to resume
+      partial = await this.getPartialDownload(filepath);
+      if (partial && response.headers['accept-ranges'] === 'bytes') {
+        this.discardResponse(response);
+        response = await this.requestDownload(url, httpOptions, body, partial);
       } else {
-        throw new Error('SIGAA: Invalid response at download file page.');
+        partial = null;
+      }
+    }
+    this.checkDownloadStatus(url, response, partial);
+
+    let offset = 0;
+    if (partial && response.statusCode !== 200) {
+      offset = this.getResumeOffset(response, partial);
+      if (offset === 0) {
+        // The .part file is not part of the current file
+        this.discardResponse(response);
+        response = await this.requestDownload(url, httpOptions, body, null);
+        this.checkDownloadStatus(url, response, null);
       }
-    } else {
-      filepath = basepath;
     }
 
-    const file = fs.createWriteStream(filepath);
-    bodyStream.pipe(file); // save to file
+    return this.writeDownload(response, filepath, offset, callback);
+  }
+
+  /**
+   * Writes the response body to the .part file and renames it to the file path.
+   * If the connection fails, the .part file is kept to resume the download.
+   * @param offset size of the .part file that is resumed
+   */
+  private async writeDownload(
+    response: HTTPResponse,
+    filepath: string,
+    offset: number,
+    callback?: ProgressCallback
+  ): Promise<FileDownloadResult> {
+    const partPath = `${filepath}.part`;
+    const downloadStream = new SigaaDownloadStream({
+      expectedSize: this.getDownloadExpectedSize(response.headers, offset)
+    });
+    if (offset > 0) await downloadStream.hashPartialFile(partPath);
+    else
+      await this.savePartialDownloadInfo(
+        filepath,
+        response.headers,
+        downloadStream.expectedSize
+      );
+
+    const file = fs.createWriteStream(partPath, {
+      flags: offset > 0 ? 'a' : 'w'
+    });
+    const { bodyStream } = response;
+    bodyStream.pipe(downloadStream).pipe(file); // save to file
 
     if (callback) {
-      bodyStream.on('data', () => {
-        callback(file.bytesWritten);
+      downloadStream.on('data', () => {
+        callback(downloadStream.size);
       });
     }
 
-    const finalPath = await new Promise<string>((resolve, reject) => {
+    return new Promise<FileDownloadResult>((resolve, reject) => {
+      let failed = false;
+      // The .part file is kept to resume, reject after the written data is flushed
+      const fail = (err: Error) => {
+        if (failed) return;
+        failed = true;
+        file.on('close', () => reject(err));
+        file.close();
+      };
+
       file.on('finish', () => {
+        if (failed) return;
         file.close(); // close() is sync, call resolve after close completes.
-        resolve(filepath);
+        fs.promises
+          .rename(partPath, filepath)
+          .then(() => this.removePartialDownloadInfo(filepath))
+          .then(() =>
+            resolve({ ...downloadStream.getResult(), path: filepath })
+          )
+          .catch(reject);
       });
 
       bodyStream.on('error', (err) => {
-        file.close();
-        fs.promises.unlink(filepath);
-        reject(err);
+        fail(new SigaaNetworkError(err));
       });
 
+      downloadStream.on('error', fail);
+
       file.on('error', (err) => {
+        failed = true;
         file.close();
-        fs.unlinkSync(filepath);
+        fs.promises.unlink(partPath).catch(() => undefined);
+        this.removePartialDownloadInfo(filepath).catch(() => undefined);
         reject(err);
       });
     });
-    return this.httpSession.afterDownloadRequest(
+  }
+
+  /**
+   * Makes the download request without compression, so the body can be resumed by bytes.
+   * The request is made by the http session, so it follows the retry policy.
+   * @param partial if informed, the body is requested from the end of the .part file
+   */
+  private requestDownload(
+    url: URL,
+    httpOptions: HTTPRequestOptions,
+    body: string | undefined,
+    partial: PartialDownload | null
+  ): Promise<HTTPResponse> {
+    const headers: Record<string, string> = {
+      ...httpOptions.headers,
+      'Accept-Encoding': 'identity'
+    };
+    if (partial) {
+      headers.Range = `bytes=${partial.size}-`;
+      headers['If-Range'] = partial.validator;
+    }
+    const downloadHttpOptions = { ...httpOptions, headers };
+    return this.httpSession.requestDownload(
       url,
-      basepath,
-      sessionHttpOptions,
-      finalPath,
+      downloadHttpOptions,
       body,
-      callback
+      () => this.requestHTTP(downloadHttpOptions, body)
+    );
+  }
+
+  /**
+   * Throws if the download response is not the file.
+   * @param partial .part file of the range request, null if it is not a range request
+   */
+  private checkDownloadStatus(
+    url: URL,
+    response: HTTPResponse,
+    partial: PartialDownload | null
+  ): void {
+    if (response.statusCode === 302)
+      throw new SigaaError('SIGAA: Download expired.');
+
+    if (response.statusCode === 200) return;
+    if (partial && [206, 416].includes(response.statusCode)) return;
+
+    throw new SigaaParseError(
+      'SIGAA: Invalid status code at download file page.',
+      { url }
+    );
+  }
+
+  /**
+   * Returns the byte where the body of the range response starts,
+   * or zero if the range or the total size of the Content-Range is not the one of the .part file.
+   */
+  private getResumeOffset(
+    response: HTTPResponse,
+    partial: PartialDownload
+  ): number {
+    if (response.statusCode !== 206) return 0;
+    const contentRange = response.headers['content-range']?.match(
+      /^bytes (\d+)-\d+\/(\d+|\*)$/
     );
+    if (!contentRange || Number(contentRange[1]) !== partial.size) return 0;
+    const totalSize =
+      contentRange[2] === '*' ? undefined : Number(contentRange[2]);
+    if (totalSize !== partial.totalSize) return 0;
+    return partial.size;
+  }
+
+  /**
+   * Returns the file name of the Content-Disposition header.
+   */
+  private getDownloadFilename(
+    headers: http.IncomingHttpHeaders
+  ): string | undefined {
+    if (!headers['content-disposition']) return undefined;
+    return headers['content-disposition']
+      .replace(/([\S\s]*?)filename="/gm, '')
+      .slice(0, -1);
+  }
+
+  /**
+   * Returns the size of the file by the Content-Length header.
+   * It is undefined if the body is decoded, because the size of the body is different from the header.
+   * @param offset byte where the response body starts
+   */
+  private getDownloadExpectedSize(
+    headers: http.IncomingHttpHeaders,
+    offset: number
+  ): number | undefined {
+    if (
+      headers['content-length'] === undefined ||
+      headers['content-encoding'] ||
+      headers['content-type']?.includes('charset=')
+    )
+      return undefined;
+    const contentLength = Number(headers['content-length']);
+    if (isNaN(contentLength)) return undefined;
+    return offset + contentLength;
+  }
+
+  /**
+   * Returns the .part file of an interrupted download,
+   * or null if it does not exist or it has no validator to resume it.
+   */
+  private async getPartialDownload(
+    filepath: string
+  ): Promise<PartialDownload | null> {
+    let size: number;
+    let info: PartialDownloadInfo;
+    try {
+      size = (await fs.promises.stat(`${filepath}.part`)).size;
+      info = JSON.parse(
+        await fs.promises.readFile(`${filepath}.part.json`, 'utf8')
+      );
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw err;
+    }
+    if (size === 0 || !info.validator) return null;
+    return { size, validator: info.validator, totalSize: info.totalSize };
+  }
+
+  /**
+   * Saves the validator of the response next to the .part file, it is sent in the If-Range header to resume.
+   * If the response has no ETag or Last-Modified, the download can not be resumed.
+   */
+  private async savePartialDownloadInfo(
+    filepath: string,
+    headers: http.IncomingHttpHeaders,
+    totalSize?: number
+  ): Promise<void> {
+    const { etag } = headers;
+    const validator =
+      typeof etag === 'string' && etag ? etag : headers['last-modified'];
+    if (!validator) return this.removePartialDownloadInfo(filepath);
+    const info: PartialDownloadInfo = { validator, totalSize };
+    await fs.promises.writeFile(`${filepath}.part.json`, JSON.stringify(info));
+  }
+
+  private async removePartialDownloadInfo(filepath: string): Promise<void> {
+    await fs.promises.rm(`${filepath}.part.json`, { force: true });
+  }
+
+  /**
+   * Stops reading a response that is not used.
+   */
+  private discardResponse(response: HTTPResponse): void {
+    (response.bodyStream as stream.Readable).destroy();
+  }
+
+  /**
+   * Returns the size and the SHA-256 of a file already saved.
+   */
+  private async hashFile(filepath: string): Promise<FileDownloadResult> {
+    const downloadStream = new SigaaDownloadStream();
+    await downloadStream.hashPartialFile(filepath);
+    downloadStream.end();
+    downloadStream.resume();
+    await new Promise((resolve, reject) => {
+      downloadStream.on('end', resolve);
+      downloadStream.on('error', reject);
+    });
+    return { ...downloadStream.getResult(), path: filepath };
   }
 
   /**
@@ -361,7 +726,7 @@ export class SigaaHTTP implements HTTP {
       } else {
         const codePoint = str.codePointAt(i);
         if (codePoint === undefined)
-          throw new Error('SIGAA: Invalid code point.');
+          throw new SigaaError('SIGAA: Invalid code point.');
         codePoint.toString(16).replace(/..?/g, '%$&');
         escapedString += codePoint.toString(16).replace(/..?/g, '%$&');
       }
@@ -374,7 +739,7 @@ export class SigaaHTTP implements HTTP {
    */
   public async post(
     path: string,
-    postValues: Record<string, string>,
+    postValues: Record<string, string | string[]>,
     options: SigaaRequestOptions = {}
   ): Promise<Page> {
     const url = this.httpSession.getURL(path);
@@ -395,7 +760,7 @@ export class SigaaHTTP implements HTTP {
    */
   private encodePostValue(
     url: URL,
-    postValues: Record<string, string>,
+    postValues: Record<string, string | string[]>,
     options?: SigaaRequestOptions
   ) {
     const body = stringify(postValues, '&', '=', {
@@ -430,12 +795,16 @@ export class SigaaHTTP implements HTTP {
    * @param url url of request
    * @param options http.request options
    * @param [requestBody] body of request
+   * @param [attempt] number of the attempt, the first is 1
+   * @param [reauthenticated] if the session logged in again in a previous attempt
    */
   private async requestPage(
     url: URL,
     httpOptions: HTTPRequestOptions,
     requestBody?: string | Buffer,
-    options?: SigaaRequestOptions
+    options?: SigaaRequestOptions,
+    attempt = 1,
+    reauthenticated = false
   ): Promise<Page> {
     try {
       const sessionHttpOptions = await this.httpSession.afterHTTPOptions(
@@ -451,7 +820,7 @@ export class SigaaHTTP implements HTTP {
         options
       );
       if (pageBeforeRequest) {
-        return this.httpSession.afterSuccessfulRequest(
+        return await this.httpSession.afterSuccessfulRequest(
           pageBeforeRequest,
           options
         );
@@ -463,32 +832,90 @@ export class SigaaHTTP implements HTTP {
       );
 
       const bodyBuffer = await this.convertReadebleToBuffer(bodyStream);
-      const SigaaPageInstitution: SigaaPageInstitutionMap = {
-        IFSC: SigaaPageIFSC,
-        UFPB: SigaaPageUFPB,
-        UNB: SigaaPageUNB,
-        UNILAB: SigaaPageUNILAB
-      };
-      const page = new SigaaPageInstitution[
-        this.httpSession.institutionController.institution
-      ]({
-        requestOptions: httpOptions,
-        body: bodyBuffer.toString(),
-        url,
-        headers,
-        statusCode,
-        requestBody
-      });
-      return this.httpSession.afterSuccessfulRequest(page, options);
+      const page = new SigaaInstitutionPage(
+        {
+          requestOptions: httpOptions,
+          body: bodyBuffer.toString(),
+          url,
+          headers,
+          statusCode,
+          requestBody
+        },
+        this.httpSession.institutionController.jsfcljsStyle
+      );
+      return await this.httpSession.afterSuccessfulRequest(page, options);
     } catch (err) {
       return this.httpSession.afterUnsuccessfulRequest(
         err,
         httpOptions,
-        requestBody
+        requestBody,
+        {
+          attempt,
+          reauthenticated,
+          replay: (afterLogin) =>
+            this.replayRequest(
+              url,
+              httpOptions,
+              requestBody,
+              options,
+              attempt + 1,
+              reauthenticated || afterLogin,
+              afterLogin
+            )
+        }
       );
     }
   }
 
+  /**
+   * Makes the request again with the current cookies.
+   * After a login, the javax.faces.ViewState of the old session is replaced by the one of the action page, if it has one.
+   * @param url url of request
+   * @param httpOptions http.request options of the failed request
+   * @param requestBody body of request
+   * @param options
+   * @param attempt number of the new attempt
+   * @param reauthenticated if the session logged in again in any previous attempt
+   * @param afterLogin if the session logged in again after the failed attempt
+   */
+  private async replayRequest(
+    url: URL,
+    httpOptions: HTTPRequestOptions,
+    requestBody: string | Buffer | undefined,
+    options: SigaaRequestOptions | undefined,
+    attempt: number,
+    reauthenticated: boolean,
+    afterLogin: boolean
+  ): Promise<Page> {
+    const headers = { ...httpOptions.headers };
+    delete headers.Cookie;
+    let body = requestBody;
+    const viewStateRegex = /(^|&)javax\.faces\.ViewState=[^&]*/;
+    if (afterLogin && typeof body === 'string' && viewStateRegex.test(body)) {
+      try {
+        const actionPage = await this.get(url.href, { noCache: true });
+        const viewState = actionPage.viewState;
+        if (viewState) {
+          body = body.replace(
+            viewStateRegex,
+            `$1javax.faces.ViewState=${this.encodeWithRFC3986(viewState)}`
+          );
+          headers['Content-Length'] = Buffer.byteLength(body).toString(10);
+        }
+      } catch (err) {
+        // Replays with the old viewState
+      }
+    }
+    return this.requestPage(
+      url,
+      { ...httpOptions, headers },
+      body,
+      options,
+      attempt,
+      reauthenticated
+    );
+  }
+
   /**
    * Make a HTTP request
    * @param optionsHTTP http.request options
@@ -504,7 +931,7 @@ export class SigaaHTTP implements HTTP {
       });
 
       req.on('error', (err) => {
-        reject(err);
+        reject(new SigaaNetworkError(err));
       });
 
       if (body) req.write(body);
@@ -535,7 +962,7 @@ export class SigaaHTTP implements HTTP {
         if (streamDecompressed) {
           streamDecompressed.end();
         }
-        reject(err);
+        reject(new SigaaNetworkError(err));
       });
       response.on('close', () => {
         if (streamDecompressed) {
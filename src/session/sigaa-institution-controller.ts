@@ -1,60 +1,83 @@
-import { SigaaAccountIFSC } from '@account/sigaa-account-ifsc';
-import { SigaaAccountUFPB } from '@account/sigaa-account-ufpb';
-import { SigaaAccountUNB } from '@account/sigaa-account-unb';
-import { SigaaAccountUNILAB } from '@account/sigaa-account-unilab';
-import { SigaaLoginIFSC } from './login/sigaa-login-ifsc';
-import { SigaaLoginUFPB } from './login/sigaa-login-ufpb';
-import { SigaaLoginUNB } from './login/sigaa-login-unb';
-import { SigaaLoginUNILAB } from './login/sigaa-login-unilab';
-import { SigaaPageIFSC } from './page/sigaa-page-ifsc';
-import { SigaaPageUFPB } from './page/sigaa-page-ufpb';
-import { SigaaPageUNB } from './page/sigaa-page-unb';
-import { SigaaPageUNILAB } from './page/sigaa-page-unilab';
-/**
- * Map
- */
-export type InstitutionType = 'IFSC' | 'UFPB' | 'UNB' | 'UNILAB';
-export type InstitutionMap<T> = Record<InstitutionType, T>;
+import { URL } from 'url';
+import {
+  InstitutionProfile,
+  institutionRegistry,
+  JSFCLJSStyle
+} from './sigaa-institution-registry';
+import { SigaaError } from '../sigaa-errors';
+
 /**
- * Map of classes that returns SigaaLogin instance;
+ * Institutions supported by default.
+ * @category Public
  */
-type SigaaLoginMap =
-  | typeof SigaaLoginIFSC
-  | typeof SigaaLoginUFPB
-  | typeof SigaaLoginUNB
-  | typeof SigaaLoginUNILAB;
-export type SigaaLoginInstitutionMap = InstitutionMap<SigaaLoginMap>;
+export type BuiltInInstitutionType = 'IFSC' | 'UFPB' | 'UNB' | 'UNILAB';
 
 /**
- * Map of classes that returns SigaaAccount instance;
+ * Acronym of the institution, other institutions can be added to institutionRegistry.
+ * @category Public
  */
-type SigaaAccountMap =
-  | typeof SigaaAccountIFSC
-  | typeof SigaaAccountUFPB
-  | typeof SigaaAccountUNB
-  | typeof SigaaAccountUNILAB;
-export type SigaaAccountInstitutionMap = InstitutionMap<SigaaAccountMap>;
+export type InstitutionType =
+  | BuiltInInstitutionType
+  | (string & Record<never, never>);
 
 /**
- * Map of classes that returns SigaaPage instance;
+ * Map of a value for each built-in institution.
  */
-type SigaaPageMap =
-  | typeof SigaaPageIFSC
-  | typeof SigaaPageUFPB
-  | typeof SigaaPageUNB
-  | typeof SigaaPageUNILAB;
-export type SigaaPageInstitutionMap = InstitutionMap<SigaaPageMap>;
+export type InstitutionMap<T> = Record<BuiltInInstitutionType, T>;
 
 export interface InstitutionController {
+  /**
+   * @throws {SigaaError} If the institution was not informed or detected yet.
+   */
   institution: InstitutionType;
   url: URL;
+  /**
+   * Profile of the institution in the registry.
+   * @throws {SigaaError} If the institution was not informed or detected yet.
+   */
+  readonly profile: InstitutionProfile;
+  /**
+   * True if the institution was informed or detected.
+   */
+  readonly hasInstitution: boolean;
+  /**
+   * JSFCLJS style of the pages, it is legacy until the institution is detected.
+   */
+  readonly jsfcljsStyle: JSFCLJSStyle;
 }
 
 export class SigaaInstitutionController implements InstitutionController {
-  public institution: InstitutionType;
   public url: URL;
-  constructor(institution: InstitutionType, url: string) {
-    this.institution = institution;
+  private _profile?: InstitutionProfile;
+
+  /**
+   * @param institution institution or undefined if it will be detected.
+   * @param url
+   */
+  constructor(institution: InstitutionType | undefined, url: string) {
     this.url = new URL(url);
+    if (institution) this.institution = institution;
+  }
+
+  get institution(): InstitutionType {
+    return this.profile.institution;
+  }
+
+  set institution(institution: InstitutionType) {
+    this._profile = institutionRegistry.getProfile(institution);
+  }
+
+  get profile(): InstitutionProfile {
+    if (!this._profile)
+      throw new SigaaError('SIGAA: The institution was not detected yet.');
+    return this._profile;
+  }
+
+  get hasInstitution(): boolean {
+    return this._profile !== undefined;
+  }
+
+  get jsfcljsStyle(): JSFCLJSStyle {
+    return this._profile ? this._profile.jsfcljsStyle : 'legacy';
   }
 }
@@ -0,0 +1,174 @@
+import { URL } from 'url';
+import { HTTP } from './sigaa-http';
+import { Page } from './sigaa-page';
+import {
+  InstitutionProfile,
+  InstitutionRegistry,
+  institutionRegistry,
+  JSFCLJSStyle
+} from './sigaa-institution-registry';
+import {
+  SigaaAmbiguousVariantError,
+  SigaaNetworkError,
+  SigaaUnsupportedVariantError
+} from '../sigaa-errors';
+
+const defaultJSFCLJSPagePath = '/sigaa/public/home.jsf';
+
+/**
+ * Detects the institution of a SIGAA url.
+ * @category Internal
+ */
+export interface InstitutionDetector {
+  /**
+   * Fetches the public pages and returns the profile that matches them.
+   * @param url SIGAA url, used in the error message and to choose between equal profiles.
+   * @throws {SigaaUnsupportedVariantError} If no profile matches the pages.
+   * @throws {SigaaAmbiguousVariantError} If more than one profile matches and the hostname does not have the institution.
+   */
+  detect(url: URL): Promise<InstitutionProfile>;
+}
+
+/**
+ * Compares the login page with the login form and the markers of each profile,
+ * and the onclick attributes of the public JSF page with the JSFCLJS style.
+ * If more than one profile matches, the profile with the institution in the hostname is chosen.
+ * @category Internal
+ */
+export class SigaaInstitutionDetector implements InstitutionDetector {
+  constructor(
+    private http: HTTP,
+    private registry: InstitutionRegistry = institutionRegistry
+  ) {}
+
+  /**
+   * @inheritdoc
+   */
+  async detect(url: URL): Promise<InstitutionProfile> {
+    const pages: Record<string, Page | Error> = {};
+    const getPage = async (path: string): Promise<Page | Error> => {
+      if (!pages[path]) pages[path] = await this.getPage(path);
+      return pages[path];
+    };
+    const differences: Record<string, string[]> = {};
+    const matches: InstitutionProfile[] = [];
+    for (const profile of this.registry.getProfiles()) {
+      let profileDifferences = this.compareLoginPage(
+        await getPage(profile.login.path),
+        profile
+      );
+      if (profileDifferences.length === 0) {
+        const jsfcljsPagePath =
+          profile.jsfcljsPagePath || defaultJSFCLJSPagePath;
+        profileDifferences = this.compareJSFCLJSStyle(
+          await getPage(jsfcljsPagePath),
+          jsfcljsPagePath,
+          profile
+        );
+      }
+      if (profileDifferences.length === 0) matches.push(profile);
+      else differences[profile.institution] = profileDifferences;
+    }
+    if (matches.length === 0)
+      throw new SigaaUnsupportedVariantError(url.origin, differences);
+    if (matches.length === 1) return matches[0];
+    const hostnameParts = url.hostname.toLowerCase().split('.');
+    const hostnameMatch = matches.find((profile) =>
+      hostnameParts.includes(profile.institution.toLowerCase())
+    );
+    if (!hostnameMatch)
+      throw new SigaaAmbiguousVariantError(
+        url.origin,
+        matches.map((profile) => profile.institution)
+      );
+    return hostnameMatch;
+  }
+
+  /**
+   * Returns the page or the error, the network errors are thrown.
+   * @param path
+   */
+  private async getPage(path: string): Promise<Page | Error> {
+    try {
+      return await this.http.followAllRedirect(
+        await this.http.get(path, { noCache: true }),
+        { noCache: true }
+      );
+    } catch (err) {
+      if (err instanceof SigaaNetworkError || !(err instanceof Error))
+        throw err;
+      return err;
+    }
+  }
+
+  /**
+   * Returns the differences between the login page and the profile.
+   * @param page login page or the error of the request
+   * @param profile
+   */
+  private compareLoginPage(
+    page: Page | Error,
+    profile: InstitutionProfile
+  ): string[] {
+    const {
+      path,
+      formSelector,
+      usernameField,
+      passwordField,
+      loginPageMarker
+    } = profile.login;
+    if (page instanceof Error)
+      return [`${path} could not be loaded (${page.message})`];
+    if (page.statusCode !== 200)
+      return [`${path} responded with status ${page.statusCode}`];
+
+    const formElement = page.$(formSelector);
+    if (formElement.length === 0)
+      return [`login form ${formSelector} not found in ${path}`];
+
+    const differences: string[] = [];
+    for (const field of [usernameField, passwordField]) {
+      if (formElement.find(`input[name="${field}"]`).length === 0)
+        differences.push(`login field ${field} not found`);
+    }
+    if (!page.bodyDecoded.includes(loginPageMarker))
+      differences.push(`layout marker "${loginPageMarker}" not found`);
+    return differences;
+  }
+
+  /**
+   * Returns the difference between the JSFCLJS style of the page and the profile.
+   * If the page could not be loaded or it has no JSF links, the style is unknown and there is no difference.
+   * @param page public JSF page or the error of the request
+   * @param path
+   * @param profile
+   */
+  private compareJSFCLJSStyle(
+    page: Page | Error,
+    path: string,
+    profile: InstitutionProfile
+  ): string[] {
+    if (page instanceof Error || page.statusCode !== 200) return [];
+    const jsfcljsStyle = this.detectJSFCLJSStyle(page);
+    if (jsfcljsStyle && jsfcljsStyle !== profile.jsfcljsStyle)
+      return [
+        `parseJSFCLJS style of ${path} is ${jsfcljsStyle}, expected ${profile.jsfcljsStyle}`
+      ];
+    return [];
+  }
+
+  /**
+   * Returns the JSFCLJS style of the onclick attributes, or undefined if the page does not have them.
+   * @param page
+   */
+  private detectJSFCLJSStyle(page: Page): JSFCLJSStyle | undefined {
+    const onclicks = page
+      .$('[onclick*="jsfcljs"]')
+      .toArray()
+      .map((element) => page.$(element).attr('onclick') || '');
+    if (onclicks.length === 0) return undefined;
+    return onclicks.some((onclick) => /typeof\s+jsfcljs/.test(onclick))
+      ? 'legacy'
+      : 'jsfcljs';
+  }
+}
@@ -0,0 +1,373 @@
+import { TranscriptSummary } from '@bonds/sigaa-transcript';
+import { RequestLimitOptions } from '@helpers/sigaa-request-limiter';
+import {
+  ScheduleTimeGrid,
+  scheduleTimeGrids
+} from '@helpers/sigaa-schedule-parser';
+import {
+  BuiltInInstitutionType,
+  InstitutionMap,
+  InstitutionType
+} from './sigaa-institution-controller';
+import { SigaaError } from '../sigaa-errors';
+
+/**
+ * Format of the JSFCLJS function in the onclick attributes.
+ * - legacy: `if(typeof jsfcljs == 'function'){jsfcljs(...);}return false`, the post values are the text between the braces;
+ * - jsfcljs: `jsfcljs(document.getElementById('form'),{...},'')`, the post values are the second argument.
+ * @category Public
+ */
+export type JSFCLJSStyle = 'legacy' | 'jsfcljs';
+
+/**
+ * Layout of the student portal.
+ * - classic: student details in `#perfil-docente`;
+ * - beta: the new portal, at `/sigaa/portais/discente/beta/discente.jsf`.
+ * @category Public
+ */
+export type PortalLayout = 'classic' | 'beta';
+
+/**
+ * @category Public
+ */
+export interface InstitutionLoginProfile {
+  /**
+   * Path of the login page, like /sigaa/verTelaLogin.do.
+   */
+  path: string;
+  /**
+   * Selector of the login form.
+   */
+  formSelector: string;
+  /**
+   * Name of the username field of the form, like user.login.
+   */
+  usernameField: string;
+  /**
+   * Name of the password field of the form, like user.senha.
+   */
+  passwordField: string;
+  /**
+   * Text of the login page, if the page after the login has it, the login failed.
+   */
+  loginPageMarker: string;
+  /**
+   * Text of the login page when the username or the password is wrong.
+   */
+  invalidCredentialsMarker: string;
+  /**
+   * If informed, the page after the login must have one of them, otherwise the login failed.
+   */
+  successMarkers?: string[];
+}
+
+/**
+ * @category Public
+ */
+export interface InstitutionHomepageProfile {
+  /**
+   * Path of the student portal, like /sigaa/portais/discente/discente.jsf.
+   */
+  studentPortalPath: string;
+  /**
+   * Path of the logoff request.
+   */
+  logoffPath: string;
+  /**
+   * Pages shown after the login instead of the portal, like notices and course evaluations.
+   * They are skipped by opening the noticeRedirectPath.
+   */
+  noticePagePaths: string[];
+  /**
+   * Page opened to skip the notice pages.
+   */
+  noticeRedirectPath: string;
+  /**
+   * Status of the student bond in the student portal that means that the bond is active, like CURSANDO.
+   */
+  activeBondStatuses: string[];
+  /**
+   * Selector of the user name in the student portal.
+   */
+  nameSelector: string;
+  /**
+   * Selector of the profile picture in the student portal.
+   */
+  profilePictureSelector: string;
+  /**
+   * Selector of the table with the registration, program and status in the student portal,
+   * in the beta portal it is the table with the e-mail.
+   */
+  studentDetailsSelector: string;
+  /**
+   * If informed, the e-mail is read from this input of the personal data page, instead of the table.
+   */
+  emailInputSelector?: string;
+  /**
+   * Selector of the registration in the student portal, only used by the beta portal.
+   */
+  registrationSelector?: string;
+  /**
+   * Selector of the program in the student portal, the second element is used, only used by the beta portal.
+   */
+  programSelector?: string;
+}
+
+/**
+ * @category Public
+ */
+export interface InstitutionTranscriptProfile {
+  /**
+   * Action of the menu item that opens the grades report.
+   */
+  gradesMenuAction: string;
+  /**
+   * Labels of each summary figure in the student portal page.
+   */
+  summaryLabels: Record<keyof TranscriptSummary, RegExp>;
+}
+
+/**
+ * Everything that changes between the SIGAA of each institution.
+ * @category Public
+ */
+export interface InstitutionProfile {
+  institution: InstitutionType;
+  jsfcljsStyle: JSFCLJSStyle;
+  /**
+   * Public page with JSF links, the institution detector reads the JSFCLJS style of its onclick attributes.
+   * Default is /sigaa/public/home.jsf.
+   */
+  jsfcljsPagePath?: string;
+  portalLayout: PortalLayout;
+  login: InstitutionLoginProfile;
+  homepage: InstitutionHomepageProfile;
+  transcript: InstitutionTranscriptProfile;
+  /**
+   * Default time grid, used to parse the course schedule.
+   */
+  timeGrid: ScheduleTimeGrid;
+  /**
+   * Default request limits, default is no limit.
+   * The built-in profiles have no limit.
+   */
+  requestLimits?: RequestLimitOptions;
+}
+
+const classicLogin: InstitutionLoginProfile = {
+  path: '/sigaa/verTelaLogin.do',
+  formSelector: "form[name='loginForm']",
+  usernameField: 'user.login',
+  passwordField: 'user.senha',
+  loginPageMarker: 'Entrar no Sistema',
+  invalidCredentialsMarker: 'Usuário e/ou senha inválidos'
+};
+
+const classicHomepage: InstitutionHomepageProfile = {
+  studentPortalPath: '/sigaa/portais/discente/discente.jsf',
+  logoffPath: '/sigaa/logar.do?dispatch=logOff',
+  noticePagePaths: [],
+  noticeRedirectPath: '/sigaa/vinculos.jsf',
+  activeBondStatuses: ['CURSANDO', 'CONCLUINTE'],
+  nameSelector: 'p.usuario > span',
+  profilePictureSelector: 'div[class="foto"] img',
+  studentDetailsSelector: '#perfil-docente table'
+};
+
+const gradesMenuAction = '#{ relatorioNotasAluno.gerarRelatorio }';
+
+/**
+ * Profiles of the institutions supported by default.
+ * @category Public
+ */
+export const builtInInstitutionProfiles: InstitutionMap<InstitutionProfile> = {
+  IFSC: {
+    institution: 'IFSC',
+    jsfcljsStyle: 'legacy',
+    portalLayout: 'classic',
+    login: classicLogin,
+    homepage: classicHomepage,
+    transcript: {
+      gradesMenuAction,
+      summaryLabels: {
+        mc: /^MC/,
+        ira: /^IRA/,
+        hoursCompleted: /Total Integralizad|Integralizad/i,
+        hoursPending: /Pendente/i
+      }
+    },
+    timeGrid: scheduleTimeGrids.IFSC
+  },
+  UFPB: {
+    institution: 'UFPB',
+    jsfcljsStyle: 'legacy',
+    portalLayout: 'beta',
+    login: {
+      ...classicLogin,
+      path: '/sigaa/logon.jsf',
+      formSelector: "form[name='form']",
+      usernameField: 'form:login',
+      passwordField: 'form:senha',
+      loginPageMarker: 'action="/sigaa/logon.jsf"'
+    },
+    homepage: {
+      ...classicHomepage,
+      studentPortalPath: '/sigaa/portais/discente/beta/discente.jsf',
+      logoffPath: '/sigaa/logoff/',
+      nameSelector: '.detalhes-usuario-nome',
+      profilePictureSelector: '#fotoUsuario .foto',
+      studentDetailsSelector: '.detalhes-usuario table',
+      registrationSelector: '.detalhes-usuario-matricula',
+      programSelector: '.painel-usuario-identificacao div'
+    },
+    transcript: {
+      gradesMenuAction,
+      summaryLabels: {
+        mc: /^MC/,
+        ira: /^CRA/,
+        hoursCompleted: /Total Integralizad|Integralizad/i,
+        hoursPending: /Pendente/i
+      }
+    },
+    timeGrid: scheduleTimeGrids.UFPB
+  },
+  UNB: {
+    institution: 'UNB',
+    jsfcljsStyle: 'jsfcljs',
+    portalLayout: 'classic',
+    login: classicLogin,
+    homepage: {
+      ...classicHomepage,
+      noticePagePaths: ['/sigaa/telaAvisoLogon.jsf']
+    },
+    transcript: {
+      gradesMenuAction,
+      summaryLabels: {
+        mc: /^MP/,
+        ira: /^IRA/,
+        hoursCompleted: /Total Integralizad|Integralizad/i,
+        hoursPending: /Pendente/i
+      }
+    },
+    timeGrid: scheduleTimeGrids.UNB
+  },
+  UNILAB: {
+    institution: 'UNILAB',
+    jsfcljsStyle: 'legacy',
+    portalLayout: 'classic',
+    login: classicLogin,
+    homepage: {
+      ...classicHomepage,
+      noticePagePaths: [
+        '/sigaa/avaliacao/introDiscente.jsf',
+        '/sigaa/telaAvisoCpa.jsf',
+        '/sigaa/telaAvisoLogon.jsf'
+      ],
+      noticeRedirectPath: '/sigaa/verPortalDiscente.do',
+      activeBondStatuses: ['ATIVO', 'INVATIVO'],
+      emailInputSelector: "input[name='formDiscente:txtEmail']"
+    },
+    transcript: {
+      gradesMenuAction,
+      summaryLabels: {
+        mc: /^MC/,
+        ira: /^IRA/,
+        hoursCompleted: /Total Integralizad|Integralizad/i,
+        hoursPending: /Pendente/i
+      }
+    },
+    timeGrid: scheduleTimeGrids.UNILAB
+  }
+};
+
+/**
+ * Profiles of the supported institutions.
+ * @category Internal
+ */
+export interface InstitutionRegistry {
+  /**
+   * Adds the profile, or replaces the profile of the same institution.
+   * @param profile
+   */
+  register(profile: InstitutionProfile): void;
+
+  /**
+   * Returns the profile of the institution.
+   * @param institution
+   * @throws {SigaaError} If the institution is not registered.
+   */
+  getProfile(institution: InstitutionType): InstitutionProfile;
+
+  /**
+   * Returns true if the institution is registered.
+   * @param institution
+   */
+  hasProfile(institution: InstitutionType): boolean;
+
+  /**
+   * Returns all registered profiles, the built-in profiles are the first.
+   */
+  getProfiles(): InstitutionProfile[];
+}
+
+/**
+ * @category Internal
+ */
+export class SigaaInstitutionRegistry implements InstitutionRegistry {
+  private profiles = new Map<InstitutionType, InstitutionProfile>();
+
+  constructor(profiles: InstitutionProfile[] = []) {
+    for (const profile of profiles) this.register(profile);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  register(profile: InstitutionProfile): void {
+    this.profiles.set(profile.institution, profile);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getProfile(institution: InstitutionType): InstitutionProfile {
+    const profile = this.profiles.get(institution);
+    if (!profile)
+      throw new SigaaError(
+        `SIGAA: Institution ${institution} is not registered.`
+      );
+    return profile;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  hasProfile(institution: InstitutionType): boolean {
+    return this.profiles.has(institution);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getProfiles(): InstitutionProfile[] {
+    return [...this.profiles.values()];
+  }
+}
+
+/**
+ * Registry used by the library, register a profile to add an institution.
+ * @example
+ * institutionRegistry.register({
+ *   ...institutionRegistry.getProfile('UNB'),
+ *   institution: 'UFRN',
+ *   timeGrid: ufrnTimeGrid
+ * });
+ * const sigaa = new Sigaa({ institution: 'UFRN', url: 'https://sigaa.ufrn.br' });
+ * @category Public
+ */
+export const institutionRegistry: InstitutionRegistry =
+  new SigaaInstitutionRegistry(
+    (Object.keys(builtInInstitutionProfiles) as BuiltInInstitutionType[]).map(
+      (institution) => builtInInstitutionProfiles[institution]
+    )
+  );
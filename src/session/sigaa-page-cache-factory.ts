@@ -5,7 +5,10 @@ import { PageCache, SigaaPageCache } from './sigaa-page-cache';
  * @category Internal
  */
 export interface PageCacheFactory {
-  createPageCache(): PageCache;
+  /**
+   * @param namespace Namespace of the cache, like the bond switch url. Each namespace has its own pages.
+   */
+  createPageCache(namespace?: string): PageCache;
 }
 
 /**
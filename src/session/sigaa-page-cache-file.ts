@@ -0,0 +1,301 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { URL } from 'url';
+import { HTTPRequestOptions } from './sigaa-http';
+import { JSFCLJSStyle } from './sigaa-institution-registry';
+import { Page, SerializedPage } from './sigaa-page';
+import { PageCache } from './sigaa-page-cache';
+import { PageCacheFactory } from './sigaa-page-cache-factory';
+import { SigaaInstitutionPage } from './page/sigaa-page-institution';
+
+/**
+ * Time to live of the pages with the url that matches the pattern.
+ * @category Public
+ */
+export interface PageCacheTTLRule {
+  /**
+   * Pattern tested against the page url, a string matches if the url includes it.
+   */
+  pattern: RegExp | string;
+  /**
+   * Time to live in milliseconds, 0 disables the cache of the url.
+   */
+  ttl: number;
+}
+
+/**
+ * @category Public
+ */
+export interface FilePageCacheOptions {
+  /**
+   * Directory of the cache, it is created if it does not exist.
+   */
+  directory: string;
+  /**
+   * Default time to live in milliseconds, default is 5 minutes.
+   */
+  ttl?: number;
+  /**
+   * The first rule that matches the url is used, otherwise the default ttl is used.
+   */
+  ttlRules?: PageCacheTTLRule[];
+  /**
+   * Max size of the directory in bytes, the least recently used pages are removed. Default is 50 MB.
+   */
+  maxSize?: number;
+}
+
+/**
+ * File with the page and the expiry date.
+ */
+interface PageCacheEntry {
+  expiresAt: number;
+  /**
+   * JSFCLJS style of the page, the institution may be detected only after the cache is created.
+   */
+  jsfcljsStyle: JSFCLJSStyle;
+  page: SerializedPage;
+}
+
+/**
+ * Page cache stored in files, the pages are kept between process restarts.
+ * The key is the request options and the request body, without the cookies,
+ * so the pages are still found after a new login. Use one directory for each user.
+ * File errors are ignored, the request is made as if the page is not in cache.
+ * @category Public
+ */
+export class SigaaFilePageCache implements PageCache {
+  private ttl: number;
+  private maxSize: number;
+
+  /**
+   * Directory of the namespace.
+   */
+  private namespaceDirectory: string;
+
+  /**
+   * Estimated size of the cache directory, undefined until the first scan.
+   */
+  private estimatedSize?: number;
+
+  /**
+   * Pages read from the files, they are not stored again so the ttl is not renewed.
+   */
+  private pagesFromFiles = new WeakSet<Page>();
+
+  constructor(private options: FilePageCacheOptions, namespace = 'default') {
+    this.ttl = options.ttl ?? 5 * 60 * 1000;
+    this.maxSize = options.maxSize ?? 50 * 1024 * 1024;
+    this.namespaceDirectory = path.join(
+      options.directory,
+      this.hash(namespace).substr(0, 16)
+    );
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+
+  /**
+   * JSON with sorted keys, so equal request options have the same key.
+   */
+  private stableStringify(value: unknown): string {
+    if (Array.isArray(value))
+      return `[${value.map((item) => this.stableStringify(item)).join(',')}]`;
+    if (value && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      return `{${Object.keys(record)
+        .filter((key) => record[key] !== undefined)
+        .sort()
+        .map(
+          (key) => `${JSON.stringify(key)}:${this.stableStringify(record[key])}`
+        )
+        .join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+
+  private getFilePath(httpOptions: HTTPRequestOptions, body?: string): string {
+    // The session cookies change on each login
+    const headers = { ...httpOptions.headers };
+    delete headers.Cookie;
+    const key = this.hash(
+      this.stableStringify({
+        httpOptions: { ...httpOptions, headers },
+        body: body ?? null
+      })
+    );
+    return path.join(this.namespaceDirectory, `${key}.json`);
+  }
+
+  /**
+   * Returns the ttl of the url.
+   */
+  private getTTL(url: URL): number {
+    const rules = this.options.ttlRules || [];
+    const rule = rules.find((rule) =>
+      typeof rule.pattern === 'string'
+        ? url.href.includes(rule.pattern)
+        : rule.pattern.test(url.href)
+    );
+    return rule ? rule.ttl : this.ttl;
+  }
+
+  private createPage(entry: PageCacheEntry): Page {
+    return new SigaaInstitutionPage(
+      {
+        ...entry.page,
+        url: new URL(entry.page.url)
+      },
+      entry.jsfcljsStyle
+    );
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async getPage(
+    httpOptions: HTTPRequestOptions,
+    body?: string | Buffer
+  ): Promise<Page | undefined> {
+    if (body !== undefined && typeof body !== 'string') return undefined;
+    const filePath = this.getFilePath(httpOptions, body);
+    try {
+      const entry: PageCacheEntry = JSON.parse(
+        await fs.promises.readFile(filePath, 'utf8')
+      );
+      if (entry.expiresAt < Date.now()) {
+        await this.removeFile(filePath);
+        return undefined;
+      }
+      // The modification time is the last access, used by the LRU eviction
+      const now = new Date();
+      await fs.promises.utimes(filePath, now, now);
+      const page = this.createPage(entry);
+      this.pagesFromFiles.add(page);
+      return page;
+    } catch (err) {
+      return undefined;
+    }
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async storePage(page: Page): Promise<void> {
+    if (this.pagesFromFiles.has(page)) return;
+    if (page.requestBody !== undefined && typeof page.requestBody !== 'string')
+      return;
+    const ttl = this.getTTL(page.url);
+    if (ttl <= 0) return;
+    const filePath = this.getFilePath(page.requestOptions, page.requestBody);
+    const serializedPage = page.serialize();
+    // Cookies of the cached page must not replace the current cookies
+    const headers = { ...serializedPage.headers };
+    delete headers['set-cookie'];
+    const entry: PageCacheEntry = {
+      expiresAt: Date.now() + ttl,
+      jsfcljsStyle: page.jsfcljsStyle,
+      page: { ...serializedPage, headers }
+    };
+    const content = JSON.stringify(entry);
+    try {
+      await fs.promises.mkdir(this.namespaceDirectory, { recursive: true });
+      // Writes in a temporary file, so other processes never read an incomplete file
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tempPath, content);
+      await fs.promises.rename(tempPath, filePath);
+      if (this.estimatedSize === undefined) {
+        await this.evictLeastRecentlyUsed();
+      } else {
+        this.estimatedSize += Buffer.byteLength(content);
+        if (this.estimatedSize > this.maxSize)
+          await this.evictLeastRecentlyUsed();
+      }
+    } catch (err) {
+      return;
+    }
+  }
+
+  private async removeFile(filePath: string): Promise<void> {
+    try {
+      await fs.promises.unlink(filePath);
+    } catch (err) {
+      return;
+    }
+  }
+
+  /**
+   * Lists the files of all namespaces and removes the least recently used
+   * until the directory is smaller than maxSize.
+   */
+  private async evictLeastRecentlyUsed(): Promise<void> {
+    const files: { filePath: string; size: number; lastAccess: number }[] = [];
+    const namespaces = await fs.promises.readdir(this.options.directory);
+    for (const namespace of namespaces) {
+      const namespaceDirectory = path.join(this.options.directory, namespace);
+      let fileNames: string[];
+      try {
+        fileNames = await fs.promises.readdir(namespaceDirectory);
+      } catch (err) {
+        continue;
+      }
+      for (const fileName of fileNames) {
+        if (!fileName.endsWith('.json')) continue;
+        const filePath = path.join(namespaceDirectory, fileName);
+        try {
+          const stats = await fs.promises.stat(filePath);
+          files.push({
+            filePath,
+            size: stats.size,
+            lastAccess: stats.mtimeMs
+          });
+        } catch (err) {
+          continue;
+        }
+      }
+    }
+    let size = files.reduce((total, file) => total + file.size, 0);
+    files.sort((a, b) => a.lastAccess - b.lastAccess);
+    for (const file of files) {
+      if (size <= this.maxSize) break;
+      await this.removeFile(file.filePath);
+      size -= file.size;
+    }
+    this.estimatedSize = size;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  clearCachePage(): void {
+    this.estimatedSize = undefined;
+  }
+
+  /**
+   * Removes all pages of the namespace.
+   */
+  async purge(): Promise<void> {
+    await fs.promises.rm(this.namespaceDirectory, {
+      recursive: true,
+      force: true
+    });
+    this.estimatedSize = undefined;
+  }
+}
+
+/**
+ * Creates a SigaaFilePageCache for each bond.
+ * @category Public
+ */
+export class SigaaFilePageCacheFactory implements PageCacheFactory {
+  constructor(private options: FilePageCacheOptions) {}
+
+  /**
+   * @inheritdoc
+   */
+  createPageCache(namespace?: string): SigaaFilePageCache {
+    return new SigaaFilePageCache(this.options, namespace);
+  }
+}
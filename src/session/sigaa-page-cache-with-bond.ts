@@ -48,7 +48,9 @@ export class SigaaPageCacheWithBond implements PageCacheWithBond {
       if (oldCacheInstance) {
         this.currentCache = oldCacheInstance;
       } else {
-        const newCacheInstance = this.cachePageFactory.createPageCache();
+        const newCacheInstance = this.cachePageFactory.createPageCache(
+          bondSwitchURLstring || undefined
+        );
         this.cacheInstances.set(bondSwitchURLstring, newCacheInstance);
         this.currentCache = newCacheInstance;
       }
@@ -62,14 +64,14 @@ export class SigaaPageCacheWithBond implements PageCacheWithBond {
   getPage(
     httpOptions: HTTPRequestOptions,
     body?: string | Buffer
-  ): Page | undefined {
+  ): Page | undefined | Promise<Page | undefined> {
     return this.currentCache.getPage(httpOptions, body);
   }
 
   /**
    * @inheritdoc
    */
-  storePage(page: Page): void {
+  storePage(page: Page): void | Promise<void> {
     return this.currentCache.storePage(page);
   }
 
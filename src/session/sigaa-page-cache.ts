@@ -3,6 +3,7 @@ import { HTTPRequestOptions } from './sigaa-http';
 import { Page } from './sigaa-page';
 
 /**
+ * Persistent caches can return promises.
  * @category Internal
  */
 export interface PageCache {
@@ -12,16 +13,16 @@ export interface PageCache {
   getPage(
     httpOptions: HTTPRequestOptions,
     body?: string | Buffer
-  ): Page | undefined;
+  ): Page | undefined | Promise<Page | undefined>;
 
   /**
    * Cache a page or update if the same request values
    * @param page
    */
-  storePage(page: Page): void;
+  storePage(page: Page): void | Promise<void>;
 
   /**
-   * Flush states of instance
+   * Flush states of instance, persistent caches keep the stored pages.
    */
   clearCachePage(): void;
 }
@@ -4,10 +4,11 @@ import * as http from 'http';
 import { load as $load } from 'cheerio';
 import { HTTPMethod } from 'src/sigaa-types';
 import { HTTPRequestOptions } from './sigaa-http';
-import { IFSCPage, SigaaPageIFSC } from './page/sigaa-page-ifsc';
-import { SigaaPageUFPB, UFPBPage } from './page/sigaa-page-ufpb';
-import { SigaaPageUNB, UNBPage } from './page/sigaa-page-unb';
-import { SigaaPageUNILAB, UNILABPage } from './page/sigaa-page-unilab';
+import {
+  InstitutionPage,
+  SigaaInstitutionPage
+} from './page/sigaa-page-institution';
+import { SigaaError, SigaaSessionExpiredError } from '../sigaa-errors';
 
 /**
  * @category Internal
@@ -19,6 +20,27 @@ export interface SigaaPageConstructor {
   url: URL;
   headers: http.IncomingHttpHeaders;
   statusCode: number;
+  /**
+   * Timestamp of the last request using the page's viewState, default is now.
+   */
+  modifiedAt?: number;
+}
+
+/**
+ * Page that can be saved with JSON.stringify, used by persistent caches.
+ * @category Internal
+ */
+export interface SerializedPage {
+  requestOptions: HTTPRequestOptions;
+  /**
+   * Only string request bodies are serialized.
+   */
+  requestBody?: string;
+  body: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  statusCode: number;
+  modifiedAt: number;
 }
 
 /**
@@ -104,11 +126,16 @@ export interface CommonPage {
    * Only if request method is POST.
    */
   readonly requestBody?: string | Buffer;
+
+  /**
+   * Returns the page data to save it, the page can be created again passing it to the page constructor.
+   * @throws {SigaaError} If the request body is a buffer.
+   */
+  serialize(): SerializedPage;
 }
 
-export type Page = CommonPage & (IFSCPage | UFPBPage | UNBPage | UNILABPage);
-export type SigaaPage = CommonSigaaPage &
-  (SigaaPageIFSC | SigaaPageUFPB | SigaaPageUNB | SigaaPageUNILAB);
+export type Page = CommonPage & InstitutionPage;
+export type SigaaPage = CommonSigaaPage & SigaaInstitutionPage;
 /**
  * Response page of sigaa.
  * @category Internal
@@ -121,7 +148,7 @@ export abstract class CommonSigaaPage implements CommonPage {
     this.url = options.url;
     this.headers = options.headers;
     this.statusCode = options.statusCode;
-    this.modifiedAt = Date.now();
+    this.modifiedAt = options.modifiedAt ?? Date.now();
 
     this.checkPageStatusCodeAndExpired();
   }
@@ -176,6 +203,25 @@ export abstract class CommonSigaaPage implements CommonPage {
    */
   private _bodyDecoded?: string;
 
+  /**
+   * @inheritdoc
+   */
+  serialize(): SerializedPage {
+    if (this.requestBody !== undefined && typeof this.requestBody !== 'string')
+      throw new SigaaError(
+        'SIGAA: Page with buffer request body cannot be serialized.'
+      );
+    return {
+      requestOptions: this.requestOptions,
+      requestBody: this.requestBody,
+      body: this.body,
+      url: this.url.href,
+      headers: this.headers,
+      statusCode: this.statusCode,
+      modifiedAt: this.modifiedAt
+    };
+  }
+
   /**
    * HTTP request method that originated page.
    **/
@@ -213,7 +259,7 @@ export abstract class CommonSigaaPage implements CommonPage {
       this.statusCode === 302 &&
       this.headers.location?.includes('/sigaa/expirada.jsp')
     )
-      throw new Error('SIGAA: Session expired.');
+      throw new SigaaSessionExpiredError();
   }
 
   /**
@@ -0,0 +1,91 @@
+import { LoginStatus } from '../sigaa-types';
+import { BondController } from './sigaa-bond-controller';
+import { HTTP } from './sigaa-http';
+import { Login } from './login/sigaa-login';
+import { PageCacheWithBond } from './sigaa-page-cache-with-bond';
+import { Session } from './sigaa-session';
+import { SigaaError } from '../sigaa-errors';
+
+/**
+ * @category Public
+ */
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * Called when the session expires, it returns the credentials used to login again.
+ * @category Public
+ */
+export type CredentialsProvider = () => Credentials | Promise<Credentials>;
+
+/**
+ * Logs in again when the session expires.
+ * @category Internal
+ */
+export interface Reauthenticator {
+  /**
+   * True if the session is authenticated, only authenticated sessions are reauthenticated.
+   */
+  readonly isAuthenticated: boolean;
+
+  /**
+   * Logs in again and selects the previous bond.
+   */
+  reauthenticate(): Promise<void>;
+}
+
+/**
+ * @category Internal
+ */
+export class SigaaReauthenticator implements Reauthenticator {
+  /**
+   * @param http http instance without bond
+   * @param session
+   * @param login login instance of the institution
+   * @param bondController
+   * @param pageCacheWithBond
+   * @param credentialsProvider
+   */
+  constructor(
+    private http: HTTP,
+    private session: Session,
+    private login: Login,
+    private bondController: BondController,
+    private pageCacheWithBond: PageCacheWithBond,
+    private credentialsProvider: CredentialsProvider
+  ) {}
+
+  /**
+   * @inheritdoc
+   */
+  get isAuthenticated(): boolean {
+    return this.session.loginStatus === LoginStatus.Authenticated;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  async reauthenticate(): Promise<void> {
+    const previousBond = this.bondController.currentBond;
+    this.session.loginStatus = LoginStatus.Unauthenticated;
+    this.bondController.currentBond = null;
+
+    const { username, password } = await this.credentialsProvider();
+    await this.login.login(username, password);
+
+    if (previousBond) {
+      const page = await this.http.get(previousBond.href, {
+        noCache: true
+      });
+      const finalPage = await this.http.followAllRedirect(page, {
+        noCache: true
+      });
+      if (finalPage.statusCode !== 200)
+        throw new SigaaError('SIGAA: Could not switch bond.');
+      this.bondController.currentBond = previousBond;
+    }
+    this.pageCacheWithBond.setCurrentBond(previousBond);
+  }
+}
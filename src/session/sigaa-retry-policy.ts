@@ -0,0 +1,181 @@
+import { HTTPMethod } from '../sigaa-types';
+import { Page } from './sigaa-page';
+import { SigaaError } from '../sigaa-errors';
+
+/**
+ * Information of the retry passed to the onRetry hook.
+ * @category Public
+ */
+export interface RetryInfo {
+  /**
+   * Number of the attempt that failed, the first is 1.
+   */
+  attempt: number;
+  /**
+   * Time to wait before the next attempt, in milliseconds.
+   */
+  delay: number;
+  error: Error;
+  method: HTTPMethod;
+  url: string;
+}
+
+/**
+ * @category Public
+ */
+export interface RetryPolicyOptions {
+  /**
+   * Max number of attempts of each request, 1 disables the retries. Default is 3.
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the second attempt in milliseconds, it doubles in each attempt. Default is 500.
+   */
+  baseDelay?: number;
+  /**
+   * Max delay between attempts in milliseconds. Default is 10 seconds.
+   */
+  maxDelay?: number;
+  /**
+   * Random variation of the delay, 0.2 is ±20%. Default is 0.2.
+   */
+  jitter?: number;
+  /**
+   * Codes of the socket errors that are retried, like ECONNRESET.
+   */
+  retryableErrorCodes?: string[];
+  /**
+   * Status codes that are retried. Default is 429, 502, 503 and 504.
+   */
+  retryableStatusCodes?: number[];
+  /**
+   * Methods that are retried, POST requests may change data in SIGAA. Default is only GET.
+   */
+  retryableMethods?: HTTPMethod[];
+  /**
+   * Called before each retry.
+   */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * Decides which failed requests are made again.
+ * @category Public
+ */
+export interface RetryPolicy {
+  readonly maxAttempts: number;
+
+  /**
+   * Verifies if the response with the status code must be requested again.
+   * @param statusCode
+   * @param method
+   */
+  isRetryableStatus(statusCode: number, method: HTTPMethod): boolean;
+
+  /**
+   * Verifies if the request error must be retried.
+   * @param err
+   * @param method
+   */
+  isRetryableError(err: Error, method: HTTPMethod): boolean;
+
+  /**
+   * Returns the time to wait before the next attempt, in milliseconds.
+   * @param attempt number of the attempt that failed, the first is 1.
+   */
+  getDelay(attempt: number): number;
+
+  /**
+   * Called before each retry.
+   * @param info
+   */
+  onRetry(info: RetryInfo): void;
+}
+
+/**
+ * Thrown when the response status code is retryable.
+ * If all attempts fail, the page of the last attempt is returned instead.
+ * @category Internal
+ */
+export class SigaaRetryableStatusError extends SigaaError {
+  constructor(readonly page: Page) {
+    super(`SIGAA: Unexpected status code ${page.statusCode}.`);
+    this.name = 'SigaaRetryableStatusError';
+  }
+}
+
+/**
+ * Exponential backoff with jitter.
+ * @category Public
+ */
+export class SigaaRetryPolicy implements RetryPolicy {
+  readonly maxAttempts: number;
+  private baseDelay: number;
+  private maxDelay: number;
+  private jitter: number;
+  private retryableErrorCodes: string[];
+  private retryableStatusCodes: number[];
+  private retryableMethods: HTTPMethod[];
+
+  constructor(private options: RetryPolicyOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? 3;
+    if (this.maxAttempts < 1)
+      throw new SigaaError('SIGAA: Retry max attempts must be at least 1.');
+    this.baseDelay = options.baseDelay ?? 500;
+    this.maxDelay = options.maxDelay ?? 10 * 1000;
+    this.jitter = options.jitter ?? 0.2;
+    if (this.jitter < 0 || this.jitter >= 1)
+      throw new SigaaError('SIGAA: Retry jitter must be between 0 and 1.');
+    this.retryableErrorCodes = options.retryableErrorCodes || [
+      'ECONNRESET',
+      'ECONNREFUSED',
+      'ETIMEDOUT',
+      'EPIPE',
+      'EAI_AGAIN',
+      'ENETUNREACH',
+      'EHOSTUNREACH'
+    ];
+    this.retryableStatusCodes = options.retryableStatusCodes || [
+      429, 502, 503, 504
+    ];
+    this.retryableMethods = options.retryableMethods || ['GET'];
+  }
+
+  /**
+   * @inheritdoc
+   */
+  isRetryableStatus(statusCode: number, method: HTTPMethod): boolean {
+    return (
+      this.retryableMethods.includes(method) &&
+      this.retryableStatusCodes.includes(statusCode)
+    );
+  }
+
+  /**
+   * @inheritdoc
+   */
+  isRetryableError(err: Error, method: HTTPMethod): boolean {
+    if (!this.retryableMethods.includes(method)) return false;
+    if (err instanceof SigaaRetryableStatusError) return true;
+    const code = (err as NodeJS.ErrnoException).code;
+    return code !== undefined && this.retryableErrorCodes.includes(code);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  getDelay(attempt: number): number {
+    const delay = Math.min(
+      this.baseDelay * Math.pow(2, attempt - 1),
+      this.maxDelay
+    );
+    return delay * (1 + (Math.random() * 2 - 1) * this.jitter);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  onRetry(info: RetryInfo): void {
+    if (this.options.onRetry) this.options.onRetry(info);
+  }
+}
@@ -1,12 +1,18 @@
 import { LoginStatus } from '../sigaa-types';
 import { InstitutionType } from './sigaa-institution-controller';
+import { SerializedCookie } from './sigaa-cookies-controller';
+import { SigaaError } from '../sigaa-errors';
 
 /**
  * Sigaa session control
  * @category Internal
  */
 export interface Session {
-  readonly institution: InstitutionType;
+  /**
+   * It is set when the institution is detected.
+   * @throws {SigaaError} If the institution was not informed or detected yet.
+   */
+  institution: InstitutionType;
   loginStatus: LoginStatus;
 }
 
@@ -14,6 +20,38 @@ export interface Session {
  * @category Internal
  */
 export class SigaaSession implements Session {
-  constructor(public readonly institution: InstitutionType) {}
+  /**
+   * @param institution institution or undefined if it will be detected.
+   */
+  constructor(private _institution?: InstitutionType) {}
   loginStatus: LoginStatus = LoginStatus.Unauthenticated;
+
+  get institution(): InstitutionType {
+    if (!this._institution)
+      throw new SigaaError('SIGAA: The institution was not detected yet.');
+    return this._institution;
+  }
+
+  set institution(institution: InstitutionType) {
+    this._institution = institution;
+  }
+}
+
+/**
+ * Saved session, it can be saved with JSON.stringify and restored with the Sigaa constructor.
+ * @category Public
+ */
+export interface SessionState {
+  institution: InstitutionType;
+  /**
+   * SIGAA url, like https://sigaa.ifsc.edu.br.
+   */
+  url: string;
+  loginStatus: LoginStatus;
+  cookies: SerializedCookie[];
+  /**
+   * Switch url of the current bond or null if the session has no current bond.
+   */
+  currentBond: string | null;
+  bondSwitchUrls: string[];
 }
@@ -1,8 +1,14 @@
+export * from './sigaa-errors';
 export * from './sigaa-main';
 export * from './sigaa-types';
+export * from './sigaa-watcher';
 
 export * from '@account/sigaa-account-factory';
 export * from '@account/sigaa-account';
+export * from '@account/sigaa-account-ifsc';
+export * from '@account/sigaa-account-ufpb';
+export * from '@account/sigaa-account-unb';
+export * from '@account/sigaa-account-unilab';
 
 export * from '@activity/sigaa-activity-factory';
 export * from '@activity/sigaa-exam-activity';
@@ -17,13 +23,18 @@ export * from '@attachments/sigaa-video-student';
 export * from '@attachments/sigaa-web-content-student';
 
 export * from '@bonds/sigaa-bond-factory';
+export * from '@bonds/sigaa-calendar-exporter';
 export * from '@bonds/sigaa-student-bond';
 export * from '@bonds/sigaa-teacher-bond';
+export * from '@bonds/sigaa-transcript';
 
 export * from '@courseResources/forum/sigaa-course-forum-student';
+export * from '@courseResources/forum/sigaa-forum-topic-student';
 export * from '@courseResources/sigaa-absence-list-student';
 export * from '@courseResources/sigaa-exam-student';
 export * from '@courseResources/sigaa-grades-student';
+export * from '@courseResources/sigaa-grade-sheet-teacher';
+export * from '@courseResources/sigaa-attendance-teacher';
 export * from '@courseResources/sigaa-lesson-student';
 export * from '@courseResources/sigaa-member-list-student';
 export * from '@courseResources/sigaa-news-student';
@@ -32,14 +43,21 @@ export * from '@courseResources/sigaa-syllabus-student';
 export * from '@courses/sigaa-course-resources-factory';
 export * from '@courses/sigaa-course-resources-manager-factory';
 export * from '@courses/sigaa-course-resources-manager';
+export * from '@courses/sigaa-course-mirror';
+export * from '@courses/sigaa-course-snapshot';
 export * from '@courses/sigaa-course-student-factory';
 export * from '@courses/sigaa-course-student';
 export * from '@courses/sigaa-course-student';
+export * from '@courses/sigaa-course-teacher';
 export * from '@courses/sigaa-lesson-parser-factory';
 export * from '@courses/sigaa-lesson-parser';
+export * from '@courses/sigaa-member-list-parser';
 
 export * from '@helpers/sigaa-parser';
 export * from '@helpers/sigaa-promise-stack';
+export * from '@helpers/sigaa-request-limiter';
+export * from '@helpers/sigaa-request-priority';
+export * from '@helpers/sigaa-schedule-parser';
 export * from '@helpers/sigaa-shared-return-decorator-factory';
 
 export * from '@resources/sigaa-file';
@@ -59,18 +77,26 @@ export * from '@session/login/sigaa-login';
 export * from '@session/sigaa-bond-controller';
 
 export * from '@session/sigaa-cookies-controller';
+export * from '@session/sigaa-download-stream';
 export * from '@session/sigaa-http-factory';
 export * from '@session/sigaa-http-session';
+export * from '@session/sigaa-http-session-fixtures';
 export * from '@session/sigaa-http-with-bond';
 export * from '@session/sigaa-http';
 
+export * from '@session/sigaa-page-cache-file';
 export * from '@session/sigaa-page-cache';
 export * from '@session/sigaa-page';
+export * from '@session/page/sigaa-page-institution';
 export * from '@session/page/sigaa-page-ifsc';
 export * from '@session/page/sigaa-page-ufpb';
 export * from '@session/page/sigaa-page-unb';
 export * from '@session/page/sigaa-page-unilab';
 
 export * from '@session/sigaa-institution-controller';
+export * from '@session/sigaa-institution-registry';
+export * from '@session/sigaa-institution-detector';
 
 export * from '@session/sigaa-session';
+export * from '@session/sigaa-reauthenticator';
+export * from '@session/sigaa-retry-policy';
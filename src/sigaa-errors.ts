@@ -0,0 +1,150 @@
+import { URL } from 'url';
+
+/**
+ * Base class of all errors thrown by the library.
+ * @category Public
+ */
+export class SigaaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SigaaError';
+  }
+}
+
+/**
+ * Thrown when the session expired, login again to continue.
+ * @category Public
+ */
+export class SigaaSessionExpiredError extends SigaaError {
+  constructor(message = 'SIGAA: Session expired.') {
+    super(message);
+    this.name = 'SigaaSessionExpiredError';
+  }
+}
+
+/**
+ * Thrown to the requests that are still waiting when the session is closed.
+ * @category Public
+ */
+export class SigaaSessionClosedError extends SigaaError {
+  constructor(message = 'SIGAA: Session closed.') {
+    super(message);
+    this.name = 'SigaaSessionClosedError';
+  }
+}
+
+/**
+ * Thrown when SIGAA rejects the username or the password.
+ * @category Public
+ */
+export class SigaaInvalidCredentialsError extends SigaaError {
+  constructor(message = 'SIGAA: Invalid credentials.') {
+    super(message);
+    this.name = 'SigaaInvalidCredentialsError';
+  }
+}
+
+/**
+ * @category Public
+ */
+export interface SigaaParseErrorOptions {
+  /**
+   * URL of the page that could not be parsed.
+   */
+  url?: URL | string;
+  /**
+   * Selector that did not match the expected element.
+   */
+  selector?: string;
+}
+
+/**
+ * Thrown when a page has a format different than expected,
+ * it may be that SIGAA has changed or the page is of an unsupported variant.
+ * @category Public
+ */
+export class SigaaParseError extends SigaaError {
+  readonly url?: string;
+  readonly selector?: string;
+
+  constructor(message: string, options: SigaaParseErrorOptions = {}) {
+    super(message);
+    this.name = 'SigaaParseError';
+    this.url = options.url?.toString();
+    this.selector = options.selector;
+  }
+}
+
+/**
+ * Thrown when the request fails before SIGAA responds.
+ * @category Public
+ */
+export class SigaaNetworkError extends SigaaError {
+  /**
+   * Error code of Node.js, like ECONNRESET.
+   */
+  readonly code?: string;
+
+  constructor(readonly cause: Error) {
+    super(`SIGAA: Network error: ${cause.message}`);
+    this.name = 'SigaaNetworkError';
+    this.code = (cause as NodeJS.ErrnoException).code;
+  }
+}
+
+/**
+ * Thrown when the user is not allowed to access the page or do the action.
+ * @category Public
+ */
+export class SigaaPermissionError extends SigaaError {
+  constructor(message = 'SIGAA: Permission denied.') {
+    super(message);
+    this.name = 'SigaaPermissionError';
+  }
+}
+
+/**
+ * Thrown when the institution is detected by the url and no registered profile matches the SIGAA login page.
+ * @category Public
+ */
+export class SigaaUnsupportedVariantError extends SigaaError {
+  /**
+   * Differences found between the login page and each profile, by institution.
+   */
+  readonly differences: Record<string, string[]>;
+
+  constructor(url: URL | string, differences: Record<string, string[]>) {
+    const lines = Object.entries(differences).map(
+      ([institution, items]) => `- ${institution}: ${items.join('; ')}`
+    );
+    super(
+      `SIGAA: Unsupported SIGAA variant at ${url.toString()}, differences from each institution:\n${lines.join(
+        '\n'
+      )}`
+    );
+    this.name = 'SigaaUnsupportedVariantError';
+    this.differences = differences;
+  }
+}
+
+/**
+ * Thrown when the institution is detected by the url and more than one registered profile matches the SIGAA,
+ * the institution must be informed.
+ * @category Public
+ */
+export class SigaaAmbiguousVariantError extends SigaaError {
+  /**
+   * Institutions of the profiles that match.
+   */
+  readonly institutions: string[];
+
+  constructor(url: URL | string, institutions: string[]) {
+    super(
+      `SIGAA: Ambiguous SIGAA variant at ${url.toString()}, it matches ${institutions.join(
+        ', '
+      )}. Inform the institution.`
+    );
+    this.name = 'SigaaAmbiguousVariantError';
+    this.institutions = institutions;
+  }
+}
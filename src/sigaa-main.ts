@@ -1,19 +1,30 @@
 import { Account } from '@account/sigaa-account';
 import { BondFactory, SigaaBondFactory } from '@bonds/sigaa-bond-factory';
 import { Parser, SigaaParser } from '@helpers/sigaa-parser';
+import { ScheduleTimeGrid } from '@helpers/sigaa-schedule-parser';
 import { FileData, SigaaFile } from '@resources/sigaa-file';
 import { SigaaSearch } from '@search/sigaa-search';
 import { HTTPSession, SigaaHTTPSession } from '@session/sigaa-http-session';
 import { HTTP } from '@session/sigaa-http';
 import { HTTPFactory, SigaaHTTPFactory } from '@session/sigaa-http-factory';
-import { Login } from '@session/login/sigaa-login';
-import { SigaaLoginIFSC } from '@session/login/sigaa-login-ifsc';
-import { SigaaLoginUFPB } from '@session/login/sigaa-login-ufpb';
-import { SigaaLoginUNILAB } from '@session/login/sigaa-login-unilab';
-import { Session, SigaaSession } from '@session/sigaa-session';
+import { Login, SigaaLogin } from '@session/login/sigaa-login';
+import { Session, SessionState, SigaaSession } from '@session/sigaa-session';
 import { SigaaCookiesController } from '@session/sigaa-cookies-controller';
 import { SigaaPageCacheWithBond } from '@session/sigaa-page-cache-with-bond';
-import { SigaaPageCacheFactory } from '@session/sigaa-page-cache-factory';
+import {
+  CredentialsProvider,
+  SigaaReauthenticator
+} from '@session/sigaa-reauthenticator';
+import { RetryPolicy } from '@session/sigaa-retry-policy';
+import {
+  HTTPFixturesOptions,
+  SigaaRecorderHTTPSession,
+  SigaaReplayHTTPSession
+} from '@session/sigaa-http-session-fixtures';
+import {
+  PageCacheFactory,
+  SigaaPageCacheFactory
+} from '@session/sigaa-page-cache-factory';
 
 import {
   AccountFactory,
@@ -44,17 +55,24 @@ import { RequestStackController } from '@helpers/sigaa-request-stack';
 import { Request } from '@session/sigaa-http-session';
 import { CookiesController } from '@session/sigaa-cookies-controller';
 import { SigaaRequestStack } from '@helpers/sigaa-request-stack';
-import { SigaaLoginUNB } from '@session/login/sigaa-login-unb';
+import { RequestLimitOptions } from '@helpers/sigaa-request-limiter';
 import {
   InstitutionType,
-  SigaaInstitutionController,
-  SigaaLoginInstitutionMap
+  SigaaInstitutionController
 } from '@session/sigaa-institution-controller';
+import { institutionRegistry } from '@session/sigaa-institution-registry';
+import { SigaaInstitutionDetector } from '@session/sigaa-institution-detector';
 import {
   ActivityFactory,
   SigaaActivityFactory
 } from '@activity/sigaa-activity-factory';
 import { Page } from '@session/sigaa-page';
+import { LoginStatus } from './sigaa-types';
+import {
+  SigaaError,
+  SigaaSessionExpiredError,
+  SigaaPermissionError
+} from './sigaa-errors';
 
 /**
  * @category Internal
@@ -63,12 +81,49 @@ interface SigaaCommonConstructorOptions {
   login?: Login;
   parser?: Parser;
   session?: Session;
+  /**
+   * Time of each class slot, used to parse the course schedule.
+   * The default is the time grid of the institution.
+   */
+  timeGrid?: ScheduleTimeGrid;
 }
 interface SigaaConstructorURL {
   url: string;
   bondController?: BondController;
   cookiesController?: CookiesController;
   requestStackController?: RequestStackController<Request, Page>;
+  /**
+   * Session saved with exportSession(), use resumeSession() to get the account.
+   * The institution and the url must be the same of the saved session.
+   * If all cookies of the saved session expired, the session is restored as unauthenticated
+   * and resumeSession() throws SigaaSessionExpiredError.
+   */
+  sessionState?: SessionState;
+  /**
+   * Factory of the page caches, like SigaaFilePageCacheFactory to keep the pages between process restarts.
+   */
+  pageCacheFactory?: PageCacheFactory;
+  /**
+   * If informed, the session logs in again when it expires, using the returned credentials.
+   * The previous bond is selected again and the failed request is replayed.
+   */
+  credentials?: CredentialsProvider;
+  /**
+   * Policy of the retries of failed requests, like SigaaRetryPolicy with custom options.
+   * Default is SigaaRetryPolicy with the default options.
+   */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Requests per second and max requests at the same time.
+   * Default is the limit of the institution profile (the built-in profiles have no limit),
+   * it is ignored if requestStackController is informed.
+   */
+  requestLimits?: RequestLimitOptions;
+  /**
+   * Records the requests and responses in the directory, or replays them without network access.
+   * The recorded fixtures have the cookies and passwords redacted.
+   */
+  httpFixtures?: HTTPFixturesOptions & { mode: 'record' | 'replay' };
 }
 
 interface WithAccountFactory {
@@ -107,7 +162,13 @@ interface SigaaConstructorHTTP {
  */
 export type SigaaOptionsConstructor = SigaaCommonConstructorOptions &
   XOR<
-    { institution: InstitutionType; url: string },
+    {
+      /**
+       * If not informed, the institution is detected by the login page on the first login.
+       */
+      institution?: InstitutionType;
+      url: string;
+    },
     { session: Session; httpSession: HTTPSession }
   > &
   XOR<SigaaConstructorURL, SigaaConstructorHTTP> &
@@ -159,8 +220,31 @@ export class Sigaa {
    */
   private http: HTTP;
 
+  /**
+   * Controllers used to export the session and to reauthenticate, undefined if the instance was created with httpFactory.
+   */
+  private sessionControllers?: {
+    url: URL;
+    /**
+     * Request stack created without limits because the institution is not known yet,
+     * the limits of the institution are applied when it is detected.
+     */
+    requestStackToLimit?: SigaaRequestStack<Request, Page>;
+    institutionController: SigaaInstitutionController;
+    cookiesController: CookiesController;
+    bondController: BondController;
+    httpSession: SigaaHTTPSession;
+  };
+
+  /**
+   * True if the session was restored with sessionState, but all its cookies expired.
+   */
+  private isRestoredSessionExpired = false;
+
   constructor(options: SigaaOptionsConstructor) {
-    const pageCacheFactory = new SigaaPageCacheFactory();
+    const pageCacheFactory =
+      ('pageCacheFactory' in options && options.pageCacheFactory) ||
+      new SigaaPageCacheFactory();
     const pageCache = new SigaaPageCacheWithBond(pageCacheFactory);
 
     if ('parser' in options && options.parser) {
@@ -169,18 +253,19 @@ export class Sigaa {
       this.parser = new SigaaParser();
     }
 
+    const institution =
+      options.institution ||
+      ('sessionState' in options && options.sessionState
+        ? options.sessionState.institution
+        : undefined);
+
     if ('session' in options && options.session) {
       this.session = options.session;
     } else {
-      this.session = new SigaaSession(options.institution);
+      this.session = new SigaaSession(institution);
     }
 
-    if (
-      'url' in options &&
-      options.url &&
-      'institution' in options &&
-      options.institution
-    ) {
+    if ('url' in options && options.url) {
       let cookiesController: CookiesController;
 
       if ('cookiesController' in options && options.cookiesController) {
@@ -190,6 +275,7 @@ export class Sigaa {
       }
 
       let requestStackController: RequestStackController<Request, Page>;
+      let requestStackToLimit: SigaaRequestStack<Request, Page> | undefined;
 
       if (
         'requestStackController' in options &&
@@ -197,18 +283,45 @@ export class Sigaa {
       ) {
         requestStackController = options.requestStackController;
       } else {
-        requestStackController = new SigaaRequestStack<Request, Page>();
+        const requestStack = new SigaaRequestStack<Request, Page>(
+          options.requestLimits ||
+            (institution
+              ? institutionRegistry.getProfile(institution).requestLimits
+              : undefined)
+        );
+        if (!options.requestLimits && !institution)
+          requestStackToLimit = requestStack;
+        requestStackController = requestStack;
       }
       const institutionController = new SigaaInstitutionController(
-        options.institution,
+        institution,
         options.url
       );
-      this.httpSession = new SigaaHTTPSession(
-        institutionController,
-        cookiesController,
-        pageCache,
-        requestStackController
-      );
+      const { httpFixtures } = options;
+      let httpSession: SigaaHTTPSession;
+      if (httpFixtures) {
+        const SigaaFixturesHTTPSession =
+          httpFixtures.mode === 'record'
+            ? SigaaRecorderHTTPSession
+            : SigaaReplayHTTPSession;
+        httpSession = new SigaaFixturesHTTPSession(
+          httpFixtures,
+          institutionController,
+          cookiesController,
+          pageCache,
+          requestStackController,
+          options.retryPolicy
+        );
+      } else {
+        httpSession = new SigaaHTTPSession(
+          institutionController,
+          cookiesController,
+          pageCache,
+          requestStackController,
+          options.retryPolicy
+        );
+      }
+      this.httpSession = httpSession;
 
       const bondController =
         options.bondController || new SigaaBondController();
@@ -218,21 +331,71 @@ export class Sigaa {
         pageCache,
         bondController
       );
+
+      this.sessionControllers = {
+        url: institutionController.url,
+        requestStackToLimit,
+        institutionController,
+        cookiesController,
+        bondController,
+        httpSession
+      };
+
+      if (options.sessionState) {
+        const { sessionState } = options;
+        const { origin, hostname } = institutionController.url;
+        if (
+          sessionState.institution !== institution ||
+          new URL(sessionState.url).origin !== origin
+        )
+          throw new SigaaError(
+            'SIGAA: The saved session is from another institution or url.'
+          );
+        if (!cookiesController.importCookies)
+          throw new SigaaError(
+            'SIGAA: The cookies controller cannot import the saved session.'
+          );
+        const bondSwitchUrls = sessionState.bondSwitchUrls.map(
+          (bondSwitchUrl) => new URL(bondSwitchUrl)
+        );
+        const currentBond = sessionState.currentBond
+          ? new URL(sessionState.currentBond)
+          : null;
+        if (
+          [...bondSwitchUrls, currentBond].some(
+            (bondUrl) => bondUrl && bondUrl.origin !== origin
+          )
+        )
+          throw new SigaaError('SIGAA: The saved session has invalid bonds.');
+        cookiesController.importCookies(sessionState.cookies);
+        // The expired cookies are not imported, without cookies the saved login is stale
+        this.isRestoredSessionExpired =
+          sessionState.loginStatus === LoginStatus.Authenticated &&
+          !cookiesController.getCookieHeader(hostname, '/sigaa/');
+        this.session.loginStatus = this.isRestoredSessionExpired
+          ? LoginStatus.Unauthenticated
+          : sessionState.loginStatus;
+        for (const bondSwitchUrl of bondSwitchUrls) {
+          bondController.addBondSwitchUrl?.(bondSwitchUrl);
+        }
+        bondController.currentBond = currentBond;
+        pageCache.setCurrentBond(currentBond);
+      }
     } else {
       if ('institution' in options && options.institution) {
-        throw new Error('SIGAA: Institution must be informed.');
+        throw new SigaaError('SIGAA: Institution must be informed.');
       }
       if ('httpFactory' in options && options.httpFactory) {
         this.httpFactory = options.httpFactory;
       } else {
-        throw new Error(
+        throw new SigaaError(
           'SIGAA: Invalid httpFactory. It may be that you have forgotten the URL'
         );
       }
       if ('httpSession' in options && options.httpSession) {
         this.httpSession = options.httpSession;
       } else {
-        throw new Error('SIGAA: Invalid httpSession.');
+        throw new SigaaError('SIGAA: Invalid httpSession.');
       }
     }
 
@@ -304,7 +467,9 @@ export class Sigaa {
           this.httpFactory,
           this.parser,
           courseFactory,
-          activityFactory
+          activityFactory,
+          this.session,
+          options.timeGrid
         );
       }
       this.accountFactory = new SigaaAccountFactory(
@@ -314,25 +479,69 @@ export class Sigaa {
         bondFactory
       );
     }
-    const SigaaLoginInstitution: SigaaLoginInstitutionMap = {
-      IFSC: SigaaLoginIFSC,
-      UFPB: SigaaLoginUFPB,
-      UNB: SigaaLoginUNB,
-      UNILAB: SigaaLoginUNILAB
-    };
-    const institution = options.institution ?? 'IFSC';
-    this.loginInstance = new SigaaLoginInstitution[institution](
-      this.http,
-      this.session
-    );
+    this.loginInstance = new SigaaLogin(this.http, this.session);
+
+    if (
+      'credentials' in options &&
+      options.credentials &&
+      this.sessionControllers
+    ) {
+      const { httpSession, bondController } = this.sessionControllers;
+      httpSession.reauthenticator = new SigaaReauthenticator(
+        this.http,
+        this.session,
+        this.loginInstance,
+        bondController,
+        pageCache,
+        options.credentials
+      );
+    }
+  }
+
+  /**
+   * Promise of the institution detection, to detect it only once.
+   */
+  private institutionDetection?: Promise<InstitutionType>;
+
+  /**
+   * Detects the institution by the login page, if the instance was created with url and without institution.
+   * It is called by login(), the pages are compared with the profiles of institutionRegistry.
+   * @throws {SigaaUnsupportedVariantError} If no profile matches the login page.
+   * @throws {SigaaAmbiguousVariantError} If more than one profile matches and the hostname does not have the institution.
+   */
+  async detectInstitution(): Promise<InstitutionType> {
+    if (
+      !this.sessionControllers ||
+      this.sessionControllers.institutionController.hasInstitution
+    )
+      return this.session.institution;
+    const { institutionController, requestStackToLimit } =
+      this.sessionControllers;
+    if (!this.institutionDetection) {
+      this.institutionDetection = new SigaaInstitutionDetector(this.http)
+        .detect(institutionController.url)
+        .then((profile) => {
+          institutionController.institution = profile.institution;
+          this.session.institution = profile.institution;
+          if (requestStackToLimit)
+            requestStackToLimit.setLimits(profile.requestLimits || {});
+          return profile.institution;
+        })
+        .finally(() => {
+          this.institutionDetection = undefined;
+        });
+    }
+    return this.institutionDetection;
   }
 
   /**
    * User authentication.
    * @param username
    * @param password
+   * @throws {SigaaUnsupportedVariantError} If the institution was not informed and no profile matches the login page.
    */
   async login(username: string, password: string): Promise<Account> {
+    await this.detectInstitution();
     const page = await this.loginInstance.login(username, password);
     try {
       return await this.accountFactory.getAccount(page);
@@ -345,6 +554,72 @@ export class Sigaa {
     }
   }
 
+  /**
+   * Exports the session to save it, the session can be restored with the sessionState option.
+   * The cookies give access to the account, store the session safely.
+   */
+  exportSession(): SessionState {
+    if (!this.sessionControllers)
+      throw new SigaaError(
+        'SIGAA: The session can only be exported if the instance was created with url.'
+      );
+    const { url, cookiesController, bondController } = this.sessionControllers;
+    if (!cookiesController.exportCookies)
+      throw new SigaaError(
+        'SIGAA: The cookies controller cannot export the session.'
+      );
+    return {
+      institution: this.session.institution,
+      url: url.href,
+      loginStatus: this.session.loginStatus,
+      cookies: cookiesController.exportCookies(),
+      currentBond: bondController.currentBond
+        ? bondController.currentBond.href
+        : null,
+      bondSwitchUrls: (bondController.bondSwitchUrls || []).map(
+        (bondSwitchUrl) => bondSwitchUrl.href
+      )
+    };
+  }
+
+  /**
+   * Verifies if the restored session is still valid, with one request, and returns the account.
+   * If the session expired, the session is cleared and login() can be used.
+   * @throws {SigaaSessionExpiredError} If the session expired.
+   */
+  async resumeSession(): Promise<Account> {
+    if (
+      this.session.loginStatus !== LoginStatus.Authenticated &&
+      this.isRestoredSessionExpired
+    )
+      throw new SigaaSessionExpiredError();
+    if (this.session.loginStatus !== LoginStatus.Authenticated)
+      throw new SigaaPermissionError(
+        'SIGAA: The session is not authenticated.'
+      );
+    try {
+      const page = await this.http.followAllRedirect(
+        await this.http.get('/sigaa/vinculos.jsf', { noCache: true }),
+        { noCache: true }
+      );
+      const { login } = institutionRegistry.getProfile(
+        this.session.institution
+      );
+      if (
+        page.url.pathname === login.path ||
+        page.bodyDecoded.includes(login.loginPageMarker)
+      )
+        throw new SigaaSessionExpiredError();
+      return await this.accountFactory.getAccount(page);
+    } catch (err) {
+      if (err instanceof SigaaSessionExpiredError) {
+        this.session.loginStatus = LoginStatus.Unauthenticated;
+        this.httpSession.close();
+      }
+      throw err;
+    }
+  }
+
   /**
    * Load file to download.
    * @param options
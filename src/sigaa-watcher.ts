@@ -0,0 +1,368 @@
+import { EventEmitter } from 'events';
+import { runWithRequestPriority } from '@helpers/sigaa-request-priority';
+import { Account } from '@account/sigaa-account';
+import { Activity } from '@activity/sigaa-activity-factory';
+import { StudentBond } from '@bonds/sigaa-student-bond';
+import { AbsenceList } from '@courseResources/sigaa-absence-list-student';
+import { CourseStudent } from '@courses/sigaa-course-student';
+import {
+  CourseChange,
+  CourseSnapshot,
+  CourseSnapshotList,
+  CourseSnapshotter,
+  SigaaCourseSnapshotter
+} from '@courses/sigaa-course-snapshot';
+import { SigaaError, SigaaSessionExpiredError } from './sigaa-errors';
+
+/**
+ * Resources that the watcher can poll.
+ * @category Public
+ */
+export type WatcherResource =
+  | 'grade'
+  | 'news'
+  | 'lesson'
+  | 'file'
+  | 'homework'
+  | 'activity'
+  | 'absence';
+
+/**
+ * Listeners of each watcher event.
+ * @category Public
+ */
+export interface WatcherEvents {
+  grade: (change: CourseChange, course: CourseStudent) => void;
+  news: (change: CourseChange, course: CourseStudent) => void;
+  lesson: (change: CourseChange, course: CourseStudent) => void;
+  file: (change: CourseChange, course: CourseStudent) => void;
+  homework: (change: CourseChange, course: CourseStudent) => void;
+  /**
+   * New activity in the bond activity list.
+   */
+  activity: (activity: Activity, bond: StudentBond) => void;
+  /**
+   * The total of absences of the course changed.
+   */
+  absence: (
+    absenceList: AbsenceList,
+    course: CourseStudent,
+    previousTotalAbsences: number
+  ) => void;
+  /**
+   * Emitted after the login made because the session expired.
+   */
+  relogin: (account: Account) => void;
+  /**
+   * Error of a poll, including the error of the login made because the session expired.
+   * The watcher keeps polling after the errors, a listener is required to start it.
+   */
+  error: (err: Error, resource: WatcherResource) => void;
+  close: () => void;
+}
+
+/**
+ * @category Public
+ */
+export interface WatcherOptions {
+  /**
+   * Resources to poll, default is all.
+   */
+  resources?: WatcherResource[];
+  /**
+   * Interval between polls in milliseconds, default is 15 minutes.
+   * It can be a number for all resources or an object with the interval of each resource.
+   */
+  interval?: number | Partial<Record<WatcherResource, number>>;
+  /**
+   * Random variation of the interval, 0.1 is ±10%. Default is 0.1.
+   */
+  jitter?: number;
+  /**
+   * Called when the session expires, it must login again and return the new account.
+   * Without it, the session expired error is emitted as an error event.
+   */
+  login?: () => Promise<Account>;
+  /**
+   * Load the content of each news to detect edited news, default is true.
+   */
+  newsContent?: boolean;
+  snapshotter?: CourseSnapshotter;
+}
+
+/**
+ * Polls the bond resources and emits an event for each change.
+ * The first poll of each resource only stores the current state.
+ * @category Public
+ */
+export interface Watcher {
+  on<E extends keyof WatcherEvents>(event: E, listener: WatcherEvents[E]): this;
+  once<E extends keyof WatcherEvents>(
+    event: E,
+    listener: WatcherEvents[E]
+  ): this;
+  off<E extends keyof WatcherEvents>(
+    event: E,
+    listener: WatcherEvents[E]
+  ): this;
+
+  /**
+   * Starts the polling, the listeners must be added before it.
+   * @throws {SigaaError} If there is no error listener.
+   */
+  start(): void;
+
+  /**
+   * Stops the polling, the poll that is running is finished without emitting events.
+   */
+  close(): void;
+}
+
+/**
+ * Polls the resources one at a time, so the watcher never adds more than
+ * one request to the request stack at a time.
+ * The polling starts when start() is called.
+ * @category Public
+ */
+export class SigaaWatcher extends EventEmitter implements Watcher {
+  private resources: WatcherResource[];
+  private jitter: number;
+  private snapshotter: CourseSnapshotter;
+  private timers: Partial<Record<WatcherResource, NodeJS.Timeout>> = {};
+  private isClosed = true;
+
+  /**
+   * Queue of polls, each poll waits the previous one.
+   */
+  private pollQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Snapshots indexed by resource, registration and course id.
+   */
+  private snapshots: Record<string, CourseSnapshot> = {};
+
+  /**
+   * Activity keys indexed by registration.
+   */
+  private activityKeys: Record<string, string[]> = {};
+
+  /**
+   * Total of absences indexed by registration and course id.
+   */
+  private totalAbsences: Record<string, number> = {};
+
+  private defaultInterval = 15 * 60 * 1000;
+
+  private snapshotLists: Record<string, CourseSnapshotList> = {
+    grade: 'grades',
+    news: 'news',
+    lesson: 'lessons',
+    file: 'files',
+    homework: 'homework'
+  };
+
+  /**
+   * @param target account, all active student bonds are polled, or the student bond.
+   * @param options
+   */
+  constructor(
+    private target: Account | StudentBond,
+    private options: WatcherOptions = {}
+  ) {
+    super();
+    this.resources = options.resources || [
+      'grade',
+      'news',
+      'lesson',
+      'file',
+      'homework',
+      'activity',
+      'absence'
+    ];
+    this.jitter = options.jitter ?? 0.1;
+    if (this.jitter < 0 || this.jitter >= 1)
+      throw new SigaaError('SIGAA: Watcher jitter must be between 0 and 1.');
+    this.snapshotter = options.snapshotter || new SigaaCourseSnapshotter();
+  }
+
+  /**
+   * @inheritdoc
+   */
+  start(): void {
+    if (!this.isClosed) return;
+    // Without a listener the errors of the polls would be lost
+    if (this.listenerCount('error') === 0)
+      throw new SigaaError(
+        'SIGAA: The watcher needs an error listener before it starts.'
+      );
+    this.isClosed = false;
+    for (const resource of this.resources) {
+      this.enqueuePoll(resource);
+    }
+  }
+
+  /**
+   * @inheritdoc
+   */
+  close(): void {
+    if (this.isClosed) return;
+    this.isClosed = true;
+    for (const timer of Object.values(this.timers)) {
+      if (timer) clearTimeout(timer);
+    }
+    this.timers = {};
+    this.emit('close');
+  }
+
+  /**
+   * Returns the interval of the resource with the jitter.
+   */
+  private getInterval(resource: WatcherResource): number {
+    const { interval } = this.options;
+    const baseInterval =
+      typeof interval === 'number'
+        ? interval
+        : (interval && interval[resource]) || this.defaultInterval;
+    return baseInterval * (1 + (Math.random() * 2 - 1) * this.jitter);
+  }
+
+  /**
+   * Adds the poll to the queue and schedules the next poll when it finishes.
+   * If the error listener was removed after start(), the errors are ignored so they never stop the queue.
+   */
+  private enqueuePoll(resource: WatcherResource): void {
+    this.pollQueue = this.pollQueue.then(async () => {
+      if (this.isClosed) return;
+      try {
+        // The polls must not delay the other requests of the application
+        await runWithRequestPriority('low', () => this.pollWithLogin(resource));
+      } catch (err) {
+        if (!this.isClosed && this.listenerCount('error') > 0)
+          this.emit('error', err, resource);
+      }
+      if (this.isClosed) return;
+      this.timers[resource] = setTimeout(
+        () => this.enqueuePoll(resource),
+        this.getInterval(resource)
+      );
+    });
+  }
+
+  /**
+   * Polls the resource, if the session expired, login and poll again.
+   */
+  private async pollWithLogin(resource: WatcherResource): Promise<void> {
+    try {
+      await this.poll(resource);
+    } catch (err) {
+      if (!this.options.login || !(err instanceof SigaaSessionExpiredError))
+        throw err;
+      const account = await this.options.login();
+      if ('type' in this.target) {
+        const registration = this.target.registration;
+        const bond = (await account.getActiveBonds()).find(
+          (bond) =>
+            bond.type === 'student' && bond.registration === registration
+        );
+        if (!bond || bond.type !== 'student')
+          throw new SigaaError(
+            `SIGAA: Bond ${registration} not found after the login.`
+          );
+        this.target = bond;
+      } else {
+        this.target = account;
+      }
+      this.emit('relogin', account);
+      await this.poll(resource);
+    }
+  }
+
+  private async getBonds(): Promise<StudentBond[]> {
+    if ('type' in this.target) return [this.target];
+    const bonds = await this.target.getActiveBonds();
+    return bonds.filter((bond): bond is StudentBond => bond.type === 'student');
+  }
+
+  private async poll(resource: WatcherResource): Promise<void> {
+    for (const bond of await this.getBonds()) {
+      if (resource === 'activity') {
+        await this.pollActivities(bond);
+      } else if (resource === 'absence') {
+        await this.pollAbsences(bond);
+      } else {
+        await this.pollCourses(bond, resource);
+      }
+    }
+  }
+
+  private async pollCourses(
+    bond: StudentBond,
+    resource: WatcherResource
+  ): Promise<void> {
+    const list = this.snapshotLists[resource];
+    for (const course of await bond.getCourses()) {
+      const snapshot = await this.snapshotter.takeSnapshot(course, {
+        include: [list],
+        newsContent: this.options.newsContent
+      });
+      if (this.isClosed) return;
+      const key = `${resource}|${bond.registration}|${course.id}`;
+      const previous = this.snapshots[key];
+      this.snapshots[key] = snapshot;
+      if (!previous) continue;
+      for (const change of this.snapshotter.diff(previous, snapshot)) {
+        this.emit(resource, change, course);
+      }
+    }
+  }
+
+  /**
+   * Key of the activity, it does not change between polls.
+   */
+  private getActivityKey(activity: Activity): string {
+    let title: string;
+    switch (activity.type) {
+      case 'homework':
+        title = activity.homeworkTitle;
+        break;
+      case 'quiz':
+        title = activity.quizTitle;
+        break;
+      case 'exam':
+        title = activity.examDescription;
+        break;
+    }
+    return `${activity.type}|${
+      activity.courseTitle
+    }|${title}|${activity.date.valueOf()}`;
+  }
+
+  private async pollActivities(bond: StudentBond): Promise<void> {
+    const activities = await bond.getActivities();
+    if (this.isClosed) return;
+    const previousKeys = this.activityKeys[bond.registration];
+    this.activityKeys[bond.registration] = activities.map((activity) =>
+      this.getActivityKey(activity)
+    );
+    if (!previousKeys) return;
+    for (const activity of activities) {
+      if (!previousKeys.includes(this.getActivityKey(activity)))
+        this.emit('activity', activity, bond);
+    }
+  }
+
+  private async pollAbsences(bond: StudentBond): Promise<void> {
+    for (const course of await bond.getCourses()) {
+      const absenceList = await course.getAbsence();
+      if (this.isClosed) return;
+      const key = `${bond.registration}|${course.id}`;
+      const previousTotalAbsences = this.totalAbsences[key];
+      this.totalAbsences[key] = absenceList.totalAbsences;
+      if (
+        previousTotalAbsences !== undefined &&
+        previousTotalAbsences !== absenceList.totalAbsences
+      )
+        this.emit('absence', absenceList, course, previousTotalAbsences);
+    }
+  }
+}
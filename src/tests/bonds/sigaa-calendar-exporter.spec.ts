@@ -0,0 +1,152 @@
+import { SigaaCalendarExporter } from '@bonds/sigaa-calendar-exporter';
+import { StudentBond } from '@bonds/sigaa-student-bond';
+
+const createBond = (): StudentBond =>
+  ({
+    registration: '2020100001',
+    getTimetable: async () => [
+      {
+        weekday: 1,
+        shift: 'morning',
+        slots: [1, 2],
+        startTime: '07:30',
+        endTime: '09:20',
+        courseTitle: 'CÁLCULO I',
+        classLocal: 'Sala 10, Bloco A'
+      }
+    ],
+    getCourses: async () => [
+      {
+        id: '1234',
+        title: 'CÁLCULO I',
+        period: '2021.1',
+        getExamCalendar: async () => [
+          { description: 'Prova 1', date: new Date(2021, 2, 17) }
+        ],
+        getSyllabus: async () => ({
+          schedule: [],
+          evaluations: [
+            { description: 'Prova 1', date: new Date(2021, 2, 17) },
+            { description: 'Prova 2' }
+          ]
+        })
+      }
+    ],
+    getActivities: async () => [
+      {
+        type: 'homework',
+        homeworkTitle: 'Lista 1',
+        courseTitle: 'CÁLCULO I',
+        date: new Date(2021, 2, 20, 23, 59),
+        done: false
+      }
+    ]
+  } as unknown as StudentBond);
+
+test('if calendar exporter creates the events', async () => {
+  const exporter = new SigaaCalendarExporter();
+  const calendar = await exporter.exportStudentBond(createBond(), {
+    startDate: new Date(2021, 2, 10),
+    endDate: new Date(2021, 5, 30)
+  });
+  const lines = calendar.split('\r\n');
+  expect(lines[0]).toBe('BEGIN:VCALENDAR');
+  expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(3);
+  expect(lines).toContain('DTSTART:20210315T073000');
+  expect(lines).toContain('DTEND:20210315T092000');
+  expect(lines).toContain('RRULE:FREQ=WEEKLY;UNTIL=20210630T235959');
+  expect(lines).toContain('LOCATION:Sala 10\\, Bloco A');
+  expect(lines).toContain('DTSTART;VALUE=DATE:20210317');
+  expect(lines).toContain('DTSTART:20210320T235900');
+});
+
+test('if calendar exporter keeps the uids between exports', async () => {
+  const exporter = new SigaaCalendarExporter();
+  const getUIDs = async (startDate: Date) =>
+    (await exporter.exportStudentBond(createBond(), { startDate }))
+      .split('\r\n')
+      .filter((line) => line.startsWith('UID:'));
+  expect(await getUIDs(new Date(2021, 2, 10))).toStrictEqual(
+    await getUIDs(new Date(2021, 3, 10))
+  );
+});
+
+test('if calendar exporter folds long lines', async () => {
+  const exporter = new SigaaCalendarExporter();
+  const bond = createBond();
+  bond.getTimetable = async () => [];
+  bond.getActivities = async () => [];
+  const calendar = await exporter.exportStudentBond(bond, {
+    calendarName: 'Ç'.repeat(100)
+  });
+  for (const line of calendar.split('\r\n')) {
+    expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+  }
+  expect(calendar).toContain('\r\n ');
+});
+
+test('if calendar exporter gives each exam an unique uid and removes the syllabus exams of the exam calendar', async () => {
+  const exporter = new SigaaCalendarExporter();
+  const bond = createBond();
+  bond.getTimetable = async () => [];
+  bond.getActivities = async () => [];
+  const [course] = await bond.getCourses();
+  course.getExamCalendar = async () => [
+    { description: 'Prova', date: new Date(2021, 2, 17) },
+    { description: 'Prova', date: new Date(2021, 4, 12) }
+  ];
+  course.getSyllabus = async () => ({
+    schedule: [],
+    evaluations: [
+      { description: 'Avaliação 1', date: new Date(2021, 2, 17) },
+      { description: 'Seminário', date: new Date(2021, 5, 2) }
+    ],
+    basicReferences: [],
+    supplementaryReferences: []
+  });
+  bond.getCourses = async () => [course];
+  const lines = (
+    await exporter.exportStudentBond(bond, {
+      startDate: new Date(2021, 2, 10)
+    })
+  ).split('\r\n');
+  const uids = lines.filter((line) => line.startsWith('UID:'));
+  expect(uids).toHaveLength(3);
+  expect(new Set(uids).size).toBe(3);
+  expect(lines.filter((line) => line.startsWith('SUMMARY:'))).toEqual([
+    'SUMMARY:Prova - CÁLCULO I',
+    'SUMMARY:Prova - CÁLCULO I',
+    'SUMMARY:Seminário - CÁLCULO I'
+  ]);
+});
+
+test('if calendar exporter starts the classes at the start of the period', async () => {
+  const exporter = new SigaaCalendarExporter();
+  const bond = createBond();
+  const [course] = await bond.getCourses();
+  course.getSyllabus = async () => ({
+    schedule: [
+      {
+        description: 'Limites',
+        startDate: new Date(2021, 2, 11),
+        endDate: new Date(2021, 2, 12)
+      },
+      { description: 'Derivadas', startDate: new Date(2021, 2, 4) }
+    ],
+    evaluations: [],
+    basicReferences: [],
+    supplementaryReferences: []
+  });
+  bond.getCourses = async () => [course];
+  const calendar = await exporter.exportStudentBond(bond);
+  expect(calendar.split('\r\n')).toContain('DTSTART:20210308T073000');
+
+  // Without dates in the syllabus, the first day of the semester 2021.1
+  const exportWithoutTimestamp = async () =>
+    (await exporter.exportStudentBond(createBond()))
+      .split('\r\n')
+      .filter((line) => !line.startsWith('DTSTAMP:'));
+  const lines = await exportWithoutTimestamp();
+  expect(lines).toContain('DTSTART:20210104T073000');
+  expect(await exportWithoutTimestamp()).toEqual(lines);
+});
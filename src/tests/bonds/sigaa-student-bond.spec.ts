@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parse } from 'querystring';
+import { SigaaHTTPSession } from '@session/sigaa-http-session';
+import { HTTPRequestOptions, HTTPResponse } from '@session/sigaa-http';
+import { institutionRegistry } from '@session/sigaa-institution-registry';
+import { SigaaParser } from '@helpers/sigaa-parser';
+import { SigaaScheduleParser } from '@helpers/sigaa-schedule-parser';
+import { SigaaStudentBond } from '@bonds/sigaa-student-bond';
+import { SigaaTranscriptParser } from '@bonds/sigaa-transcript';
+import { SigaaActivityFactory } from '@activity/sigaa-activity-factory';
+import { SigaaCourseFactory } from '@courses/sigaa-course-student-factory';
+import { SigaaCourseResourceManagerFactory } from '@courses/sigaa-course-resources-manager-factory';
+import { SigaaCourseResourcesFactory } from '@courses/sigaa-course-resources-factory';
+import { SigaaLessonParserFactory } from '@courses/sigaa-lesson-parser-factory';
+import { SigaaParseError } from '../../sigaa-errors';
+import {
+  createHTTPSession,
+  createResponse,
+  FakeSigaaHTTP
+} from '../sigaa-fake-http';
+
+const portalPath = '/sigaa/portais/discente/discente.jsf';
+
+/**
+ * Student portal with the JSCook menu, the action of each item is in the script.
+ */
+const portalPage = (menuItems: string[]) => `<html><body>
+<form id="menu:form_menu_discente" action="${portalPath}" method="post">
+<input type="hidden" name="menu:form_menu_discente" value="menu:form_menu_discente">
+<input type="hidden" name="javax.faces.ViewState" value="j_id2">
+</form>
+<script type="text/javascript">
+var menuDiscente = [${menuItems
+  .map(
+    (action, index) =>
+      `[null,'Item ${index}',null,'_self','menu_form_menu_discente_j_id_jsp_1_${index}_menu:A]${action}']`
+  )
+  .join(',')}];
+</script>
+</body></html>`;
+
+/**
+ * Responds the GET with the student portal and the POST with the PDF of the menu item.
+ */
+class PortalSigaaHTTP extends FakeSigaaHTTP {
+  menuItems = [
+    '#{ portalDiscente.historico }',
+    '#{ portalDiscente.atestadoMatricula }'
+  ];
+
+  protected async respond(
+    httpOptions: HTTPRequestOptions,
+    body?: string | Buffer
+  ): Promise<HTTPResponse> {
+    if (httpOptions.method === 'GET')
+      return createResponse(portalPage(this.menuItems));
+    const action = parse(body ? body.toString() : '')['jscook_action'];
+    const filename = String(action).includes('historico')
+      ? 'historico.pdf'
+      : 'atestado.pdf';
+    return createResponse(`%PDF ${filename}`, 200, {
+      'content-disposition': `attachment; filename="${filename}"`
+    });
+  }
+}
+
+let directory: string;
+let httpSession: SigaaHTTPSession;
+let http: PortalSigaaHTTP;
+
+beforeEach(async () => {
+  directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'sigaa-bond-'));
+  httpSession = createHTTPSession();
+  http = new PortalSigaaHTTP(httpSession);
+});
+
+afterEach(async () => {
+  httpSession.close();
+  await fs.promises.rm(directory, { recursive: true, force: true });
+});
+
+const createBond = () => {
+  const parser = new SigaaParser();
+  const profile = institutionRegistry.getProfile('IFSC');
+  return new SigaaStudentBond(
+    http,
+    parser,
+    new SigaaCourseFactory(
+      http,
+      parser,
+      new SigaaCourseResourceManagerFactory(
+        new SigaaCourseResourcesFactory(parser)
+      ),
+      new SigaaLessonParserFactory(parser)
+    ),
+    new SigaaActivityFactory(),
+    new SigaaTranscriptParser(parser, profile.transcript),
+    new SigaaScheduleParser(profile.timeGrid),
+    'ENGENHARIA ELÉTRICA',
+    '2020100001',
+    null
+  );
+};
+
+test('if student bond downloads the transcript with the JSCook action of the menu', async () => {
+  const bond = createBond();
+  const filepath = await bond.downloadTranscriptPDF(directory);
+
+  expect(filepath).toBe(path.join(directory, 'historico.pdf'));
+  expect(await fs.promises.readFile(filepath, 'utf8')).toBe(
+    '%PDF historico.pdf'
+  );
+  expect(parse(http.bodies[portalPath])).toEqual({
+    'menu:form_menu_discente': 'menu:form_menu_discente',
+    'javax.faces.ViewState': 'j_id2',
+    jscook_action:
+      'menu_form_menu_discente_j_id_jsp_1_0_menu:A]#{ portalDiscente.historico }'
+  });
+});
+
+test('if student bond downloads the enrollment certificate', async () => {
+  const bond = createBond();
+  const filepath = await bond.downloadEnrollmentCertificate(directory);
+
+  expect(filepath).toBe(path.join(directory, 'atestado.pdf'));
+  expect(parse(http.bodies[portalPath])['jscook_action']).toBe(
+    'menu_form_menu_discente_j_id_jsp_1_1_menu:A]#{ portalDiscente.atestadoMatricula }'
+  );
+});
+
+test('if student bond throws when the portal menu does not have the item', async () => {
+  http.menuItems = ['#{ portalDiscente.historico }'];
+  const bond = createBond();
+  const request = bond.downloadEnrollmentCertificate(directory);
+
+  await expect(request).rejects.toBeInstanceOf(SigaaParseError);
+  await expect(request).rejects.toThrow(
+    'SIGAA: Student portal menu item not found.'
+  );
+  expect(await fs.promises.readdir(directory)).toEqual([]);
+});
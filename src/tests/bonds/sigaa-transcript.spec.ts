@@ -0,0 +1,98 @@
+import { institutionRegistry } from '@session/sigaa-institution-registry';
+import { SigaaTranscriptParser } from '@bonds/sigaa-transcript';
+import { SigaaParser } from '@helpers/sigaa-parser';
+import { SigaaParseError } from '../../sigaa-errors';
+import { createPage } from '../sigaa-fake-http';
+
+const parser = new SigaaTranscriptParser(
+  new SigaaParser(),
+  institutionRegistry.getProfile('IFSC').transcript
+);
+
+test('if transcript parser reads the summary of the student portal', () => {
+  const page = createPage(
+    '/sigaa/portais/discente/discente.jsf',
+    `<table id="agenda-docente">
+      <tr><td>MC:</td><td>8,25</td></tr>
+      <tr><td>IRA:</td><td>7,9</td></tr>
+      <tr><td>Total Integralizado:</td><td>1.200 h</td></tr>
+      <tr><td>CH Pendente:</td><td>360 h</td></tr>
+      <tr><td colspan="2">Sem rótulo</td></tr>
+    </table>`
+  );
+  expect(parser.parseSummary(page)).toEqual({
+    mc: 8.25,
+    ira: 7.9,
+    hoursCompleted: 1200,
+    hoursPending: 360
+  });
+});
+
+test('if transcript parser reads the courses of each period', () => {
+  const page = createPage(
+    '/sigaa/portais/discente/discente.jsf',
+    `<table class="tabelaRelatorio">
+      <caption>2020.2</caption>
+      <thead><tr>
+        <th>Código</th><th>Disciplina</th><th>CH</th>
+        <th>Resultado</th><th>Faltas</th><th>Situação</th>
+      </tr></thead>
+      <tbody>
+        <tr><td>MAT101</td><td>CÁLCULO I</td><td>80</td><td>8,5</td><td>4</td><td>APROVADO</td></tr>
+        <tr><td>FIS101</td><td>FÍSICA I</td><td>60</td><td>3,0</td><td>12</td><td>REPROVADO</td></tr>
+      </tbody>
+    </table>
+    <table class="tabelaRelatorio">
+      <caption>2021.1</caption>
+      <thead><tr><th>Componente Curricular</th><th>Sit.</th></tr></thead>
+      <tbody>
+        <tr><td>FIS101 - FÍSICA I</td><td>MATRICULADO</td></tr>
+        <tr><td></td><td></td></tr>
+      </tbody>
+    </table>`
+  );
+  expect(parser.parseCourses(page)).toEqual([
+    {
+      period: '2020.2',
+      code: 'MAT101',
+      name: 'CÁLCULO I',
+      workload: 80,
+      grade: 8.5,
+      absences: 4,
+      status: 'approved',
+      statusText: 'APROVADO'
+    },
+    {
+      period: '2020.2',
+      code: 'FIS101',
+      name: 'FÍSICA I',
+      workload: 60,
+      grade: 3,
+      absences: 12,
+      status: 'failed',
+      statusText: 'REPROVADO'
+    },
+    {
+      period: '2021.1',
+      code: 'FIS101',
+      name: 'FÍSICA I',
+      workload: undefined,
+      grade: undefined,
+      absences: undefined,
+      status: 'enrolled',
+      statusText: 'MATRICULADO'
+    }
+  ]);
+});
+
+test('if transcript parser throws without the course columns', () => {
+  const page = createPage(
+    '/sigaa/portais/discente/discente.jsf',
+    `<table class="tabelaRelatorio">
+      <caption>2020.2</caption>
+      <thead><tr><th>Código</th><th>CH</th></tr></thead>
+      <tbody><tr><td>MAT101</td><td>80</td></tr></tbody>
+    </table>`
+  );
+  expect(() => parser.parseCourses(page)).toThrow(SigaaParseError);
+});
@@ -0,0 +1,193 @@
+import { URL } from 'url';
+import { parse } from 'querystring';
+import { SigaaHTTPSession } from '@session/sigaa-http-session';
+import { HTTPRequestOptions, HTTPResponse } from '@session/sigaa-http';
+import { SigaaParser } from '@helpers/sigaa-parser';
+import {
+  SigaaAttendanceSheet,
+  SigaaAttendanceSubmitError
+} from '@courseResources/sigaa-attendance-teacher';
+import { SigaaCourseTeacher } from '@courses/sigaa-course-teacher';
+import {
+  createFakeHTTP,
+  createPage,
+  createResponse,
+  FakeSigaaHTTP
+} from '../sigaa-fake-http';
+
+const attendancePage = (absences: [string, string]) => `<html><body>
+<form action="/sigaa/ava/Frequencia/lancar.jsf" method="post">
+<input type="hidden" name="form" value="form">
+<input type="hidden" name="javax.faces.ViewState" value="j_id7">
+<table class="listagem">
+  <thead><tr><th>Matrícula</th><th>Nome</th><th>Faltas</th></tr></thead>
+  <tbody>
+    <tr><td>2020100001</td><td>ANA SOUZA</td><td>
+      <select name="form:faltas_0">
+        <option value="0"${absences[0] === '0' ? ' selected' : ''}>0</option>
+        <option value="1"${absences[0] === '1' ? ' selected' : ''}>1</option>
+        <option value="2"${absences[0] === '2' ? ' selected' : ''}>2</option>
+      </select>
+    </td></tr>
+    <tr><td>2020100002</td><td>BRUNO LIMA</td><td>
+      <select name="form:faltas_1">
+        <option value="0"${absences[1] === '0' ? ' selected' : ''}>0</option>
+        <option value="1"${absences[1] === '1' ? ' selected' : ''}>1</option>
+        <option value="2"${absences[1] === '2' ? ' selected' : ''}>2</option>
+      </select>
+    </td></tr>
+  </tbody>
+</table>
+<input type="submit" name="form:salvar" value="Salvar">
+</form>
+</body></html>`;
+
+const jsfcljs = (formId: string, postValues: string) =>
+  `if(typeof jsfcljs == 'function'){jsfcljs(document.getElementById('${formId}'),{${postValues}},'');}return false`;
+
+/**
+ * Page of the course with the menu, SIGAA shows the course code in all pages of the course.
+ */
+const coursePage = (content: string) => `<html><body>
+<span id="linkCodigoTurma">MAT101 -</span>
+<form id="formMenu" action="/sigaa/ava/menu.jsf" method="post">
+<input type="hidden" name="formMenu" value="formMenu">
+</form>
+<div onclick="${jsfcljs(
+  'formMenu',
+  "'formMenu:plano':'formMenu:plano'"
+)}"><div class="itemMenu">Plano de Curso</div></div>
+<div onclick="${jsfcljs(
+  'formMenu',
+  "'formMenu:frequencia':'formMenu:frequencia'"
+)}"><div class="itemMenu">Lançar Frequência</div></div>
+${content}
+</body></html>`;
+
+const syllabusPage = coursePage(`<table class="listagem">
+<caption>Cronograma de Aulas</caption>
+<tbody>
+  <tr><td>01/03/2021</td><td>14/03/2021</td><td>Limites</td></tr>
+</tbody>
+</table>`);
+
+const attendanceDatesPage =
+  coursePage(`<form id="formDatas" action="/sigaa/ava/Frequencia/lancar.jsf" method="post">
+<input type="hidden" name="formDatas" value="formDatas">
+</form>
+${['01/03/2021', '03/03/2021', '15/03/2021']
+  .map(
+    (date, index) =>
+      `<a onclick="${jsfcljs(
+        'formDatas',
+        `'formDatas:data':'${index}'`
+      )}">${date}</a>`
+  )
+  .join('')}`);
+
+/**
+ * Responds the course menu pages by the menu item of the request.
+ */
+class CourseSigaaHTTP extends FakeSigaaHTTP {
+  protected async respond(
+    httpOptions: HTTPRequestOptions,
+    body?: string | Buffer
+  ): Promise<HTTPResponse> {
+    const postValues = parse(body ? body.toString() : '');
+    if (httpOptions.path === '/sigaa/ava/menu.jsf')
+      return createResponse(
+        postValues['formMenu:plano'] ? syllabusPage : attendanceDatesPage
+      );
+    if (httpOptions.path === '/sigaa/ava/Frequencia/lancar.jsf')
+      return createResponse(coursePage(attendancePage(['0', '1'])));
+    return createResponse(coursePage(''));
+  }
+}
+
+let httpSession: SigaaHTTPSession;
+let http: FakeSigaaHTTP;
+
+beforeEach(() => {
+  ({ http, httpSession } = createFakeHTTP());
+});
+
+afterEach(() => {
+  httpSession.close();
+});
+
+test('if attendance sheet sends the absences of the students', async () => {
+  http.pages = {
+    '/sigaa/ava/Frequencia/lancar.jsf': attendancePage(['2', '0'])
+  };
+  const attendanceSheet = new SigaaAttendanceSheet(
+    http,
+    new SigaaParser(),
+    createPage('/sigaa/ava/Frequencia/lancar.jsf', attendancePage(['0', '0'])),
+    new Date(2021, 2, 22)
+  );
+  expect(attendanceSheet.maxAbsences).toBe(2);
+  expect(attendanceSheet.students).toEqual([
+    { registration: '2020100001', name: 'ANA SOUZA', numOfAbsences: 0 },
+    { registration: '2020100002', name: 'BRUNO LIMA', numOfAbsences: 0 }
+  ]);
+
+  attendanceSheet.setAbsences('2020100001', 2);
+  await attendanceSheet.save();
+  const postValues = parse(http.bodies['/sigaa/ava/Frequencia/lancar.jsf']);
+  expect(postValues['form:faltas_0']).toBe('2');
+  expect(postValues['form:faltas_1']).toBe('0');
+  expect(postValues['form:salvar']).toBe('Salvar');
+  expect(attendanceSheet.students[0].numOfAbsences).toBe(2);
+});
+
+test('if attendance sheet throws the messages of SIGAA when the attendance is rejected', async () => {
+  http.pages = {
+    '/sigaa/ava/Frequencia/lancar.jsf':
+      '<html><body><ul class="erros"><li>Não é possível lançar frequência para uma data futura.</li></ul></body></html>'
+  };
+  const attendanceSheet = new SigaaAttendanceSheet(
+    http,
+    new SigaaParser(),
+    createPage('/sigaa/ava/Frequencia/lancar.jsf', attendancePage(['0', '0'])),
+    new Date(2021, 2, 22)
+  );
+  const save = attendanceSheet.save();
+  await expect(save).rejects.toBeInstanceOf(SigaaAttendanceSubmitError);
+  await expect(save).rejects.toHaveProperty('messages', [
+    'Não é possível lançar frequência para uma data futura.'
+  ]);
+});
+
+test('if teacher course returns only the class dates that have attendance sheet', async () => {
+  const courseHTTP = new CourseSigaaHTTP(httpSession);
+  const course = new SigaaCourseTeacher(
+    {
+      id: '1234',
+      title: 'CÁLCULO I',
+      code: 'MAT101',
+      numberOfStudents: 2,
+      period: '2021.1',
+      schedule: '2M12',
+      form: {
+        action: new URL('https://sigaa.ifsc.edu.br/sigaa/ava/index.jsf'),
+        postValues: { idTurma: '1234' }
+      }
+    },
+    courseHTTP,
+    new SigaaParser()
+  );
+  // 08/03/2021 is in the syllabus and on monday, but it has no attendance sheet
+  const classDates = await course.getClassDates();
+  expect(classDates).toEqual([new Date(2021, 2, 1)]);
+
+  const attendanceSheet = await course.getAttendanceSheet(classDates[0]);
+  expect(
+    parse(courseHTTP.bodies['/sigaa/ava/Frequencia/lancar.jsf'])[
+      'formDatas:data'
+    ]
+  ).toBe('0');
+  expect(attendanceSheet.students[1].numOfAbsences).toBe(1);
+  await expect(course.getAttendanceSheet(new Date(2021, 2, 8))).rejects.toThrow(
+    'SIGAA: The course does not have class on this date.'
+  );
+});
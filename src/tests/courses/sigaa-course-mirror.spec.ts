@@ -0,0 +1,214 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CourseStudent } from '@courses/sigaa-course-student';
+import {
+  CourseMirrorManifest,
+  SigaaCourseMirror
+} from '@courses/sigaa-course-mirror';
+import { File } from '@resources/sigaa-file';
+import { SigaaError } from '../../sigaa-errors';
+
+let downloads: string[] = [];
+
+const createFile = (id: string, title: string): File =>
+  ({
+    type: 'file',
+    id,
+    key: `key${id}`,
+    title,
+    async downloadVerified(directory: string) {
+      downloads.push(id);
+      const filepath = path.join(directory, `${title}.pdf`);
+      await fs.promises.writeFile(filepath, title);
+      return { path: filepath, size: title.length, sha256: `sha256${id}` };
+    }
+  } as unknown as File);
+
+const lessonFile = createFile('1', 'Slides');
+const homeworkFile = createFile('2', 'Enunciado');
+const course = {
+  id: '1234',
+  title: 'CÁLCULO I',
+  period: '2021.1',
+  getLessons: async () => [
+    {
+      title: 'Aula 1: Limites',
+      attachments: [
+        lessonFile,
+        {
+          type: 'homework',
+          getAttachmentFile: async () => homeworkFile
+        },
+        {
+          type: 'homework',
+          getAttachmentFile: async () => {
+            throw new SigaaError('SIGAA: Homework has no file.');
+          }
+        }
+      ]
+    }
+  ],
+  getFiles: async () => [lessonFile, createFile('3', 'Lista')],
+  getForums: async () => [
+    {
+      title: 'Dúvidas',
+      getFile: async () => createFile('4', 'Regras'),
+      getTopics: async () => []
+    },
+    {
+      title: 'Geral',
+      getFile: async () => undefined,
+      getTopics: async () => []
+    }
+  ]
+} as unknown as CourseStudent;
+
+let directory: string;
+
+beforeEach(async () => {
+  downloads = [];
+  directory = await fs.promises.mkdtemp(
+    path.join(os.tmpdir(), 'sigaa-mirror-')
+  );
+});
+
+afterEach(async () => {
+  await fs.promises.rm(directory, { recursive: true, force: true });
+});
+
+test('if course mirror downloads the files into the period/course/lesson tree', async () => {
+  const progress: number[] = [];
+  const result = await new SigaaCourseMirror().mirror([course], directory, {
+    callback: (total, finished) => progress.push(finished as number)
+  });
+  expect(result.downloaded).toBe(4);
+  expect(result.errors).toEqual([]);
+  expect(progress).toEqual([1, 2, 3, 4]);
+
+  const manifest: CourseMirrorManifest = JSON.parse(
+    await fs.promises.readFile(path.join(directory, 'manifest.json'), 'utf8')
+  );
+  expect(
+    manifest.files
+      .map(({ id, source, path }) => ({ id, source, path }))
+      .sort((a, b) => a.id.localeCompare(b.id))
+  ).toEqual([
+    {
+      id: '1',
+      source: 'lesson',
+      path: path.join('2021.1', 'CÁLCULO I', 'Aula 1- Limites', 'Slides.pdf')
+    },
+    {
+      id: '2',
+      source: 'homework',
+      path: path.join('2021.1', 'CÁLCULO I', 'Aula 1- Limites', 'Enunciado.pdf')
+    },
+    {
+      id: '3',
+      source: 'files',
+      path: path.join('2021.1', 'CÁLCULO I', 'Arquivos', 'Lista.pdf')
+    },
+    {
+      id: '4',
+      source: 'forum',
+      path: path.join('2021.1', 'CÁLCULO I', 'Fóruns', 'Dúvidas', 'Regras.pdf')
+    }
+  ]);
+});
+
+test('if course mirror skips the files of the manifest', async () => {
+  const mirror = new SigaaCourseMirror();
+  await mirror.mirror([course], directory);
+  await fs.promises.unlink(
+    path.join(directory, '2021.1', 'CÁLCULO I', 'Arquivos', 'Lista.pdf')
+  );
+  downloads = [];
+  const result = await mirror.mirror([course], directory, { concurrency: 1 });
+  expect(downloads).toEqual(['3']);
+  expect(result.skipped).toBe(3);
+  expect(result.manifest.files).toHaveLength(4);
+});
+
+test('if course mirror keeps the files with the same name in the same folder', async () => {
+  const sameNameCourse = {
+    id: '1235',
+    title: 'FÍSICA I',
+    period: '2021.1',
+    getLessons: async () => [
+      {
+        title: 'Aula 1',
+        attachments: [createFile('5', 'Slides'), createFile('6', 'Slides')]
+      }
+    ],
+    getFiles: async () => [],
+    getForums: async () => []
+  } as unknown as CourseStudent;
+
+  const result = await new SigaaCourseMirror().mirror(
+    [sameNameCourse],
+    directory
+  );
+  const lessonDirectory = path.join(directory, '2021.1', 'FÍSICA I', 'Aula 1');
+  expect(result.downloaded).toBe(2);
+  expect((await fs.promises.readdir(lessonDirectory)).sort()).toEqual([
+    expect.stringMatching(/^[56] - Slides\.pdf$/),
+    'Slides.pdf'
+  ]);
+  expect(new Set(result.manifest.files.map((file) => file.path)).size).toBe(2);
+  expect(fs.existsSync(path.join(directory, '.downloading'))).toBe(false);
+});
+
+test('if course mirror downloads the forum topic files and records the list errors', async () => {
+  const topic = {
+    title: 'Boas-vindas',
+    getPosts: async (pageNumber: number) => ({
+      pageNumber,
+      numOfPages: 2,
+      posts: [
+        {
+          author: 'Professor',
+          body: 'Mensagem',
+          files: [
+            createFile(pageNumber === 1 ? '7' : '8', `Anexo ${pageNumber}`)
+          ]
+        }
+      ]
+    })
+  };
+  const forumCourse = {
+    id: '1236',
+    title: 'QUÍMICA I',
+    period: '2021.1',
+    getLessons: async () => {
+      throw new SigaaError('SIGAA: Lessons not found.');
+    },
+    getFiles: async () => [],
+    getForums: async () => [
+      {
+        title: 'Geral',
+        getFile: async () => undefined,
+        getTopics: async () => [topic]
+      }
+    ]
+  } as unknown as CourseStudent;
+
+  const result = await new SigaaCourseMirror().mirror([forumCourse], directory);
+  expect(downloads.sort()).toEqual(['7', '8']);
+  expect(result.errors).toEqual([
+    { courseId: '1236', source: 'lesson', error: expect.any(SigaaError) }
+  ]);
+  const topicDirectory = path.join(
+    directory,
+    '2021.1',
+    'QUÍMICA I',
+    'Fóruns',
+    'Geral',
+    'Boas-vindas'
+  );
+  expect((await fs.promises.readdir(topicDirectory)).sort()).toEqual([
+    'Anexo 1.pdf',
+    'Anexo 2.pdf'
+  ]);
+  expect(fs.existsSync(path.join(directory, 'manifest.json'))).toBe(true);
+});
@@ -0,0 +1,96 @@
+import {
+  CourseSnapshot,
+  SigaaCourseSnapshotter
+} from '@courses/sigaa-course-snapshot';
+import { ResourceManager } from '@resources/sigaa-resource-manager';
+import { UpdatableResource } from '@resources/updatable-resource';
+
+const previous: Required<CourseSnapshot> = {
+  courseId: '1234',
+  courseTitle: 'CÁLCULO I',
+  date: '2021-03-10T12:00:00.000Z',
+  lessons: [
+    {
+      id: '1',
+      title: 'Aula 1',
+      contentText: 'Limites',
+      startDate: '2021-03-01T03:00:00.000Z',
+      endDate: '2021-03-01T03:00:00.000Z'
+    }
+  ],
+  news: [{ id: '10', title: 'Aviso', content: 'Sem aula' }],
+  files: [{ id: '20', title: 'Lista 1' }],
+  grades: [
+    { id: 'Unidade 1 - 1.1', name: 'Prova', value: undefined },
+    { id: 'Unidade 1', name: 'Unidade 1', value: 7 }
+  ],
+  homework: [
+    {
+      id: '30',
+      title: 'Trabalho',
+      startDate: '2021-03-01T03:00:00.000Z',
+      endDate: '2021-03-15T03:00:00.000Z'
+    }
+  ]
+};
+
+test('if snapshot diff returns the changes', () => {
+  const current: CourseSnapshot = {
+    ...previous,
+    date: '2021-03-11T12:00:00.000Z',
+    lessons: [
+      ...previous.lessons,
+      {
+        id: '2',
+        title: 'Aula 2',
+        contentText: 'Derivadas',
+        startDate: '2021-03-08T03:00:00.000Z',
+        endDate: '2021-03-08T03:00:00.000Z'
+      }
+    ],
+    news: [{ id: '10', title: 'Aviso', content: 'Aula remota' }],
+    files: [],
+    grades: [
+      { id: 'Unidade 1 - 1.1', name: 'Prova', value: 8 },
+      { id: 'Unidade 1', name: 'Unidade 1', value: 8 }
+    ],
+    homework: [{ ...previous.homework[0], endDate: '2021-03-22T03:00:00.000Z' }]
+  };
+  const snapshotter = new SigaaCourseSnapshotter();
+  expect(snapshotter.diff(previous, current).map(({ type }) => type)).toEqual([
+    'lesson-added',
+    'news-edited',
+    'file-removed',
+    'grade-posted',
+    'grade-changed',
+    'homework-deadline-changed'
+  ]);
+  expect(snapshotter.diff(previous, previous)).toEqual([]);
+  expect(snapshotter.diff(previous, { ...current, files: undefined })).toEqual(
+    snapshotter
+      .diff(previous, current)
+      .filter(({ type }) => type !== 'file-removed')
+  );
+});
+
+test('if resource manager exposes the added and removed instances', () => {
+  interface Data {
+    instanceIndentifier: string;
+  }
+  const manager = new ResourceManager<UpdatableResource<Data>, Data>(
+    (options) =>
+      ({
+        _instanceIndentifier: options.instanceIndentifier,
+        update: jest.fn(),
+        close: jest.fn()
+      } as unknown as UpdatableResource<Data>)
+  );
+  manager.upsert({ instanceIndentifier: '1' });
+  manager.upsert({ instanceIndentifier: '2' });
+  manager.keepOnly(['1', '2']);
+  expect(manager.lastChanges).toEqual({ added: ['1', '2'], removed: [] });
+  manager.upsert({ instanceIndentifier: '2' });
+  manager.upsert({ instanceIndentifier: '3' });
+  manager.keepOnly(['2', '3']);
+  expect(manager.lastChanges).toEqual({ added: ['3'], removed: ['1'] });
+});
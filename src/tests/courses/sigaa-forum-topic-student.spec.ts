@@ -0,0 +1,103 @@
+import { URL } from 'url';
+import { parse } from 'querystring';
+import { SigaaHTTPSession } from '@session/sigaa-http-session';
+import { SigaaParser } from '@helpers/sigaa-parser';
+import { CourseResourcesFactory } from '@courses/sigaa-course-resources-factory';
+import { FileData } from '@resources/sigaa-file';
+import { SigaaForumTopic } from '@courseResources/forum/sigaa-forum-topic-student';
+import { SigaaParseError } from '../../sigaa-errors';
+import { createFakeHTTP, FakeSigaaHTTP } from '../sigaa-fake-http';
+
+const jsfcljs = (postValues: string) =>
+  `if(typeof jsfcljs == 'function'){jsfcljs(document.getElementById('form'),{${postValues}},'');}return false`;
+
+const topicPage = (pageNumber: number) => `<html><body>
+<form id="form" action="/sigaa/ava/Forum/topico.jsf" method="post">
+<input type="hidden" name="form" value="form">
+<input type="hidden" name="javax.faces.ViewState" value="j_id3">
+<div class="mensagem">
+  <span class="autor">${pageNumber === 1 ? 'Professor' : 'ANA SOUZA'}</span>
+  <span class="data">${
+    pageNumber === 1 ? '22/03/2021 10:30' : '23/03/2021'
+  }</span>
+  <div class="conteudo">${
+    pageNumber === 1 ? 'Bem-vindos à disciplina.' : 'Obrigada!'
+  }</div>
+  ${
+    pageNumber === 1
+      ? `<div class="anexo"><a onclick="${jsfcljs(
+          "'id':'99','key':'abc'"
+        )}">Plano de ensino.pdf</a></div>`
+      : ''
+  }
+</div>
+<div class="paginacao">Página ${pageNumber} de 2
+  <a onclick="${jsfcljs("'form:pagina':'1'")}">1</a>
+  <a onclick="${jsfcljs("'form:pagina':'2'")}">2</a>
+</div>
+</form>
+</body></html>`;
+
+const courseResourcesFactory = {
+  createFileFromFileData: (fileData: FileData) => fileData
+} as unknown as CourseResourcesFactory;
+
+let httpSession: SigaaHTTPSession;
+let http: FakeSigaaHTTP;
+let topic: SigaaForumTopic;
+
+beforeEach(() => {
+  ({ http, httpSession } = createFakeHTTP());
+  http.pages = {
+    '/sigaa/ava/Forum/topico': topicPage(1),
+    '/sigaa/ava/Forum/topico.jsf': topicPage(2)
+  };
+  topic = new SigaaForumTopic(
+    http,
+    new SigaaParser(),
+    courseResourcesFactory,
+    {
+      instanceIndentifier: '1',
+      id: '1',
+      title: 'Boas-vindas',
+      author: 'Professor',
+      numOfReplies: 1,
+      form: {
+        action: new URL('https://sigaa.ifsc.edu.br/sigaa/ava/Forum/topico'),
+        postValues: { id: '1' }
+      }
+    },
+    async () => undefined
+  );
+});
+
+afterEach(() => {
+  httpSession.close();
+});
+
+test('if forum topic parses the posts and the files of the first page', async () => {
+  const postPage = await topic.getPosts();
+  expect(postPage.pageNumber).toBe(1);
+  expect(postPage.numOfPages).toBe(2);
+  expect(postPage.posts).toHaveLength(1);
+  const [post] = postPage.posts;
+  expect(post.author).toBe('Professor');
+  expect(post.date).toEqual(new Date(2021, 2, 22, 10, 30));
+  expect(post.body).toBe('Bem-vindos à disciplina.');
+  expect(post.files).toMatchObject([
+    { title: 'Plano de ensino.pdf', id: '99' }
+  ]);
+});
+
+test('if forum topic opens the other pages with the pagination links', async () => {
+  const postPage = await topic.getPosts(2);
+  expect(parse(http.bodies['/sigaa/ava/Forum/topico.jsf'])['form:pagina']).toBe(
+    '2'
+  );
+  expect(postPage.pageNumber).toBe(2);
+  expect(postPage.posts.map((post) => post.author)).toEqual(['ANA SOUZA']);
+});
+
+test('if forum topic throws with page number out of range', async () => {
+  await expect(topic.getPosts(3)).rejects.toBeInstanceOf(SigaaParseError);
+});
@@ -0,0 +1,144 @@
+import { parse } from 'querystring';
+import { SigaaHTTPSession } from '@session/sigaa-http-session';
+import { SigaaParser } from '@helpers/sigaa-parser';
+import {
+  SigaaGradeSheet,
+  SigaaGradeSheetClosedError,
+  SigaaGradeSheetSubmitError,
+  SigaaGradeValueError
+} from '@courseResources/sigaa-grade-sheet-teacher';
+import { createFakeHTTP, createPage, FakeSigaaHTTP } from '../sigaa-fake-http';
+
+const gradeSheetPage = `<html><body>
+<form action="/sigaa/ava/Notas/lancar.jsf" method="post">
+<input type="hidden" name="form" value="form">
+<input type="hidden" name="javax.faces.ViewState" value="j_id9">
+<input type="hidden" id="tipoUnid2" value="P">
+<input type="hidden" id="denAval_11" value="Prova 1">
+<input type="hidden" id="abrevAval_11" value="P1">
+<input type="hidden" id="pesoAval_11" value="2">
+<input type="hidden" id="denAval_12" value="Trabalho">
+<input type="hidden" id="abrevAval_12" value="T1">
+<input type="hidden" id="pesoAval_12" value="1">
+<table class="tabelaRelatorio">
+  <thead>
+    <tr>
+      <th>Matrícula</th><th>Nome</th><th colspan="3">Unidade 1</th><th>Final</th><th>Sit.</th>
+    </tr>
+    <tr>
+      <th></th><th></th><th id="aval_11">P1</th><th id="aval_12">T1</th><th id="aval_">Média</th><th></th><th></th>
+    </tr>
+  </thead>
+  <tbody>
+    <tr>
+      <td>2020100001</td><td>ANA SOUZA</td>
+      <td><input type="text" name="form:nota_1_11" value="7,5"></td>
+      <td><input type="text" name="form:nota_1_12" value=""></td>
+      <td>7,5</td>
+      <td><input type="text" name="form:final_1" value="8"></td>
+      <td>APR</td>
+    </tr>
+  </tbody>
+</table>
+<input type="submit" name="form:salvar" value="Salvar">
+<input type="submit" name="form:publicar" value="Publicar">
+</form>
+</body></html>`;
+
+let httpSession: SigaaHTTPSession;
+let http: FakeSigaaHTTP;
+
+beforeEach(() => {
+  ({ http, httpSession } = createFakeHTTP());
+});
+
+afterEach(() => {
+  httpSession.close();
+});
+
+test('if grade sheet parses the grade groups of the students', () => {
+  const gradeSheet = new SigaaGradeSheet(
+    http,
+    new SigaaParser(),
+    createPage('/sigaa/ava/Notas/lancar.jsf', gradeSheetPage)
+  );
+  expect(gradeSheet.students).toEqual([
+    {
+      registration: '2020100001',
+      name: 'ANA SOUZA',
+      grades: [
+        {
+          name: 'Unidade 1',
+          type: 'weighted-average',
+          value: 7.5,
+          grades: [
+            { name: 'Prova 1', code: 'P1', weight: 2, value: 7.5 },
+            { name: 'Trabalho', code: 'T1', weight: 1, value: undefined }
+          ]
+        },
+        { name: 'Final', type: 'only-average', value: 8 }
+      ]
+    }
+  ]);
+});
+
+test('if grade sheet sends the changed grades', async () => {
+  http.pages = { '/sigaa/ava/Notas/lancar.jsf': gradeSheetPage };
+  const gradeSheet = new SigaaGradeSheet(
+    http,
+    new SigaaParser(),
+    createPage('/sigaa/ava/Notas/lancar.jsf', gradeSheetPage)
+  );
+  expect(() => gradeSheet.setGrade('2020100001', 'T1', 11)).toThrow(
+    SigaaGradeValueError
+  );
+  gradeSheet.setGrade('2020100001', 'T1', 9.5);
+  await gradeSheet.publish();
+  const postValues = parse(http.bodies['/sigaa/ava/Notas/lancar.jsf']);
+  expect(postValues['form:nota_1_11']).toBe('7,5');
+  expect(postValues['form:nota_1_12']).toBe('9,5');
+  expect(postValues['form:publicar']).toBe('Publicar');
+  expect(postValues['form:salvar']).toBeUndefined();
+});
+
+test('if grade sheet throws SigaaGradeSheetClosedError when the grade entry is closed', async () => {
+  expect(
+    () =>
+      new SigaaGradeSheet(
+        http,
+        new SigaaParser(),
+        createPage(
+          '/sigaa/ava/Notas/lancar.jsf',
+          '<html><body><p>Turma já consolidada, não é possível alterar as notas.</p></body></html>'
+        )
+      )
+  ).toThrow(SigaaGradeSheetClosedError);
+
+  http.pages = {
+    '/sigaa/ava/Notas/lancar.jsf':
+      '<html><body><ul class="erros"><li>O prazo para lançamento de notas terminou.</li></ul></body></html>'
+  };
+  const gradeSheet = new SigaaGradeSheet(
+    http,
+    new SigaaParser(),
+    createPage('/sigaa/ava/Notas/lancar.jsf', gradeSheetPage)
+  );
+  await expect(gradeSheet.save()).rejects.toBeInstanceOf(
+    SigaaGradeSheetClosedError
+  );
+});
+
+test('if grade sheet throws the messages of SIGAA when the grades are rejected', async () => {
+  http.pages = {
+    '/sigaa/ava/Notas/lancar.jsf':
+      '<html><body><ul class="erros"><li>Nota inválida para ANA SOUZA.</li></ul></body></html>'
+  };
+  const gradeSheet = new SigaaGradeSheet(
+    http,
+    new SigaaParser(),
+    createPage('/sigaa/ava/Notas/lancar.jsf', gradeSheetPage)
+  );
+  await expect(gradeSheet.save()).rejects.toEqual(
+    new SigaaGradeSheetSubmitError(['Nota inválida para ANA SOUZA.'])
+  );
+});
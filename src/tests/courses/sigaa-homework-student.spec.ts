@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { URL } from 'url';
+import { SigaaHTTPSession } from '@session/sigaa-http-session';
+import { SigaaHTTP } from '@session/sigaa-http';
+import { SigaaParser } from '@helpers/sigaa-parser';
+import { SigaaCourseResourcesFactory } from '@courses/sigaa-course-resources-factory';
+import {
+  HomeworkData,
+  SigaaHomework,
+  SigaaHomeworkDeadlineError
+} from '@attachments/sigaa-homework-student';
+import { SigaaPermissionError } from '../../sigaa-errors';
+import { createFakeHTTP, FakeSigaaHTTP } from '../sigaa-fake-http';
+
+const sendPage = `<html><body>
+<form id="form" enctype="multipart/form-data" action="/sigaa/ava/Tarefa/enviarArquivo.jsf" method="post">
+<input type="hidden" name="form" value="form">
+<input type="hidden" name="javax.faces.ViewState" value="j_id4">
+<input type="file" name="form:arquivo">
+<textarea name="form:resposta"></textarea>
+<input type="submit" name="form:cancelar" value="Cancelar">
+<input type="submit" name="form:enviar" value="Enviar">
+</form>
+</body></html>`;
+
+const submissionPage = `<html><body>
+<ul class="form">
+  <li><label>Data de Envio:</label><div>10/03/2021 14:30</div></li>
+  <li><label>Arquivo:</label><div><a href="/sigaa/verFoto?idArquivo=77&key=abc">relatorio.pdf</a></div></li>
+  <li><label>Resposta:</label><div>Segue o relatório.</div></li>
+</ul>
+</body></html>`;
+
+let httpSession: SigaaHTTPSession;
+let http: FakeSigaaHTTP;
+let directory: string;
+
+beforeEach(async () => {
+  ({ http, httpSession } = createFakeHTTP());
+  http.pages = {
+    '/sigaa/ava/Tarefa/enviar.jsf': sendPage,
+    '/sigaa/ava/Tarefa/enviarArquivo.jsf':
+      '<html><body>Operação realizada com sucesso!</body></html>',
+    '/sigaa/ava/Tarefa/visualizar.jsf': submissionPage
+  };
+  directory = await fs.promises.mkdtemp(
+    path.join(os.tmpdir(), 'sigaa-homework-')
+  );
+});
+
+afterEach(async () => {
+  httpSession.close();
+  await fs.promises.rm(directory, { recursive: true, force: true });
+});
+
+const createHomework = (http: SigaaHTTP, data: Partial<HomeworkData> = {}) => {
+  const parser = new SigaaParser();
+  return new SigaaHomework(
+    http,
+    parser,
+    new SigaaCourseResourcesFactory(parser),
+    {
+      instanceIndentifier: '1',
+      id: '1',
+      title: 'Relatório da prática 1',
+      startDate: new Date(2021, 2, 1),
+      endDate: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      haveGrade: true,
+      isGroupHomework: false,
+      formSendHomework: {
+        action: new URL(
+          'https://sigaa.ifsc.edu.br/sigaa/ava/Tarefa/enviar.jsf'
+        ),
+        postValues: { id: '1' }
+      },
+      formViewHomeworkSubmitted: {
+        action: new URL(
+          'https://sigaa.ifsc.edu.br/sigaa/ava/Tarefa/visualizar.jsf'
+        ),
+        postValues: { id: '1' }
+      },
+      ...data
+    },
+    async () => undefined
+  );
+};
+
+test('if homework submit sends the file and the text with the send button', async () => {
+  const filePath = path.join(directory, 'relatorio.txt');
+  await fs.promises.writeFile(filePath, 'conteúdo do relatório');
+  const homework = createHomework(http);
+
+  await homework.submit({ files: [filePath], text: 'Segue o relatório.' });
+  const body = http.bodies['/sigaa/ava/Tarefa/enviarArquivo.jsf'];
+  expect(body).toContain('name="javax.faces.ViewState"\r\n\r\nj_id4');
+  expect(body).toContain('name="form:arquivo"; filename="relatorio.txt"');
+  expect(body).toContain('conteúdo do relatório');
+  expect(body).toContain('name="form:resposta"\r\n\r\nSegue o relatório.');
+  expect(body).toContain('name="form:enviar"\r\n\r\nEnviar');
+  expect(body).not.toContain('form:cancelar');
+
+  // After the submit, the send form is not valid anymore
+  await expect(homework.submit({ text: 'Outra resposta' })).rejects.toThrow(
+    'SIGAA: Homework has been submitted.'
+  );
+});
+
+test('if homework submit checks the deadline and the group of the student', async () => {
+  const expired = createHomework(http, { endDate: new Date(2021, 2, 14) });
+  await expect(expired.submit({ text: 'Resposta' })).rejects.toBeInstanceOf(
+    SigaaHomeworkDeadlineError
+  );
+  expect(http.requests).toHaveLength(0);
+
+  const groupHomework = createHomework(http, { isGroupHomework: true });
+  expect(await groupHomework.getFlagIsGroupHomework()).toBe(true);
+  await groupHomework.submit({ text: 'Resposta do grupo' });
+  expect(http.bodies['/sigaa/ava/Tarefa/enviarArquivo.jsf']).toContain(
+    'Resposta do grupo'
+  );
+
+  http.pages['/sigaa/ava/Tarefa/enviar.jsf'] =
+    '<html><body>O discente não pertence a nenhum grupo desta tarefa.</body></html>';
+  const withoutGroup = createHomework(http, {
+    id: '2',
+    isGroupHomework: true,
+    formSendHomework: {
+      action: new URL('https://sigaa.ifsc.edu.br/sigaa/ava/Tarefa/enviar.jsf'),
+      postValues: { id: '2' }
+    }
+  });
+  await expect(
+    withoutGroup.submit({ text: 'Resposta do grupo' })
+  ).rejects.toBeInstanceOf(SigaaPermissionError);
+});
+
+test('if homework returns the submission with the date, files and text', async () => {
+  const homework = createHomework(http);
+  const submission = await homework.getSubmission();
+
+  expect(submission.date).toEqual(new Date(2021, 2, 10, 14, 30));
+  expect(submission.text).toBe('Segue o relatório.');
+  expect(submission.files).toHaveLength(1);
+  expect(submission.files[0].title).toBe('relatorio.pdf');
+  expect(submission.files[0].id).toBe('77');
+
+  const notSubmitted = createHomework(http, {
+    formViewHomeworkSubmitted: undefined
+  });
+  await expect(notSubmitted.getSubmission()).rejects.toThrow(
+    'SIGAA: Homework has not been submitted.'
+  );
+});
+
+test('if homework returns the correction with the grade and the teacher comment', async () => {
+  http.pages['/sigaa/ava/Tarefa/visualizar.jsf'] = `<html><body>
+<ul class="form">
+  <li><label>Data de Envio:</label><div>10/03/2021 14:30</div></li>
+  <li><label>Arquivo:</label><div><a href="/sigaa/verFoto?idArquivo=77&key=abc">relatorio.pdf</a></div></li>
+  <li><label>Nota:</label><div>8,5 / 10,0</div></li>
+  <li><label>Comentário do Professor:</label><div>Faltou a conclusão.</div></li>
+  <li><label>Arquivo da Correção:</label><div><a href="/sigaa/verFoto?idArquivo=78&key=def">correcao.pdf</a></div></li>
+</ul>
+</body></html>`;
+  const homework = createHomework(http);
+  const correction = await homework.getCorrection();
+
+  expect(correction.grade).toBe(8.5);
+  expect(correction.maxGrade).toBe(10);
+  expect(correction.comment).toBe('Faltou a conclusão.');
+  expect(correction.correctionFile?.title).toBe('correcao.pdf');
+  expect(correction.correctionFile?.id).toBe('78');
+  // The correction file is not one of the files sent by the student
+  const submission = await homework.getSubmission();
+  expect(submission.files.map((file) => file.id)).toEqual(['77']);
+
+  const withoutGrade = createHomework(http, { haveGrade: false });
+  await expect(withoutGrade.getCorrection()).rejects.toThrow(
+    'SIGAA: Homework does not have grade.'
+  );
+});
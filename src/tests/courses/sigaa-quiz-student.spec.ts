@@ -0,0 +1,115 @@
+import { URL } from 'url';
+import { parse } from 'querystring';
+import { SigaaHTTPSession } from '@session/sigaa-http-session';
+import { SigaaHTTP } from '@session/sigaa-http';
+import { SigaaParser } from '@helpers/sigaa-parser';
+import {
+  SigaaQuiz,
+  SigaaQuizAnswersUnavailableError,
+  SigaaQuizAttemptsExceededError,
+  SigaaQuizClosedError
+} from '@attachments/sigaa-quiz-student';
+import { createFakeHTTP, FakeSigaaHTTP } from '../sigaa-fake-http';
+
+const quizPage = `<html><body>
+<p>Tentativas: 0 de 2</p>
+<form action="/sigaa/ava/Questionario/responder.jsf" method="post">
+<input type="hidden" name="form" value="form">
+<input type="hidden" name="javax.faces.ViewState" value="j_id5">
+<div class="questao">
+  <p class="enunciado">Quais são números primos?</p>
+  <input type="checkbox" id="q1a" name="form:q1" value="2"><label for="q1a">2</label>
+  <input type="checkbox" id="q1b" name="form:q1" value="4"><label for="q1b">4</label>
+  <input type="checkbox" id="q1c" name="form:q1" value="5"><label for="q1c">5</label>
+</div>
+<input type="submit" name="form:enviar" value="Enviar respostas">
+</form>
+</body></html>`;
+
+const createQuiz = (http: SigaaHTTP, updater = async () => undefined) =>
+  new SigaaQuiz(
+    http,
+    new SigaaParser(),
+    {
+      instanceIndentifier: '1',
+      id: '1',
+      title: 'Questionário 1',
+      startDate: new Date(Date.now() - 86400000),
+      endDate: new Date(Date.now() + 86400000),
+      formSendAnswers: {
+        action: new URL('https://sigaa.ifsc.edu.br/sigaa/ava/Questionario'),
+        postValues: { id: '1' }
+      },
+      formViewAnswersSubmitted: {
+        action: new URL(
+          'https://sigaa.ifsc.edu.br/sigaa/ava/Questionario/respostas.jsf'
+        ),
+        postValues: { id: '1' }
+      }
+    },
+    updater
+  );
+
+let httpSession: SigaaHTTPSession;
+let http: FakeSigaaHTTP;
+
+beforeEach(() => {
+  ({ http, httpSession } = createFakeHTTP());
+  http.pages = {
+    '/sigaa/ava/Questionario': quizPage,
+    '/sigaa/ava/Questionario/responder.jsf': '<html><body></body></html>'
+  };
+});
+
+afterEach(() => {
+  httpSession.close();
+});
+
+test('if quiz submit sends every checked option of a multiple-choice question', async () => {
+  const quiz = createQuiz(http);
+  const [question] = await quiz.getQuestions();
+  expect(question.type).toBe('multiple-choice');
+  expect(question.options.map((option) => option.id)).toEqual(['2', '4', '5']);
+
+  await quiz.submit({ 'form:q1': ['2', '5'] });
+  const postValues = parse(
+    http.bodies['/sigaa/ava/Questionario/responder.jsf']
+  );
+  expect(postValues['form:q1']).toEqual(['2', '5']);
+  expect(postValues['form:enviar']).toBe('Enviar respostas');
+});
+
+test('if quiz throws SigaaQuizAnswersUnavailableError when the deadline to read the answers closed', async () => {
+  http.pages['/sigaa/ava/Questionario/respostas.jsf'] =
+    '<html><body><p>Acabou o prazo para visualizar as respostas.</p></body></html>';
+  const updater = jest.fn(async () => undefined);
+  const quiz = createQuiz(http, updater);
+  await expect(quiz.getAnswersSubmitted()).rejects.toBeInstanceOf(
+    SigaaQuizAnswersUnavailableError
+  );
+  expect(updater).not.toHaveBeenCalled();
+});
+
+test('if quiz throws SigaaQuizAttemptsExceededError when there are no attempts left', async () => {
+  http.pages['/sigaa/ava/Questionario'] =
+    '<html><body><p>Tentativas: 2 de 2</p><p>Você não possui mais tentativas para este questionário.</p></body></html>';
+  const quiz = createQuiz(http);
+  await expect(quiz.getQuestions()).rejects.toEqual(
+    new SigaaQuizAttemptsExceededError(2, 2)
+  );
+});
+
+test('if quiz throws SigaaQuizClosedError when SIGAA says that the deadline has passed', async () => {
+  http.pages['/sigaa/ava/Questionario'] =
+    '<html><body><p>O prazo para responder este questionário foi encerrado.</p></body></html>';
+  await expect(createQuiz(http).getQuestions()).rejects.toBeInstanceOf(
+    SigaaQuizClosedError
+  );
+
+  http.pages['/sigaa/ava/Questionario'] = quizPage;
+  http.pages['/sigaa/ava/Questionario/responder.jsf'] =
+    '<html><body><ul class="erros"><li>Questionário fora do prazo de envio.</li></ul></body></html>';
+  await expect(
+    createQuiz(http).submit({ 'form:q1': ['2'] })
+  ).rejects.toBeInstanceOf(SigaaQuizClosedError);
+});
@@ -0,0 +1,96 @@
+import { URL } from 'url';
+import { parse } from 'querystring';
+import { SigaaHTTPSession } from '@session/sigaa-http-session';
+import { SigaaHTTP } from '@session/sigaa-http';
+import { SigaaParser } from '@helpers/sigaa-parser';
+import { SigaaSurvey } from '@attachments/sigaa-survey-student';
+import { SigaaPermissionError } from '../../sigaa-errors';
+import { createFakeHTTP, FakeSigaaHTTP } from '../sigaa-fake-http';
+
+const surveyPage = `<html><body>
+<form action="/sigaa/ava/Enquete/votar.jsf" method="post">
+<input type="hidden" name="form" value="form">
+<input type="hidden" name="javax.faces.ViewState" value="j_id3">
+<table>
+  <caption>Quais horários você prefere para a monitoria?</caption>
+  <tr><td><input type="checkbox" id="o1" name="form:opcoes" value="11"><label for="o1">Manhã</label></td></tr>
+  <tr><td><input type="checkbox" id="o2" name="form:opcoes" value="12"><label for="o2">Tarde</label></td></tr>
+  <tr><td><input type="checkbox" id="o3" name="form:opcoes" value="13"><label for="o3">Noite</label></td></tr>
+</table>
+<input type="submit" name="form:votar" value="Votar">
+</form>
+</body></html>`;
+
+let httpSession: SigaaHTTPSession;
+let http: FakeSigaaHTTP;
+
+beforeEach(() => {
+  ({ http, httpSession } = createFakeHTTP());
+  http.pages = {
+    '/sigaa/ava/Enquete': surveyPage,
+    '/sigaa/ava/Enquete/votar.jsf': '<html><body></body></html>'
+  };
+});
+
+afterEach(() => {
+  httpSession.close();
+});
+
+const createSurvey = (http: SigaaHTTP) =>
+  new SigaaSurvey(
+    http,
+    new SigaaParser(),
+    {
+      instanceIndentifier: '1',
+      id: '1',
+      title: 'Horários da monitoria',
+      form: {
+        action: new URL('https://sigaa.ifsc.edu.br/sigaa/ava/Enquete'),
+        postValues: { id: '1' }
+      }
+    },
+    async () => undefined
+  );
+
+test('if survey vote sends every option of a question that allows multiple options', async () => {
+  const survey = createSurvey(http);
+  const [question] = await survey.getQuestions();
+  expect(question.allowMultiple).toBe(true);
+  expect(question.statement).toBe(
+    'Quais horários você prefere para a monitoria?'
+  );
+
+  await survey.vote({ [question.id]: ['11', '13'] });
+  const postValues = parse(http.bodies['/sigaa/ava/Enquete/votar.jsf']);
+  expect(postValues['form:opcoes']).toEqual(['11', '13']);
+  expect(postValues['form:votar']).toBe('Votar');
+});
+
+test('if survey throws SigaaPermissionError when it is closed and parses the results', async () => {
+  http.pages['/sigaa/ava/Enquete'] = `<html><body>
+<p>A enquete está encerrada.</p>
+<table class="resultado">
+  <caption>Quais horários você prefere para a monitoria?</caption>
+  <tbody>
+    <tr><td>Manhã</td><td>3</td><td>25%</td></tr>
+    <tr><td>Tarde</td><td>9</td><td>75%</td></tr>
+  </tbody>
+</table>
+</body></html>`;
+  const survey = createSurvey(http);
+  await expect(survey.getQuestions()).rejects.toBeInstanceOf(
+    SigaaPermissionError
+  );
+  await expect(survey.vote({ 'form:opcoes': '11' })).rejects.toBeInstanceOf(
+    SigaaPermissionError
+  );
+  expect(await survey.getResults()).toEqual([
+    {
+      statement: 'Quais horários você prefere para a monitoria?',
+      options: [
+        { text: 'Manhã', votes: 3, percentage: 25 },
+        { text: 'Tarde', votes: 9, percentage: 75 }
+      ]
+    }
+  ]);
+});
@@ -0,0 +1,107 @@
+import { SigaaRequestLimiter } from '@helpers/sigaa-request-limiter';
+import { SigaaPromiseStack } from '@helpers/sigaa-promise-stack';
+import {
+  getCurrentRequestPriority,
+  runWithRequestPriority
+} from '@helpers/sigaa-request-priority';
+import { SigaaSessionClosedError } from '../../sigaa-errors';
+
+test('if Sigaa request limiter limits the requests in flight', async () => {
+  const limiter = new SigaaRequestLimiter({ maxInFlight: 2 });
+  const releases: (() => void)[] = [];
+  for (let i = 0; i < 3; i++) {
+    limiter.acquire().then((release) => releases.push(release));
+  }
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  expect(releases).toHaveLength(2);
+
+  releases[0]();
+  // Releasing twice does not free another slot
+  releases[0]();
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  expect(releases).toHaveLength(3);
+
+  limiter.close();
+});
+
+test('if Sigaa request limiter limits the requests per second', async () => {
+  const limiter = new SigaaRequestLimiter({ requestsPerSecond: 50, burst: 1 });
+  const start = Date.now();
+  for (let i = 0; i < 3; i++) {
+    const release = await limiter.acquire();
+    release();
+  }
+  // The first uses the token of the bucket, the others wait 20ms each
+  expect(Date.now() - start).toBeGreaterThanOrEqual(35);
+
+  limiter.close();
+});
+
+test('if Sigaa request limiter gives the slots to the highest priority first', async () => {
+  const limiter = new SigaaRequestLimiter({ maxInFlight: 1 });
+  const order: string[] = [];
+  const firstRelease = await limiter.acquire();
+  const requests = (['low', 'normal', 'high'] as const).map((priority) =>
+    limiter.acquire(priority).then((release) => {
+      order.push(priority);
+      release();
+    })
+  );
+  firstRelease();
+  await Promise.all(requests);
+  expect(order).toEqual(['high', 'normal', 'low']);
+
+  limiter.close();
+});
+
+test('if Sigaa request limiter applies the limits changed after it is created', async () => {
+  const limiter = new SigaaRequestLimiter();
+  const firstRelease = await limiter.acquire();
+  limiter.setLimits({ maxInFlight: 1 });
+  let isStarted = false;
+  const request = limiter.acquire().then((release) => {
+    isStarted = true;
+    release();
+  });
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  expect(isStarted).toBe(false);
+
+  firstRelease();
+  await request;
+  expect(isStarted).toBe(true);
+
+  limiter.close();
+});
+
+test('if Sigaa request limiter rejects the waiting requests when it is closed', async () => {
+  const limiter = new SigaaRequestLimiter({ maxInFlight: 1 });
+  await limiter.acquire();
+  const request = limiter.acquire();
+  limiter.close();
+  await expect(request).rejects.toBeInstanceOf(SigaaSessionClosedError);
+});
+
+test('if Sigaa promise stack executes the highest priority first', async () => {
+  const stack = new SigaaPromiseStack<string, string>('normal');
+  const order: string[] = [];
+  const execute = (key: string) => async () => {
+    order.push(key);
+    return key;
+  };
+  const promises = [
+    stack.addPromise('first', execute('first')),
+    stack.addPromise('background', execute('background'), 0),
+    stack.addPromise('interactive', execute('interactive'), 2)
+  ];
+  await Promise.all(promises);
+  expect(order).toEqual(['first', 'interactive', 'background']);
+});
+
+test('if Sigaa request priority is kept in asynchronous calls', async () => {
+  expect(getCurrentRequestPriority()).toBe('normal');
+  const priority = await runWithRequestPriority('low', async () => {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    return getCurrentRequestPriority();
+  });
+  expect(priority).toBe('low');
+});
@@ -0,0 +1,50 @@
+import {
+  scheduleTimeGrids,
+  SigaaScheduleParser
+} from '@helpers/sigaa-schedule-parser';
+
+test('if schedule parser splits weekdays and shifts', () => {
+  const scheduleParser = new SigaaScheduleParser(scheduleTimeGrids.UNILAB);
+  expect(scheduleParser.parseSchedule('24M12 6T34')).toStrictEqual([
+    {
+      weekday: 1,
+      shift: 'morning',
+      slots: [1, 2],
+      startTime: '07:00',
+      endTime: '08:40'
+    },
+    {
+      weekday: 3,
+      shift: 'morning',
+      slots: [1, 2],
+      startTime: '07:00',
+      endTime: '08:40'
+    },
+    {
+      weekday: 5,
+      shift: 'afternoon',
+      slots: [3, 4],
+      startTime: '14:55',
+      endTime: '16:35'
+    }
+  ]);
+});
+
+test('if schedule parser splits non-consecutive slots', () => {
+  const scheduleParser = new SigaaScheduleParser(scheduleTimeGrids.UFPB);
+  expect(
+    scheduleParser.parseSchedule('3N14').map((slot) => slot.slots)
+  ).toStrictEqual([[1], [4]]);
+});
+
+test('if schedule parser ignores text out of the code', () => {
+  const scheduleParser = new SigaaScheduleParser(scheduleTimeGrids.IFSC);
+  expect(
+    scheduleParser.parseSchedule('5M23 (01/03/2021 - 30/06/2021)')
+  ).toHaveLength(1);
+});
+
+test('if schedule parser throws with slot out of the time grid', () => {
+  const scheduleParser = new SigaaScheduleParser(scheduleTimeGrids.IFSC);
+  expect(() => scheduleParser.parseSchedule('2N7')).toThrow();
+});
@@ -5,13 +5,16 @@ import { SigaaCookiesController } from '@session/sigaa-cookies-controller';
 import { SigaaRequestStack } from '@helpers/sigaa-request-stack';
 import { SigaaInstitutionController } from '@session/sigaa-institution-controller';
 import { Page } from '@session/sigaa-page';
-import { SigaaPageIFSC } from '@session/page/sigaa-page-ifsc';
+import { SigaaInstitutionPage } from '@session/page/sigaa-page-institution';
 
 const createHTTPInstance = () => {
   const sigaaCookiesController = new SigaaCookiesController();
   const pageCache = new SigaaPageCache();
   const requestStackController = new SigaaRequestStack<Request, Page>();
-  const institutionController = new SigaaInstitutionController('IFSC', 'https://sigaa.ifsc.edu.br')
+  const institutionController = new SigaaInstitutionController(
+    'IFSC',
+    'https://sigaa.ifsc.edu.br'
+  );
   const httpSession = new SigaaHTTPSession(
     institutionController,
     sigaaCookiesController,
@@ -25,7 +28,7 @@ test('if Sigaa http returns a page', async () => {
   const http = createHTTPInstance();
   const page = await http.http.get('/');
 
-  expect(page).toBeInstanceOf(SigaaPageIFSC);
+  expect(page).toBeInstanceOf(SigaaInstitutionPage);
 
   http.httpSession.close();
 }, 30000);
@@ -93,5 +96,3 @@ test('if Sigaa http return page same request', async () => {
 
   http.httpSession.close();
 }, 10000);
-
-
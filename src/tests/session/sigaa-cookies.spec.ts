@@ -84,3 +84,19 @@ test('if cookie Max-Age flag works', () => {
     'anotherdate=true; anotherdatewithexpires=true'
   );
 });
+
+test('if Sigaa cookie controller exports and imports cookies', () => {
+  const cookieController = new SigaaCookiesController();
+  cookieController.storeCookies('example.com', [
+    'ABC=123; Path=/',
+    'OLD=1; Path=/; Max-Age=-10'
+  ]);
+  const cookies = JSON.parse(JSON.stringify(cookieController.exportCookies()));
+  expect(cookies).toHaveLength(1);
+
+  const newCookieController = new SigaaCookiesController();
+  newCookieController.importCookies(cookies);
+  expect(newCookieController.getCookieHeader('example.com', '/teste')).toBe(
+    'ABC=123'
+  );
+});
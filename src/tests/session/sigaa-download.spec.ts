@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { SigaaHTTPSession } from '@session/sigaa-http-session';
+import { HTTPRequestOptions, HTTPResponse } from '@session/sigaa-http';
+import { SigaaNetworkError } from '../../sigaa-errors';
+import {
+  createHTTPSession,
+  createResponse,
+  FakeSigaaHTTP
+} from '../sigaa-fake-http';
+
+const content = Buffer.from('Conteúdo do arquivo da disciplina.');
+const sha256 = createHash('sha256').update(content).digest('hex');
+
+const etag = '"v1"';
+
+/**
+ * Serves the content with support to range requests, the range is ignored if the If-Range is not the ETag.
+ */
+class RangeSigaaHTTP extends FakeSigaaHTTP {
+  truncate = false;
+
+  get ranges(): (string | undefined)[] {
+    return this.requests.map(({ httpOptions }) => httpOptions.headers.Range);
+  }
+
+  protected async respond(
+    httpOptions: HTTPRequestOptions
+  ): Promise<HTTPResponse> {
+    const { Range: range, 'If-Range': ifRange } = httpOptions.headers;
+    const partial = range !== undefined && ifRange === etag;
+    const start = partial ? Number(range.replace(/^bytes=|-$/g, '')) : 0;
+    const body = content.slice(start);
+    return createResponse(
+      this.truncate ? body.slice(0, 5) : body,
+      partial ? 206 : 200,
+      {
+        'content-disposition': 'attachment; filename="aula.txt"',
+        'content-length': body.length.toString(),
+        'accept-ranges': 'bytes',
+        etag,
+        ...(partial && {
+          'content-range': `bytes ${start}-${content.length - 1}/${
+            content.length
+          }`
+        })
+      }
+    );
+  }
+}
+
+const writePartialFile = async (
+  filepath: string,
+  data: Buffer,
+  info: { validator: string; totalSize?: number }
+) => {
+  await fs.promises.writeFile(`${filepath}.part`, data);
+  await fs.promises.writeFile(`${filepath}.part.json`, JSON.stringify(info));
+};
+
+let directory: string;
+let httpSession: SigaaHTTPSession;
+let http: RangeSigaaHTTP;
+
+beforeEach(async () => {
+  directory = await fs.promises.mkdtemp(
+    path.join(os.tmpdir(), 'sigaa-download-')
+  );
+  httpSession = createHTTPSession();
+  http = new RangeSigaaHTTP(httpSession);
+});
+
+afterEach(async () => {
+  httpSession.close();
+  await fs.promises.rm(directory, { recursive: true, force: true });
+});
+
+test('if download saves the file and returns its size and sha256', async () => {
+  const result = await http.downloadFileByGet('/sigaa/verFoto', directory);
+  expect(result).toEqual({
+    path: path.join(directory, 'aula.txt'),
+    size: content.length,
+    sha256
+  });
+  expect(await fs.promises.readFile(result.path)).toEqual(content);
+  expect(fs.existsSync(`${result.path}.part`)).toBe(false);
+});
+
+test('if download resumes an interrupted download with a range request', async () => {
+  const filepath = path.join(directory, 'aula.txt');
+  await writePartialFile(filepath, content.slice(0, 10), {
+    validator: etag,
+    totalSize: content.length
+  });
+  const result = await http.downloadFileByGet('/sigaa/verFoto', directory);
+  expect(http.ranges).toEqual([undefined, 'bytes=10-']);
+  expect(result).toEqual({ path: filepath, size: content.length, sha256 });
+  expect(await fs.promises.readFile(filepath)).toEqual(content);
+  expect(fs.existsSync(`${filepath}.part.json`)).toBe(false);
+});
+
+test('if download starts again when the partial file is of another version of the file', async () => {
+  const filepath = path.join(directory, 'aula.txt');
+  await writePartialFile(filepath, Buffer.from('Versão antiga'), {
+    validator: '"v0"',
+    totalSize: content.length
+  });
+  const result = await http.downloadFileByGet('/sigaa/verFoto', directory);
+  expect(result).toEqual({ path: filepath, size: content.length, sha256 });
+  expect(await fs.promises.readFile(filepath)).toEqual(content);
+});
+
+test('if download starts again when the total size of the Content-Range is different', async () => {
+  const filepath = path.join(directory, 'aula.txt');
+  await writePartialFile(filepath, content.slice(0, 10), {
+    validator: etag,
+    totalSize: content.length + 1
+  });
+  const result = await http.downloadFileByGet('/sigaa/verFoto', directory);
+  expect(http.ranges).toEqual([undefined, 'bytes=10-', undefined]);
+  expect(result).toEqual({ path: filepath, size: content.length, sha256 });
+});
+
+test('if download rejects a body smaller than the Content-Length and keeps the partial file', async () => {
+  const filepath = path.join(directory, 'aula.txt');
+  http.truncate = true;
+  await expect(
+    http.downloadFileByGet('/sigaa/verFoto', directory)
+  ).rejects.toBeInstanceOf(SigaaNetworkError);
+  expect(fs.existsSync(filepath)).toBe(false);
+  expect(await fs.promises.readFile(`${filepath}.part`)).toEqual(
+    content.slice(0, 5)
+  );
+
+  http.truncate = false;
+  const result = await http.downloadFileByGet('/sigaa/verFoto', directory);
+  expect(http.ranges).toEqual([undefined, undefined, 'bytes=5-']);
+  expect(result.sha256).toBe(sha256);
+});
+
+test('if open file returns a readable stream of the file', async () => {
+  const downloadStream = await http.openFileByGet('/sigaa/verFoto');
+  const chunks: Buffer[] = [];
+  for await (const chunk of downloadStream) chunks.push(chunk as Buffer);
+  expect(Buffer.concat(chunks)).toEqual(content);
+  expect(downloadStream.filename).toBe('aula.txt');
+  expect(downloadStream.getResult()).toEqual({ size: content.length, sha256 });
+});
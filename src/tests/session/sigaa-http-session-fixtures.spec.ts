@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Request } from '@session/sigaa-http-session';
+import { HTTPRequestOptions, HTTPResponse } from '@session/sigaa-http';
+import { SigaaPageCache } from '@session/sigaa-page-cache';
+import { SigaaCookiesController } from '@session/sigaa-cookies-controller';
+import { SigaaRequestStack } from '@helpers/sigaa-request-stack';
+import { SigaaInstitutionController } from '@session/sigaa-institution-controller';
+import { Page } from '@session/sigaa-page';
+import {
+  HTTPFixture,
+  SigaaRecorderHTTPSession,
+  SigaaReplayHTTPSession
+} from '@session/sigaa-http-session-fixtures';
+import { createResponse, FakeSigaaHTTP } from '../sigaa-fake-http';
+
+/**
+ * Responds with the number of the request, it fails if the network is used in replay.
+ */
+class CountingSigaaHTTP extends FakeSigaaHTTP {
+  offline = false;
+
+  protected async respond(
+    httpOptions: HTTPRequestOptions
+  ): Promise<HTTPResponse> {
+    if (this.offline) throw new Error('network used');
+    return createResponse(
+      `${httpOptions.method} ${this.requests.length}`,
+      200,
+      { 'set-cookie': ['JSESSIONID=secret; Path=/sigaa'] }
+    );
+  }
+}
+
+const createHTTPInstance = (
+  SigaaFixturesHTTPSession:
+    | typeof SigaaRecorderHTTPSession
+    | typeof SigaaReplayHTTPSession,
+  directory: string
+) => {
+  const httpSession = new SigaaFixturesHTTPSession(
+    { directory },
+    new SigaaInstitutionController('IFSC', 'https://sigaa.ifsc.edu.br'),
+    new SigaaCookiesController(),
+    new SigaaPageCache(),
+    new SigaaRequestStack<Request, Page>()
+  );
+  return { http: new CountingSigaaHTTP(httpSession), httpSession };
+};
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await fs.promises.mkdtemp(
+    path.join(os.tmpdir(), 'sigaa-fixtures-')
+  );
+});
+
+afterEach(async () => {
+  await fs.promises.rm(directory, { recursive: true, force: true });
+});
+
+test('if Sigaa recorder redacts the login, the passwords and cookies', async () => {
+  const { http, httpSession } = createHTTPInstance(
+    SigaaRecorderHTTPSession,
+    directory
+  );
+  await http.get('/sigaa/verTelaLogin.do');
+  await http.post('/sigaa/logar.do?dispatch=logOn', {
+    'user.login': 'user',
+    'user.senha': 'secret'
+  });
+  httpSession.close();
+
+  const fileNames = (await fs.promises.readdir(directory)).sort();
+  expect(fileNames).toEqual([
+    '00000-GET-_sigaa_verTelaLogin.do.json',
+    '00001-POST-_sigaa_logar.do.json'
+  ]);
+  const content = await fs.promises.readFile(
+    path.join(directory, fileNames[1]),
+    'utf8'
+  );
+  expect(content).not.toContain('secret');
+  const fixture: HTTPFixture = JSON.parse(content);
+  expect(fixture.postValues).toEqual({
+    'user.login': '[REDACTED]',
+    'user.senha': '[REDACTED]'
+  });
+  expect(fixture.requestHeaders.Cookie).toBe('[REDACTED]');
+  expect(fixture.headers['set-cookie']).toEqual([
+    'JSESSIONID=[REDACTED]; Path=/sigaa'
+  ]);
+  expect(fixture.body).toBe('POST 2');
+});
+
+test('if Sigaa replay serves the fixtures ignoring the viewState', async () => {
+  const recorder = createHTTPInstance(SigaaRecorderHTTPSession, directory);
+  const postValues = { form: 'form', 'javax.faces.ViewState': 'j_id1' };
+  await recorder.http.post('/sigaa/ava/index.jsf', postValues);
+  await recorder.http.get('/sigaa/portais/discente/discente.jsf');
+  await recorder.http.get('/sigaa/portais/discente/discente.jsf', {
+    noCache: true
+  });
+  recorder.httpSession.close();
+
+  const replay = createHTTPInstance(SigaaReplayHTTPSession, directory);
+  replay.http.offline = true;
+  const page = await replay.http.post('/sigaa/ava/index.jsf', {
+    ...postValues,
+    'javax.faces.ViewState': 'j_id7'
+  });
+  expect(page.body).toBe('POST 1');
+  const bodies: string[] = [];
+  for (let i = 0; i < 3; i++) {
+    const page = await replay.http.get('/sigaa/portais/discente/discente.jsf');
+    bodies.push(page.body);
+  }
+  // Served in the recorded order, the last one is repeated
+  expect(bodies).toEqual(['GET 2', 'GET 3', 'GET 3']);
+
+  await expect(replay.http.get('/sigaa/other.jsf')).rejects.toThrow(
+    'SIGAA: No fixture for the request GET https://sigaa.ifsc.edu.br/sigaa/other.jsf.'
+  );
+  replay.httpSession.close();
+});
+
+test('if Sigaa replay serves the recorded downloads', async () => {
+  const readStream = async (stream: NodeJS.ReadableStream) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+    return Buffer.concat(chunks).toString();
+  };
+  const recorder = createHTTPInstance(SigaaRecorderHTTPSession, directory);
+  const recordedStream = await recorder.http.openFileByGet(
+    '/sigaa/verFoto?idArquivo=1&key=abc'
+  );
+  expect(await readStream(recordedStream)).toBe('GET 1');
+  recorder.httpSession.close();
+
+  const fixture: HTTPFixture = JSON.parse(
+    await fs.promises.readFile(
+      path.join(directory, '00000-GET-_sigaa_verFoto.json'),
+      'utf8'
+    )
+  );
+  expect(fixture.download).toBe(true);
+  expect(fixture.body).toBe(Buffer.from('GET 1').toString('base64'));
+
+  const replay = createHTTPInstance(SigaaReplayHTTPSession, directory);
+  replay.http.offline = true;
+  const replayedStream = await replay.http.openFileByGet(
+    '/sigaa/verFoto?idArquivo=1&key=abc'
+  );
+  expect(await readStream(replayedStream)).toBe('GET 1');
+  expect(replay.http.requests).toHaveLength(0);
+  replay.httpSession.close();
+});
@@ -0,0 +1,113 @@
+import { URL } from 'url';
+import { HTTPRequestOptions, HTTPResponse } from '@session/sigaa-http';
+import { SigaaInstitutionController } from '@session/sigaa-institution-controller';
+import { SigaaInstitutionDetector } from '@session/sigaa-institution-detector';
+import {
+  SigaaAmbiguousVariantError,
+  SigaaUnsupportedVariantError
+} from '../../sigaa-errors';
+import {
+  createHTTPSession,
+  createResponse,
+  FakeSigaaHTTP
+} from '../sigaa-fake-http';
+
+const classicLoginPage = `<html><body>Entrar no Sistema
+<form name="loginForm" action="/sigaa/logar.do?dispatch=logOn">
+<input name="user.login"><input name="user.senha" type="password">
+</form></body></html>`;
+
+const publicPage = (onclick: string) => `<html><body>
+<form id="form" name="form" action="/sigaa/public/home.jsf" method="post"></form>
+<a onclick="${onclick}">Cursos</a>
+</body></html>`;
+
+const ufpbLoginPage = `<html><body>
+<form name="form" action="/sigaa/logon.jsf">
+<input name="form:login"><input name="form:senha" type="password">
+</form></body></html>`;
+
+/**
+ * Responds with the page of the path or with status 404.
+ */
+class NotFoundSigaaHTTP extends FakeSigaaHTTP {
+  protected async respond(
+    httpOptions: HTTPRequestOptions
+  ): Promise<HTTPResponse> {
+    const body = this.pages[httpOptions.path || ''];
+    return body ? createResponse(body) : createResponse('Not found', 404);
+  }
+}
+
+const detect = async (url: string, pages: Record<string, string>) => {
+  const httpSession = createHTTPSession({
+    institutionController: new SigaaInstitutionController(undefined, url)
+  });
+  const http = new NotFoundSigaaHTTP(httpSession);
+  http.pages = pages;
+  try {
+    return await new SigaaInstitutionDetector(http).detect(new URL(url));
+  } finally {
+    httpSession.close();
+  }
+};
+
+test('if Sigaa institution detector matches the login form fields', async () => {
+  const profile = await detect('https://sigaa.example.br', {
+    '/sigaa/logon.jsf': ufpbLoginPage
+  });
+  expect(profile.institution).toBe('UFPB');
+});
+
+test('if Sigaa institution detector uses the JSFCLJS style of the public page and the hostname', async () => {
+  const jsfcljs = await detect('https://sigaa.example.br', {
+    '/sigaa/verTelaLogin.do': classicLoginPage,
+    '/sigaa/public/home.jsf': publicPage(
+      "jsfcljs(document.getElementById('form'),{'form:link':'form:link'},'');"
+    )
+  });
+  expect(jsfcljs.institution).toBe('UNB');
+
+  const legacyPages = {
+    '/sigaa/verTelaLogin.do': classicLoginPage,
+    '/sigaa/public/home.jsf': publicPage(
+      "if(typeof jsfcljs == 'function'){jsfcljs(document.getElementById('form'),{'form:link':'form:link'},'');}return false"
+    )
+  };
+  const unilab = await detect('https://sigaa.unilab.edu.br', legacyPages);
+  expect(unilab.institution).toBe('UNILAB');
+});
+
+test('if Sigaa institution detector does not choose between equal profiles', async () => {
+  const request = detect('https://sigaa.example.br', {
+    '/sigaa/verTelaLogin.do': classicLoginPage
+  });
+  await expect(request).rejects.toBeInstanceOf(SigaaAmbiguousVariantError);
+  const error: SigaaAmbiguousVariantError = await request.catch((err) => err);
+  // The public page is not found, so the JSFCLJS style is unknown
+  expect(error.institutions).toEqual(['IFSC', 'UNB', 'UNILAB']);
+  expect(error.message).toBe(
+    'SIGAA: Ambiguous SIGAA variant at https://sigaa.example.br, it matches IFSC, UNB, UNILAB. Inform the institution.'
+  );
+});
+
+test('if Sigaa institution detector lists the differences of an unsupported variant', async () => {
+  const request = detect('https://sigaa.example.br', {
+    '/sigaa/verTelaLogin.do': `<html><body>Entrar no Sistema
+<form name="loginForm" action="/sigaa/logar.do?dispatch=logOn">
+<input name="login"><input name="senha" type="password">
+</form></body></html>`
+  });
+  await expect(request).rejects.toBeInstanceOf(SigaaUnsupportedVariantError);
+  const error: SigaaUnsupportedVariantError = await request.catch((err) => err);
+  expect(error.differences.IFSC).toEqual([
+    'login field user.login not found',
+    'login field user.senha not found'
+  ]);
+  expect(error.differences.UFPB).toEqual([
+    '/sigaa/logon.jsf responded with status 404'
+  ]);
+  expect(error.message).toContain(
+    'SIGAA: Unsupported SIGAA variant at https://sigaa.example.br'
+  );
+});
@@ -0,0 +1,88 @@
+import { URL } from 'url';
+import {
+  builtInInstitutionProfiles,
+  institutionRegistry,
+  JSFCLJSStyle,
+  SigaaInstitutionRegistry
+} from '@session/sigaa-institution-registry';
+import { SigaaInstitutionController } from '@session/sigaa-institution-controller';
+import { SigaaInstitutionPage } from '@session/page/sigaa-page-institution';
+import { SigaaPageUNB } from '@session/page/sigaa-page-unb';
+import { SigaaError } from '../../sigaa-errors';
+
+const createPage = (jsfcljsStyle: JSFCLJSStyle) =>
+  new SigaaInstitutionPage(
+    {
+      requestOptions: {
+        method: 'GET',
+        hostname: 'sigaa.ufrn.br',
+        headers: {}
+      },
+      url: new URL('https://sigaa.ufrn.br/sigaa/portais/discente/discente.jsf'),
+      headers: {},
+      statusCode: 200,
+      body: '<form id="menu" action="/sigaa/menu.jsf"><input name="menu" value="menu"></form>'
+    },
+    jsfcljsStyle
+  );
+
+test('if Sigaa institution registry has the built-in profiles', () => {
+  const registry = new SigaaInstitutionRegistry([
+    builtInInstitutionProfiles.IFSC
+  ]);
+  expect(registry.hasProfile('IFSC')).toBe(true);
+  expect(registry.getProfile('IFSC').login.usernameField).toBe('user.login');
+  expect(() => registry.getProfile('UFRN')).toThrow(SigaaError);
+  expect(
+    institutionRegistry.getProfiles().map((profile) => profile.institution)
+  ).toEqual(['IFSC', 'UFPB', 'UNB', 'UNILAB']);
+});
+
+test('if Sigaa institution controller uses the registered profile', () => {
+  expect(
+    () => new SigaaInstitutionController('UFRN', 'https://sigaa.ufrn.br')
+  ).toThrow('SIGAA: Institution UFRN is not registered.');
+  institutionRegistry.register({
+    ...builtInInstitutionProfiles.UNB,
+    institution: 'UFRN'
+  });
+  const controller = new SigaaInstitutionController(
+    'UFRN',
+    'https://sigaa.ufrn.br'
+  );
+  expect(controller.profile.jsfcljsStyle).toBe('jsfcljs');
+  expect(controller.profile.timeGrid).toBe(
+    builtInInstitutionProfiles.UNB.timeGrid
+  );
+});
+
+test('if Sigaa institution page parses the JSFCLJS style of the profile', () => {
+  const legacy = createPage('legacy').parseJSFCLJS(
+    "if(typeof jsfcljs == 'function'){jsfcljs(document.getElementById('menu'),{'menu:item':'menu:item'},'');}return false"
+  );
+  expect(legacy.action.href).toBe('https://sigaa.ufrn.br/sigaa/menu.jsf');
+  expect(legacy.postValues).toEqual({ menu: 'menu', 'menu:item': 'menu:item' });
+
+  const jsfcljs = createPage('jsfcljs').parseJSFCLJS(
+    "jsfcljs(document.getElementById('menu'),{'menu:item':'menu:item'},'');"
+  );
+  expect(jsfcljs.postValues).toEqual({
+    menu: 'menu',
+    'menu:item': 'menu:item'
+  });
+});
+
+test('if the deprecated institution classes use the registered profile', () => {
+  const page = new SigaaPageUNB({
+    requestOptions: { method: 'GET', hostname: 'sigaa.unb.br', headers: {} },
+    url: new URL('https://sigaa.unb.br/sigaa/portais/discente/discente.jsf'),
+    headers: {},
+    statusCode: 200,
+    body: '<form id="menu" action="/sigaa/menu.jsf"><input name="menu" value="menu"></form>'
+  });
+  expect(
+    page.parseJSFCLJS(
+      "jsfcljs(document.getElementById('menu'),{'menu:item':'menu:item'},'');"
+    ).postValues
+  ).toEqual({ menu: 'menu', 'menu:item': 'menu:item' });
+});
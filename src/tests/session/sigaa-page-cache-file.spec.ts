@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { URL } from 'url';
+import { SigaaFilePageCacheFactory } from '@session/sigaa-page-cache-file';
+import { SigaaInstitutionPage } from '@session/page/sigaa-page-institution';
+import { HTTPRequestOptions } from '@session/sigaa-http';
+import { JSFCLJSStyle } from '@session/sigaa-institution-registry';
+
+const createPage = (
+  pathname: string,
+  body: string,
+  jsfcljsStyle: JSFCLJSStyle = 'legacy'
+) => {
+  const requestOptions: HTTPRequestOptions = {
+    hostname: 'sigaa.ifsc.edu.br',
+    method: 'GET',
+    path: pathname,
+    headers: { Cookie: 'JSESSIONID=123' }
+  };
+  return new SigaaInstitutionPage(
+    {
+      requestOptions,
+      body,
+      url: new URL(pathname, 'https://sigaa.ifsc.edu.br'),
+      headers: { 'set-cookie': ['JSESSIONID=old'] },
+      statusCode: 200
+    },
+    jsfcljsStyle
+  );
+};
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'sigaa-'));
+});
+
+afterEach(async () => {
+  await fs.promises.rm(directory, { recursive: true, force: true });
+});
+
+test('if file page cache restores the pages in another instance', async () => {
+  const page = createPage(
+    '/sigaa/portais/discente/discente.jsf',
+    '<p>A</p>',
+    'jsfcljs'
+  );
+  await new SigaaFilePageCacheFactory({ directory })
+    .createPageCache('bond')
+    .storePage(page);
+
+  const pageCacheFactory = new SigaaFilePageCacheFactory({
+    directory
+  });
+  const cachedPage = await pageCacheFactory
+    .createPageCache('bond')
+    .getPage({ ...page.requestOptions, headers: { Cookie: 'JSESSIONID=456' } });
+  expect(cachedPage?.$('p').text()).toBe('A');
+  expect(cachedPage?.jsfcljsStyle).toBe('jsfcljs');
+  expect(cachedPage?.headers['set-cookie']).toBeUndefined();
+  expect(
+    await pageCacheFactory
+      .createPageCache('another-bond')
+      .getPage(page.requestOptions)
+  ).toBeUndefined();
+});
+
+test('if file page cache uses the ttl rules', async () => {
+  const pageCache = new SigaaFilePageCacheFactory({
+    directory,
+    ttlRules: [{ pattern: /\/ava\//, ttl: 0 }]
+  }).createPageCache();
+  const page = createPage('/sigaa/ava/index.jsf', '<p>A</p>');
+  await pageCache.storePage(page);
+  expect(await pageCache.getPage(page.requestOptions)).toBeUndefined();
+});
+
+test('if file page cache removes the least recently used pages', async () => {
+  const pageCache = new SigaaFilePageCacheFactory({
+    directory,
+    maxSize: 8000
+  }).createPageCache();
+  const pages = ['/a', '/b', '/c'].map((pathname) =>
+    createPage(pathname, 'x'.repeat(2000))
+  );
+  for (const page of pages) {
+    await pageCache.storePage(page);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  await pageCache.getPage(pages[0].requestOptions);
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  await pageCache.storePage(createPage('/d', 'x'.repeat(2000)));
+
+  expect(await pageCache.getPage(pages[0].requestOptions)).toBeDefined();
+  expect(await pageCache.getPage(pages[1].requestOptions)).toBeUndefined();
+});
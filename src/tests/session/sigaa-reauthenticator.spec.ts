@@ -0,0 +1,97 @@
+import { HTTPRequestOptions, HTTPResponse } from '@session/sigaa-http';
+import { SigaaCookiesController } from '@session/sigaa-cookies-controller';
+import { Reauthenticator } from '@session/sigaa-reauthenticator';
+import {
+  createHTTPSession,
+  createResponse,
+  FakeSigaaHTTP
+} from '../sigaa-fake-http';
+
+/**
+ * Responds as a SIGAA server whose session JSESSIONID=old expired.
+ */
+class ExpiredSigaaHTTP extends FakeSigaaHTTP {
+  protected async respond(
+    httpOptions: HTTPRequestOptions
+  ): Promise<HTTPResponse> {
+    if (httpOptions.headers.Cookie === 'JSESSIONID=old')
+      return createResponse('', 302, {
+        location: 'https://sigaa.ifsc.edu.br/sigaa/expirada.jsp'
+      });
+    return createResponse(
+      httpOptions.method === 'GET'
+        ? '<form><input name="javax.faces.ViewState" value="j_id9" /></form>'
+        : 'ok'
+    );
+  }
+}
+
+const createHTTPInstance = () => {
+  const cookiesController = new SigaaCookiesController();
+  cookiesController.storeCookies('sigaa.ifsc.edu.br', [
+    'JSESSIONID=old; Path=/'
+  ]);
+  const httpSession = createHTTPSession({ cookiesController });
+  let isAuthenticated = true;
+  const reauthenticator: Reauthenticator & { calls: number } = {
+    calls: 0,
+    get isAuthenticated() {
+      return isAuthenticated;
+    },
+    async reauthenticate() {
+      this.calls++;
+      isAuthenticated = false;
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      cookiesController.storeCookies('sigaa.ifsc.edu.br', [
+        'JSESSIONID=new; Path=/'
+      ]);
+      isAuthenticated = true;
+    }
+  };
+  httpSession.reauthenticator = reauthenticator;
+  return {
+    http: new ExpiredSigaaHTTP(httpSession),
+    httpSession,
+    reauthenticator
+  };
+};
+
+test('if Sigaa http session logs in again and replays the request', async () => {
+  const { http, httpSession, reauthenticator } = createHTTPInstance();
+  const page = await http.post('/sigaa/ava/index.jsf', {
+    form: 'form',
+    'javax.faces.ViewState': 'j_id1'
+  });
+
+  expect(page.body).toBe('ok');
+  expect(reauthenticator.calls).toBe(1);
+  const lastRequest = http.requests[http.requests.length - 1];
+  expect(lastRequest.httpOptions.headers.Cookie).toBe('JSESSIONID=new');
+  expect(lastRequest.body).toBe('form=form&javax.faces.ViewState=j_id9');
+
+  httpSession.close();
+});
+
+test('if Sigaa http session logs in once for concurrent expired requests', async () => {
+  const { http, httpSession, reauthenticator } = createHTTPInstance();
+  const pages = await Promise.all([
+    http.post('/sigaa/portais/discente/discente.jsf', { a: '1' }),
+    http.post('/sigaa/portais/discente/discente.jsf', { a: '2' })
+  ]);
+
+  expect(pages.map((page) => page.body)).toEqual(['ok', 'ok']);
+  expect(reauthenticator.calls).toBe(1);
+
+  httpSession.close();
+});
+
+test('if Sigaa http session does not log in without reauthenticator', async () => {
+  const { http, httpSession } = createHTTPInstance();
+  httpSession.reauthenticator = undefined;
+
+  await expect(
+    http.get('/sigaa/portais/discente/discente.jsf')
+  ).rejects.toThrow('SIGAA: Session expired.');
+
+  httpSession.close();
+});
@@ -0,0 +1,97 @@
+import {
+  RetryInfo,
+  RetryPolicyOptions,
+  SigaaRetryPolicy
+} from '@session/sigaa-retry-policy';
+import { createFakeHTTP } from '../sigaa-fake-http';
+
+const createHTTPInstance = (options: RetryPolicyOptions = {}) => {
+  const retries: RetryInfo[] = [];
+  const retryPolicy = new SigaaRetryPolicy({
+    baseDelay: 1,
+    onRetry: (info) => retries.push(info),
+    ...options
+  });
+  return { ...createFakeHTTP({ retryPolicy }), retries };
+};
+
+test('if Sigaa http retries the retryable status codes', async () => {
+  const { http, httpSession, retries } = createHTTPInstance();
+  http.responses = [503, 502];
+  const page = await http.get('/sigaa/public/home.jsf');
+
+  expect(page.statusCode).toBe(200);
+  expect(http.requests).toHaveLength(3);
+  expect(retries.map((retry) => retry.attempt)).toEqual([1, 2]);
+  expect(retries[0].url).toBe(
+    'https://sigaa.ifsc.edu.br/sigaa/public/home.jsf'
+  );
+
+  httpSession.close();
+});
+
+test('if Sigaa http returns the last page after all attempts', async () => {
+  const { http, httpSession } = createHTTPInstance({ maxAttempts: 2 });
+  http.responses = [503, 503, 503];
+  const page = await http.get('/sigaa/public/home.jsf');
+
+  expect(page.statusCode).toBe(503);
+  expect(http.requests).toHaveLength(2);
+
+  httpSession.close();
+});
+
+test('if Sigaa http retries socket errors', async () => {
+  const { http, httpSession, retries } = createHTTPInstance();
+  http.responses = ['ECONNRESET'];
+  const page = await http.get('/sigaa/public/home.jsf');
+
+  expect(page.statusCode).toBe(200);
+  expect(retries[0].error.message).toBe('SIGAA: Network error: socket error');
+
+  http.responses = ['ENOTFOUND'];
+  await expect(http.get('/sigaa/public/other.jsf')).rejects.toThrow(
+    'socket error'
+  );
+
+  httpSession.close();
+});
+
+test('if Sigaa http does not retry POST by default', async () => {
+  const { http, httpSession } = createHTTPInstance();
+  http.responses = [503];
+  const page = await http.post('/sigaa/public/home.jsf', { a: '1' });
+
+  expect(page.statusCode).toBe(503);
+  expect(http.requests).toHaveLength(1);
+
+  httpSession.close();
+});
+
+test('if Sigaa retry policy uses exponential backoff', () => {
+  const retryPolicy = new SigaaRetryPolicy({
+    baseDelay: 100,
+    maxDelay: 300,
+    jitter: 0
+  });
+
+  expect([1, 2, 3].map((attempt) => retryPolicy.getDelay(attempt))).toEqual([
+    100, 200, 300
+  ]);
+  expect(() => new SigaaRetryPolicy({ maxAttempts: 0 })).toThrow();
+});
+
+test('if Sigaa http retries the download requests', async () => {
+  const { http, httpSession, retries } = createHTTPInstance();
+  http.responses = ['ECONNRESET', 503];
+  const stream = await http.openFileByGet('/sigaa/verFoto?idArquivo=1');
+  stream.resume();
+
+  expect(http.requests).toHaveLength(3);
+  expect(retries.map((retry) => retry.error.message)).toEqual([
+    'SIGAA: Network error: socket error',
+    'SIGAA: Unexpected status code 503.'
+  ]);
+
+  httpSession.close();
+});
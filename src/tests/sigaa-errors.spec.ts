@@ -0,0 +1,70 @@
+import { URL } from 'url';
+import { SigaaInstitutionPage } from '@session/page/sigaa-page-institution';
+import { SigaaRetryPolicy } from '@session/sigaa-retry-policy';
+import {
+  SigaaError,
+  SigaaNetworkError,
+  SigaaParseError,
+  SigaaPermissionError,
+  SigaaSessionExpiredError
+} from '../sigaa-errors';
+import { createFakeHTTP } from './sigaa-fake-http';
+
+const createHTTPInstance = () =>
+  createFakeHTTP({ retryPolicy: new SigaaRetryPolicy({ baseDelay: 1 }) });
+
+test('if Sigaa errors extend SigaaError and keep the message', () => {
+  const err = new SigaaSessionExpiredError();
+  expect(err).toBeInstanceOf(SigaaError);
+  expect(err).toBeInstanceOf(Error);
+  expect(err.name).toBe('SigaaSessionExpiredError');
+  expect(err.message).toBe('SIGAA: Session expired.');
+});
+
+test('if Sigaa parse error has the url and the selector', () => {
+  const page = new SigaaInstitutionPage({
+    requestOptions: {
+      method: 'GET',
+      hostname: 'sigaa.ifsc.edu.br',
+      headers: {}
+    },
+    url: new URL('https://sigaa.ifsc.edu.br/sigaa/ava/index.jsf'),
+    headers: {},
+    statusCode: 200,
+    body: '<html><body></body></html>'
+  });
+  let error: unknown;
+  try {
+    page.parseJSFCLJS("jsfcljs(document.getElementById('formAva'),{},'')");
+  } catch (err) {
+    error = err;
+  }
+  expect(error).toBeInstanceOf(SigaaParseError);
+  expect((error as SigaaParseError).url).toBe(
+    'https://sigaa.ifsc.edu.br/sigaa/ava/index.jsf'
+  );
+  expect((error as SigaaParseError).selector).toBe('#formAva');
+});
+
+test('if Sigaa http retries network errors by the code', async () => {
+  const { http, httpSession } = createHTTPInstance();
+  http.responses = ['ECONNRESET'];
+  const page = await http.get('/sigaa/public/home.jsf');
+  expect(page.statusCode).toBe(200);
+
+  http.responses = ['ENOTFOUND'];
+  const request = http.get('/sigaa/public/other.jsf');
+  await expect(request).rejects.toBeInstanceOf(SigaaNetworkError);
+  await expect(request).rejects.toHaveProperty('code', 'ENOTFOUND');
+
+  httpSession.close();
+});
+
+test('if Sigaa http throws permission error on access denied', async () => {
+  const { http, httpSession } = createHTTPInstance();
+  http.responses = [403];
+  await expect(http.get('/sigaa/portais/docente/docente.jsf')).rejects.toThrow(
+    SigaaPermissionError
+  );
+  httpSession.close();
+});
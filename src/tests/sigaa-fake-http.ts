@@ -0,0 +1,168 @@
+import { Readable } from 'stream';
+import { URL } from 'url';
+import { IncomingHttpHeaders } from 'http';
+import { Request, SigaaHTTPSession } from '@session/sigaa-http-session';
+import {
+  HTTPRequestOptions,
+  HTTPResponse,
+  SigaaHTTP
+} from '@session/sigaa-http';
+import { SigaaPageCache } from '@session/sigaa-page-cache';
+import {
+  CookiesController,
+  SigaaCookiesController
+} from '@session/sigaa-cookies-controller';
+import { SigaaRequestStack } from '@helpers/sigaa-request-stack';
+import {
+  InstitutionController,
+  SigaaInstitutionController
+} from '@session/sigaa-institution-controller';
+import { RetryPolicy } from '@session/sigaa-retry-policy';
+import { JSFCLJSStyle } from '@session/sigaa-institution-registry';
+import { SigaaInstitutionPage } from '@session/page/sigaa-page-institution';
+import { Page } from '@session/sigaa-page';
+import { SigaaNetworkError } from '../sigaa-errors';
+
+/**
+ * Request received by FakeSigaaHTTP.
+ */
+export interface FakeRequest {
+  httpOptions: HTTPRequestOptions;
+  body?: string | Buffer;
+}
+
+/**
+ * Creates the response with the body.
+ * @param body
+ * @param statusCode
+ * @param headers
+ */
+export const createResponse = (
+  body: string | Buffer,
+  statusCode = 200,
+  headers: IncomingHttpHeaders = {}
+): HTTPResponse => ({
+  bodyStream: Readable.from([body]),
+  headers,
+  statusCode
+});
+
+/**
+ * SIGAA http without network, it responds with the page of the path and records the requests.
+ * The specs with other server behavior override respond().
+ */
+export class FakeSigaaHTTP extends SigaaHTTP {
+  /**
+   * Body of the page of each path, the other paths respond with an empty page.
+   */
+  pages: Record<string, string> = {};
+
+  /**
+   * Body of the last request of each path.
+   */
+  bodies: Record<string, string> = {};
+
+  /**
+   * Requests in the order they were made.
+   */
+  requests: FakeRequest[] = [];
+
+  /**
+   * Status codes of the next responses, a string is thrown as the code of a socket error.
+   * When it is empty, respond() is used.
+   */
+  responses: (number | string)[] = [];
+
+  protected async requestHTTP(
+    httpOptions: HTTPRequestOptions,
+    body?: string | Buffer
+  ): Promise<HTTPResponse> {
+    this.requests.push({ httpOptions, body });
+    if (body) this.bodies[httpOptions.path || ''] = body.toString();
+    const response = this.responses.shift();
+    if (typeof response === 'string') {
+      const err: NodeJS.ErrnoException = new Error('socket error');
+      err.code = response;
+      throw new SigaaNetworkError(err);
+    }
+    if (response !== undefined) return createResponse('page', response);
+    return this.respond(httpOptions, body);
+  }
+
+  /**
+   * Response of the request.
+   * @param httpOptions
+   * @param body
+   */
+  protected async respond(
+    httpOptions: HTTPRequestOptions,
+    body?: string | Buffer
+  ): Promise<HTTPResponse> {
+    return createResponse(this.pages[httpOptions.path || ''] || '');
+  }
+}
+
+/**
+ * Controllers of the http session, the others are created by createHTTPSession().
+ */
+export interface FakeHTTPSessionOptions {
+  /**
+   * Default is IFSC at https://sigaa.ifsc.edu.br.
+   */
+  institutionController?: InstitutionController;
+  cookiesController?: CookiesController;
+  retryPolicy?: RetryPolicy;
+}
+
+/**
+ * Creates the http session of the fake http, it must be closed after the test.
+ * @param options
+ */
+export const createHTTPSession = (
+  options: FakeHTTPSessionOptions = {}
+): SigaaHTTPSession =>
+  new SigaaHTTPSession(
+    options.institutionController ||
+      new SigaaInstitutionController('IFSC', 'https://sigaa.ifsc.edu.br'),
+    options.cookiesController || new SigaaCookiesController(),
+    new SigaaPageCache(),
+    new SigaaRequestStack<Request, Page>(),
+    options.retryPolicy
+  );
+
+/**
+ * Creates the fake http and its http session.
+ * @param options
+ */
+export const createFakeHTTP = (
+  options: FakeHTTPSessionOptions = {}
+): { http: FakeSigaaHTTP; httpSession: SigaaHTTPSession } => {
+  const httpSession = createHTTPSession(options);
+  return { http: new FakeSigaaHTTP(httpSession), httpSession };
+};
+
+/**
+ * Creates the page of IFSC with the body.
+ * @param path path of the page url.
+ * @param body
+ * @param jsfcljsStyle
+ */
+export const createPage = (
+  path: string,
+  body: string,
+  jsfcljsStyle?: JSFCLJSStyle
+): SigaaInstitutionPage =>
+  new SigaaInstitutionPage(
+    {
+      requestOptions: {
+        method: 'GET',
+        hostname: 'sigaa.ifsc.edu.br',
+        headers: {}
+      },
+      url: new URL(path, 'https://sigaa.ifsc.edu.br'),
+      headers: {},
+      statusCode: 200,
+      body
+    },
+    jsfcljsStyle
+  );
@@ -0,0 +1,97 @@
+import { CookiesController } from '@session/sigaa-cookies-controller';
+import { SessionState } from '@session/sigaa-session';
+import { Sigaa } from '../sigaa-main';
+import { LoginStatus } from '../sigaa-types';
+import { SigaaError, SigaaSessionExpiredError } from '../sigaa-errors';
+
+const createSessionState = (expires: Date): SessionState => ({
+  institution: 'IFSC',
+  url: 'https://sigaa.ifsc.edu.br/',
+  loginStatus: LoginStatus.Authenticated,
+  cookies: [
+    {
+      name: 'JSESSIONID',
+      value: '123',
+      path: '/sigaa',
+      expires: expires.toISOString(),
+      domain: 'sigaa.ifsc.edu.br'
+    }
+  ],
+  currentBond: null,
+  bondSwitchUrls: []
+});
+
+test('if Sigaa restores the saved session', () => {
+  const sessionState = createSessionState(new Date(Date.now() + 3600000));
+  const sigaa = new Sigaa({
+    institution: 'IFSC',
+    url: 'https://sigaa.ifsc.edu.br',
+    sessionState
+  });
+  expect(sigaa.session.loginStatus).toBe(LoginStatus.Authenticated);
+  expect(sigaa.exportSession()).toEqual(sessionState);
+  sigaa.close();
+});
+
+test('if Sigaa restores the bonds of the saved session', () => {
+  const sessionState: SessionState = {
+    ...createSessionState(new Date(Date.now() + 3600000)),
+    currentBond:
+      'https://sigaa.ifsc.edu.br/sigaa/escolhaVinculo.do?dispatch=escolher&vinculo=1',
+    bondSwitchUrls: [
+      'https://sigaa.ifsc.edu.br/sigaa/escolhaVinculo.do?dispatch=escolher&vinculo=1',
+      'https://sigaa.ifsc.edu.br/sigaa/escolhaVinculo.do?dispatch=escolher&vinculo=2'
+    ]
+  };
+  const sigaa = new Sigaa({
+    institution: 'IFSC',
+    url: 'https://sigaa.ifsc.edu.br',
+    sessionState
+  });
+  expect(sigaa.exportSession()).toEqual(sessionState);
+  sigaa.close();
+});
+
+test('if Sigaa restores a saved session with expired cookies as unauthenticated', async () => {
+  const sigaa = new Sigaa({
+    institution: 'IFSC',
+    url: 'https://sigaa.ifsc.edu.br',
+    sessionState: createSessionState(new Date(Date.now() - 3600000))
+  });
+  expect(sigaa.session.loginStatus).toBe(LoginStatus.Unauthenticated);
+  await expect(sigaa.resumeSession()).rejects.toBeInstanceOf(
+    SigaaSessionExpiredError
+  );
+  sigaa.close();
+});
+
+test('if Sigaa rejects the saved session with bonds of another url', () => {
+  expect(
+    () =>
+      new Sigaa({
+        institution: 'IFSC',
+        url: 'https://sigaa.ifsc.edu.br',
+        sessionState: {
+          ...createSessionState(new Date(Date.now() + 3600000)),
+          currentBond: 'https://sigaa.unb.br/sigaa/escolhaVinculo.do'
+        }
+      })
+  ).toThrow(SigaaError);
+});
+
+test('if Sigaa rejects the saved session when the cookies controller cannot import it', () => {
+  const cookiesController: CookiesController = {
+    getCookieHeader: () => null,
+    storeCookies: () => undefined,
+    clearCookies: () => undefined
+  };
+  expect(
+    () =>
+      new Sigaa({
+        institution: 'IFSC',
+        url: 'https://sigaa.ifsc.edu.br',
+        cookiesController,
+        sessionState: createSessionState(new Date(Date.now() + 3600000))
+      })
+  ).toThrow('SIGAA: The cookies controller cannot import the saved session.');
+});
@@ -0,0 +1,114 @@
+import { Account } from '@account/sigaa-account';
+import { BondType } from '@bonds/sigaa-bond-factory';
+import { StudentBond } from '@bonds/sigaa-student-bond';
+import { SigaaError, SigaaSessionExpiredError } from '../sigaa-errors';
+import { SigaaWatcher } from '../sigaa-watcher';
+
+const createAccount = (bonds: BondType[]): Account => ({
+  getName: async () => 'ANA SOUZA',
+  getEmails: async () => [],
+  getActiveBonds: async () => bonds,
+  getInactiveBonds: async () => [],
+  downloadProfilePicture: async () => null,
+  getProfilePictureURL: async () => null,
+  logoff: async () => undefined,
+  changePassword: async () => undefined
+});
+
+const createExpiredBond = () =>
+  ({
+    type: 'student',
+    registration: '2020100001',
+    getActivities: jest.fn(async () => {
+      throw new SigaaSessionExpiredError();
+    })
+  } as unknown as StudentBond);
+
+test('if watcher emits new activities after the first poll', async () => {
+  const activities = [
+    {
+      type: 'homework',
+      homeworkTitle: 'Lista 1',
+      courseTitle: 'CÁLCULO I',
+      date: new Date(2021, 2, 20)
+    }
+  ];
+  const bond = {
+    type: 'student',
+    registration: '2020100001',
+    getActivities: jest.fn(async () => [...activities])
+  } as unknown as StudentBond;
+
+  const watcher = new SigaaWatcher(bond, {
+    resources: ['activity'],
+    interval: 10
+  });
+  watcher.on('error', () => undefined);
+  watcher.start();
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  activities.push({
+    type: 'homework',
+    homeworkTitle: 'Lista 2',
+    courseTitle: 'CÁLCULO I',
+    date: new Date(2021, 2, 27)
+  });
+  const activity = await new Promise((resolve) =>
+    watcher.once('activity', resolve)
+  );
+  watcher.close();
+  expect(activity).toMatchObject({ homeworkTitle: 'Lista 2' });
+  expect(bond.getActivities).toHaveBeenCalledTimes(2);
+});
+
+test('if watcher only polls after start with an error listener', async () => {
+  const bond = createExpiredBond();
+  const watcher = new SigaaWatcher(bond, {
+    resources: ['activity'],
+    interval: 10
+  });
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  expect(bond.getActivities).not.toHaveBeenCalled();
+  expect(() => watcher.start()).toThrow(SigaaError);
+  watcher.close();
+});
+
+test('if watcher logins again after the session expires', async () => {
+  const expiredBond = createExpiredBond();
+  const newBond = {
+    type: 'student',
+    registration: '2020100001',
+    getActivities: jest.fn(async () => [])
+  } as unknown as StudentBond;
+  const login = jest.fn(async () => createAccount([newBond]));
+
+  const watcher = new SigaaWatcher(expiredBond, {
+    resources: ['activity'],
+    interval: 10,
+    login
+  });
+  watcher.on('error', () => undefined);
+  watcher.start();
+  await new Promise((resolve) => watcher.once('relogin', resolve));
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  watcher.close();
+  expect(login).toHaveBeenCalledTimes(1);
+  expect(newBond.getActivities).toHaveBeenCalled();
+});
+
+test('if watcher emits the error of the login after the session expires', async () => {
+  const login = jest.fn(async () => createAccount([]));
+  const watcher = new SigaaWatcher(createExpiredBond(), {
+    resources: ['activity'],
+    interval: 10,
+    login
+  });
+  const error = new Promise((resolve) =>
+    watcher.on('error', (err, resource) => resolve({ err, resource }))
+  );
+  watcher.start();
+  expect(await error).toEqual({
+    err: new SigaaError('SIGAA: Bond 2020100001 not found after the login.'),
+    resource: 'activity'
+  });
+  watcher.close();
+});